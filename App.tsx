@@ -3,12 +3,38 @@ import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react'
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { renderToStaticMarkup } from 'react-dom/server.browser';
-import { GameState, Actor, Language, Quest, HistoryEntry, GameSettings, UserRecord, UserTier, CompanionUpdate, KnownNpcUpdate, PlayerCreationResult, ModelProvider, SpecialAttr, Skill, SkillSet, SpecialSet, TokenUsage, StatusChange, StatusTrack, StatusSnapshot, StatusChangeEntry, InventoryItem, InventoryChange, PlayerChange, ArenaState, PipelineMode, EventOutcome, EventNarrationResponse, InterfaceColor, SavedStatusSnapshot, Perk } from './types';
+import { GameState, Actor, Language, Quest, HistoryEntry, GameSettings, UserRecord, UserTier, CompanionUpdate, KnownNpcUpdate, PlayerCreationResult, ModelProvider, SpecialAttr, Skill, SkillSet, SpecialSet, TokenUsage, StatusChange, StatusTrack, StatusSnapshot, StatusChangeEntry, InventoryItem, InventoryChange, PlayerChange, ArenaState, PipelineMode, ModelStage, StageModelRoute, StageModelFallback, RetryPolicy, UsageBudget, UsageCategory, EventOutcome, EventNarrationResponse, InterfaceColor, SavedStatusSnapshot, Perk, CombatState, BodyPart, AmmoUsage, LevelUpRecord, WeaponStats, ArmorStats, EquipSlot, EquippedItems, FactionReputation } from './types';
 import { DEFAULT_SPECIAL, FALLOUT_ERA_STARTS } from './constants';
 import { formatYear, localizeLocation } from './localization';
+import { formatSkillCheck, resolveSkillCheck } from './skillCheck';
+import { enforceCarryLimit, formatEncumbranceNote, getEncumbrance } from './carryWeight';
+import { addXp, buildLevelUpChange, computeCombatRoundXp, computeEventXp, formatXpNote, getLevel, getPendingLevelUps, getPerkChoices, normalizePerkOffer } from './leveling';
+import { addSurvivalDecay, applySurvivalChange, applySurvivalPenalties, hasSurvivalDelta, stripSurvivalDelta } from './survival';
+import { acceptStatusViolations, buildAcceptedCorrection, formatValidationNote, rejectStatusViolations, validateStatusChange } from './statusValidator';
+import { computeTravelMinutes, findMapLocation, formatFastTravelAction, parseFastTravelAction, registerLocation, resolveMapRegion, updateLocationNotes } from './worldMap';
+import { applyFactionChanges, formatFactionNote } from './factions';
+import { applyAffinityChange, formatAffinityNote, resolveAffinityThresholds } from './affinity';
+import { CompanionCommand, buildCompanionCommandChange, withoutWaitingCompanions } from './companions';
+import { NpcDossierDraft, buildDossierEdit } from './npcDossier';
+import { applyNpcMerge, getNpcNames, matchesNpcName } from './npcMerge';
+import { MODEL_STAGES, getStageHint, getStageLabel, getStageRouteList, isModelStage, normalizeStageModels } from './modelStages';
+import { appendLedgerEntry, createLedgerEntry, formatPriceTable, getBudgetBlock, normalizePriceTable, normalizeUsageLedger, parsePriceTable } from './usageLedger';
+import { ModelAttemptEvent, ModelErrorKind, RETRY_ATTEMPT_LIMIT, RETRY_BACKOFF_LIMIT_MS, normalizeRetryPolicy, runWithFailover } from './modelRetry';
+import { buildCraftChange, formatCraftNote, getAvailableRecipes, getRecipe } from './crafting';
+import { appendQuestLog, getActiveQuestsForNarrator, getTrackedQuest, mergeQuestSteps, normalizeQuestRewards, normalizeQuestSteps, stripQuestLog } from './quests';
+import { buildUseItemChange, formatUseItemAction, isUsableItem, parseUseItemAction, stripAppliedItemUse } from './consumables';
+import { addStatusEffects, applyStatusEffects, formatStatusEffectNote, removeStatusEffects, rollWithdrawals, tickStatusEffects } from './statusEffects';
+import { BarterSelection, buildBarterExchange, formatBarterAction, getBarterProblem, isBarterAction, stripSettledTrade } from './barter';
+import { buildCombatStatusChange, endCombatRound, formatAmmoNote, formatCombatEngageNote, formatCombatRoundLog, isActorDown, labelCombatEnemies, resolveAmmoUsage, resolvePlayerAttack, startCombat } from './combat';
 import Terminal from './components/Terminal';
 import StatBar from './components/StatBar';
-import { createPlayerCharacter, getNarrativeResponse, getArenaNarration, getStatusUpdate, getEventOutcome, getEventNarration, auditInventoryWeights, recoverInventoryStatus, generateSceneImage, generateArenaAvatar, generateCompanionAvatar, compressMemory } from './services/modelService';
+import CombatPanel from './components/CombatPanel';
+import LevelUpModal from './components/LevelUpModal';
+import BarterModal from './components/BarterModal';
+import CraftingModal from './components/CraftingModal';
+import NpcDossierModal from './components/NpcDossierModal';
+import RuleReviewPanel from './components/RuleReviewPanel';
+import { createPlayerCharacter, getNarrativeResponse, getArenaNarration, getStatusUpdate, getEventOutcome, getEventNarration, auditInventoryWeights, recoverInventoryStatus, generateSceneImage, generateArenaAvatar, generateCompanionAvatar, compressMemory, getQuestRecap, getPerkOffer, listProviderModels, providerRequiresApiKey, providerSupportsImages } from './services/modelService';
 import { SaveRepository, WebBackend, FSBackend, DEFAULT_LOCAL_HISTORY_LIMIT, getStorageHistoryLimit } from './save';
 import { clearFsHandle, loadFsHandle, saveFsHandle } from './save/handleStore';
 import wechatQr from './assets/wech.png';
@@ -74,8 +100,17 @@ const MODEL_PROVIDER_OPTIONS: { value: ModelProvider; label: string }[] = [
   { value: 'grok', label: 'Grok' },
   { value: 'gemini', label: 'Gemini' },
   { value: 'claude', label: 'Claude' },
-  { value: 'doubao', label: 'Doubao' }
+  { value: 'doubao', label: 'Doubao' },
+  { value: 'local', label: 'Local (OpenAI-compatible)' }
 ];
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+
+const getProviderLabel = (provider: ModelProvider) =>
+  MODEL_PROVIDER_OPTIONS.find(option => option.value === provider)?.label || provider;
+
+// A self-hosted provider runs without a key, so it counts as configured (and unlocked) without one.
+const hasProviderKey = (provider: ModelProvider, key: string | undefined) =>
+  !providerRequiresApiKey(provider) || !!key;
 
 const syncApState = (
   ap: number,
@@ -589,21 +624,93 @@ const clampSkillSet = (skills: SkillSet): SkillSet => {
   return clamped;
 };
 
+// Strict schemas force every item to carry both sub-records, so zeroed stats mean "not applicable".
+const normalizeWeaponStats = (stats: unknown): WeaponStats | undefined => {
+  if (!stats || typeof stats !== 'object') return undefined;
+  const raw = stats as Partial<WeaponStats>;
+  const damage = Number.isFinite(raw.damage) ? Math.max(0, raw.damage as number) : 0;
+  const ammoType = typeof raw.ammoType === 'string' ? raw.ammoType.trim() : '';
+  if (damage <= 0 && !ammoType) return undefined;
+  const condition = Number.isFinite(raw.condition) ? clampNumber(raw.condition as number, 0, 100) : 100;
+  return { damage, ammoType, condition };
+};
+
+const normalizeArmorStats = (stats: unknown): ArmorStats | undefined => {
+  if (!stats || typeof stats !== 'object') return undefined;
+  const raw = stats as Partial<ArmorStats>;
+  const damageResistance = Number.isFinite(raw.damageResistance) ? Math.max(0, raw.damageResistance as number) : 0;
+  if (damageResistance <= 0) return undefined;
+  const condition = Number.isFinite(raw.condition) ? clampNumber(raw.condition as number, 0, 100) : 100;
+  return { damageResistance, slot: raw.slot === 'head' ? 'head' : 'body', condition };
+};
+
 const normalizeInventoryItem = (item: InventoryItem): InventoryItem | null => {
   if (!item || typeof item !== 'object') return null;
   const count = Number.isFinite(item.count) ? Math.max(0, Math.floor(item.count)) : 1;
   if (count <= 0) return null;
   const weight = Number.isFinite(item.weight) ? item.weight : 0;
   const value = Number.isFinite(item.value) ? item.value : 0;
+  const { weaponStats: rawWeaponStats, armorStats: rawArmorStats, ...rest } = item;
+  const weaponStats = item.type === 'Weapon' ? normalizeWeaponStats(rawWeaponStats) : undefined;
+  const armorStats = item.type === 'Armor' ? normalizeArmorStats(rawArmorStats) : undefined;
   return {
-    ...item,
+    ...rest,
     weight,
     value,
     count,
-    isConsumable: typeof item.isConsumable === 'boolean' ? item.isConsumable : false
+    isConsumable: typeof item.isConsumable === 'boolean' ? item.isConsumable : false,
+    ...(weaponStats ? { weaponStats } : {}),
+    ...(armorStats ? { armorStats } : {})
   };
 };
 
+const EQUIP_SLOTS: EquipSlot[] = ['weapon', 'body', 'head'];
+
+const getEquipSlot = (item: InventoryItem): EquipSlot | null => {
+  if (item.type === 'Weapon') return 'weapon';
+  if (item.type === 'Armor') return item.armorStats?.slot === 'head' ? 'head' : 'body';
+  return null;
+};
+
+// Drops slots whose item is no longer carried or no longer fits the slot.
+const normalizeEquipped = (equipped: unknown, inventory: InventoryItem[]): EquippedItems => {
+  const next: EquippedItems = {};
+  if (!equipped || typeof equipped !== 'object') return next;
+  EQUIP_SLOTS.forEach(slot => {
+    const name = (equipped as EquippedItems)[slot];
+    if (typeof name !== 'string' || !name.trim()) return;
+    const item = inventory.find(entry => normalizeKey(entry.name) === normalizeKey(name));
+    if (item && getEquipSlot(item) === slot) {
+      next[slot] = item.name;
+    }
+  });
+  return next;
+};
+
+const buildEquipToggleChange = (player: Actor, itemName: string): PlayerChange | null => {
+  const item = player.inventory.find(entry => entry.name === itemName);
+  if (!item) return null;
+  const slot = getEquipSlot(item);
+  if (!slot) return null;
+  const current = player.equipped?.[slot];
+  return { equipped: { [slot]: current === item.name ? '' : item.name } };
+};
+
+// The companion side of an equip toggle; the whole loadout is sent because NPC updates replace it.
+const buildCompanionEquipUpdate = (companion: Actor, itemName: string): KnownNpcUpdate | null => {
+  const item = companion.inventory.find(entry => entry.name === itemName);
+  if (!item) return null;
+  const slot = getEquipSlot(item);
+  if (!slot) return null;
+  const equipped: EquippedItems = { ...companion.equipped };
+  if (equipped[slot] === item.name) {
+    delete equipped[slot];
+  } else {
+    equipped[slot] = item.name;
+  }
+  return { name: companion.name, equipped };
+};
+
 const normalizeInventory = (items: InventoryItem[] | undefined) => {
   if (!Array.isArray(items)) return [];
   return items
@@ -647,6 +754,8 @@ const applyInventoryChange = (items: InventoryItem[], change?: InventoryChange |
     if (index >= 0) {
       const existing = next[index];
       const nextCount = existing.count + normalizedItem.count;
+      const weaponStats = normalizedItem.weaponStats ?? existing.weaponStats;
+      const armorStats = normalizedItem.armorStats ?? existing.armorStats;
       next[index] = {
         ...existing,
         count: nextCount,
@@ -654,7 +763,9 @@ const applyInventoryChange = (items: InventoryItem[], change?: InventoryChange |
         type: normalizedItem.type || existing.type,
         weight: Number.isFinite(normalizedItem.weight) ? normalizedItem.weight : existing.weight,
         value: Number.isFinite(normalizedItem.value) ? normalizedItem.value : existing.value,
-        isConsumable: typeof normalizedItem.isConsumable === 'boolean' ? normalizedItem.isConsumable : existing.isConsumable
+        isConsumable: typeof normalizedItem.isConsumable === 'boolean' ? normalizedItem.isConsumable : existing.isConsumable,
+        ...(weaponStats ? { weaponStats } : {}),
+        ...(armorStats ? { armorStats } : {})
       };
     } else {
       next.push(normalizedItem);
@@ -731,10 +842,24 @@ const applyPlayerChange = (base: Actor, change?: PlayerChange | null) => {
     });
     next.skills = updatedSkills;
   }
+  if (Number.isFinite(change.xp)) {
+    next.xp = Math.max(0, (Number.isFinite(next.xp) ? next.xp as number : 0) + (change.xp as number));
+  }
+  if (Number.isFinite(change.level)) {
+    next.level = Math.max(1, (Number.isFinite(next.level) ? next.level as number : 1) + (change.level as number));
+  }
+  const survival = applySurvivalChange(next, change);
+  if (survival) {
+    next.survival = survival;
+  }
   next.perks = applyPerkDelta(next.perks, change.perksAdd, change.perksRemove);
+  next.statusEffects = addStatusEffects(removeStatusEffects(next.statusEffects, change.statusEffectsRemove), change.statusEffectsAdd);
   if (change.inventoryChange) {
     next.inventory = applyInventoryChange(next.inventory, change.inventoryChange);
   }
+  if (change.equipped && typeof change.equipped === 'object') {
+    next.equipped = { ...next.equipped, ...change.equipped };
+  }
   const normalized = normalizeActor(next);
   return {
     ...normalized,
@@ -749,7 +874,8 @@ const buildStatusSnapshot = (
   knownNpcs: Actor[],
   location: string,
   currentYear: number,
-  currentTime: string
+  currentTime: string,
+  factionReputation?: FactionReputation
 ): StatusSnapshot => ({
   player: normalizeActor({
     ...player,
@@ -768,7 +894,8 @@ const buildStatusSnapshot = (
   })),
   location,
   currentYear,
-  currentTime
+  currentTime,
+  factionReputation: { ...factionReputation }
 });
 
 const getNarrationEntries = (history: HistoryEntry[]) =>
@@ -776,6 +903,20 @@ const getNarrationEntries = (history: HistoryEntry[]) =>
 
 const countNarrations = (history: HistoryEntry[]) => getNarrationEntries(history).length;
 
+// The player action each narration answered, in narration order; empty when it was compressed away.
+const getNarrationActions = (history: HistoryEntry[]) => {
+  let action = '';
+  return history.reduce((actions, entry) => {
+    if (entry.sender === 'player') {
+      action = entry.text;
+    } else if (entry.meta !== 'memory') {
+      actions.push(action);
+      action = '';
+    }
+    return actions;
+  }, [] as string[]);
+};
+
 const getPendingPlayerAction = (history: HistoryEntry[]) => {
   if (history.length === 0) return null;
   const last = history[history.length - 1];
@@ -794,59 +935,69 @@ const rebuildInventoryFromStatusTrack = (track: StatusTrack) => {
   return inventory;
 };
 
-const rebuildStatusFromTrack = (track: StatusTrack) => {
-  const initialKnownNpcs = normalizeKnownNpcList(track.initial_status.knownNpcs).cleaned;
-  let player = normalizeActor(track.initial_status.player);
-  let quests = Array.isArray(track.initial_status.quests) ? track.initial_status.quests : [];
-  let knownNpcs: Actor[] = initialKnownNpcs.map(withCompanionFlag);
-  let location = typeof track.initial_status.location === 'string' ? track.initial_status.location : '';
-  let currentYear = typeof track.initial_status.currentYear === 'number'
+const getInitialSnapshot = (track: StatusTrack): StatusSnapshot => ({
+  player: normalizeActor(track.initial_status.player),
+  quests: Array.isArray(track.initial_status.quests) ? track.initial_status.quests : [],
+  knownNpcs: normalizeKnownNpcList(track.initial_status.knownNpcs).cleaned.map(withCompanionFlag),
+  location: typeof track.initial_status.location === 'string' ? track.initial_status.location : '',
+  currentYear: typeof track.initial_status.currentYear === 'number'
     ? Math.trunc(track.initial_status.currentYear)
-    : 0;
-  let currentTime = typeof track.initial_status.currentTime === 'string' ? track.initial_status.currentTime : '';
-  const changes = Array.isArray(track.status_change) ? [...track.status_change] : [];
-  changes.sort((a, b) => a.narration_index - b.narration_index);
-  changes.forEach(change => {
-    if (change.playerChange) {
-      player = applyPlayerChange(player, change.playerChange);
-    }
-    if (change.questUpdates) {
-      const result = applyQuestUpdates(quests, change.questUpdates);
-      quests = result.merged;
-    }
-    let nextKnownNpcs: Actor[] = knownNpcs;
-    const newNpcList = normalizeNewNpcList(change.newNpc);
-    newNpcList.forEach(npc => {
-      if (npc) {
-        nextKnownNpcs = upsertNpc(nextKnownNpcs, npc);
-      }
-    });
-    const knownNpcUpdates = normalizeKnownNpcUpdates(change.knownNpcsUpdates);
-    nextKnownNpcs = applyKnownNpcUpdates(nextKnownNpcs, knownNpcUpdates);
-    if (change.companionUpdates) {
-      nextKnownNpcs = applyCompanionUpdates(nextKnownNpcs, change.companionUpdates);
-    }
-    knownNpcs = nextKnownNpcs.map(npc => normalizeActor(npc));
-    if (typeof change.location === 'string' && change.location.trim()) {
-      location = change.location.trim();
-    }
-    if (typeof change.currentYear === 'number' && Number.isFinite(change.currentYear)) {
-      currentYear = Math.trunc(change.currentYear);
-    }
-    if (typeof change.currentTime === 'string' && change.currentTime.trim()) {
-      currentTime = change.currentTime.trim();
+    : 0,
+  currentTime: typeof track.initial_status.currentTime === 'string' ? track.initial_status.currentTime : '',
+  factionReputation: { ...track.initial_status.factionReputation }
+});
+
+const applyTrackChange = (status: StatusSnapshot, change: StatusChange): StatusSnapshot => {
+  let player = tickStatusEffects(status.player, change.timePassedMinutes || 0).actor;
+  if (change.playerChange) {
+    player = applyPlayerChange(player, change.playerChange);
+  }
+  const currentTime = typeof change.currentTime === 'string' && change.currentTime.trim()
+    ? change.currentTime.trim()
+    : status.currentTime;
+  let quests = change.questUpdates
+    ? applyQuestUpdates(status.quests, change.questUpdates, currentTime).merged
+    : status.quests;
+  let nextKnownNpcs: Actor[] = status.knownNpcs;
+  const newNpcList = normalizeNewNpcList(change.newNpc);
+  newNpcList.forEach(npc => {
+    if (npc) {
+      nextKnownNpcs = upsertNpc(nextKnownNpcs, npc);
     }
   });
+  const knownNpcUpdates = normalizeKnownNpcUpdates(change.knownNpcsUpdates);
+  nextKnownNpcs = applyKnownNpcUpdates(nextKnownNpcs, knownNpcUpdates, currentTime);
+  if (change.companionUpdates) {
+    nextKnownNpcs = applyCompanionUpdates(nextKnownNpcs, change.companionUpdates);
+  }
+  let knownNpcs = nextKnownNpcs.map(npc => normalizeActor(npc));
+  if (change.npcMerge) {
+    ({ knownNpcs, quests } = applyNpcMerge(knownNpcs, quests, change.npcMerge));
+  }
   return {
     player,
     quests,
     knownNpcs,
-    location,
-    currentYear,
-    currentTime
+    location: typeof change.location === 'string' && change.location.trim() ? change.location.trim() : status.location,
+    currentYear: typeof change.currentYear === 'number' && Number.isFinite(change.currentYear)
+      ? Math.trunc(change.currentYear)
+      : status.currentYear,
+    currentTime,
+    factionReputation: applyFactionChanges(status.factionReputation, change.factionChanges)
   };
 };
 
+const rebuildStatusFromTrack = (track: StatusTrack) => {
+  const changes = Array.isArray(track.status_change) ? [...track.status_change] : [];
+  changes.sort((a, b) => a.narration_index - b.narration_index);
+  const status = changes.reduce(applyTrackChange, getInitialSnapshot(track));
+  return { ...status, factionReputation: status.factionReputation || {} };
+};
+
+// Entries the status manager never produced. Older saves only mark these by their records, not the flag.
+const isLocallySettled = (entry: StatusChangeEntry) =>
+  !!(entry.settledLocally || entry.userAuthored || entry.levelUp || entry.craft || entry.combatRound);
+
 const mergeInventoryWeights = (base: InventoryItem[], audited: InventoryItem[]) => {
   const weightMap = new Map<string, number>();
   audited.forEach(item => {
@@ -882,6 +1033,13 @@ const getRawOutputFromError = (err: unknown) => {
   return '';
 };
 
+// Set by the model service when a reply was billed but failed to parse.
+const getTokenUsageFromError = (err: unknown) => {
+  if (!err || typeof err !== 'object' || !('tokenUsage' in err)) return null;
+  const usage = (err as { tokenUsage?: unknown }).tokenUsage;
+  return usage && typeof usage === 'object' ? usage as TokenUsage : null;
+};
+
 const getDefaultUserPrompt = (language: Language) =>
   language === 'zh' ? DEFAULT_USER_PROMPT_ZH : DEFAULT_USER_PROMPT_EN;
 
@@ -1090,9 +1248,126 @@ const isPlayerChangeEmpty = (change?: PlayerChange | null) => {
   if (inventoryChange && (hasNonEmptyArray(inventoryChange.add) || hasNonEmptyArray(inventoryChange.remove))) {
     return false;
   }
+  if (change.equipped && Object.keys(change.equipped).length > 0) return false;
+  if (hasNonEmptyArray(change.statusEffectsAdd)) return false;
+  if (hasNonEmptyArray(change.statusEffectsRemove)) return false;
+  if (hasSurvivalDelta(change)) return false;
+  if (hasMeaningfulNumber(change.xp) || hasMeaningfulNumber(change.level)) return false;
   return true;
 };
 
+// Survival mode folds passive decay into the recorded change; with it off, survival deltas are dropped entirely.
+const applySurvivalRules = <T extends StatusChange>(change: T, minutes: number, enabled: boolean): T => {
+  const playerChange = enabled
+    ? addSurvivalDecay(change.playerChange, minutes)
+    : stripSurvivalDelta(change.playerChange);
+  return playerChange === change.playerChange ? change : { ...change, playerChange };
+};
+
+type FastTravel = ReturnType<typeof parseFastTravelAction>;
+
+// Fast travel pins the destination and the travel time measured on the map, whatever the models said.
+const applyFastTravel = <T extends StatusChange>(change: T, travel: FastTravel): T => {
+  if (!travel?.destination) return change;
+  const { currentTime: _currentTime, ...rest } = change;
+  return { ...rest, location: travel.destination.name, timePassedMinutes: travel.minutes } as T;
+};
+
+// Barter turns were settled before narration; the status manager only narrates them.
+const applySettledTrade = <T extends StatusChange>(change: T, barterTurn: boolean): T =>
+  (barterTurn ? stripSettledTrade(change) : change);
+
+/**
+ * Effects already running tick down before this turn's change lands, so new ones keep their full
+ * duration. Withdrawal rolls are written into the change itself so a rebuild from the track replays them.
+ */
+const advanceStatusEffects = (player: Actor, change: StatusChange, minutes: number, isZh: boolean) => {
+  const { actor, expired } = tickStatusEffects(player, minutes);
+  const withdrawals = rollWithdrawals(expired, isZh);
+  if (withdrawals.length > 0) {
+    change.playerChange = {
+      ...change.playerChange,
+      statusEffectsAdd: [...(change.playerChange?.statusEffectsAdd || []), ...withdrawals]
+    };
+  }
+  return { player: actor, note: formatStatusEffectNote(expired, withdrawals, isZh) };
+};
+
+// Turns of history sent along with a "where was I?" recap.
+const QUEST_RECAP_HISTORY = 8;
+
+// Writes threshold consequences into the change itself so the status track replays them as-is.
+const settleAffinityThresholds = (player: Actor, knownNpcs: Actor[], change: StatusChange, isZh: boolean) => {
+  const thresholds = resolveAffinityThresholds(change, knownNpcs, player, isZh);
+  if (thresholds.perksAdd.length > 0) {
+    change.playerChange = {
+      ...change.playerChange,
+      perksAdd: [...(change.playerChange?.perksAdd || []), ...thresholds.perksAdd]
+    };
+  }
+  if (thresholds.departures.length > 0) {
+    const leaving = new Set(thresholds.departures.map(entry => entry.name));
+    change.companionUpdates = [
+      ...(change.companionUpdates || []).filter(entry => !leaving.has(entry.name)),
+      ...thresholds.departures
+    ];
+  }
+  return thresholds;
+};
+
+const applyUsedItem = <T extends StatusChange>(change: T, usedItem: string | null): T =>
+  (usedItem ? stripAppliedItemUse(change, usedItem) : change);
+
+const getMapRegion = (state: GameState) =>
+  resolveMapRegion(state.status_track?.initial_status?.location, state.currentYear);
+
+// Saves from before the map existed register the place they were left in on the next turn.
+const trackLocations = (state: GameState, nextLocation: string, nextTime: string) => {
+  const region = getMapRegion(state);
+  const withCurrent = registerLocation(state.locations, state.location, { region, discoveredAt: state.currentTime });
+  return registerLocation(withCurrent, nextLocation, { region, discoveredAt: nextTime, from: state.location });
+};
+
+// Local rolls use SPECIAL after survival penalties.
+const getEffectivePlayer = (player: Actor, settings: GameSettings) =>
+  applyStatusEffects(settings.survivalMode ? applySurvivalPenalties(player) : player);
+
+// Spent rounds are deducted locally; any ammo removal the Status Manager guessed for the same stack is dropped.
+const applyAmmoUsage = <T extends StatusChange>(change: T, usage: AmmoUsage | null): T => {
+  if (!usage) return change;
+  const playerChange = change.playerChange || {};
+  const ammoKey = normalizeKey(usage.ammoType);
+  const remove = (playerChange.inventoryChange?.remove || []).filter(entry => normalizeKey(entry?.name || '') !== ammoKey);
+  if (usage.spent > 0) {
+    remove.push({ name: usage.ammoType, count: usage.spent });
+  }
+  return {
+    ...change,
+    ammoUsage: usage,
+    playerChange: {
+      ...playerChange,
+      inventoryChange: { add: playerChange.inventoryChange?.add || [], remove }
+    }
+  };
+};
+
+// Drops picked-up items that would push the player past the hard carry cap, which follows
+// Strength after chems, buffs and survival penalties.
+const applyCarryLimit = <T extends StatusChange>(
+  player: Actor,
+  settings: GameSettings,
+  change: T
+): { change: T; rejected: InventoryItem[] } => {
+  const playerChange = change.playerChange;
+  if (!playerChange?.inventoryChange) return { change, rejected: [] };
+  const { inventoryChange, rejected } = enforceCarryLimit(getEffectivePlayer(player, settings), playerChange.inventoryChange);
+  if (rejected.length === 0) return { change, rejected };
+  return {
+    change: { ...change, playerChange: { ...playerChange, inventoryChange: inventoryChange || undefined } },
+    rejected
+  };
+};
+
 const mergeEventOutcomeWithStatusUpdate = (
   eventOutcome: EventOutcome,
   statusUpdate?: StatusChange | null
@@ -1117,6 +1392,12 @@ const mergeEventOutcomeWithStatusUpdate = (
   if (hasNonEmptyArray(statusUpdate.knownNpcsUpdates)) {
     merged.knownNpcsUpdates = statusUpdate.knownNpcsUpdates;
   }
+  if (hasNonEmptyArray(statusUpdate.hostileNpcs)) {
+    merged.hostileNpcs = statusUpdate.hostileNpcs;
+  }
+  if (hasNonEmptyArray(statusUpdate.factionChanges)) {
+    merged.factionChanges = statusUpdate.factionChanges;
+  }
   if (hasNonEmptyString(statusUpdate.location)) {
     merged.location = statusUpdate.location;
   }
@@ -1129,6 +1410,18 @@ const mergeEventOutcomeWithStatusUpdate = (
   return merged;
 };
 
+// Only the latest narrated turn can still be reviewed; older pending corrections simply stay applied.
+const getPendingValidationIndex = (state: GameState) => {
+  const changes = state.status_track?.status_change || [];
+  const narrationIndex = countNarrations(state.history);
+  for (let index = changes.length - 1; index >= 0; index -= 1) {
+    const entry = changes[index];
+    if (entry.narration_index !== narrationIndex) return -1;
+    if (entry.validation?.decision === 'pending') return index;
+  }
+  return -1;
+};
+
 const buildCompressionPayload = (state: GameState, limit: number) => {
   const nonMemory = state.history.filter(item => item.meta !== 'memory' && !isErrorHistoryEntry(item));
   const recentHistory = nonMemory.slice(-limit);
@@ -1168,6 +1461,9 @@ const normalizeProviderSettings = (settings: GameSettings): GameSettings => {
     userSystemPromptCustom: settings.userSystemPromptCustom ?? false,
     imageUserSystemPrompt: settings.imageUserSystemPrompt ?? '',
     pipelineMode: settings.pipelineMode ?? 'event',
+    stageModels: normalizeStageModels(settings.stageModels),
+    retryPolicy: normalizeRetryPolicy(settings.retryPolicy),
+    priceTable: normalizePriceTable(settings.priceTable),
     autoSaveEnabled: settings.autoSaveEnabled ?? false,
     textScale,
     interfaceColor
@@ -1260,16 +1556,23 @@ const normalizeQuestUpdate = (update: any): Quest | null => {
   const hiddenProgress = typeof update.hiddenProgress === 'string'
     ? update.hiddenProgress
     : (typeof update.notes === 'string' ? update.notes : '');
-  return {
+  const quest: Quest = {
     id,
     name,
     objective,
     status,
     hiddenProgress
   };
+  const steps = normalizeQuestSteps(update.steps);
+  if (steps.length > 0) quest.steps = steps;
+  if (typeof update.giver === 'string' && update.giver.trim()) quest.giver = update.giver.trim();
+  const rewards = normalizeQuestRewards(update.rewards);
+  if (rewards.length > 0) quest.rewards = rewards;
+  return quest;
 };
 
-const applyQuestUpdates = (base: Quest[], updates?: Quest[]) => {
+// `time` stamps the journal entries written for this batch of updates.
+const applyQuestUpdates = (base: Quest[], updates: Quest[] | undefined, time: string) => {
   const merged = [...base];
   const completedNotes: string[] = [];
   if (!updates || updates.length === 0) return { merged, completedNotes };
@@ -1282,15 +1585,18 @@ const applyQuestUpdates = (base: Quest[], updates?: Quest[]) => {
       if (normalized.status === 'completed' && oldQuest.status === 'active') {
         completedNotes.push(`[QUEST FINISHED: ${normalized.name}]\n${normalized.hiddenProgress}`);
       }
-      merged[index] = {
+      merged[index] = appendQuestLog({
         ...oldQuest,
         ...normalized,
         name: normalized.name || oldQuest.name,
         objective: normalized.objective || oldQuest.objective,
-        hiddenProgress: normalized.hiddenProgress || oldQuest.hiddenProgress
-      };
+        hiddenProgress: normalized.hiddenProgress || oldQuest.hiddenProgress,
+        steps: mergeQuestSteps(oldQuest.steps, normalized.steps),
+        giver: normalized.giver || oldQuest.giver,
+        rewards: normalized.rewards || oldQuest.rewards
+      }, oldQuest, time);
     } else {
-      merged.push(normalized);
+      merged.push(appendQuestLog(normalized, null, time));
     }
   });
   return { merged, completedNotes };
@@ -1644,13 +1950,15 @@ const mergeUsersDb = (
 
 const normalizeActor = (actor: Actor): Actor => {
   const nextSpecial = normalizeSpecial(actor.special);
+  const inventory = normalizeInventory(actor.inventory);
   return {
     ...actor,
     appearance: typeof actor.appearance === 'string' ? actor.appearance.trim() : '',
     special: nextSpecial,
     skills: normalizeSkills(actor.skills, nextSpecial, true),
     perks: Array.isArray(actor.perks) ? actor.perks : [],
-    inventory: normalizeInventory(actor.inventory)
+    inventory,
+    ...(actor.equipped ? { equipped: normalizeEquipped(actor.equipped, inventory) } : {})
   };
 };
 
@@ -1659,17 +1967,25 @@ const stripAvatarUrl = <T extends { avatarUrl?: string }>(actor: T) => {
   return rest;
 };
 
-const sanitizeActorForLlm = (actor: Actor | null) =>
-  (actor ? stripAvatarUrl(actor) : actor);
+const sanitizeActorForLlm = (actor: Actor | null, survivalMode = true) => {
+  if (!actor) return actor;
+  const stripped = stripAvatarUrl(actor);
+  if (survivalMode || !stripped.survival) return stripped;
+  const { survival: _survival, ...rest } = stripped;
+  return rest;
+};
 
+// Affinity history is for the player; models only get the current score.
 const sanitizeKnownNpcsForLlm = (list: Actor[]) =>
-  list.map(stripAvatarUrl);
+  list.map(({ affinityLog: _affinityLog, ...npc }) => stripAvatarUrl(npc));
 
+// Companions left waiting elsewhere are not in the scene, so narration never sees them.
 const sanitizeKnownNpcsForNarration = (list: Actor[]) =>
-  list.map(({ inventory: _inventory, avatarUrl: _avatarUrl, ...rest }) => rest);
+  withoutWaitingCompanions(list).map(({ inventory: _inventory, avatarUrl: _avatarUrl, affinityLog: _affinityLog, ...rest }) => rest);
 
 const sanitizeStatusChangeForLlm = (change: EventOutcome & StatusChange) => {
-  const sanitized: EventOutcome & StatusChange = { ...change };
+  const { validation, ...rest } = change;
+  const sanitized: EventOutcome & StatusChange = rest;
   if (Array.isArray(change.newNpc)) {
     sanitized.newNpc = change.newNpc.map(stripAvatarUrl);
   }
@@ -1679,6 +1995,46 @@ const sanitizeStatusChangeForLlm = (change: EventOutcome & StatusChange) => {
   return sanitized;
 };
 
+const buildCombatEnemy = (name: string): Actor => normalizeActor({
+  name,
+  age: 0,
+  gender: '',
+  faction: '',
+  special: { ...DEFAULT_SPECIAL },
+  skills: {},
+  perks: [],
+  inventory: [],
+  lore: '',
+  health: 30,
+  maxHealth: 30,
+  karma: 0,
+  caps: 0
+});
+
+// Enters V.A.T.S. mode when the status manager reports hostiles; an ongoing fight is kept as-is.
+const resolveCombatStart = (
+  current: CombatState | null | undefined,
+  player: Actor | null,
+  hostileNpcs: unknown,
+  knownNpcs: Actor[]
+): CombatState | null => {
+  if (current) return current;
+  if (!player || !Array.isArray(hostileNpcs)) return null;
+  const names = hostileNpcs
+    .filter((name): name is string => typeof name === 'string')
+    .map(name => name.trim())
+    .filter(Boolean);
+  // A known NPC joins the fight once; a repeated generic name means several foes of that kind.
+  const enemies: Actor[] = [];
+  names.forEach(name => {
+    const known = knownNpcs.find(npc => normalizeKey(npc.name) === normalizeKey(name));
+    if (!known) enemies.push(buildCombatEnemy(name));
+    else if (!enemies.includes(known)) enemies.push(known);
+  });
+  const living = enemies.filter(enemy => !isActorDown(enemy) && !enemy.ifCompanion);
+  return living.length > 0 ? startCombat(player, living) : null;
+};
+
 const mergeActor = (base: Actor, update: Actor): Actor => {
   const nextSpecial = update.special ? normalizeSpecial(update.special) : base.special;
   const updateSkills = update.skills ? normalizeSkills(update.skills, nextSpecial, false) : {};
@@ -1703,13 +2059,15 @@ const mergeNpc = (existing: Actor, incoming: Actor): Actor => {
 };
 
 const upsertNpc = (list: Actor[], npc: Actor): Actor[] => {
-  const index = list.findIndex(entry => entry.name === npc.name);
+  const exact = list.findIndex(entry => entry.name === npc.name);
+  // A name that was merged away lands on the record it was merged into.
+  const index = exact > -1 ? exact : list.findIndex(entry => matchesNpcName(entry, npc.name));
   const nextNpc = { ...npc, ifCompanion: npc.ifCompanion ?? false };
   if (index === -1) {
     return [...list, normalizeActor(nextNpc)];
   }
   const next = [...list];
-  next[index] = mergeNpc(next[index], nextNpc);
+  next[index] = { ...mergeNpc(next[index], nextNpc), name: next[index].name };
   return next;
 };
 
@@ -1831,7 +2189,7 @@ const normalizeKnownNpcUpdates = (value: unknown): KnownNpcUpdate[] => {
   return [];
 };
 
-const applyKnownNpcUpdates = (list: Actor[], updates?: KnownNpcUpdate[]) => {
+const applyKnownNpcUpdates = (list: Actor[], updates?: KnownNpcUpdate[], time = '') => {
   if (!updates || updates.length === 0) return list;
   const updatesByKey = new Map<string, KnownNpcUpdate>();
   updates.forEach((update) => {
@@ -1842,13 +2200,16 @@ const applyKnownNpcUpdates = (list: Actor[], updates?: KnownNpcUpdate[]) => {
   });
   if (!updatesByKey.size) return list;
   return list.map((npc) => {
-    const key = normalizeKey(npc.name);
-    const update = updatesByKey.get(key);
+    const update = getNpcNames(npc)
+      .map(name => updatesByKey.get(normalizeKey(name)))
+      .find((entry): entry is KnownNpcUpdate => !!entry);
     if (!update) return npc;
     const {
       inventoryChange,
       perksAdd,
       perksRemove,
+      affinityDelta: _affinityDelta,
+      affinityReason: _affinityReason,
       ...rest
     } = update;
     const merged = mergeActor(npc, rest as Actor);
@@ -1859,13 +2220,17 @@ const applyKnownNpcUpdates = (list: Actor[], updates?: KnownNpcUpdate[]) => {
     const nextInventory = inventoryChange
       ? applyInventoryChange(merged.inventory, inventoryChange)
       : merged.inventory;
-    return {
+    // The score only moves through affinityDelta, never by overwriting it.
+    return applyAffinityChange({
       ...merged,
+      name: npc.name,
       perks: nextPerks,
       inventory: nextInventory,
       ifCompanion: update.ifCompanion ?? npc.ifCompanion,
-      avatarUrl: typeof update.avatarUrl === 'string' ? update.avatarUrl : npc.avatarUrl
-    };
+      avatarUrl: typeof update.avatarUrl === 'string' ? update.avatarUrl : npc.avatarUrl,
+      affinity: npc.affinity,
+      affinityLog: npc.affinityLog
+    }, update, time);
   });
 };
 
@@ -1909,6 +2274,32 @@ type StatusRebuildPrompt = {
 
 type StageStatus = 'idle' | 'pending' | 'running' | 'done' | 'error' | 'skipped';
 
+type StageConnection = {
+  tier: UserTier;
+  apiKey?: string;
+  proxyApiKey?: string;
+  proxyBaseUrl: string;
+  useProxy: boolean;
+  localBaseUrl: string;
+  textModel?: string;
+  provider: ModelProvider;
+};
+
+// One provider call inside a stage, listed under that stage once it took more than one try.
+type ModelAttemptRow = {
+  id: string;
+  stage: UsageCategory;
+  label: string;
+  status: StageStatus;
+};
+
+const MODEL_ERROR_LABELS: Record<ModelErrorKind, string> = {
+  rateLimit: '429',
+  server: '5xx',
+  parse: 'JSON',
+  other: 'ERR'
+};
+
 type GalleryImage = {
   imageId: string;
   historyIndex: number | null;
@@ -1956,6 +2347,8 @@ const App: React.FC = () => {
   const [narrationStage, setNarrationStage] = useState<StageStatus>('idle');
   const [statusStage, setStatusStage] = useState<StageStatus>('idle');
   const [imageStage, setImageStage] = useState<StageStatus>('idle');
+  const [modelAttempts, setModelAttempts] = useState<ModelAttemptRow[]>([]);
+  const [sessionStartedAt] = useState(() => Date.now());
   const [arenaNarrationStage, setArenaNarrationStage] = useState<StageStatus>('idle');
   const [arenaImageStage, setArenaImageStage] = useState<StageStatus>('idle');
   const [arenaAvatarStage, setArenaAvatarStage] = useState<StageStatus>('idle');
@@ -1970,6 +2363,17 @@ const App: React.FC = () => {
   const [keyAlert, setKeyAlert] = useState(false);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isLevelUpOpen, setIsLevelUpOpen] = useState(false);
+  const [isBarterOpen, setIsBarterOpen] = useState(false);
+  const [isCraftingOpen, setIsCraftingOpen] = useState(false);
+  const [isDossierOpen, setIsDossierOpen] = useState(false);
+  const [craftingNotice, setCraftingNotice] = useState<string | null>(null);
+  const [questRecap, setQuestRecap] = useState<{ questId: string; text: string; isError?: boolean } | null>(null);
+  const [questRecapPending, setQuestRecapPending] = useState(false);
+  const [perkOfferPending, setPerkOfferPending] = useState(false);
+  const [localModelList, setLocalModelList] = useState<string[]>([]);
+  const [localModelListPending, setLocalModelListPending] = useState(false);
+  const [localModelListError, setLocalModelListError] = useState<string | null>(null);
   const [isHelpOpen, setIsHelpOpen] = useState(false);
   const [isUserPromptOpen, setIsUserPromptOpen] = useState(false);
   const [isImagePromptOpen, setIsImagePromptOpen] = useState(false);
@@ -2016,22 +2420,26 @@ const App: React.FC = () => {
   const isNormal = activeTier === 'normal';
   const isGuest = activeTier === 'guest';
   const hasTextUserKey = !!currentUser?.textApiKey;
-  const hasImageUserKey = !!currentUser?.imageApiKey;
-  const hasTextProxyKey = !!currentUser?.textProxyKey;
-  const hasImageProxyKey = !!currentUser?.imageProxyKey;
   const useProxy = isNormal && !!gameState.settings.useProxy;
   const textProxyInputValue = gameState.settings.textProxyBaseUrl || gameState.settings.proxyBaseUrl || '';
   const imageProxyInputValue = gameState.settings.imageProxyBaseUrl || gameState.settings.proxyBaseUrl || '';
   const textProxyBaseUrl = normalizeProxyBaseUrl(
     textProxyInputValue
   );
+  const localBaseUrl = normalizeProxyBaseUrl(gameState.settings.localBaseUrl || '');
   const imageProxyBaseUrl = normalizeProxyBaseUrl(
     imageProxyInputValue
   );
   const textProxyMissingApiPath = useProxy && isRootProxyUrlWithoutApiPath(textProxyInputValue);
   const imageProxyMissingApiPath = useProxy && isRootProxyUrlWithoutApiPath(imageProxyInputValue);
-  const hasTextAuthKey = useProxy ? hasTextProxyKey : hasTextUserKey;
-  const hasImageAuthKey = useProxy ? hasImageProxyKey : hasImageUserKey;
+  const textProvider: ModelProvider = isGuest || isAdmin
+    ? 'gemini'
+    : (gameState.settings.textProvider || gameState.settings.modelProvider || 'gemini');
+  const imageProvider: ModelProvider = isGuest || isAdmin
+    ? 'gemini'
+    : (gameState.settings.imageProvider || gameState.settings.modelProvider || 'gemini');
+  const hasTextAuthKey = hasProviderKey(textProvider, useProxy ? currentUser?.textProxyKey : currentUser?.textApiKey);
+  const hasImageAuthKey = hasProviderKey(imageProvider, useProxy ? currentUser?.imageProxyKey : currentUser?.imageApiKey);
   const normalKeyUnlocked = isNormal && hasTextAuthKey;
   const isKeyUnlocked = isAdmin || normalKeyUnlocked;
   const apUnlimited = isKeyUnlocked;
@@ -2047,15 +2455,15 @@ const App: React.FC = () => {
   const lockedHistoryLimit = isGuest ? getHistoryLimitForTier('guest') : rawHistoryLimit;
   const historyLimit = lockedHistoryLimit === -1 ? null : Math.max(1, lockedHistoryLimit);
   const storageHistoryLimit = getStorageHistoryLimit(gameState.settings, DEFAULT_LOCAL_HISTORY_LIMIT);
-  const textProvider: ModelProvider = isGuest || isAdmin
-    ? 'gemini'
-    : (gameState.settings.textProvider || gameState.settings.modelProvider || 'gemini');
-  const imageProvider: ModelProvider = isGuest || isAdmin
-    ? 'gemini'
-    : (gameState.settings.imageProvider || gameState.settings.modelProvider || 'gemini');
   const selectedTextModel = gameState.settings.textModel?.trim() || undefined;
   const selectedImageModel = gameState.settings.imageModel?.trim() || undefined;
   const imagesEnabled = gameState.settings.imagesEnabled !== false;
+  const usesLocalProvider = textProvider === 'local'
+    || MODEL_STAGES.some(stage => {
+      const route = gameState.settings.stageModels?.[stage];
+      return route?.provider === 'local' || !!route?.fallbacks?.some(fallback => fallback.provider === 'local');
+    });
+  const retryPolicy = normalizeRetryPolicy(gameState.settings.retryPolicy);
   const effectiveTextModel = selectedTextModel;
   const effectiveImageModel = selectedImageModel;
   const isZh = gameState.language === 'zh';
@@ -2070,7 +2478,7 @@ const App: React.FC = () => {
   const statusRebuildNarrationCount = countNarrations(gameState.history);
   const canRegenerateCompanionAvatar = imagesEnabled
     && !isGuest
-    && imageProvider !== 'claude'
+    && providerSupportsImages(imageProvider)
     && !!effectiveImageModel
     && (isAdmin || hasImageAuthKey);
   const textScale = Number.isFinite(gameState.settings.textScale)
@@ -2104,42 +2512,53 @@ const App: React.FC = () => {
   const inventoryLocked = isInventoryRefreshing || !!legacyInventoryPrompt;
   const statusRebuildLocked = isStatusRebuilding || !!statusRebuildPrompt;
   const canReroll = !!lastAction && !gameState.isThinking && !compressionLocked && !inventoryLocked && !statusRebuildLocked;
-  const inputLocked = gameState.isThinking || compressionLocked || inventoryLocked || statusRebuildLocked;
+  const inputLocked = gameState.isThinking || compressionLocked || inventoryLocked || statusRebuildLocked || !!gameState.combat;
   const useEventPipeline = gameState.settings.pipelineMode === 'event';
+  const pendingValidationIndex = getPendingValidationIndex(gameState);
+  const pendingValidation = pendingValidationIndex >= 0
+    ? gameState.status_track?.status_change[pendingValidationIndex].validation || null
+    : null;
   const progressVisible = gameState.isThinking
     || eventOutcomeStage === 'error'
     || narrationStage === 'error'
     || statusStage === 'error'
     || imageStage === 'error';
+  // A stage that needed a retry or a fallback lists each attempt under its own row.
+  const withModelAttempts = (row: { label: string; status: StageStatus }, stage: ModelStage) => {
+    const attempts = modelAttempts.filter(entry => entry.stage === stage);
+    return attempts.length > 1
+      ? [row, ...attempts.map(entry => ({ label: `↳ ${entry.label}`, status: entry.status }))]
+      : [row];
+  };
   const progressStages = progressVisible
     ? (useEventPipeline
       ? [
-        {
+        ...withModelAttempts({
           label: isZh ? '事件结果' : 'Outcome',
           status: eventOutcomeStage
-        },
-        {
+        }, 'event'),
+        ...withModelAttempts({
           label: isZh ? '状态更新' : 'Status',
           status: statusStage
-        },
-        {
+        }, 'status'),
+        ...withModelAttempts({
           label: isZh ? '叙事生成' : 'Narration',
           status: narrationStage
-        },
+        }, 'narrator'),
         {
           label: isZh ? '图像生成' : 'Image',
           status: imageStage
         }
       ]
       : [
-        {
+        ...withModelAttempts({
           label: isZh ? '叙事生成' : 'Narration',
           status: narrationStage
-        },
-        {
+        }, 'narrator'),
+        ...withModelAttempts({
           label: isZh ? '状态管理' : 'Status',
           status: statusStage
-        },
+        }, 'status'),
         {
           label: isZh ? '图像生成' : 'Image',
           status: imageStage
@@ -3141,7 +3560,10 @@ const App: React.FC = () => {
       const now = Date.now();
       const proxyEnabled = currentUser.settings.useProxy && currentUser.tier === 'normal';
       const hasKey = currentUser.tier === 'normal'
-        ? (proxyEnabled ? !!currentUser.textProxyKey : !!currentUser.textApiKey)
+        ? hasProviderKey(
+          currentUser.settings?.textProvider || currentUser.settings?.modelProvider || 'gemini',
+          proxyEnabled ? currentUser.textProxyKey : currentUser.textApiKey
+        )
         : false;
       const settings = normalizeSessionSettings(
         currentUser.settings || DEFAULT_SETTINGS,
@@ -3174,6 +3596,12 @@ const App: React.FC = () => {
         apLastUpdated,
         turnCount: typeof parsed.turnCount === 'number' ? parsed.turnCount : 0,
         tokenUsage: normalizeTokenUsage(parsed?.tokenUsage),
+        usageLedger: normalizeUsageLedger(parsed?.usageLedger, {
+          stageTokenUsage: (parsed as any)?.stageTokenUsage,
+          provider: (nextSettings.textProvider || nextSettings.modelProvider || 'gemini') as ModelProvider
+        }),
+        perkOffer: normalizePerkOffer(parsed?.perkOffer, parsedPlayer),
+        ...(parsed?.combat ? { combat: { ...parsed.combat, enemies: labelCombatEnemies(parsed.combat.enemies || []) } } : {}),
         history: filteredHistory,
         compressedMemory: (typeof parsed?.compressedMemory === 'string' ? parsed.compressedMemory : legacyExtracted.memoryText) || '',
         rawOutputCache: typeof parsed?.rawOutputCache === 'string' ? parsed.rawOutputCache : '',
@@ -3291,6 +3719,7 @@ const App: React.FC = () => {
     setNarrationStage('idle');
     setStatusStage('idle');
     setImageStage('idle');
+    setModelAttempts([]);
     setStatusManagerError(null);
     setArenaNarrationStage('idle');
     setArenaImageStage('idle');
@@ -3527,31 +3956,26 @@ const App: React.FC = () => {
       return;
     }
     if (!charDescription.trim()) return;
-    setGameState(prev => ({ ...prev, isThinking: true }));
+    // A new save starts its own ledger with the creation calls.
+    setGameState(prev => ({ ...prev, isThinking: true, usageLedger: undefined }));
     setCreationStartTime(Date.now());
     setCreationElapsed(0);
     setCreationPhase(getCreationPhaseText('request', isZh));
     try {
-      const creation = await createPlayerCharacter(
+      const creation = await callStage(gameState.settings, 'creation', stageOptions => createPlayerCharacter(
         charDescription, 
         gameState.currentYear, 
         gameState.location, 
         gameState.language,
         { 
-          tier: activeTier,
-          apiKey: currentUser?.textApiKey,
-          proxyApiKey: currentUser?.textProxyKey,
-          proxyBaseUrl: textProxyBaseUrl,
-          useProxy,
-          textModel: effectiveTextModel,
-          provider: textProvider,
+          ...stageOptions,
           userSystemPrompt: gameState.settings.userSystemPrompt,
           onProgress: (message) => {
             const mapped = formatCreationProgress(message, isZh, isAdmin);
             if (mapped) setCreationPhase(mapped);
           }
         }
-      );
+      ));
 
       const { companions: initialCompanions, tokenUsage: creationUsage, ...player } = creation as PlayerCreationResult;
       const normalizedPlayer = normalizeActor(player as Actor);
@@ -3581,13 +4005,13 @@ const App: React.FC = () => {
           imageModel: effectiveImageModel,
           provider: imageProvider,
           imageUserSystemPrompt: gameState.settings.imageUserSystemPrompt
-        })))
+        }).then(logImageCall(imageProvider, effectiveImageModel))))
         : Promise.resolve([]);
       const imagePromise = allowImages
         ? generateSceneImage(
           `The ${gameState.location} landscape during the year ${gameState.currentYear}, Fallout universe aesthetic`,
-          { highQuality: gameState.settings.highQualityImages, tier: activeTier, apiKey: currentUser?.imageApiKey, proxyApiKey: currentUser?.imageProxyKey, proxyBaseUrl: imageProxyBaseUrl, textProxyBaseUrl: textProxyBaseUrl, useProxy, imageModel: effectiveImageModel, provider: imageProvider, textProvider, textApiKey: currentUser?.textApiKey, textProxyApiKey: currentUser?.textProxyKey, textModel: effectiveTextModel, imageUserSystemPrompt: gameState.settings.imageUserSystemPrompt }
-        )
+          { highQuality: gameState.settings.highQualityImages, tier: activeTier, apiKey: currentUser?.imageApiKey, proxyApiKey: currentUser?.imageProxyKey, proxyBaseUrl: imageProxyBaseUrl, textProxyBaseUrl: textProxyBaseUrl, useProxy, imageModel: effectiveImageModel, provider: imageProvider, textProvider, textApiKey: currentUser?.textApiKey, textProxyApiKey: currentUser?.textProxyKey, localBaseUrl, textModel: effectiveTextModel, imageUserSystemPrompt: gameState.settings.imageUserSystemPrompt }
+        ).then(logImageCall(imageProvider, effectiveImageModel))
         : Promise.resolve(undefined);
       const [imgData, avatarResults] = await Promise.all([imagePromise, avatarPromise]);
 
@@ -3655,7 +4079,7 @@ const App: React.FC = () => {
           ...nextState,
           savedSnapshot: buildSavedSnapshot(nextState)
         };
-        setGameState(finalizedState);
+        commitTurnState(finalizedState);
         const localHistoryLimit = getStorageHistoryLimit(finalizedState.settings, DEFAULT_LOCAL_HISTORY_LIMIT);
         const terminalState = buildTerminalTail(finalizedState.history, localHistoryLimit);
         setTerminalHistory(terminalState.tail);
@@ -3803,6 +4227,11 @@ const App: React.FC = () => {
       setArenaError(isZh ? '请至少填写两个参战方。' : 'Provide at least two involved parties.');
       return;
     }
+    const budgetBlock = getBudgetBlock(gameState.usageLedger, gameState.settings, isZh);
+    if (budgetBlock) {
+      setArenaError(budgetBlock);
+      return;
+    }
     const baseHistory: HistoryEntry[] = resetHistory ? [] : arenaState.history;
     const baseTokenUsage = resetHistory ? { sent: 0, received: 0, total: 0 } : arenaState.tokenUsage;
     const arenaMode = arenaState.mode;
@@ -3837,26 +4266,20 @@ const App: React.FC = () => {
       const forcePowers = arenaMode === 'wargame'
         ? baseParties.map(party => (Number.isFinite(party.forcePower) ? party.forcePower as number : null))
         : undefined;
-      const response = await getArenaNarration(
+      const response = await callStage(gameState.settings, 'arena', stageOptions => getArenaNarration(
         focus,
         parties,
         trimmedHistory,
         gameState.language,
         {
-          tier: activeTier,
-          apiKey: currentUser?.textApiKey,
-          proxyApiKey: currentUser?.textProxyKey,
-          proxyBaseUrl: textProxyBaseUrl,
-          useProxy,
-          textModel: effectiveTextModel,
-          provider: textProvider,
+          ...stageOptions,
           userSystemPrompt: arenaState.userPrompt,
           finish,
           mode: arenaMode,
           phase,
           forcePowers
         }
-      );
+      ));
       setArenaNarrationStage('done');
       const nextHistory: HistoryEntry[] = [...baseHistory, { sender: 'narrator', text: response.storyText, imageUrl: undefined, isSaved: false }];
       const nextTurn = baseHistory.length === 0 ? 1 : arenaState.turnCount + 1;
@@ -3902,9 +4325,10 @@ const App: React.FC = () => {
             textProvider,
             textApiKey: currentUser?.textApiKey,
             textProxyApiKey: currentUser?.textProxyKey,
+            localBaseUrl,
             textModel: effectiveTextModel,
             imageUserSystemPrompt: gameState.settings.imageUserSystemPrompt
-          }).catch(err => {
+          }).then(logImageCall(imageProvider, effectiveImageModel)).catch(err => {
             setArenaImageStage('error');
             throw err;
           })
@@ -3929,9 +4353,10 @@ const App: React.FC = () => {
               textProvider,
               textApiKey: currentUser?.textApiKey,
               textProxyApiKey: currentUser?.textProxyKey,
+              localBaseUrl,
               textModel: effectiveTextModel,
               imageUserSystemPrompt: gameState.settings.imageUserSystemPrompt
-            });
+            }).then(logImageCall(imageProvider, effectiveImageModel));
             if (avatar?.url) {
               return { party: { ...party, avatarUrl: avatar.url } };
             }
@@ -4005,6 +4430,103 @@ const App: React.FC = () => {
     }
   };
 
+  // Connection options for one pipeline stage: its route, then its fallbacks. Stage routes are a
+  // normal-tier setting; a route on another provider uses the text key saved for that provider.
+  // Calls outside the turn pipeline (creation, recaps, the arena) always run on the text route.
+  const getStageConnections = (settings: GameSettings, stage: UsageCategory): StageConnection[] => {
+    const baseProvider: ModelProvider = isGuest || isAdmin
+      ? 'gemini'
+      : (settings.textProvider || settings.modelProvider || 'gemini');
+    const routes = isNormal && isModelStage(stage)
+      ? getStageRouteList(settings, stage, baseProvider)
+      : [{ provider: baseProvider, model: settings.textModel?.trim() || undefined }];
+    return routes.map(route => {
+      const ownKeys = route.provider === baseProvider || !currentUser;
+      return {
+        tier: activeTier,
+        apiKey: ownKeys ? currentUser?.textApiKey : (loadUserApiKey(currentUser.username, route.provider, 'text') || undefined),
+        proxyApiKey: ownKeys ? currentUser?.textProxyKey : (loadUserProxyKey(currentUser.username, route.provider, 'text') || undefined),
+        proxyBaseUrl: normalizeProxyBaseUrl(settings.textProxyBaseUrl || settings.proxyBaseUrl || ''),
+        useProxy: isNormal && !!settings.useProxy,
+        localBaseUrl: normalizeProxyBaseUrl(settings.localBaseUrl || ''),
+        textModel: route.model,
+        provider: route.provider
+      };
+    });
+  };
+
+  const trackModelAttempt = (stage: UsageCategory, event: ModelAttemptEvent<StageConnection>) => {
+    const id = `${stage}-${event.routeIndex}-${event.attempt}`;
+    const route = `${getProviderLabel(event.route.provider)}${event.route.textModel ? ` · ${event.route.textModel}` : ''}`;
+    const reason = event.errorKind ? MODEL_ERROR_LABELS[event.errorKind] : '';
+    const row: ModelAttemptRow = {
+      id,
+      stage,
+      label: `${route} #${event.attempt}${reason ? ` (${reason})` : ''}`,
+      status: event.outcome === 'failed' ? 'error' : event.outcome
+    };
+    setModelAttempts(prev => (prev.some(entry => entry.id === id)
+      ? prev.map(entry => (entry.id === id ? row : entry))
+      : [...prev, row]));
+  };
+
+  const recordUsage = (
+    category: UsageCategory,
+    provider: ModelProvider,
+    model: string | undefined,
+    usage?: TokenUsage,
+    failed = false
+  ) => {
+    const at = Date.now();
+    setGameState(prev => ({
+      ...prev,
+      usageLedger: appendLedgerEntry(
+        prev.usageLedger,
+        createLedgerEntry(category, provider, model || '', usage, prev.turnCount, at, failed)
+      )
+    }));
+  };
+
+  // Image calls report no tokens; every image that comes back is still logged as one call.
+  const logImageCall = (provider: ModelProvider, model: string | undefined) =>
+    <R extends { url?: string } | undefined>(result: R) => {
+      if (result?.url) {
+        recordUsage('image', provider, model);
+      }
+      return result;
+    };
+
+  // One stage call under the retry policy, failing over down the stage's route list. Every attempt
+  // that was billed goes to the usage ledger under the route that served it, including replies
+  // that failed to parse; requests the provider rejected outright carry no usage and are not billed.
+  const callStage = <T extends { tokenUsage?: TokenUsage }>(
+    settings: GameSettings,
+    stage: UsageCategory,
+    call: (options: StageConnection) => Promise<T>
+  ) =>
+    runWithFailover(
+      getStageConnections(settings, stage),
+      normalizeRetryPolicy(settings.retryPolicy),
+      async route => {
+        const result = await call(route);
+        recordUsage(stage, route.provider, route.textModel, result.tokenUsage);
+        return result;
+      },
+      event => {
+        const failedUsage = event.outcome === 'failed' ? getTokenUsageFromError(event.error) : null;
+        if (failedUsage) {
+          recordUsage(stage, event.route.provider, event.route.textModel, failedUsage, true);
+        }
+        trackModelAttempt(stage, event);
+      }
+    );
+
+  // Turn handlers build their next state from the state they started with; the ledger may have
+  // grown since (and must survive a reroll), so it is always taken from the latest state.
+  const commitTurnState = (next: GameState) => {
+    setGameState(prev => ({ ...next, usageLedger: prev.usageLedger }));
+  };
+
   const handleAction = async (
     e?: React.FormEvent,
     overrideText?: string,
@@ -4015,12 +4537,31 @@ const App: React.FC = () => {
     const state = overrideState ?? gameState;
     const rawText = (overrideText ?? userInput).trim();
     if (!rawText || state.isThinking || !state.player) return;
-    if (compressionLocked) return;
+    if (compressionLocked || state.combat) return;
     if (isNormal && !isModelConfigured) {
       setIsSettingsOpen(true);
       return;
     }
     const isZhAction = state.language === 'zh';
+    const budgetBlock = getBudgetBlock(gameState.usageLedger, state.settings, isZhAction);
+    if (budgetBlock) {
+      setSystemError(budgetBlock);
+      return;
+    }
+    const fastTravel = parseFastTravelAction(rawText, state.locations, state.location);
+    const barterTurn = isBarterAction(rawText);
+    const usedItem = parseUseItemAction(rawText);
+    if (fastTravel) {
+      const travelError = !fastTravel.destination
+        ? (isZhAction ? '快速旅行只能前往地图上已发现的地点。' : 'Fast travel only works to locations discovered on the map.')
+        : getEncumbrance(getEffectivePlayer(state.player, state.settings)).overEncumbered
+          ? (isZhAction ? '超重时无法快速旅行。' : 'Cannot fast travel while over-encumbered.')
+          : null;
+      if (travelError) {
+        setSystemError(travelError);
+        return;
+      }
+    }
 
     const actionSettings = state.settings;
     const useEventPipelineAction = actionSettings.pipelineMode === 'event';
@@ -4028,10 +4569,17 @@ const App: React.FC = () => {
     const textProxyBaseUrlAction = normalizeProxyBaseUrl(
       actionSettings.textProxyBaseUrl || actionSettings.proxyBaseUrl || ''
     );
+    const localBaseUrlAction = normalizeProxyBaseUrl(actionSettings.localBaseUrl || '');
     const imageProxyBaseUrlAction = normalizeProxyBaseUrl(
       actionSettings.imageProxyBaseUrl || actionSettings.proxyBaseUrl || ''
     );
-    const hasTextAuthKeyAction = useProxyAction ? hasTextProxyKey : hasTextUserKey;
+    const textProviderAction: ModelProvider = isGuest || isAdmin
+      ? 'gemini'
+      : (actionSettings.textProvider || actionSettings.modelProvider || 'gemini');
+    const hasTextAuthKeyAction = hasProviderKey(
+      textProviderAction,
+      useProxyAction ? currentUser?.textProxyKey : currentUser?.textApiKey
+    );
     const normalKeyUnlockedAction = isNormal && hasTextAuthKeyAction;
     const isKeyUnlockedAction = isAdmin || normalKeyUnlockedAction;
     const apUnlimitedAction = isKeyUnlockedAction;
@@ -4044,9 +4592,6 @@ const App: React.FC = () => {
     const lockedHistoryLimit = isGuest ? getHistoryLimitForTier('guest') : rawHistoryLimit;
     const historyLimitAction = lockedHistoryLimit === -1 ? null : Math.max(1, lockedHistoryLimit);
     const imagesEnabledAction = actionSettings.imagesEnabled !== false;
-    const textProviderAction: ModelProvider = isGuest || isAdmin
-      ? 'gemini'
-      : (actionSettings.textProvider || actionSettings.modelProvider || 'gemini');
     const imageProviderAction: ModelProvider = isGuest || isAdmin
       ? 'gemini'
       : (actionSettings.imageProvider || actionSettings.modelProvider || 'gemini');
@@ -4109,6 +4654,7 @@ const App: React.FC = () => {
       setStatusStage('pending');
     }
     setImageStage('pending');
+    setModelAttempts([]);
 
     const baseHistory = !options?.reroll && lastAction?.status === 'error'
       ? stripFailedAction(state.history, lastAction.text)
@@ -4146,7 +4692,7 @@ const App: React.FC = () => {
       status: 'pending'
     });
 
-    setGameState({
+    commitTurnState({
       ...state,
       isThinking: true,
       history: updatedHistory,
@@ -4170,30 +4716,36 @@ const App: React.FC = () => {
       if (useEventPipelineAction) {
         let eventOutcome: EventOutcome | null = null;
         let eventTokenUsage: TokenUsage | undefined;
+        // Trades, item use and fast travel are settled locally; their generated text names the goods,
+        // so it must not roll a check or spend ammo.
+        const settledTurn = barterTurn || !!usedItem || !!fastTravel;
+        // Seeded by turn and intent so a reroll of the same turn replays the same roll.
+        const skillCheck = settledTurn
+          ? null
+          : resolveSkillCheck(getEffectivePlayer(state.player, actionSettings), actionText, `${state.player.name}|${nextTurn}|${actionText}`);
+        const ammoUsage = settledTurn ? null : resolveAmmoUsage(state.player, actionText, skillCheck);
         try {
-          const eventKnownNpcs = sanitizeKnownNpcsForLlm(state.knownNpcs);
-          const eventPlayer = (sanitizeActorForLlm(state.player) || state.player) as Actor;
-          const eventResult = await getEventOutcome(
+          const eventKnownNpcs = sanitizeKnownNpcsForLlm(withoutWaitingCompanions(state.knownNpcs));
+          const eventPlayer = (sanitizeActorForLlm(getEffectivePlayer(state.player, actionSettings), !!actionSettings.survivalMode) || state.player) as Actor;
+          const eventResult = await callStage(actionSettings, 'event', stageOptions => getEventOutcome(
             eventPlayer,
             eventHistory,
             actionText,
             state.currentYear,
             state.location,
             state.currentTime,
-            state.quests,
+            stripQuestLog(state.quests),
             eventKnownNpcs,
             state.language,
             {
-              tier: activeTier,
-              apiKey: currentUser?.textApiKey,
-              proxyApiKey: currentUser?.textProxyKey,
-              proxyBaseUrl: textProxyBaseUrlAction,
-              useProxy: useProxyAction,
-              textModel: effectiveTextModel,
-              provider: textProviderAction,
-              userSystemPrompt: actionSettings.userSystemPrompt
+              ...stageOptions,
+              userSystemPrompt: actionSettings.userSystemPrompt,
+              skillCheck,
+              ammoUsage,
+              factionReputation: state.factionReputation,
+              trackedQuest: getTrackedQuest(state.quests, state.trackedQuestId)
             }
-          );
+          ));
           eventOutcome = eventResult;
           eventTokenUsage = eventResult.tokenUsage;
           setEventOutcomeStage('done');
@@ -4245,10 +4797,10 @@ const App: React.FC = () => {
         try {
           setStatusStage('running');
           const statusKnownNpcs = sanitizeKnownNpcsForLlm(state.knownNpcs);
-          const statusPlayer = (sanitizeActorForLlm(state.player) || state.player) as Actor;
-          const statusResult = await getStatusUpdate(
+          const statusPlayer = (sanitizeActorForLlm(state.player, !!actionSettings.survivalMode) || state.player) as Actor;
+          const statusResult = await callStage(actionSettings, 'status', stageOptions => getStatusUpdate(
             statusPlayer,
-            state.quests,
+            stripQuestLog(state.quests),
             statusKnownNpcs,
             state.currentYear,
             state.location,
@@ -4256,15 +4808,10 @@ const App: React.FC = () => {
             eventOutcome.outcomeSummary || '',
             state.language,
             {
-              tier: activeTier,
-              apiKey: currentUser?.textApiKey,
-              proxyApiKey: currentUser?.textProxyKey,
-              proxyBaseUrl: textProxyBaseUrlAction,
-              useProxy: useProxyAction,
-              textModel: effectiveTextModel,
-              provider: textProviderAction
+              ...stageOptions,
+              factionReputation: state.factionReputation
             }
-          );
+          ));
           statusChange = statusResult.update || null;
           statusTokenUsage = statusResult.tokenUsage;
           setStatusStage('done');
@@ -4282,12 +4829,23 @@ const App: React.FC = () => {
           console.error('Status manager error:', statusErr);
         }
 
-        const eventStatusChange = mergeEventOutcomeWithStatusUpdate(
-          { ...eventOutcomeForNarration },
-          statusChange
+        const validatedChange = validateStatusChange(
+          applyUsedItem(applySettledTrade(applyFastTravel(mergeEventOutcomeWithStatusUpdate({ ...eventOutcomeForNarration }, statusChange), fastTravel), barterTurn), usedItem),
+          { player: state.player, quests: state.quests, knownNpcs: state.knownNpcs, survivalMode: !!actionSettings.survivalMode }
         );
-        const questUpdates = eventStatusChange.questUpdates;
-        const { merged: mergedQuests, completedNotes } = applyQuestUpdates(state.quests, questUpdates);
+        const { change: carryLimitedChange, rejected: carryRejected } = applyCarryLimit(
+          state.player,
+          actionSettings,
+          applyAmmoUsage(validatedChange, ammoUsage)
+        );
+        const eventStatusChange = applySurvivalRules(
+          carryLimitedChange,
+          carryLimitedChange.timePassedMinutes || 0,
+          !!actionSettings.survivalMode
+        );
+        if (skillCheck) {
+          eventStatusChange.skillCheck = skillCheck;
+        }
         const timePassedMinutes = typeof eventStatusChange.timePassedMinutes === 'number'
           ? eventStatusChange.timePassedMinutes
           : 0;
@@ -4300,15 +4858,21 @@ const App: React.FC = () => {
         if (hasNonEmptyString(eventStatusChange.currentTime)) {
           eventStatusChange.currentTime = nextTime;
         }
+        const questUpdates = eventStatusChange.questUpdates;
+        const { merged: mergedQuests, completedNotes } = applyQuestUpdates(state.quests, questUpdates, nextTime);
+        const eventXp = computeEventXp(skillCheck, completedNotes.length);
+        eventStatusChange.playerChange = addXp(eventStatusChange.playerChange, eventXp);
         const nextLocation = hasNonEmptyString(eventStatusChange.location)
           ? eventStatusChange.location.trim()
           : state.location;
         const nextYear = typeof eventStatusChange.currentYear === 'number' && Number.isFinite(eventStatusChange.currentYear)
           ? Math.trunc(eventStatusChange.currentYear)
           : state.currentYear;
-        const statusPlayer = eventStatusChange.playerChange && state.player
-          ? applyPlayerChange(state.player, eventStatusChange.playerChange)
-          : state.player;
+        const effectTick = advanceStatusEffects(state.player, eventStatusChange, timePassedMinutes, isZhAction);
+        const affinityThresholds = settleAffinityThresholds(state.player, state.knownNpcs, eventStatusChange, isZhAction);
+        const statusPlayer = eventStatusChange.playerChange
+          ? applyPlayerChange(effectTick.player, eventStatusChange.playerChange)
+          : effectTick.player;
         let nextKnownNpcs: Actor[] = state.knownNpcs.map(withCompanionFlag);
         const newNpcList = normalizeNewNpcList(eventStatusChange.newNpc);
         newNpcList.forEach(npc => {
@@ -4317,16 +4881,18 @@ const App: React.FC = () => {
           }
         });
         const knownNpcUpdates = normalizeKnownNpcUpdates(eventStatusChange.knownNpcsUpdates);
-        nextKnownNpcs = applyKnownNpcUpdates(nextKnownNpcs, knownNpcUpdates);
+        nextKnownNpcs = applyKnownNpcUpdates(nextKnownNpcs, knownNpcUpdates, nextTime);
         const companionUpdates = eventStatusChange.companionUpdates;
         nextKnownNpcs = applyCompanionUpdates(nextKnownNpcs, companionUpdates);
+        const nextCombat = resolveCombatStart(state.combat, statusPlayer || state.player, eventStatusChange.hostileNpcs, nextKnownNpcs);
+        const nextFactionReputation = applyFactionChanges(state.factionReputation, eventStatusChange.factionChanges);
 
         setNarrationStage('running');
         const narratorKnownNpcs = sanitizeKnownNpcsForNarration(nextKnownNpcs);
-        const narratorQuests = mergedQuests.filter(quest => quest.status !== 'completed');
+        const narratorQuests = getActiveQuestsForNarrator(mergedQuests);
         const narrationEventStatus = sanitizeStatusChangeForLlm(eventStatusChange);
-        const narrationPlayer = (sanitizeActorForLlm(statusPlayer || state.player) || state.player) as Actor;
-        const narrationResponse: EventNarrationResponse = await getEventNarration(
+        const narrationPlayer = (sanitizeActorForLlm(statusPlayer || state.player, !!actionSettings.survivalMode) || state.player) as Actor;
+        const narrationResponse: EventNarrationResponse = await callStage(actionSettings, 'narrator', stageOptions => getEventNarration(
           narrationPlayer,
           narratorKnownNpcs,
           narratorQuests,
@@ -4336,17 +4902,12 @@ const App: React.FC = () => {
           narrationEventStatus,
           state.language,
           {
-            tier: activeTier,
-            apiKey: currentUser?.textApiKey,
-            proxyApiKey: currentUser?.textProxyKey,
-            proxyBaseUrl: textProxyBaseUrlAction,
-            useProxy: useProxyAction,
-            textModel: effectiveTextModel,
-            provider: textProviderAction,
+            ...stageOptions,
             userSystemPrompt: actionSettings.userSystemPrompt,
+            trackedQuest: getTrackedQuest(mergedQuests, state.trackedQuestId),
             onNarrationStream
           }
-        );
+        ));
         const narratorTokenUsage = narrationResponse.tokenUsage;
         setNarrationStage('done');
 
@@ -4367,18 +4928,46 @@ const App: React.FC = () => {
             textProvider: textProviderAction,
             textApiKey: currentUser?.textApiKey,
             textProxyApiKey: currentUser?.textProxyKey,
+            localBaseUrl: localBaseUrlAction,
             textModel: effectiveTextModel,
             imageUserSystemPrompt: actionSettings.imageUserSystemPrompt
-          }).catch(err => {
+          }).then(logImageCall(imageProviderAction, effectiveImageModel)).catch(err => {
             setImageStage('error');
             throw err;
           })
           : Promise.resolve(undefined);
 
         let storyText = narrationResponse.storyText;
+        if (ammoUsage) {
+          storyText = `${formatAmmoNote(ammoUsage, isZhAction)}\n\n${storyText}`;
+        }
+        if (skillCheck) {
+          storyText = `${formatSkillCheck(skillCheck, isZhAction)}\n\n${storyText}`;
+        }
         if (completedNotes.length > 0) {
           storyText += `\n\n${completedNotes.join('\n\n')}`;
         }
+        if (carryRejected.length > 0) {
+          storyText += `\n\n${formatEncumbranceNote(carryRejected, isZhAction)}`;
+        }
+        if (eventStatusChange.validation) {
+          storyText += `\n\n${formatValidationNote(eventStatusChange.validation, isZhAction)}`;
+        }
+        const eventFactionNote = formatFactionNote(eventStatusChange.factionChanges, nextFactionReputation, isZhAction);
+        if (eventFactionNote) {
+          storyText += `\n\n${eventFactionNote}`;
+        }
+        const eventAffinityNote = formatAffinityNote(knownNpcUpdates, nextKnownNpcs, affinityThresholds, isZhAction);
+        if (eventAffinityNote) {
+          storyText += `\n\n${eventAffinityNote}`;
+        }
+        if (effectTick.note) {
+          storyText += `\n\n${effectTick.note}`;
+        }
+        storyText += `\n\n${formatXpNote(eventXp, statusPlayer || state.player, isZhAction)}`;
+        if (nextCombat && !state.combat) {
+          storyText += `\n\n${formatCombatEngageNote(nextCombat, isZhAction)}`;
+        }
 
         const companionsNeedingAvatar = !imagesEnabledAction || isGuest
           ? []
@@ -4394,7 +4983,7 @@ const App: React.FC = () => {
             imageModel: effectiveImageModel,
             provider: imageProviderAction,
             imageUserSystemPrompt: actionSettings.imageUserSystemPrompt
-          })))
+          }).then(logImageCall(imageProviderAction, effectiveImageModel))))
           : Promise.resolve([]);
         const [imgData, avatarResults] = await Promise.all([sceneImagePromise, avatarPromise]);
         if (shouldGenerateImage) {
@@ -4440,7 +5029,8 @@ const App: React.FC = () => {
               state.knownNpcs,
               state.location,
               state.currentYear,
-              state.currentTime
+              state.currentTime,
+              state.factionReputation
             ),
             status_change: []
           }
@@ -4479,9 +5069,12 @@ const App: React.FC = () => {
           player: statusPlayer || state.player,
           history: nextHistory,
           status_track: nextStatusTrack,
-          compressionTurnCounter: nextCounter
+          compressionTurnCounter: nextCounter,
+          combat: nextCombat,
+          locations: trackLocations(state, nextLocation, nextTime),
+          factionReputation: nextFactionReputation
         };
-        setGameState(nextState);
+        commitTurnState(nextState);
 
         if (compressionActive && historyLimitAction && nextCounter >= historyLimitAction) {
           setLastAction(null);
@@ -4490,29 +5083,24 @@ const App: React.FC = () => {
         return;
       }
 
-      const narratorPlayer = (sanitizeActorForLlm(state.player) || state.player) as Actor;
-      const narratorKnownNpcs = sanitizeKnownNpcsForLlm(state.knownNpcs);
-      const response = await getNarrativeResponse(
+      const narratorPlayer = (sanitizeActorForLlm(state.player, !!actionSettings.survivalMode) || state.player) as Actor;
+      const narratorKnownNpcs = sanitizeKnownNpcsForLlm(withoutWaitingCompanions(state.knownNpcs));
+      const response = await callStage(actionSettings, 'narrator', stageOptions => getNarrativeResponse(
         narratorPlayer,
         trimmedHistory,
         actionText,
         state.currentYear,
         state.location,
-        state.quests,
+        getActiveQuestsForNarrator(state.quests),
         narratorKnownNpcs,
         state.language,
         {
-          tier: activeTier,
-          apiKey: currentUser?.textApiKey,
-          proxyApiKey: currentUser?.textProxyKey,
-          proxyBaseUrl: textProxyBaseUrlAction,
-          useProxy: useProxyAction,
-          textModel: effectiveTextModel,
-          provider: textProviderAction,
+          ...stageOptions,
           userSystemPrompt: actionSettings.userSystemPrompt,
-          onNarrationStream
+          onNarrationStream,
+          factionReputation: state.factionReputation
         }
-      );
+      ));
 
       const narratorTokenUsage = response.tokenUsage;
       setNarrationStage('done');
@@ -4533,8 +5121,9 @@ const App: React.FC = () => {
         return;
       }
 
+      const timePassedMinutes = fastTravel?.destination ? fastTravel.minutes : response.timePassedMinutes;
       const newTime = new Date(state.currentTime);
-      newTime.setMinutes(newTime.getMinutes() + response.timePassedMinutes);
+      newTime.setMinutes(newTime.getMinutes() + timePassedMinutes);
 
       const visualPrompt = response.imagePrompt || actionText;
       setImageStage(shouldGenerateImage ? 'running' : 'skipped');
@@ -4552,24 +5141,26 @@ const App: React.FC = () => {
           textProvider: textProviderAction,
           textApiKey: currentUser?.textApiKey,
           textProxyApiKey: currentUser?.textProxyKey,
+          localBaseUrl: localBaseUrlAction,
           textModel: effectiveTextModel,
           imageUserSystemPrompt: actionSettings.imageUserSystemPrompt
-        }).catch(err => {
+        }).then(logImageCall(imageProviderAction, effectiveImageModel)).catch(err => {
           setImageStage('error');
           throw err;
         })
         : Promise.resolve(undefined);
 
       let statusChange: StatusChange | null = null;
+      let carryRejected: InventoryItem[] = [];
       let statusSucceeded = false;
       let statusTokenUsage: TokenUsage | undefined;
       try {
         setStatusStage('running');
         const statusKnownNpcs = sanitizeKnownNpcsForLlm(state.knownNpcs);
-        const statusPlayer = (sanitizeActorForLlm(state.player) || state.player) as Actor;
-        const statusResult = await getStatusUpdate(
+        const statusPlayer = (sanitizeActorForLlm(state.player, !!actionSettings.survivalMode) || state.player) as Actor;
+        const statusResult = await callStage(actionSettings, 'status', stageOptions => getStatusUpdate(
           statusPlayer,
-          state.quests,
+          stripQuestLog(state.quests),
           statusKnownNpcs,
           state.currentYear,
           state.location,
@@ -4577,19 +5168,27 @@ const App: React.FC = () => {
           response.storyText,
           state.language,
           {
-            tier: activeTier,
-            apiKey: currentUser?.textApiKey,
-            proxyApiKey: currentUser?.textProxyKey,
-            proxyBaseUrl: textProxyBaseUrlAction,
-            useProxy: useProxyAction,
-            textModel: effectiveTextModel,
-            provider: textProviderAction
+            ...stageOptions,
+            factionReputation: state.factionReputation
           }
-        );
+        ));
         statusChange = statusResult.update || null;
         statusTokenUsage = statusResult.tokenUsage;
         setStatusStage('done');
         statusSucceeded = true;
+        if (statusChange) {
+          const carryLimit = applyCarryLimit(
+            state.player,
+            actionSettings,
+            validateStatusChange(statusChange, { player: state.player, quests: state.quests, knownNpcs: state.knownNpcs, survivalMode: !!actionSettings.survivalMode })
+          );
+          statusChange = applySurvivalRules(
+            applyUsedItem(applySettledTrade(applyFastTravel(carryLimit.change, fastTravel), barterTurn), usedItem),
+            timePassedMinutes,
+            !!actionSettings.survivalMode
+          );
+          carryRejected = carryLimit.rejected;
+        }
       } catch (statusErr) {
         setStatusStage('error');
         cacheRawOutput(statusErr);
@@ -4604,12 +5203,42 @@ const App: React.FC = () => {
         console.error('Status manager error:', statusErr);
       }
 
+      const nextTime = typeof statusChange?.currentTime === 'string' && statusChange.currentTime.trim()
+        ? statusChange.currentTime.trim()
+        : newTime.toISOString();
       const questUpdates = statusChange?.questUpdates;
-      const { merged: mergedQuests, completedNotes } = applyQuestUpdates(state.quests, questUpdates);
+      const { merged: mergedQuests, completedNotes } = applyQuestUpdates(state.quests, questUpdates, nextTime);
       let storyText = response.storyText;
       if (completedNotes.length > 0) {
         storyText += `\n\n${completedNotes.join('\n\n')}`;
       }
+      if (carryRejected.length > 0) {
+        storyText += `\n\n${formatEncumbranceNote(carryRejected, isZhAction)}`;
+      }
+      if (statusChange?.validation) {
+        storyText += `\n\n${formatValidationNote(statusChange.validation, isZhAction)}`;
+      }
+      const nextFactionReputation = applyFactionChanges(state.factionReputation, statusChange?.factionChanges);
+      const factionNote = formatFactionNote(statusChange?.factionChanges, nextFactionReputation, isZhAction);
+      if (factionNote) {
+        storyText += `\n\n${factionNote}`;
+      }
+      // Effects only tick on turns that reach the status track, so a rebuild sees the same clock.
+      const effectTick = statusSucceeded && statusChange
+        ? advanceStatusEffects(state.player, statusChange, timePassedMinutes, isZhAction)
+        : { player: state.player, note: '' };
+      if (effectTick.note) {
+        storyText += `\n\n${effectTick.note}`;
+      }
+      const affinityThresholds = statusSucceeded && statusChange
+        ? settleAffinityThresholds(state.player, state.knownNpcs, statusChange, isZhAction)
+        : { perksAdd: [], departures: [] };
+      // XP is only recorded when the status track gets this turn's entry.
+      if (statusSucceeded) {
+        const narrativeXp = computeEventXp(null, completedNotes.length);
+        statusChange = { ...statusChange, playerChange: addXp(statusChange?.playerChange, narrativeXp) };
+        storyText += `\n\n${formatXpNote(narrativeXp, applyPlayerChange(effectTick.player, statusChange.playerChange), isZhAction)}`;
+      }
 
       let nextKnownNpcs: Actor[] = state.knownNpcs.map(withCompanionFlag);
       const newNpcList = normalizeNewNpcList(statusChange?.newNpc);
@@ -4619,9 +5248,17 @@ const App: React.FC = () => {
         }
       });
       const knownNpcUpdates = normalizeKnownNpcUpdates(statusChange?.knownNpcsUpdates);
-      nextKnownNpcs = applyKnownNpcUpdates(nextKnownNpcs, knownNpcUpdates);
+      nextKnownNpcs = applyKnownNpcUpdates(nextKnownNpcs, knownNpcUpdates, nextTime);
       const companionUpdates = statusChange?.companionUpdates;
       nextKnownNpcs = applyCompanionUpdates(nextKnownNpcs, companionUpdates);
+      const affinityNote = formatAffinityNote(knownNpcUpdates, nextKnownNpcs, affinityThresholds, isZhAction);
+      if (affinityNote) {
+        storyText += `\n\n${affinityNote}`;
+      }
+      const nextCombat = resolveCombatStart(state.combat, state.player, statusChange?.hostileNpcs, nextKnownNpcs);
+      if (nextCombat && !state.combat) {
+        storyText += `\n\n${formatCombatEngageNote(nextCombat, isZhAction)}`;
+      }
 
       const companionsNeedingAvatar = !imagesEnabledAction || isGuest
         ? []
@@ -4637,7 +5274,7 @@ const App: React.FC = () => {
           imageModel: effectiveImageModel,
           provider: imageProviderAction,
           imageUserSystemPrompt: actionSettings.imageUserSystemPrompt
-        })))
+        }).then(logImageCall(imageProviderAction, effectiveImageModel))))
         : Promise.resolve([]);
       const [imgData, avatarResults] = await Promise.all([sceneImagePromise, avatarPromise]);
       if (shouldGenerateImage) {
@@ -4691,17 +5328,14 @@ const App: React.FC = () => {
       const compressionActive = !!historyLimitAction && state.compressionEnabled !== false;
       const nextCounter = compressionActive ? (state.compressionTurnCounter || 0) + 1 : 0;
       const statusPlayer = statusChange?.playerChange
-        ? applyPlayerChange(state.player, statusChange.playerChange)
-        : null;
+        ? applyPlayerChange(effectTick.player, statusChange.playerChange)
+        : effectTick.player;
       const nextLocation = typeof statusChange?.location === 'string' && statusChange.location.trim()
         ? statusChange.location.trim()
-        : state.location;
+        : (fastTravel?.destination?.name || state.location);
       const nextYear = typeof statusChange?.currentYear === 'number' && Number.isFinite(statusChange.currentYear)
         ? Math.trunc(statusChange.currentYear)
         : state.currentYear;
-      const nextTime = typeof statusChange?.currentTime === 'string' && statusChange.currentTime.trim()
-        ? statusChange.currentTime.trim()
-        : newTime.toISOString();
       const tokenDelta = mergeTokenUsage(normalizeTokenUsage(narratorTokenUsage), statusTokenUsage);
       const nextState: GameState = {
         ...state,
@@ -4718,9 +5352,12 @@ const App: React.FC = () => {
         player: statusPlayer ? statusPlayer : state.player,
         history: nextHistory,
         status_track: nextStatusTrack,
-        compressionTurnCounter: nextCounter
+        compressionTurnCounter: nextCounter,
+        combat: nextCombat,
+        locations: trackLocations(state, nextLocation, nextTime),
+        factionReputation: nextFactionReputation
       };
-      setGameState(nextState);
+      commitTurnState(nextState);
 
       if (compressionActive && historyLimitAction && nextCounter >= historyLimitAction) {
         setLastAction(null);
@@ -4769,23 +5406,528 @@ const App: React.FC = () => {
     handleAction(undefined, lastAction.text, rerollState, { reroll: true });
   };
 
-  const rerollCreationParams = () => {
-    if (gameState.isThinking) return;
-    const { year, region, time } = rollEra();
-    setGameState(prev => ({
-      ...prev,
-      currentYear: year,
-      location: region,
-      currentTime: time
-    }));
+  const handleLevelUpConfirm = (skills: Partial<SkillSet>, perk: Perk | null) => {
+    setGameState(prev => {
+      if (!prev.player || prev.isThinking || getPendingLevelUps(prev.player) <= 0) return prev;
+      const playerChange = buildLevelUpChange(prev.player, skills, perk);
+      const levelUp: LevelUpRecord = {
+        level: getLevel(prev.player) + 1,
+        skillPoints: playerChange.skills || {},
+        ...(perk ? { perk: perk.name } : {})
+      };
+      const nextStatusTrack = prev.status_track
+        ? {
+          ...prev.status_track,
+          status_change: [
+            ...prev.status_track.status_change,
+            {
+              narration_index: countNarrations(prev.history),
+              playerChange,
+              levelUp,
+              settledLocally: true,
+              isSaved: false
+            }
+          ]
+        }
+        : prev.status_track;
+      return {
+        ...prev,
+        player: applyPlayerChange(prev.player, playerChange),
+        status_track: nextStatusTrack,
+        perkOffer: undefined
+      };
+    });
+    setIsLevelUpOpen(false);
   };
 
-  const runMemoryCompression = async (state: GameState, limit: number) => {
-    if (limit <= 0) return;
-    const isZhCompression = state.language === 'zh';
-    if (compressionStatusTimeout.current) {
-      window.clearTimeout(compressionStatusTimeout.current);
-      compressionStatusTimeout.current = null;
+  // Perks are offered once per level, generated for the save's era and region; the catalog stands in
+  // when no model can be asked. The offer is kept so reopening the modal shows the same list.
+  const handleOpenLevelUp = async () => {
+    const state = gameState;
+    const player = state.player;
+    if (!player || getPendingLevelUps(player) <= 0) return;
+    setIsLevelUpOpen(true);
+    const level = getLevel(player) + 1;
+    if (state.perkOffer?.level === level || perkOfferPending) return;
+    const isZhPerks = state.language === 'zh';
+    const offerCatalog = () => setGameState(prev => ({
+      ...prev,
+      perkOffer: { level, perks: getPerkChoices(player, level, isZhPerks), generated: false }
+    }));
+    if ((isNormal && !textConfigured) || getBudgetBlock(state.usageLedger, state.settings, isZhPerks)) {
+      offerCatalog();
+      return;
+    }
+    setPerkOfferPending(true);
+    try {
+      const result = await callStage(state.settings, 'perks', stageOptions => getPerkOffer(
+        player,
+        level,
+        state.currentYear,
+        state.location,
+        state.language,
+        stageOptions
+      ));
+      setGameState(prev => ({
+        ...prev,
+        perkOffer: { level, perks: result.perks, generated: true },
+        tokenUsage: mergeTokenUsage(prev.tokenUsage, result.tokenUsage)
+      }));
+    } catch (err) {
+      cacheRawOutput(err);
+      offerCatalog();
+    } finally {
+      setPerkOfferPending(false);
+    }
+  };
+
+  const handleBarterConfirm = (merchantName: string, selection: BarterSelection) => {
+    const state = gameState;
+    if (!state.player || state.isThinking || state.combat || compressionLocked) return;
+    if (isNormal && !isModelConfigured) {
+      setIsSettingsOpen(true);
+      return;
+    }
+    const merchant = state.knownNpcs.find(npc => npc.name === merchantName);
+    if (!merchant) return;
+    const isZhBarter = state.language === 'zh';
+    const barterPlayer = getEffectivePlayer(state.player, state.settings);
+    const exchange = buildBarterExchange(barterPlayer, merchant, selection);
+    const problem = getBarterProblem(barterPlayer, merchant, exchange, isZhBarter);
+    if (problem) {
+      setSystemError(problem);
+      return;
+    }
+    // The exchange is committed locally first; the following turn only narrates the handover.
+    const tradedState: GameState = {
+      ...state,
+      player: applyPlayerChange(state.player, exchange.playerChange),
+      knownNpcs: applyKnownNpcUpdates(state.knownNpcs, [exchange.merchantUpdate]).map(npc => normalizeActor(npc)),
+      status_track: state.status_track
+        ? {
+          ...state.status_track,
+          status_change: [
+            ...state.status_track.status_change,
+            {
+              narration_index: countNarrations(state.history),
+              playerChange: exchange.playerChange,
+              knownNpcsUpdates: [exchange.merchantUpdate],
+              settledLocally: true,
+              isSaved: false
+            }
+          ]
+        }
+        : state.status_track
+    };
+    setGameState(tradedState);
+    setIsBarterOpen(false);
+    handleAction(undefined, formatBarterAction(exchange, isZhBarter), tradedState);
+  };
+
+  const handleUseItem = (itemName: string) => {
+    const state = gameState;
+    if (!state.player || state.isThinking || state.combat || compressionLocked) return;
+    if (isNormal && !isModelConfigured) {
+      setIsSettingsOpen(true);
+      return;
+    }
+    const item = state.player.inventory.find(entry => entry.name === itemName);
+    if (!item || !isUsableItem(item)) return;
+    // Applied locally first, like a trade; the following turn only narrates it.
+    const playerChange = buildUseItemChange(item, !!state.settings.survivalMode);
+    const usedState: GameState = {
+      ...state,
+      player: applyPlayerChange(state.player, playerChange),
+      status_track: state.status_track
+        ? {
+          ...state.status_track,
+          status_change: [
+            ...state.status_track.status_change,
+            {
+              narration_index: countNarrations(state.history),
+              playerChange,
+              settledLocally: true,
+              isSaved: false
+            }
+          ]
+        }
+        : state.status_track
+    };
+    setGameState(usedState);
+    setIsSidebarOpen(false);
+    handleAction(undefined, formatUseItemAction(item, state.language === 'zh'), usedState);
+  };
+
+  const handleTrackQuest = (questId: string | null) => {
+    setGameState(prev => ({ ...prev, trackedQuestId: questId || undefined }));
+    setQuestRecap(null);
+  };
+
+  // "Where was I?": a recap of the tracked quest outside the turn loop, so it costs no AP.
+  const handleQuestRecap = async () => {
+    const state = gameState;
+    const quest = getTrackedQuest(state.quests, state.trackedQuestId);
+    if (!quest || questRecapPending) return;
+    if (isNormal && !textConfigured) {
+      setIsSettingsOpen(true);
+      return;
+    }
+    const isZhRecap = state.language === 'zh';
+    const budgetBlock = getBudgetBlock(state.usageLedger, state.settings, isZhRecap);
+    if (budgetBlock) {
+      setQuestRecap({ questId: quest.id, text: budgetBlock, isError: true });
+      return;
+    }
+    const recentHistory = state.history.filter(entry => entry.meta !== 'memory').slice(-QUEST_RECAP_HISTORY);
+    setQuestRecapPending(true);
+    try {
+      const result = await callStage(state.settings, 'recap', stageOptions => getQuestRecap(quest, recentHistory, state.language, stageOptions));
+      setQuestRecap({ questId: quest.id, text: result.recap });
+      setGameState(prev => ({ ...prev, tokenUsage: mergeTokenUsage(prev.tokenUsage, result.tokenUsage) }));
+    } catch (err) {
+      cacheRawOutput(err);
+      const detail = err instanceof Error ? err.message : String(err);
+      setQuestRecap({
+        questId: quest.id,
+        text: isZhRecap ? `任务回顾失败：${detail}` : `Quest recap failed: ${detail}`,
+        isError: true
+      });
+    } finally {
+      setQuestRecapPending(false);
+    }
+  };
+
+  const handleCraft = (recipeId: string, targetWeapon?: string) => {
+    const recipe = getRecipe(recipeId);
+    if (!recipe || !gameState.player || gameState.isThinking || gameState.combat) return;
+    const isZhCraft = gameState.language === 'zh';
+    const preview = buildCraftChange(getEffectivePlayer(gameState.player, gameState.settings), recipe, isZhCraft, targetWeapon);
+    if ('error' in preview) {
+      setCraftingNotice(preview.error);
+      return;
+    }
+    setGameState(prev => {
+      if (!prev.player || prev.isThinking || prev.combat) return prev;
+      const result = buildCraftChange(getEffectivePlayer(prev.player, prev.settings), recipe, isZhCraft, targetWeapon);
+      if ('error' in result) return prev;
+      const nextStatusTrack = prev.status_track
+        ? {
+          ...prev.status_track,
+          status_change: [
+            ...prev.status_track.status_change,
+            {
+              narration_index: countNarrations(prev.history),
+              playerChange: result.playerChange,
+              craft: { recipe: recipe.id, output: result.output.name, count: result.output.count },
+              settledLocally: true,
+              isSaved: false
+            }
+          ]
+        }
+        : prev.status_track;
+      return {
+        ...prev,
+        player: applyPlayerChange(prev.player, result.playerChange),
+        status_track: nextStatusTrack
+      };
+    });
+    setCraftingNotice(formatCraftNote(preview.output, isZhCraft));
+  };
+
+  const handleResolveValidation = (accept: boolean) => {
+    setGameState(prev => {
+      if (!prev.player || prev.isThinking || !prev.status_track) return prev;
+      const index = getPendingValidationIndex(prev);
+      if (index < 0) return prev;
+      const entry = prev.status_track.status_change[index];
+      const status_change = [...prev.status_track.status_change];
+      status_change[index] = accept ? acceptStatusViolations(entry) : rejectStatusViolations(entry);
+      const nextState = { ...prev, status_track: { ...prev.status_track, status_change } };
+      if (!accept || !entry.validation) return nextState;
+      // The turn is already applied; only the difference to the accepted update is layered on top.
+      const correction = buildAcceptedCorrection(entry.validation.violations, prev.quests);
+      return {
+        ...nextState,
+        player: correction.playerChange ? applyPlayerChange(prev.player, correction.playerChange) : prev.player,
+        quests: applyQuestUpdates(prev.quests, correction.questUpdates, prev.currentTime).merged,
+        knownNpcs: applyKnownNpcUpdates(prev.knownNpcs, correction.knownNpcsUpdates).map(npc => normalizeActor(npc)),
+        factionReputation: applyFactionChanges(prev.factionReputation, correction.factionChanges)
+      };
+    });
+  };
+
+  const handleFastTravel = (locationName: string) => {
+    const destination = findMapLocation(gameState.locations, locationName);
+    if (!destination) return;
+    const minutes = computeTravelMinutes(findMapLocation(gameState.locations, gameState.location), destination);
+    setIsSidebarOpen(false);
+    handleAction(undefined, formatFastTravelAction(destination.name, minutes, gameState.language === 'zh'));
+  };
+
+  const handleUpdateLocationNotes = (locationName: string, notes: string) => {
+    setGameState(prev => ({ ...prev, locations: updateLocationNotes(prev.locations, locationName, notes) }));
+  };
+
+  const handleToggleEquip = (itemName: string) => {
+    setGameState(prev => {
+      if (!prev.player || prev.isThinking) return prev;
+      const change = buildEquipToggleChange(prev.player, itemName);
+      if (!change) return prev;
+      const nextStatusTrack = prev.status_track
+        ? {
+          ...prev.status_track,
+          status_change: [
+            ...prev.status_track.status_change,
+            {
+              narration_index: countNarrations(prev.history),
+              playerChange: change,
+              settledLocally: true,
+              isSaved: false
+            }
+          ]
+        }
+        : prev.status_track;
+      return {
+        ...prev,
+        player: applyPlayerChange(prev.player, change),
+        status_track: nextStatusTrack
+      };
+    });
+  };
+
+  // Companion commands and dossier edits settle locally and silently, like equipping gear; no turn is narrated.
+  const commitLocalNpcChange = (change: StatusChange, userAuthored = false) => {
+    setGameState(prev => {
+      if (!prev.player) return prev;
+      const updatedNpcs = applyKnownNpcUpdates(
+        prev.knownNpcs,
+        normalizeKnownNpcUpdates(change.knownNpcsUpdates),
+        prev.currentTime
+      );
+      const { knownNpcs, quests } = applyNpcMerge(
+        applyCompanionUpdates(updatedNpcs, change.companionUpdates).map(npc => normalizeActor(npc)),
+        prev.quests,
+        change.npcMerge
+      );
+      return {
+        ...prev,
+        player: change.playerChange ? applyPlayerChange(prev.player, change.playerChange) : prev.player,
+        knownNpcs,
+        quests,
+        status_track: prev.status_track
+          ? {
+            ...prev.status_track,
+            status_change: [
+              ...prev.status_track.status_change,
+              {
+                narration_index: countNarrations(prev.history),
+                ...change,
+                ...(userAuthored ? { userAuthored } : {}),
+                settledLocally: true,
+                isSaved: false
+              }
+            ]
+          }
+          : prev.status_track
+      };
+    });
+  };
+
+  const handleCompanionCommand = (companionName: string, command: CompanionCommand) => {
+    const state = gameState;
+    if (!state.player || state.isThinking || state.combat) return;
+    const companion = state.knownNpcs.find(npc => npc.ifCompanion && npc.name === companionName);
+    if (!companion) return;
+    const result = buildCompanionCommandChange(getEffectivePlayer(state.player, state.settings), companion, command, state.location, state.language === 'zh');
+    if ('error' in result) {
+      setSystemError(result.error);
+      return;
+    }
+    commitLocalNpcChange(result.change);
+  };
+
+  const handleCompanionEquip = (companionName: string, itemName: string) => {
+    const state = gameState;
+    if (!state.player || state.isThinking || state.combat) return;
+    const companion = state.knownNpcs.find(npc => npc.ifCompanion && npc.name === companionName);
+    const update = companion ? buildCompanionEquipUpdate(companion, itemName) : null;
+    if (!update) return;
+    commitLocalNpcChange({ knownNpcsUpdates: [update] });
+  };
+
+  const handleDossierEdit = (npcName: string, draft: NpcDossierDraft) => {
+    const state = gameState;
+    if (!state.player || state.isThinking) return;
+    const npc = state.knownNpcs.find(entry => entry.name === npcName);
+    const update = npc ? buildDossierEdit(npc, draft) : null;
+    if (!update) return;
+    commitLocalNpcChange({ knownNpcsUpdates: [update] }, true);
+  };
+
+  const handleNpcMerge = (intoName: string, fromName: string) => {
+    const state = gameState;
+    if (!state.player || state.isThinking || state.combat || intoName === fromName) return;
+    const names = new Set(state.knownNpcs.map(npc => npc.name));
+    if (!names.has(intoName) || !names.has(fromName)) return;
+    commitLocalNpcChange({ npcMerge: { from: fromName, into: intoName } }, true);
+  };
+
+  const handleCombatWeaponChange = (weaponName: string) => {
+    setGameState(prev => (prev.combat
+      ? { ...prev, combat: { ...prev.combat, weaponName } }
+      : prev));
+  };
+
+  const handleCombatAttack = (targetName: string, bodyPart: BodyPart) => {
+    setGameState(prev => {
+      if (!prev.combat || !prev.player || prev.isThinking) return prev;
+      const nextCombat = resolvePlayerAttack(getEffectivePlayer(prev.player, prev.settings), prev.combat, targetName, bodyPart);
+      return nextCombat ? { ...prev, combat: nextCombat } : prev;
+    });
+  };
+
+  const handleCombatEndTurn = async (flee = false) => {
+    const state = gameState;
+    const combat = state.combat;
+    if (!combat || !state.player || state.isThinking) return;
+    const isZhCombat = state.language === 'zh';
+    if (!apUnlimited && state.ap <= 0) {
+      setSystemError(isZhCombat ? '行动点已耗尽。请稍后再试。' : 'ACTION POINTS DEPLETED. Please return later.');
+      return;
+    }
+    const budgetBlock = getBudgetBlock(state.usageLedger, state.settings, isZhCombat);
+    if (budgetBlock) {
+      setSystemError(budgetBlock);
+      return;
+    }
+    const { record, next, playerDamage } = endCombatRound(getEffectivePlayer(state.player, state.settings), combat, { flee });
+    const combatChange = buildCombatStatusChange(
+      state.player,
+      record,
+      combat,
+      playerDamage,
+      new Set(state.knownNpcs.map(npc => npc.name))
+    );
+    const combatXp = computeCombatRoundXp(state.player.name, record, combat);
+    combatChange.playerChange = addXp(combatChange.playerChange, combatXp);
+    const effectTick = advanceStatusEffects(state.player, combatChange, combatChange.timePassedMinutes || 0, isZhCombat);
+    const nextPlayer = combatChange.playerChange
+      ? applyPlayerChange(effectTick.player, combatChange.playerChange)
+      : effectTick.player;
+    const nextKnownNpcs = applyKnownNpcUpdates(
+      state.knownNpcs,
+      normalizeKnownNpcUpdates(combatChange.knownNpcsUpdates)
+    );
+    const timeBase = new Date(state.currentTime);
+    if (Number.isNaN(timeBase.getTime())) {
+      timeBase.setTime(Date.now());
+    }
+    timeBase.setMinutes(timeBase.getMinutes() + (combatChange.timePassedMinutes || 0));
+    const nextTime = timeBase.toISOString();
+    const actionText = flee
+      ? (isZhCombat ? `[V.A.T.S.] 第 ${record.round} 回合：尝试撤离` : `[V.A.T.S.] Round ${record.round}: attempt to flee`)
+      : (isZhCombat ? `[V.A.T.S.] 第 ${record.round} 回合：执行攻击` : `[V.A.T.S.] Round ${record.round}: execute attacks`);
+    const updatedHistory: HistoryEntry[] = [...state.history, { sender: 'player', text: actionText, isSaved: false }];
+
+    setSystemError(null);
+    setStatusManagerError(null);
+    setEventOutcomeStage('done');
+    setStatusStage('done');
+    setNarrationStage('running');
+    setImageStage('skipped');
+    setModelAttempts([]);
+    setGameState({ ...state, isThinking: true, history: updatedHistory });
+
+    const combatOutcome: EventOutcome & StatusChange = {
+      ...combatChange,
+      outcomeSummary: combatChange.outcomeSummary || ''
+    };
+    try {
+      const narrationResponse = await callStage(state.settings, 'narrator', stageOptions => getEventNarration(
+        (sanitizeActorForLlm(nextPlayer, !!state.settings.survivalMode) || nextPlayer) as Actor,
+        sanitizeKnownNpcsForNarration(nextKnownNpcs),
+        getActiveQuestsForNarrator(state.quests),
+        state.currentYear,
+        state.location,
+        nextTime,
+        sanitizeStatusChangeForLlm(combatOutcome),
+        state.language,
+        {
+          ...stageOptions,
+          userSystemPrompt: state.settings.userSystemPrompt,
+          trackedQuest: getTrackedQuest(state.quests, state.trackedQuestId),
+          onNarrationStream: (text: string) => {
+            setGameState(prev => (prev.isThinking
+              ? { ...prev, history: upsertStreamingNarratorEntry(prev.history, text) }
+              : prev));
+          }
+        }
+      ));
+      setNarrationStage('done');
+      const narratorEntry: HistoryEntry = {
+        sender: 'narrator',
+        text: `${formatCombatRoundLog(record, isZhCombat)}${combatChange.ammoUsage ? `\n${formatAmmoNote(combatChange.ammoUsage, isZhCombat)}` : ''}${combatXp > 0 ? `\n${formatXpNote(combatXp, nextPlayer, isZhCombat)}` : ''}${effectTick.note ? `\n${effectTick.note}` : ''}\n\n${narrationResponse.storyText}`,
+        isSaved: false
+      };
+      const nextHistory = [...updatedHistory, narratorEntry];
+      const nextStatusTrack = state.status_track
+        ? {
+          ...state.status_track,
+          status_change: [
+            ...state.status_track.status_change,
+            {
+              narration_index: countNarrations(nextHistory),
+              ...combatChange,
+              settledLocally: true,
+              isSaved: false
+            }
+          ]
+        }
+        : state.status_track;
+      const now = Date.now();
+      commitTurnState({
+        ...state,
+        isThinking: false,
+        player: nextPlayer,
+        knownNpcs: nextKnownNpcs,
+        currentTime: nextTime,
+        history: nextHistory,
+        status_track: nextStatusTrack,
+        combat: next,
+        ap: apUnlimited ? state.ap : Math.max(0, state.ap - 1),
+        apLastUpdated: apRecovery && state.ap >= maxAp ? now : state.apLastUpdated,
+        turnCount: state.turnCount + 1,
+        tokenUsage: mergeTokenUsage(state.tokenUsage, narrationResponse.tokenUsage)
+      });
+    } catch (err) {
+      console.error(err);
+      cacheRawOutput(err);
+      const detail = appendJsonParseGuidance(err instanceof Error ? err.message : String(err), isZhCombat);
+      setNarrationStage('error');
+      setSystemError(isZhCombat
+        ? `避难所科技错误：叙事链路不稳定。\n[日志] ${detail}`
+        : `VAULT-TEC ERROR: Narrative link unstable.\n[LOG] ${detail}`);
+      setGameState(prev => ({ ...prev, isThinking: false, history: state.history }));
+    }
+  };
+
+  const rerollCreationParams = () => {
+    if (gameState.isThinking) return;
+    const { year, region, time } = rollEra();
+    setGameState(prev => ({
+      ...prev,
+      currentYear: year,
+      location: region,
+      currentTime: time
+    }));
+  };
+
+  const runMemoryCompression = async (state: GameState, limit: number) => {
+    if (limit <= 0) return;
+    const isZhCompression = state.language === 'zh';
+    if (compressionStatusTimeout.current) {
+      window.clearTimeout(compressionStatusTimeout.current);
+      compressionStatusTimeout.current = null;
     }
     setIsCompressing(true);
     setCompressionError(null);
@@ -4795,17 +5937,7 @@ const App: React.FC = () => {
     try {
       const payload = buildCompressionPayload(state, limit);
       const maxMemoryK = state.settings.maxCompressedMemoryK || 25;
-      const result = await compressMemory(payload, state.language, maxMemoryK, {
-        tier: activeTier,
-        apiKey: currentUser?.textApiKey,
-        proxyApiKey: currentUser?.textProxyKey,
-        proxyBaseUrl: normalizeProxyBaseUrl(
-          state.settings.textProxyBaseUrl || state.settings.proxyBaseUrl || ''
-        ),
-        useProxy: isNormal && !!state.settings.useProxy,
-        textModel: state.settings.textModel || undefined,
-        provider: (state.settings.textProvider || state.settings.modelProvider || 'gemini') as ModelProvider
-      });
+      const result = await callStage(state.settings, 'memory', stageOptions => compressMemory(payload, state.language, maxMemoryK, stageOptions));
       const memoryText = result.memory?.trim();
       if (!memoryText) {
         throw new Error(isZhCompression ? '记忆压缩返回内容为空。' : 'Compression returned empty memory.');
@@ -4921,18 +6053,6 @@ const App: React.FC = () => {
     setInventoryRefreshError(null);
     const isZhRefresh = state.language === 'zh';
     try {
-      const provider = (state.settings.textProvider || state.settings.modelProvider || 'gemini') as ModelProvider;
-      const baseOptions = {
-        tier: activeTier,
-        apiKey: currentUser?.textApiKey,
-        proxyApiKey: currentUser?.textProxyKey,
-        proxyBaseUrl: normalizeProxyBaseUrl(
-          state.settings.textProxyBaseUrl || state.settings.proxyBaseUrl || ''
-        ),
-        useProxy: isNormal && !!state.settings.useProxy,
-        textModel: state.settings.textModel || undefined,
-        provider
-      };
 
       if (state.status_track) {
         setSystemError(isZhRefresh
@@ -4942,7 +6062,7 @@ const App: React.FC = () => {
         setSystemError(isZhRefresh
           ? '正在校验物品重量...'
           : 'Auditing item weights...');
-        const audit = await auditInventoryWeights(rebuilt, state.language, baseOptions);
+        const audit = await callStage(state.settings, 'inventory', stageOptions => auditInventoryWeights(rebuilt, state.language, stageOptions));
         const refreshed = mergeInventoryWeights(rebuilt, audit.inventory as InventoryItem[]);
         setGameState(prev => ({
           ...prev,
@@ -4961,12 +6081,13 @@ const App: React.FC = () => {
       const narrationList = state.history
         .filter(entry => entry.sender === 'narrator')
         .map(entry => entry.text);
-      const recovery = await recoverInventoryStatus(
-        state.player.lore,
+      const lore = state.player.lore;
+      const recovery = await callStage(state.settings, 'inventory', stageOptions => recoverInventoryStatus(
+        lore,
         narrationList,
         state.language,
-        baseOptions
-      );
+        stageOptions
+      ));
       const recoveredInitialInventory = normalizeInventory(recovery.initialInventory as InventoryItem[]);
       const maxNarrations = narrationList.length;
         const recoveredChanges: StatusChangeEntry[] = Array.isArray(recovery.inventoryChanges)
@@ -4991,7 +6112,8 @@ const App: React.FC = () => {
           state.knownNpcs,
           state.location,
           state.currentYear,
-          state.currentTime
+          state.currentTime,
+          state.factionReputation
         ),
         status_change: recoveredChanges
       };
@@ -4999,7 +6121,7 @@ const App: React.FC = () => {
       setSystemError(isZhRefresh
         ? '正在校验物品重量...'
         : 'Auditing item weights...');
-      const audit = await auditInventoryWeights(rebuilt, state.language, baseOptions);
+      const audit = await callStage(state.settings, 'inventory', stageOptions => auditInventoryWeights(rebuilt, state.language, stageOptions));
       const refreshed = mergeInventoryWeights(rebuilt, audit.inventory as InventoryItem[]);
       const combinedUsage = mergeTokenUsage(
         normalizeTokenUsage(recovery.tokenUsage),
@@ -5053,7 +6175,8 @@ const App: React.FC = () => {
         legacyInventoryPrompt.state.knownNpcs,
         legacyInventoryPrompt.state.location,
         legacyInventoryPrompt.state.currentYear,
-        legacyInventoryPrompt.state.currentTime
+        legacyInventoryPrompt.state.currentTime,
+        legacyInventoryPrompt.state.factionReputation
       );
       setGameState(prev => ({
         ...prev,
@@ -5097,8 +6220,9 @@ const App: React.FC = () => {
       setSystemError(isZh ? '已关闭头像生成。请在设置中开启图像。' : 'Image generation is disabled. Enable it in settings.');
       return;
     }
-    if (imageProvider === 'claude') {
-      setSystemError(isZh ? 'Claude 不支持图像生成。' : 'Claude image generation is not supported.');
+    if (!providerSupportsImages(imageProvider)) {
+      const label = getProviderLabel(imageProvider);
+      setSystemError(isZh ? `${label} 不支持图像生成。` : `${label} image generation is not supported.`);
       return;
     }
     if (!effectiveImageModel) {
@@ -5111,6 +6235,11 @@ const App: React.FC = () => {
       setIsSettingsOpen(true);
       return;
     }
+    const budgetBlock = getBudgetBlock(gameState.usageLedger, gameState.settings, isZh);
+    if (budgetBlock) {
+      setSystemError(budgetBlock);
+      return;
+    }
     setCompanionAvatarPending(prev => ({ ...prev, [npcName]: true }));
     try {
       const result = await generateCompanionAvatar(target, {
@@ -5122,7 +6251,7 @@ const App: React.FC = () => {
         imageModel: effectiveImageModel,
         provider: imageProvider,
         imageUserSystemPrompt: gameState.settings.imageUserSystemPrompt
-      });
+      }).then(logImageCall(imageProvider, effectiveImageModel));
       if (result?.url) {
         setGameState(prev => ({
           ...prev,
@@ -5200,80 +6329,83 @@ const App: React.FC = () => {
         if (total === 0) {
           setSystemError(isZh ? '没有可重建的叙事回合。' : 'No narration turns available for rebuild.');
         } else {
-          const baseOptions = {
-            tier: activeTier,
-            apiKey: currentUser?.textApiKey,
-            proxyApiKey: currentUser?.textProxyKey,
-            proxyBaseUrl: textProxyBaseUrl,
-            useProxy,
-            textModel: effectiveTextModel,
-            provider: textProvider
+          const initial = getInitialSnapshot(nextTrack);
+          let status: StatusSnapshot = {
+            ...initial,
+            location: typeof nextTrack.initial_status.location === 'string' ? initial.location : gameState.location,
+            currentYear: typeof nextTrack.initial_status.currentYear === 'number' ? initial.currentYear : gameState.currentYear,
+            currentTime: typeof nextTrack.initial_status.currentTime === 'string' ? initial.currentTime : gameState.currentTime
           };
-          let player = normalizeActor(nextTrack.initial_status.player);
-          let quests = Array.isArray(nextTrack.initial_status.quests) ? nextTrack.initial_status.quests : [];
-          let knownNpcs: Actor[] = normalizeKnownNpcList(nextTrack.initial_status.knownNpcs).cleaned.map(withCompanionFlag);
-          let location = typeof nextTrack.initial_status.location === 'string'
-            ? nextTrack.initial_status.location
-            : gameState.location;
-          let currentYear = typeof nextTrack.initial_status.currentYear === 'number'
-            ? Math.trunc(nextTrack.initial_status.currentYear)
-            : gameState.currentYear;
-          let currentTime = typeof nextTrack.initial_status.currentTime === 'string'
-            ? nextTrack.initial_status.currentTime
-            : gameState.currentTime;
           const rebuiltChanges: StatusChangeEntry[] = [];
+          const actions = getNarrationActions(gameState.history);
+          // The model cannot re-derive what was settled locally (level-ups, crafting, trades, item use, gear,
+          // companion orders, combat rounds, dossier edits), so those entries are replayed in place.
+          const localEntries = nextTrack.status_change.filter(isLocallySettled);
+          const replayLocalEntries = (afterNarration: number) => {
+            localEntries
+              .filter(entry => (afterNarration === 0
+                ? entry.narration_index <= 0
+                : entry.narration_index === afterNarration || (afterNarration === total && entry.narration_index > total)))
+              .forEach(entry => {
+                status = applyTrackChange(status, entry);
+                rebuiltChanges.push(entry);
+              });
+          };
+          replayLocalEntries(0);
           for (let index = 0; index < narrations.length; index += 1) {
             const narrationIndex = index + 1;
+            // A combat round's narration only describes a change that was already settled locally.
+            if (localEntries.some(entry => entry.combatRound && entry.narration_index === narrationIndex)) {
+              replayLocalEntries(narrationIndex);
+              continue;
+            }
             setSystemError(isZh
               ? `状态重建中 (${narrationIndex}/${total})...`
               : `Rebuilding status (${narrationIndex}/${total})...`);
+            const { player, quests, knownNpcs } = status;
             const statusKnownNpcs = sanitizeKnownNpcsForLlm(knownNpcs);
-            const statusPlayer = (sanitizeActorForLlm(player) || player) as Actor;
-            const statusResult = await getStatusUpdate(
+            const statusPlayer = (sanitizeActorForLlm(player, !!gameState.settings.survivalMode) || player) as Actor;
+            const statusQuests = stripQuestLog(quests);
+            const statusResult = await callStage(gameState.settings, 'status', stageOptions => getStatusUpdate(
               statusPlayer,
-              quests,
+              statusQuests,
               statusKnownNpcs,
-              currentYear,
-              location,
-              currentTime,
+              status.currentYear,
+              status.location,
+              status.currentTime,
               narrations[index].text,
               gameState.language,
-              baseOptions
-            );
+              { ...stageOptions, factionReputation: status.factionReputation }
+            ));
             tokenDelta = mergeTokenUsage(tokenDelta, statusResult.tokenUsage);
-            const update = statusResult.update || null;
+            // Trades and item use were replayed before this turn; its narration must not apply them twice.
+            const action = actions[index] || '';
+            const update: StatusChange = statusResult.update
+              ? applySurvivalRules(
+                applyUsedItem(
+                  applySettledTrade(
+                    validateStatusChange(statusResult.update, { player, quests, knownNpcs, survivalMode: !!gameState.settings.survivalMode }),
+                    isBarterAction(action)
+                  ),
+                  parseUseItemAction(action)
+                ),
+                statusResult.update.timePassedMinutes || 0,
+                !!gameState.settings.survivalMode
+              )
+              : {};
+            settleAffinityThresholds(player, knownNpcs, update, gameState.language === 'zh');
+            // validateStatusChange drops model-written XP, so the turn's award is re-run from the original skill check.
+            const skillCheck = nextTrack.status_change.find(entry => entry.narration_index === narrationIndex && entry.skillCheck)?.skillCheck;
+            const { completedNotes } = applyQuestUpdates(quests, update.questUpdates, status.currentTime);
+            update.playerChange = addXp(update.playerChange, computeEventXp(skillCheck, completedNotes.length));
             rebuiltChanges.push({
               narration_index: narrationIndex,
-              ...(update && typeof update === 'object' ? update : {}),
+              ...update,
+              ...(skillCheck ? { skillCheck } : {}),
               isSaved: false
             });
-            if (update?.playerChange) {
-              player = applyPlayerChange(player, update.playerChange);
-            }
-            if (update?.questUpdates) {
-              const result = applyQuestUpdates(quests, update.questUpdates);
-              quests = result.merged;
-            }
-            let nextKnownNpcs: Actor[] = knownNpcs.map(withCompanionFlag);
-            const newNpcList = normalizeNewNpcList(update?.newNpc);
-            newNpcList.forEach(npc => {
-              if (npc) {
-                nextKnownNpcs = upsertNpc(nextKnownNpcs, npc);
-              }
-            });
-            const knownNpcUpdates = normalizeKnownNpcUpdates(update?.knownNpcsUpdates);
-            nextKnownNpcs = applyKnownNpcUpdates(nextKnownNpcs, knownNpcUpdates);
-            nextKnownNpcs = applyCompanionUpdates(nextKnownNpcs, update?.companionUpdates);
-            knownNpcs = nextKnownNpcs.map(npc => normalizeActor(npc));
-            if (typeof update?.location === 'string' && update.location.trim()) {
-              location = update.location.trim();
-            }
-            if (typeof update?.currentYear === 'number' && Number.isFinite(update.currentYear)) {
-              currentYear = Math.trunc(update.currentYear);
-            }
-            if (typeof update?.currentTime === 'string' && update.currentTime.trim()) {
-              currentTime = update.currentTime.trim();
-            }
+            status = applyTrackChange(status, update);
+            replayLocalEntries(narrationIndex);
           }
           nextTrack = {
             ...nextTrack,
@@ -5290,6 +6422,7 @@ const App: React.FC = () => {
         location: rebuilt.location,
         currentYear: rebuilt.currentYear,
         currentTime: rebuilt.currentTime,
+        factionReputation: rebuilt.factionReputation,
         status_track: nextTrack,
         tokenUsage: mode === 'llm' ? mergeTokenUsage(prev.tokenUsage, tokenDelta) : prev.tokenUsage
       }));
@@ -5373,6 +6506,16 @@ const App: React.FC = () => {
     }));
   };
 
+  const toggleSurvivalMode = () => {
+    setGameState(prev => ({
+      ...prev,
+      settings: {
+        ...prev.settings,
+        survivalMode: !(prev.settings.survivalMode ?? false)
+      }
+    }));
+  };
+
   const toggleHighQualityImages = () => {
     if (!imagesEnabled) return;
     setGameState(prev => ({
@@ -5523,6 +6666,57 @@ const App: React.FC = () => {
     setCurrentUser(prev => (prev ? { ...prev, imageProxyKey: trimmed || undefined } : prev));
   };
 
+  const updateLocalBaseUrl = (value: string) => {
+    if (!isNormal) return;
+    setLocalModelList([]);
+    setLocalModelListError(null);
+    setGameState(prev => ({
+      ...prev,
+      settings: {
+        ...prev.settings,
+        localBaseUrl: value
+      }
+    }));
+  };
+
+  const commitLocalBaseUrl = () => {
+    if (!isNormal) return;
+    const normalized = normalizeProxyBaseUrl(gameState.settings.localBaseUrl || '');
+    setGameState(prev => ({
+      ...prev,
+      settings: {
+        ...prev.settings,
+        localBaseUrl: normalized
+      }
+    }));
+  };
+
+  const handleFetchLocalModels = async () => {
+    if (!isNormal || localModelListPending) return;
+    setLocalModelListPending(true);
+    setLocalModelListError(null);
+    try {
+      const models = await listProviderModels({
+        provider: 'local',
+        apiKey: currentUser?.textApiKey,
+        proxyApiKey: currentUser?.textProxyKey,
+        proxyBaseUrl: textProxyBaseUrl,
+        useProxy,
+        localBaseUrl
+      });
+      setLocalModelList(models);
+      if (models.length === 0) {
+        setLocalModelListError(isZh ? '服务器没有返回任何模型。' : 'The server reported no models.');
+      } else if (!gameState.settings.textModel?.trim()) {
+        updateTextModelName(models[0]);
+      }
+    } catch (err) {
+      setLocalModelListError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLocalModelListPending(false);
+    }
+  };
+
   const updateTextModelName = (value: string) => {
     if (!isNormal) return;
     setGameState(prev => ({
@@ -5534,6 +6728,107 @@ const App: React.FC = () => {
     }));
   };
 
+  const updateStageRoute = (stage: ModelStage, patch: StageModelRoute) => {
+    if (!isNormal) return;
+    setGameState(prev => {
+      const stageModels = { ...(prev.settings.stageModels || {}) };
+      const route = { ...stageModels[stage], ...patch };
+      if (route.provider || route.model || route.fallbacks?.length) {
+        stageModels[stage] = route;
+      } else {
+        delete stageModels[stage];
+      }
+      return {
+        ...prev,
+        settings: {
+          ...prev.settings,
+          stageModels: Object.keys(stageModels).length > 0 ? stageModels : undefined
+        }
+      };
+    });
+  };
+
+  const updateStageFallback = (stage: ModelStage, index: number, patch: Partial<StageModelFallback> | null) => {
+    const current = gameState.settings.stageModels?.[stage]?.fallbacks || [];
+    const fallbacks = patch === null
+      ? current.filter((_, entryIndex) => entryIndex !== index)
+      : current.map((entry, entryIndex) => (entryIndex === index ? { ...entry, ...patch } : entry));
+    updateStageRoute(stage, { fallbacks: fallbacks.length > 0 ? fallbacks : undefined });
+  };
+
+  const addStageFallback = (stage: ModelStage) => {
+    const current = gameState.settings.stageModels?.[stage]?.fallbacks || [];
+    updateStageRoute(stage, { fallbacks: [...current, { provider: textProvider }] });
+  };
+
+  const updateRetryPolicy = (patch: Partial<RetryPolicy>) => {
+    if (!isNormal) return;
+    setGameState(prev => ({
+      ...prev,
+      settings: {
+        ...prev.settings,
+        retryPolicy: normalizeRetryPolicy({ ...normalizeRetryPolicy(prev.settings.retryPolicy), ...patch })
+      }
+    }));
+  };
+
+  const updatePriceTable = (text: string) => {
+    if (!isNormal) return;
+    const priceTable = parsePriceTable(text);
+    setGameState(prev => ({
+      ...prev,
+      settings: {
+        ...prev.settings,
+        priceTable: priceTable.length > 0 ? priceTable : undefined
+      }
+    }));
+  };
+
+  const updateUsageBudget = (field: keyof UsageBudget, value: string) => {
+    if (!isNormal) return;
+    const parsed = Number(value);
+    setGameState(prev => {
+      const usageBudget = { ...prev.settings.usageBudget, [field]: value.trim() && Number.isFinite(parsed) && parsed > 0 ? parsed : undefined };
+      return {
+        ...prev,
+        settings: {
+          ...prev.settings,
+          usageBudget: usageBudget.maxCost || usageBudget.maxTokens ? usageBudget : undefined
+        }
+      };
+    });
+  };
+
+  const updateStageApiKey = (provider: ModelProvider, value: string) => {
+    if (!currentUser || !isNormal) return;
+    if (useProxy) {
+      persistUserProxyKey(currentUser.username, provider, value, 'text');
+    } else {
+      persistUserApiKey(currentUser.username, provider, value, 'text');
+    }
+  };
+
+  // A route on another provider needs that provider's text key; it is the same key the text settings use.
+  const renderStageKeyInput = (id: string, provider: ModelProvider) => {
+    if (provider === textProvider || !providerRequiresApiKey(provider)) return null;
+    return (
+      <input
+        key={`${id}-${provider}-${useProxy ? 'proxy' : 'direct'}`}
+        type="password"
+        defaultValue={currentUser
+          ? (useProxy
+            ? loadUserProxyKey(currentUser.username, provider, 'text')
+            : loadUserApiKey(currentUser.username, provider, 'text'))
+          : ''}
+        onChange={(e) => updateStageApiKey(provider, e.target.value)}
+        className="mt-2 w-full bg-black border border-[color:rgba(var(--pip-color-rgb),0.5)] p-2 text-[color:var(--pip-color)] text-xs focus:outline-none"
+        placeholder={isZh
+          ? `${getProviderLabel(provider)} ${useProxy ? '代理' : 'API'} Key（与选择该文本提供商时共用）`
+          : `${getProviderLabel(provider)} ${useProxy ? 'proxy' : 'API'} key (shared with that text provider)`}
+      />
+    );
+  };
+
   const updateImageModelName = (value: string) => {
     if (!isNormal) return;
     setGameState(prev => ({
@@ -5887,6 +7182,31 @@ const App: React.FC = () => {
             </div>
           </div>
 
+          <div className="border border-[color:rgba(var(--pip-color-rgb),0.3)] p-4 bg-[color:rgba(var(--pip-color-rgb),0.05)]">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <div className="text-sm font-bold uppercase">
+                  {isZh ? '生存模式' : 'Survival mode'}
+                </div>
+                <div className="text-xs opacity-70 mt-1">
+                  {isZh
+                    ? '追踪辐射、口渴、饥饿与疲劳。数值随时间累积，过高会降低 SPECIAL。'
+                    : 'Tracks RADs, thirst, hunger and fatigue. They build up over time and lower SPECIAL when high.'}
+                </div>
+              </div>
+              <button
+                onClick={toggleSurvivalMode}
+                className={`text-xs px-3 py-1 border font-bold uppercase transition-colors ${
+                  gameState.settings.survivalMode
+                    ? 'bg-[color:var(--pip-color)] text-black border-[color:var(--pip-color)]'
+                    : 'border-[color:rgba(var(--pip-color-rgb),0.5)] text-[color:var(--pip-color)] hover:bg-[color:rgba(var(--pip-color-rgb),0.2)]'
+                }`}
+              >
+                {gameState.settings.survivalMode ? 'ON' : 'OFF'}
+              </button>
+            </div>
+          </div>
+
           <div className={`border border-[color:rgba(var(--pip-color-rgb),0.3)] p-4 bg-[color:rgba(var(--pip-color-rgb),0.05)] ${!imagesEnabled ? 'opacity-50' : ''}`}>
             <div className="flex items-start justify-between gap-4">
               <div>
@@ -6306,12 +7626,34 @@ const App: React.FC = () => {
                     ))}
                   </select>
                 </div>
+                {usesLocalProvider && (
+                  <div>
+                    <div className="text-[11px] uppercase opacity-70">
+                      {isZh ? '本地服务器 Base URL' : 'Local Server Base URL'}
+                    </div>
+                    <div className="text-[10px] opacity-60 mt-1">
+                      {isZh
+                        ? 'Ollama 默认 http://localhost:11434/v1；llama.cpp 通常为 :8080/v1，LM Studio 为 :1234/v1。'
+                        : 'Ollama defaults to http://localhost:11434/v1; llama.cpp usually serves :8080/v1 and LM Studio :1234/v1.'}
+                    </div>
+                    <input
+                      type="text"
+                      value={gameState.settings.localBaseUrl || ''}
+                      onChange={(e) => updateLocalBaseUrl(e.target.value)}
+                      onBlur={commitLocalBaseUrl}
+                      className="mt-2 w-full bg-black border border-[color:rgba(var(--pip-color-rgb),0.5)] p-2 text-[color:var(--pip-color)] text-xs focus:outline-none"
+                      placeholder={DEFAULT_LOCAL_BASE_URL}
+                    />
+                  </div>
+                )}
                 <div>
                   <div className="text-[11px] uppercase opacity-70">
                     {isZh ? '文本 API Key' : 'Text API Key'}
                   </div>
                   <div className="text-[10px] opacity-60 mt-1">
-                    {isZh ? '仅保存在本地浏览器，不会上传到服务器。' : 'Stored only in this browser and never uploaded.'}
+                    {textProvider === 'local'
+                      ? (isZh ? '可选；仅当本地服务器要求鉴权时填写。' : 'Optional; only needed if your local server requires one.')
+                      : (isZh ? '仅保存在本地浏览器，不会上传到服务器。' : 'Stored only in this browser and never uploaded.')}
                   </div>
                   <input
                     type="password"
@@ -6332,9 +7674,227 @@ const App: React.FC = () => {
                     type="text"
                     value={gameState.settings.textModel || ''}
                     onChange={(e) => updateTextModelName(e.target.value)}
+                    list={textProvider === 'local' ? 'local-model-list' : undefined}
                     className="mt-2 w-full bg-black border border-[color:rgba(var(--pip-color-rgb),0.5)] p-2 text-[color:var(--pip-color)] text-xs focus:outline-none"
                     placeholder={isZh ? '输入文本模型名称' : 'Enter text model name'}
                   />
+                  {usesLocalProvider && (
+                    <>
+                      <datalist id="local-model-list">
+                        {localModelList.map(model => <option key={model} value={model} />)}
+                      </datalist>
+                      <button
+                        type="button"
+                        onClick={handleFetchLocalModels}
+                        disabled={localModelListPending}
+                        className="mt-2 text-[11px] px-3 py-1 border border-[color:var(--pip-color)] uppercase font-bold hover:bg-[color:var(--pip-color)] hover:text-black transition-colors disabled:opacity-40"
+                      >
+                        {localModelListPending
+                          ? (isZh ? '读取中...' : 'Loading...')
+                          : (isZh ? `读取服务器模型${localModelList.length ? `（${localModelList.length}）` : ''}` : `Fetch server models${localModelList.length ? ` (${localModelList.length})` : ''}`)}
+                      </button>
+                      {localModelListError && (
+                        <div className="text-[10px] text-yellow-300 mt-1">{localModelListError}</div>
+                      )}
+                    </>
+                  )}
+                </div>
+              </div>
+
+              <div className="border border-[color:rgba(var(--pip-color-rgb),0.3)] p-3 bg-[color:rgba(var(--pip-color-rgb),0.05)] space-y-3">
+                <div className="text-sm font-bold uppercase">
+                  {isZh ? '分阶段模型' : 'Stage Models'}
+                </div>
+                <div className="text-[10px] opacity-60">
+                  {isZh
+                    ? '留空的阶段沿用上方的文本提供商与模型。例如状态管理与库存审计用快速模型，叙事者用强模型。'
+                    : 'Blank stages use the text provider and model above. For example, a fast model for status and inventory audits and a strong one for the narrator.'}
+                </div>
+                {MODEL_STAGES.map(stage => {
+                  const route = gameState.settings.stageModels?.[stage];
+                  const stageProvider = route?.provider || textProvider;
+                  return (
+                    <div key={stage} className="border-t border-[color:rgba(var(--pip-color-rgb),0.2)] pt-2">
+                      <div className="text-[11px] uppercase opacity-70">{getStageLabel(stage, isZh)}</div>
+                      <div className="text-[10px] opacity-60 mt-1">{getStageHint(stage, isZh)}</div>
+                      <div className="mt-2 grid grid-cols-2 gap-2">
+                        <select
+                          value={route?.provider || ''}
+                          onChange={(e) => updateStageRoute(stage, { provider: (e.target.value || undefined) as ModelProvider | undefined })}
+                          className="w-full bg-black border border-[color:rgba(var(--pip-color-rgb),0.5)] p-2 text-[color:var(--pip-color)] text-xs focus:outline-none"
+                        >
+                          <option value="">{isZh ? '同文本提供商' : 'Text provider'}</option>
+                          {MODEL_PROVIDER_OPTIONS.map((option) => (
+                            <option key={option.value} value={option.value}>
+                              {option.label}
+                            </option>
+                          ))}
+                        </select>
+                        <input
+                          type="text"
+                          value={route?.model || ''}
+                          onChange={(e) => updateStageRoute(stage, { model: e.target.value || undefined })}
+                          list={stageProvider === 'local' ? 'local-model-list' : undefined}
+                          className="w-full bg-black border border-[color:rgba(var(--pip-color-rgb),0.5)] p-2 text-[color:var(--pip-color)] text-xs focus:outline-none"
+                          placeholder={stageProvider === textProvider
+                            ? (selectedTextModel || (isZh ? '文本模型' : 'Text model'))
+                            : (isZh ? '输入模型名称' : 'Enter model name')}
+                        />
+                      </div>
+                      {renderStageKeyInput(`${stage}-primary`, stageProvider)}
+                      {(route?.fallbacks || []).map((fallback, index) => (
+                        <div key={`${stage}-fallback-${index}`} className="mt-2 pl-2 border-l border-[color:rgba(var(--pip-color-rgb),0.3)]">
+                          <div className="text-[10px] uppercase opacity-60">
+                            {isZh ? `备用 ${index + 1}` : `Fallback ${index + 1}`}
+                          </div>
+                          <div className="mt-1 grid grid-cols-[1fr_1fr_auto] gap-2">
+                            <select
+                              value={fallback.provider}
+                              onChange={(e) => updateStageFallback(stage, index, { provider: e.target.value as ModelProvider })}
+                              className="w-full bg-black border border-[color:rgba(var(--pip-color-rgb),0.5)] p-2 text-[color:var(--pip-color)] text-xs focus:outline-none"
+                            >
+                              {MODEL_PROVIDER_OPTIONS.map((option) => (
+                                <option key={option.value} value={option.value}>
+                                  {option.label}
+                                </option>
+                              ))}
+                            </select>
+                            <input
+                              type="text"
+                              value={fallback.model || ''}
+                              onChange={(e) => updateStageFallback(stage, index, { model: e.target.value || undefined })}
+                              list={fallback.provider === 'local' ? 'local-model-list' : undefined}
+                              className="w-full bg-black border border-[color:rgba(var(--pip-color-rgb),0.5)] p-2 text-[color:var(--pip-color)] text-xs focus:outline-none"
+                              placeholder={fallback.provider === textProvider
+                                ? (selectedTextModel || (isZh ? '文本模型' : 'Text model'))
+                                : (isZh ? '输入模型名称' : 'Enter model name')}
+                            />
+                            <button
+                              type="button"
+                              onClick={() => updateStageFallback(stage, index, null)}
+                              className="text-[11px] px-2 border border-[color:rgba(var(--pip-color-rgb),0.5)] hover:bg-[color:var(--pip-color)] hover:text-black transition-colors"
+                            >
+                              ✕
+                            </button>
+                          </div>
+                          {renderStageKeyInput(`${stage}-fallback-${index}`, fallback.provider)}
+                        </div>
+                      ))}
+                      <button
+                        type="button"
+                        onClick={() => addStageFallback(stage)}
+                        className="mt-2 text-[10px] px-2 py-1 border border-[color:rgba(var(--pip-color-rgb),0.5)] uppercase hover:bg-[color:var(--pip-color)] hover:text-black transition-colors"
+                      >
+                        {isZh ? '+ 添加备用模型' : '+ Add fallback'}
+                      </button>
+                    </div>
+                  );
+                })}
+                <div className="border-t border-[color:rgba(var(--pip-color-rgb),0.2)] pt-2">
+                  <div className="text-[11px] uppercase opacity-70">
+                    {isZh ? '重试策略' : 'Retry Policy'}
+                  </div>
+                  <div className="text-[10px] opacity-60 mt-1">
+                    {isZh
+                      ? '每个模型的尝试次数与首次重试前的等待（之后每次翻倍）。用尽后依次切换到备用模型。'
+                      : 'Attempts per model and the wait before the first retry (doubled after each one). Fallbacks are tried in order once a model gives up.'}
+                  </div>
+                  <div className="mt-2 flex items-center space-x-3">
+                    <input
+                      type="number"
+                      min={1}
+                      max={RETRY_ATTEMPT_LIMIT}
+                      value={retryPolicy.attempts}
+                      onChange={(e) => updateRetryPolicy({ attempts: Number(e.target.value) })}
+                      className="w-16 bg-black border border-[color:rgba(var(--pip-color-rgb),0.5)] p-2 text-[color:var(--pip-color)] text-xs focus:outline-none"
+                    />
+                    <span className="text-[10px] uppercase opacity-60">
+                      {isZh ? '次' : 'attempts'}
+                    </span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={RETRY_BACKOFF_LIMIT_MS}
+                      step={500}
+                      value={retryPolicy.backoffMs}
+                      onChange={(e) => updateRetryPolicy({ backoffMs: Number(e.target.value) })}
+                      className="w-20 bg-black border border-[color:rgba(var(--pip-color-rgb),0.5)] p-2 text-[color:var(--pip-color)] text-xs focus:outline-none"
+                    />
+                    <span className="text-[10px] uppercase opacity-60">ms</span>
+                  </div>
+                  <div className="mt-2 space-y-1">
+                    {([
+                      ['retryOnRateLimit', isZh ? '限流时重试（429）' : 'Retry on rate limits (429)'],
+                      ['retryOnServerError', isZh ? '服务器错误时重试（5xx / 断线）' : 'Retry on server errors (5xx / dropped connection)'],
+                      ['retryOnParseError', isZh ? 'JSON 解析失败时重试' : 'Retry on JSON parse failures']
+                    ] as Array<[keyof RetryPolicy, string]>).map(([field, label]) => (
+                      <label key={field} className="flex items-center gap-2 text-[11px]">
+                        <input
+                          type="checkbox"
+                          checked={!!retryPolicy[field]}
+                          onChange={(e) => updateRetryPolicy({ [field]: e.target.checked })}
+                          className="accent-[var(--pip-color)]"
+                        />
+                        {label}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              <div className="border border-[color:rgba(var(--pip-color-rgb),0.3)] p-3 bg-[color:rgba(var(--pip-color-rgb),0.05)] space-y-3">
+                <div className="text-sm font-bold uppercase">
+                  {isZh ? '用量与预算' : 'Usage & Budget'}
+                </div>
+                <div>
+                  <div className="text-[11px] uppercase opacity-70">
+                    {isZh ? '价格表（美元 / 百万令牌）' : 'Price Table (USD per 1M tokens)'}
+                  </div>
+                  <div className="text-[10px] opacity-60 mt-1">
+                    {isZh
+                      ? '每行一个模型：模型名前缀 输入价 输出价 [缓存输入价]。按最长前缀匹配；未列出的模型不计费用。'
+                      : 'One model per line: model-prefix input output [cached-input]. The longest matching prefix wins; unlisted models are not costed.'}
+                  </div>
+                  <textarea
+                    key={formatPriceTable(gameState.settings.priceTable)}
+                    defaultValue={formatPriceTable(gameState.settings.priceTable)}
+                    onBlur={(e) => updatePriceTable(e.target.value)}
+                    rows={4}
+                    className="mt-2 w-full bg-black border border-[color:rgba(var(--pip-color-rgb),0.5)] p-2 text-[color:var(--pip-color)] text-xs font-mono focus:outline-none"
+                    placeholder={'gpt-4o-mini 0.15 0.6 0.075\nclaude-3-5-haiku 0.8 4 0.08'}
+                  />
+                </div>
+                <div>
+                  <div className="text-[11px] uppercase opacity-70">
+                    {isZh ? '预算上限' : 'Budget Cap'}
+                  </div>
+                  <div className="text-[10px] opacity-60 mt-1">
+                    {isZh
+                      ? '本存档的累计估算费用或令牌达到上限后，新的行动会被拒绝。留空表示不限制。'
+                      : 'New actions are refused once this save\'s estimated cost or tokens reach the cap. Leave blank for no limit.'}
+                  </div>
+                  <div className="mt-2 flex items-center space-x-3">
+                    <span className="text-[10px] uppercase opacity-60">$</span>
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.01}
+                      value={gameState.settings.usageBudget?.maxCost ?? ''}
+                      onChange={(e) => updateUsageBudget('maxCost', e.target.value)}
+                      className="w-20 bg-black border border-[color:rgba(var(--pip-color-rgb),0.5)] p-2 text-[color:var(--pip-color)] text-xs focus:outline-none"
+                    />
+                    <input
+                      type="number"
+                      min={0}
+                      step={10000}
+                      value={gameState.settings.usageBudget?.maxTokens ?? ''}
+                      onChange={(e) => updateUsageBudget('maxTokens', e.target.value)}
+                      className="w-28 bg-black border border-[color:rgba(var(--pip-color-rgb),0.5)] p-2 text-[color:var(--pip-color)] text-xs focus:outline-none"
+                    />
+                    <span className="text-[10px] uppercase opacity-60">
+                      {isZh ? '令牌' : 'tokens'}
+                    </span>
+                  </div>
                 </div>
               </div>
 
@@ -7912,6 +9472,49 @@ const App: React.FC = () => {
       {guestNotice}
       {usersEditorModal}
       {settingsModal}
+      {isLevelUpOpen && gameState.player && getPendingLevelUps(gameState.player) > 0 && (
+        <LevelUpModal
+          player={gameState.player}
+          perkOffer={gameState.perkOffer?.level === getLevel(gameState.player) + 1 ? gameState.perkOffer : null}
+          language={gameState.language}
+          onConfirm={handleLevelUpConfirm}
+          onClose={() => setIsLevelUpOpen(false)}
+        />
+      )}
+      {isCraftingOpen && gameState.player && (
+        <CraftingModal
+          player={getEffectivePlayer(gameState.player, gameState.settings)}
+          recipes={getAvailableRecipes(gameState.currentYear, getMapRegion(gameState))}
+          language={gameState.language}
+          notice={craftingNotice}
+          onCraft={handleCraft}
+          onClose={() => {
+            setIsCraftingOpen(false);
+            setCraftingNotice(null);
+          }}
+        />
+      )}
+      {isDossierOpen && (
+        <NpcDossierModal
+          knownNpcs={gameState.knownNpcs}
+          statusTrack={gameState.status_track}
+          location={gameState.location}
+          language={gameState.language}
+          editable={!inputLocked}
+          onSave={handleDossierEdit}
+          onMerge={handleNpcMerge}
+          onClose={() => setIsDossierOpen(false)}
+        />
+      )}
+      {isBarterOpen && gameState.player && (
+        <BarterModal
+          player={getEffectivePlayer(gameState.player, gameState.settings)}
+          merchants={gameState.knownNpcs.filter(npc => npc.health > 0)}
+          language={gameState.language}
+          onConfirm={handleBarterConfirm}
+          onClose={() => setIsBarterOpen(false)}
+        />
+      )}
       {rawOutputModal}
       {helpModal}
       {userPromptModal}
@@ -8106,6 +9709,28 @@ const App: React.FC = () => {
           onResolveImageUrl={resolveHistoryImageUrl}
         />
 
+        {pendingValidation && (
+          <RuleReviewPanel
+            validation={pendingValidation}
+            language={gameState.language}
+            disabled={gameState.isThinking || compressionLocked}
+            onAccept={() => handleResolveValidation(true)}
+            onReject={() => handleResolveValidation(false)}
+          />
+        )}
+
+        {gameState.combat && gameState.player && (
+          <CombatPanel
+            player={getEffectivePlayer(gameState.player, gameState.settings)}
+            combat={gameState.combat}
+            language={gameState.language}
+            disabled={gameState.isThinking || compressionLocked}
+            onWeaponChange={handleCombatWeaponChange}
+            onAttack={handleCombatAttack}
+            onEndTurn={handleCombatEndTurn}
+          />
+        )}
+
         <form onSubmit={handleAction} className="p-3 md:p-4 bg-black/80 border-t border-[color:rgba(var(--pip-color-rgb),0.3)] flex space-x-2 md:space-x-4">
           <input 
             type="text"
@@ -8145,6 +9770,7 @@ const App: React.FC = () => {
           </div>
           <StatBar 
             player={gameState.player} 
+            effectivePlayer={getEffectivePlayer(gameState.player, gameState.settings)}
             location={gameState.location} 
             year={gameState.currentYear}
             time={gameState.currentTime}
@@ -8157,6 +9783,10 @@ const App: React.FC = () => {
             showApRecovery={!!apRecovery}
             apRecovery={apRecovery}
             tokenUsage={gameState.tokenUsage}
+            usageLedger={gameState.usageLedger}
+            priceTable={gameState.settings.priceTable}
+            usageBudget={gameState.settings.usageBudget}
+            sessionStartedAt={sessionStartedAt}
             onLanguageToggle={toggleLanguage}
             autoSaveEnabled={gameState.settings.autoSaveEnabled ?? false}
             onToggleAutoSave={toggleAutoSave}
@@ -8165,6 +9795,28 @@ const App: React.FC = () => {
             showSave={canManualSave}
             onRefreshInventory={handleInventoryRefresh}
             inventoryRefreshing={isInventoryRefreshing}
+            onToggleEquip={handleToggleEquip}
+            onCompanionCommand={handleCompanionCommand}
+            onCompanionEquip={handleCompanionEquip}
+            survivalMode={!!gameState.settings.survivalMode}
+            onLevelUp={handleOpenLevelUp}
+            canLevelUp={!gameState.isThinking && !gameState.combat}
+            factionReputation={gameState.factionReputation || {}}
+            onOpenBarter={() => setIsBarterOpen(true)}
+            inventoryActionsEnabled={!inputLocked}
+            onOpenCrafting={() => setIsCraftingOpen(true)}
+            onOpenDossier={() => setIsDossierOpen(true)}
+            onUseItem={handleUseItem}
+            trackedQuestId={getTrackedQuest(gameState.quests, gameState.trackedQuestId)?.id || null}
+            onTrackQuest={handleTrackQuest}
+            onQuestRecap={handleQuestRecap}
+            questRecap={questRecap}
+            questRecapPending={questRecapPending}
+            locations={gameState.locations || []}
+            mapRegion={getMapRegion(gameState)}
+            onFastTravel={handleFastTravel}
+            canFastTravel={!inputLocked}
+            onUpdateLocationNotes={handleUpdateLocationNotes}
             onRebuildStatus={handleStatusRebuildRequest}
             statusRebuilding={isStatusRebuilding}
             canRebuildStatus={!!gameState.status_track && !gameState.isThinking}
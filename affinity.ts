@@ -0,0 +1,127 @@
+import { Actor, CompanionUpdate, KnownNpcUpdate, Perk, StatusChange } from './types';
+import { RankTier, getRankLabel, normalizeName, readNumber } from './utils';
+
+export const AFFINITY_LIMIT = 100;
+// Largest swing a single update may cause; bigger requests are clamped.
+const AFFINITY_DELTA_LIMIT = 25;
+// Only the most recent changes are kept in each NPC's history.
+const AFFINITY_LOG_LIMIT = 30;
+// A companion reaching this regard grants the player their companion perk, once.
+export const COMPANION_PERK_THRESHOLD = 75;
+// A companion whose regard falls to this leaves the party.
+export const COMPANION_LEAVE_THRESHOLD = -50;
+
+const AFFINITY_RANKS: RankTier[] = [
+  { min: COMPANION_PERK_THRESHOLD, en: 'Devoted', zh: '忠诚' },
+  { min: 40, en: 'Friendly', zh: '友好' },
+  { min: 15, en: 'Warm', zh: '亲近' },
+  { min: -14, en: 'Neutral', zh: '中立' },
+  { min: -39, en: 'Cold', zh: '冷淡' },
+  { min: -74, en: 'Resentful', zh: '怨恨' },
+  { min: -AFFINITY_LIMIT, en: 'Hostile', zh: '敌视' }
+];
+
+const clampAffinity = (value: number) =>
+  Math.min(AFFINITY_LIMIT, Math.max(-AFFINITY_LIMIT, Math.round(value)));
+
+export const normalizeAffinityDelta = (value: unknown) =>
+  Math.min(AFFINITY_DELTA_LIMIT, Math.max(-AFFINITY_DELTA_LIMIT, Math.round(readNumber(value, 0))));
+
+export const getAffinity = (npc: Pick<Actor, 'affinity'>) => clampAffinity(readNumber(npc.affinity, 0));
+
+export const getAffinityRank = (score: number, isZh: boolean) => getRankLabel(AFFINITY_RANKS, score, isZh);
+
+// Moves the score and records why; updates without a delta leave the NPC untouched.
+export const applyAffinityChange = (npc: Actor, update: KnownNpcUpdate, time: string): Actor => {
+  const before = getAffinity(npc);
+  const score = clampAffinity(before + normalizeAffinityDelta(update.affinityDelta));
+  if (score === before) return npc;
+  const reason = typeof update.affinityReason === 'string' ? update.affinityReason.trim() : '';
+  const entry = { time, delta: score - before, score, reason };
+  return {
+    ...npc,
+    affinity: score,
+    affinityLog: [...(npc.affinityLog || []), entry].slice(-AFFINITY_LOG_LIMIT)
+  };
+};
+
+const buildCompanionPerk = (name: string, isZh: boolean): Perk => ({
+  name: isZh ? `${name}的信任` : `${name}'s Trust`,
+  description: isZh
+    ? `${name}全心信任你，与你并肩作战时格外拼命。`
+    : `${name} trusts you completely and fights harder at your side.`,
+  rank: 1
+});
+
+/**
+ * Works out what crossing a threshold does for this change: a companion who becomes Devoted
+ * grants their perk, one who sinks to the leave threshold walks away. The caller writes both
+ * into the change so a rebuild from the status track replays them without re-checking.
+ */
+export const resolveAffinityThresholds = (
+  change: StatusChange,
+  knownNpcs: Actor[],
+  player: Actor,
+  isZh: boolean
+) => {
+  const perksAdd: Perk[] = [];
+  const departures: CompanionUpdate[] = [];
+  const heldPerks = new Set((player.perks || []).map(perk => normalizeName(perk.name)));
+  (Array.isArray(change.knownNpcsUpdates) ? change.knownNpcsUpdates : []).forEach(update => {
+    if (!update?.name) return;
+    const npc = knownNpcs.find(entry => normalizeName(entry.name) === normalizeName(update.name));
+    if (!npc) return;
+    const joining = (change.companionUpdates || []).find(entry => entry.name === npc.name);
+    if (!(joining ? joining.ifCompanion : npc.ifCompanion)) return;
+    const before = getAffinity(npc);
+    const after = clampAffinity(before + normalizeAffinityDelta(update.affinityDelta));
+    if (before < COMPANION_PERK_THRESHOLD && after >= COMPANION_PERK_THRESHOLD) {
+      const perk = buildCompanionPerk(npc.name, isZh);
+      if (!heldPerks.has(normalizeName(perk.name))) {
+        perksAdd.push(perk);
+        heldPerks.add(normalizeName(perk.name));
+      }
+    }
+    if (before > COMPANION_LEAVE_THRESHOLD && after <= COMPANION_LEAVE_THRESHOLD) {
+      departures.push({
+        name: npc.name,
+        ifCompanion: false,
+        reason: isZh ? '好感度过低，离开了队伍' : 'Affinity fell too low; left the party'
+      });
+    }
+  });
+  return { perksAdd, departures };
+};
+
+export const formatAffinityNote = (
+  updates: KnownNpcUpdate[] | undefined,
+  knownNpcs: Actor[],
+  thresholds: { perksAdd: Perk[]; departures: CompanionUpdate[] },
+  isZh: boolean
+) => {
+  const parts = (updates || []).flatMap(update => {
+    const delta = normalizeAffinityDelta(update?.affinityDelta);
+    if (!update?.name || delta === 0) return [];
+    const npc = knownNpcs.find(entry => normalizeName(entry.name) === normalizeName(update.name));
+    if (!npc) return [];
+    const score = getAffinity(npc);
+    return [`${npc.name} ${delta > 0 ? '+' : ''}${delta} (${getAffinityRank(score, isZh)})`];
+  });
+  thresholds.perksAdd.forEach(perk => {
+    parts.push(isZh ? `解锁同伴特长：${perk.name}` : `Companion perk unlocked: ${perk.name}`);
+  });
+  thresholds.departures.forEach(entry => {
+    parts.push(isZh ? `${entry.name} 离开了队伍` : `${entry.name} left the party`);
+  });
+  if (parts.length === 0) return '';
+  return isZh ? `[好感] ${parts.join('，')}` : `[AFFINITY] ${parts.join(', ')}`;
+};
+
+export const buildAffinityRule = (index: number, knownNpcs: Array<Pick<Actor, 'name' | 'affinity'>>) => {
+  const tracked = knownNpcs.filter(npc => typeof npc.affinity === 'number');
+  if (tracked.length === 0) return '';
+  const list = tracked
+    .map(npc => `${npc.name} ${getAffinity(npc)} (${getAffinityRank(getAffinity(npc), false)})`)
+    .join(', ');
+  return `${index}. NPC affinity toward the player (tracked locally, binding): ${list}. Let each NPC's tone and willingness to help follow it: warm and candid when Friendly or better, curt or guarded when Cold or worse.\n`;
+};
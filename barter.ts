@@ -0,0 +1,158 @@
+import { Actor, InventoryItem, KnownNpcUpdate, PlayerChange, Skill, SpecialAttr, StatusChange } from './types';
+import { enforceCarryLimit } from './carryWeight';
+import { normalizeName, readNumber } from './utils';
+
+export const BARTER_PREFIX = { en: '[TRADE]', zh: '[交易]' } as const;
+
+// Worst and best price multipliers; Barter and Charisma move the player from one end to the other.
+const BUY_MARKUP = { worst: 1.5, best: 1 } as const;
+const SELL_RATE = { worst: 0.5, best: 0.85 } as const;
+const CHARISMA_BASELINE = 5;
+const BARTER_POINTS_PER_CHARISMA = 5;
+
+export type BarterSide = 'buy' | 'sell';
+
+// Item name -> count chosen on each side of the deal.
+export type BarterSelection = Record<BarterSide, Record<string, number>>;
+
+export interface BarterLine {
+  item: InventoryItem;
+  count: number;
+  price: number;
+}
+
+export interface BarterExchange {
+  merchant: string;
+  bought: BarterLine[];
+  sold: BarterLine[];
+  buyTotal: number;
+  sellTotal: number;
+  playerChange: PlayerChange;
+  merchantUpdate: KnownNpcUpdate;
+}
+
+const getBarterFactor = (player: Actor) => {
+  const barter = readNumber(player.skills?.[Skill.Barter], 0);
+  const charisma = readNumber(player.special?.[SpecialAttr.Charisma], CHARISMA_BASELINE);
+  const score = barter + (charisma - CHARISMA_BASELINE) * BARTER_POINTS_PER_CHARISMA;
+  return Math.min(1, Math.max(0, score / 100));
+};
+
+export const getBuyPrice = (player: Actor, item: InventoryItem) => {
+  const factor = getBarterFactor(player);
+  const markup = BUY_MARKUP.worst - (BUY_MARKUP.worst - BUY_MARKUP.best) * factor;
+  return Math.ceil(Math.max(0, readNumber(item.value, 0)) * markup);
+};
+
+export const getSellPrice = (player: Actor, item: InventoryItem) => {
+  const factor = getBarterFactor(player);
+  const rate = SELL_RATE.worst + (SELL_RATE.best - SELL_RATE.worst) * factor;
+  return Math.floor(Math.max(0, readNumber(item.value, 0)) * rate);
+};
+
+// Caps are traded as caps, and the player keeps whatever is equipped.
+export const getTradableItems = (actor: Actor) => {
+  const equipped = Object.values(actor.equipped || {}).filter(Boolean).map(normalizeName);
+  return (actor.inventory || []).filter(item =>
+    item.type !== 'Currency'
+    && readNumber(item.count, 1) > 0
+    && !equipped.includes(normalizeName(item.name))
+  );
+};
+
+const pickLines = (items: InventoryItem[], chosen: Record<string, number>, priceOf: (item: InventoryItem) => number) =>
+  items.flatMap(item => {
+    const count = Math.min(Math.max(0, Math.floor(readNumber(chosen[item.name], 0))), readNumber(item.count, 1));
+    return count > 0 ? [{ item, count, price: priceOf(item) * count }] : [];
+  });
+
+/**
+ * Prices the chosen items and turns the deal into local changes: a player delta
+ * (items plus net caps) and an update for the merchant's own inventory and caps.
+ */
+export const buildBarterExchange = (player: Actor, merchant: Actor, selection: BarterSelection): BarterExchange => {
+  const bought = pickLines(getTradableItems(merchant), selection.buy, item => getBuyPrice(player, item));
+  const sold = pickLines(getTradableItems(player), selection.sell, item => getSellPrice(player, item));
+  const buyTotal = bought.reduce((sum, line) => sum + line.price, 0);
+  const sellTotal = sold.reduce((sum, line) => sum + line.price, 0);
+  const net = sellTotal - buyTotal;
+  const toItems = (lines: BarterLine[]) => lines.map(line => ({ ...line.item, count: line.count }));
+  const toRemovals = (lines: BarterLine[]) => lines.map(line => ({ name: line.item.name, count: line.count }));
+  return {
+    merchant: merchant.name,
+    bought,
+    sold,
+    buyTotal,
+    sellTotal,
+    playerChange: {
+      caps: net,
+      inventoryChange: { add: toItems(bought), remove: toRemovals(sold) }
+    },
+    merchantUpdate: {
+      name: merchant.name,
+      caps: Math.max(0, readNumber(merchant.caps, 0)) - net,
+      inventoryChange: { add: toItems(sold), remove: toRemovals(bought) }
+    }
+  };
+};
+
+export const getBarterProblem = (player: Actor, merchant: Actor, exchange: BarterExchange, isZh: boolean) => {
+  if (exchange.bought.length === 0 && exchange.sold.length === 0) {
+    return isZh ? '还没有选择任何物品。' : 'Nothing selected to trade.';
+  }
+  const net = exchange.sellTotal - exchange.buyTotal;
+  if (readNumber(player.caps, 0) + net < 0) {
+    return isZh ? '瓶盖不足。' : 'Not enough caps.';
+  }
+  if (readNumber(merchant.caps, 0) - net < 0) {
+    return isZh ? `${merchant.name} 没有足够的瓶盖。` : `${merchant.name} cannot afford that.`;
+  }
+  if (enforceCarryLimit(player, exchange.playerChange.inventoryChange).rejected.length > 0) {
+    return isZh ? '买下这些会超出负重上限。' : 'That would push you past your carry limit.';
+  }
+  return null;
+};
+
+const formatLines = (lines: BarterLine[]) =>
+  lines.map(line => (line.count > 1 ? `${line.item.name} x${line.count}` : line.item.name)).join(', ');
+
+// The action text the narrator receives; the exchange itself is already applied.
+export const formatBarterAction = (exchange: BarterExchange, isZh: boolean) => {
+  const net = exchange.sellTotal - exchange.buyTotal;
+  const parts: string[] = [];
+  if (isZh) {
+    if (exchange.bought.length > 0) parts.push(`买入 ${formatLines(exchange.bought)}`);
+    if (exchange.sold.length > 0) parts.push(`卖出 ${formatLines(exchange.sold)}`);
+    parts.push(net >= 0 ? `收到 ${net} 瓶盖` : `支付 ${-net} 瓶盖`);
+    return `${BARTER_PREFIX.zh} 与${exchange.merchant}交易：${parts.join('；')}。交易已完成。`;
+  }
+  if (exchange.bought.length > 0) parts.push(`bought ${formatLines(exchange.bought)}`);
+  if (exchange.sold.length > 0) parts.push(`sold ${formatLines(exchange.sold)}`);
+  parts.push(net >= 0 ? `received ${net} caps` : `paid ${-net} caps`);
+  return `${BARTER_PREFIX.en} Traded with ${exchange.merchant}: ${parts.join('; ')}. The deal is already settled.`;
+};
+
+export const isBarterAction = (text: string) => {
+  const trimmed = text.trim();
+  return trimmed.startsWith(BARTER_PREFIX.en) || trimmed.startsWith(BARTER_PREFIX.zh);
+};
+
+/**
+ * The narrated turn after a trade must not move items or caps again, so those parts of
+ * the status update are dropped for both the player and the NPCs.
+ */
+export const stripSettledTrade = <T extends StatusChange>(change: T): T => {
+  const next: T = { ...change };
+  if (change.playerChange) {
+    const { caps: _caps, inventoryChange: _inventoryChange, ...playerChange } = change.playerChange;
+    next.playerChange = playerChange;
+  }
+  if (Array.isArray(change.knownNpcsUpdates)) {
+    next.knownNpcsUpdates = change.knownNpcsUpdates.map(update => {
+      if (!update) return update;
+      const { caps: _caps, inventoryChange: _inventoryChange, ...rest } = update;
+      return rest;
+    });
+  }
+  return next;
+};
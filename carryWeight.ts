@@ -0,0 +1,108 @@
+import { Actor, InventoryChange, InventoryItem, SpecialAttr } from './types';
+import { normalizeName, readNumber } from './utils';
+
+const BASE_CARRY_WEIGHT = 50;
+const CARRY_WEIGHT_PER_STRENGTH = 10;
+// Between capacity and the hard cap the player is over-encumbered; past the hard cap nothing more is picked up.
+const HARD_CAP_MULTIPLIER = 1.5;
+
+const CARRY_PERK_BONUS: Array<{ bonus: number; keywords: string[] }> = [
+  { bonus: 50, keywords: ['strong back', '强壮背脊', '强壮的背', '壮背'] },
+  { bonus: 25, keywords: ['pack rat', '囤积狂', '收藏家'] }
+];
+
+const roundWeight = (value: number) => Math.round(value * 10) / 10;
+
+const itemWeight = (item: InventoryItem) =>
+  Math.max(0, readNumber(item.weight, 0)) * Math.max(0, readNumber(item.count, 1));
+
+export const getInventoryWeight = (inventory: InventoryItem[] | undefined) =>
+  roundWeight((inventory || []).reduce((sum, item) => sum + itemWeight(item), 0));
+
+const getPerkCarryBonus = (actor: Actor) => (actor.perks || []).reduce((sum, perk) => {
+  const name = (perk.name || '').toLowerCase();
+  const match = CARRY_PERK_BONUS.find(entry => entry.keywords.some(keyword => name.includes(keyword)));
+  return match ? sum + match.bonus * Math.max(1, readNumber(perk.rank, 1)) : sum;
+}, 0);
+
+export const getCarryCapacity = (actor: Actor) => {
+  const strength = Math.max(0, readNumber(actor.special?.[SpecialAttr.Strength], 5));
+  return BASE_CARRY_WEIGHT + strength * CARRY_WEIGHT_PER_STRENGTH + getPerkCarryBonus(actor);
+};
+
+export interface Encumbrance {
+  carried: number;
+  capacity: number;
+  hardCap: number;
+  overEncumbered: boolean;
+}
+
+export const getEncumbrance = (actor: Actor): Encumbrance => {
+  const carried = getInventoryWeight(actor.inventory);
+  const capacity = getCarryCapacity(actor);
+  return {
+    carried,
+    capacity,
+    hardCap: Math.round(capacity * HARD_CAP_MULTIPLIER),
+    overEncumbered: carried > capacity
+  };
+};
+
+/**
+ * Trims inventoryChange.add so the player never ends above the hard cap.
+ * Removals are counted first; stacks that only partly fit are split and the rest is returned as rejected.
+ */
+export const enforceCarryLimit = (actor: Actor, change?: InventoryChange | null) => {
+  const rejected: InventoryItem[] = [];
+  if (!change || !Array.isArray(change.add) || change.add.length === 0) {
+    return { inventoryChange: change, rejected };
+  }
+  const { hardCap } = getEncumbrance(actor);
+  let carried = getInventoryWeight(actor.inventory);
+  (Array.isArray(change.remove) ? change.remove : []).forEach(entry => {
+    if (!entry?.name) return;
+    const held = (actor.inventory || []).find(item => normalizeName(item.name) === normalizeName(entry.name));
+    if (!held) return;
+    const count = Math.min(Math.max(0, readNumber(entry.count, 1)), held.count);
+    carried -= Math.max(0, readNumber(held.weight, 0)) * count;
+  });
+  const accepted: InventoryItem[] = [];
+  change.add.forEach(item => {
+    if (!item) return;
+    const unitWeight = Math.max(0, readNumber(item.weight, 0));
+    const count = Math.max(0, Math.floor(readNumber(item.count, 1)));
+    if (unitWeight === 0 || carried + unitWeight * count <= hardCap) {
+      accepted.push(item);
+      carried += unitWeight * count;
+      return;
+    }
+    const fitting = Math.max(0, Math.floor((hardCap - carried) / unitWeight));
+    if (fitting > 0) {
+      accepted.push({ ...item, count: fitting });
+      carried += unitWeight * fitting;
+    }
+    rejected.push({ ...item, count: count - fitting });
+  });
+  if (rejected.length === 0) {
+    return { inventoryChange: change, rejected };
+  }
+  return { inventoryChange: { ...change, add: accepted }, rejected };
+};
+
+export const formatEncumbranceNote = (rejected: InventoryItem[], isZh: boolean) => {
+  const list = rejected.map(item => (item.count > 1 ? `${item.name} x${item.count}` : item.name)).join(', ');
+  return isZh
+    ? `[负重] 背包已达上限，无法携带：${list}。这些物品被留在原地。`
+    : `[ENCUMBRANCE] Carry limit reached, left behind: ${list}.`;
+};
+
+export const buildEncumbranceBlock = (actor: Actor) => {
+  const encumbrance = getEncumbrance(actor);
+  if (!encumbrance.overEncumbered) return '';
+  return `ENCUMBRANCE (computed locally, binding): ${JSON.stringify(encumbrance)}\n`;
+};
+
+export const buildEncumbranceRule = (index: number, actor: Actor) => {
+  if (!getEncumbrance(actor).overEncumbered) return '';
+  return `${index}. The player is OVER-ENCUMBERED: they cannot run, sprint, dodge nimbly or cover long distances quickly, and exertion tires them. Reflect this in the outcome unless they drop items.\n`;
+};
@@ -0,0 +1,404 @@
+import { Actor, AmmoUsage, BodyPart, CombatAttack, CombatRoundRecord, CombatState, InventoryItem, KnownNpcUpdate, PlayerChange, Skill, SkillCheckResult, SpecialAttr, StatusChange } from './types';
+import { matchesKeyword, rollD100 } from './skillCheck';
+import { readNumber } from './utils';
+
+export const COMBAT_BODY_PARTS: BodyPart[] = ['head', 'torso', 'leftArm', 'rightArm', 'leftLeg', 'rightLeg'];
+
+export const BODY_PART_PROFILE: Record<BodyPart, { hitModifier: number; damageMultiplier: number; en: string; zh: string }> = {
+  head: { hitModifier: -25, damageMultiplier: 2, en: 'Head', zh: '头部' },
+  torso: { hitModifier: 0, damageMultiplier: 1, en: 'Torso', zh: '躯干' },
+  leftArm: { hitModifier: -10, damageMultiplier: 0.8, en: 'Left Arm', zh: '左臂' },
+  rightArm: { hitModifier: -10, damageMultiplier: 0.8, en: 'Right Arm', zh: '右臂' },
+  leftLeg: { hitModifier: -8, damageMultiplier: 0.9, en: 'Left Leg', zh: '左腿' },
+  rightLeg: { hitModifier: -8, damageMultiplier: 0.9, en: 'Right Leg', zh: '右腿' }
+};
+
+export const UNARMED_LABEL = 'Unarmed';
+
+const WEAPON_SKILL_KEYWORDS: Array<{ skill: Skill; keywords: string[] }> = [
+  { skill: Skill.EnergyWeapons, keywords: ['laser', 'plasma', 'gauss', 'tesla', 'pulse', 'alien blaster', '激光', '等离子', '高斯', '特斯拉'] },
+  { skill: Skill.BigGuns, keywords: ['minigun', 'flamer', 'launcher', 'fat man', 'gatling', 'incinerator', '加特林', '火焰', '发射器', '胖子'] },
+  { skill: Skill.MeleeWeapons, keywords: ['knife', 'machete', 'bat', 'sledgehammer', 'sword', 'axe', 'ripper', 'lead pipe', 'wrench', 'spear', '刀', '剑', '斧', '锤', '棍', '棒', '矛'] },
+  { skill: Skill.Unarmed, keywords: ['knuckles', 'fist', 'gauntlet', 'power fist', 'deathclaw gauntlet', '指虎', '拳套', '铁拳'] }
+];
+
+// AP costs loosely follow Fallout 3: fists are cheap, heavy weapons are slow.
+const ATTACK_AP_COST: Partial<Record<Skill, number>> = {
+  [Skill.Unarmed]: 15,
+  [Skill.MeleeWeapons]: 20,
+  [Skill.SmallGuns]: 25,
+  [Skill.EnergyWeapons]: 30,
+  [Skill.BigGuns]: 40
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const readSpecial = (actor: Actor, attr: SpecialAttr) => clamp(readNumber(actor.special?.[attr], 5), 0, 10);
+
+const readSkill = (actor: Actor, skill: Skill) => clamp(readNumber(actor.skills?.[skill], 0), 0, 100);
+
+export const getWeaponSkill = (weapon?: InventoryItem | null): Skill => {
+  if (!weapon) return Skill.Unarmed;
+  const name = weapon.name.toLowerCase();
+  const match = WEAPON_SKILL_KEYWORDS.find(entry => entry.keywords.some(keyword => name.includes(keyword)));
+  return match ? match.skill : Skill.SmallGuns;
+};
+
+export const getCombatWeapons = (actor: Actor) =>
+  (actor.inventory || []).filter(item => item.type === 'Weapon' && item.count > 0);
+
+export const findCombatWeapon = (actor: Actor, weaponName?: string) => {
+  if (!weaponName || weaponName === UNARMED_LABEL) return null;
+  return getCombatWeapons(actor).find(item => item.name === weaponName) || null;
+};
+
+// Falls back to the first carried weapon so NPCs without equip slots still fight armed.
+export const getEquippedWeapon = (actor: Actor) =>
+  findCombatWeapon(actor, actor.equipped?.weapon) || getCombatWeapons(actor)[0] || null;
+
+// Heavy weapons chew through a burst per attack; everything else fires one round.
+const ROUNDS_PER_ATTACK: Partial<Record<Skill, number>> = {
+  [Skill.BigGuns]: 5
+};
+
+// A free-text attack in the event pipeline stands in for a short exchange of fire.
+const EVENT_ATTACKS_PER_ACTION = 3;
+
+const RANGED_SKILLS = [Skill.SmallGuns, Skill.BigGuns, Skill.EnergyWeapons];
+
+const RANGED_ATTACK_KEYWORDS = ['shoot', 'fire at', 'open fire', 'gun down', 'blast', 'snipe', 'attack', 'unload', '射击', '开枪', '开火', '攻击', '狙击', '扫射'];
+
+export const getRoundsPerAttack = (weapon?: InventoryItem | null) =>
+  weapon?.weaponStats?.ammoType ? ROUNDS_PER_ATTACK[getWeaponSkill(weapon)] ?? 1 : 0;
+
+export const getAmmoCount = (actor: Actor, weapon?: InventoryItem | null) => {
+  const ammoType = weapon?.weaponStats?.ammoType?.trim().toLowerCase();
+  if (!ammoType) return 0;
+  const stack = (actor.inventory || []).find(item => item.name.trim().toLowerCase() === ammoType);
+  return stack ? Math.max(0, stack.count) : 0;
+};
+
+// Rounds the player's queued V.A.T.S. attacks will spend with the given weapon.
+const getQueuedRounds = (player: Actor, combat: CombatState, weapon: InventoryItem) =>
+  combat.pendingAttacks
+    .filter(attack => attack.attacker === player.name && attack.weapon === weapon.name)
+    .length * getRoundsPerAttack(weapon);
+
+const MAX_DAMAGE_REDUCTION = 0.85;
+
+// Each point of DR removes 1% of incoming damage, scaled by armor condition.
+const getDamageReduction = (actor: Actor) => {
+  const equippedNames = [actor.equipped?.body, actor.equipped?.head].filter(Boolean);
+  const total = (actor.inventory || [])
+    .filter(item => item.armorStats && equippedNames.includes(item.name))
+    .reduce((sum, item) => sum + item.armorStats!.damageResistance * (item.armorStats!.condition / 100), 0);
+  return clamp(total / 100, 0, MAX_DAMAGE_REDUCTION);
+};
+
+export const getCombatMaxAp = (actor: Actor) => 65 + readSpecial(actor, SpecialAttr.Agility) * 3;
+
+export const getAttackApCost = (weapon?: InventoryItem | null) => ATTACK_AP_COST[getWeaponSkill(weapon)] ?? 25;
+
+export const computeHitChance = (attacker: Actor, weapon: InventoryItem | null | undefined, bodyPart: BodyPart) => {
+  const skill = getWeaponSkill(weapon);
+  const base = readSkill(attacker, skill) * 0.5
+    + readSpecial(attacker, SpecialAttr.Perception) * 4
+    + readSpecial(attacker, SpecialAttr.Agility) * 2;
+  return clamp(Math.round(base + BODY_PART_PROFILE[bodyPart].hitModifier), 5, 95);
+};
+
+const computeBaseDamage = (attacker: Actor, weapon: InventoryItem | null | undefined) => {
+  const skill = getWeaponSkill(weapon);
+  const strengthBonus = skill === Skill.Unarmed || skill === Skill.MeleeWeapons
+    ? readSpecial(attacker, SpecialAttr.Strength)
+    : 0;
+  const weaponBonus = weapon?.weaponStats
+    ? Math.round(weapon.weaponStats.damage * Math.max(0.5, weapon.weaponStats.condition / 100))
+    : weapon ? Math.floor(Math.min(300, Math.max(0, weapon.value)) / 25) : 0;
+  return 4 + Math.floor(readSkill(attacker, skill) / 10) + strengthBonus + weaponBonus;
+};
+
+export const isActorDown = (actor: Actor) => readNumber(actor.health, 0) <= 0;
+
+const rollAttack = (
+  attacker: Actor,
+  target: Actor,
+  weapon: InventoryItem | null | undefined,
+  bodyPart: BodyPart,
+  seed: string
+): CombatAttack => {
+  const hitChance = computeHitChance(attacker, weapon, bodyPart);
+  const roll = rollD100(seed);
+  const hit = roll <= hitChance;
+  const critical = hit && rollD100(`${seed}|crit`) <= readSpecial(attacker, SpecialAttr.Luck);
+  const multiplier = BODY_PART_PROFILE[bodyPart].damageMultiplier * (critical ? 2 : 1);
+  const rawDamage = computeBaseDamage(attacker, weapon) * multiplier * (1 - getDamageReduction(target));
+  const damage = hit ? Math.max(1, Math.round(rawDamage)) : 0;
+  return {
+    attacker: attacker.name,
+    target: target.name,
+    bodyPart,
+    weapon: weapon?.name || UNARMED_LABEL,
+    hitChance,
+    roll,
+    hit,
+    critical,
+    damage
+  };
+};
+
+// Attacks and health updates target enemies by name, so same-named foes get numbered ("Raider 2").
+export const labelCombatEnemies = (enemies: Actor[]) => {
+  const taken = new Set<string>();
+  return enemies.map(enemy => {
+    let name = enemy.name;
+    for (let index = 2; taken.has(name); index += 1) name = `${enemy.name} ${index}`;
+    taken.add(name);
+    return name === enemy.name ? enemy : { ...enemy, name };
+  });
+};
+
+export const startCombat = (player: Actor, enemies: Actor[], weaponName?: string): CombatState => {
+  const maxAp = getCombatMaxAp(player);
+  return {
+    enemies: labelCombatEnemies(enemies).map(enemy => ({ ...enemy, health: Math.max(1, readNumber(enemy.health, 1)) })),
+    round: 1,
+    ap: maxAp,
+    maxAp,
+    weaponName: weaponName || getEquippedWeapon(player)?.name || UNARMED_LABEL,
+    pendingAttacks: [],
+    seed: `${player.name}|${Date.now()}`
+  };
+};
+
+export const hasAmmoForAttack = (player: Actor, combat: CombatState, weapon?: InventoryItem | null) => {
+  const rounds = getRoundsPerAttack(weapon);
+  if (!weapon || rounds === 0) return true;
+  return getAmmoCount(player, weapon) - getQueuedRounds(player, combat, weapon) >= rounds;
+};
+
+/**
+ * Queues one V.A.T.S. attack for the current round and applies its damage to the target.
+ * Returns null when the player cannot afford the shot, is out of ammo, or the target is already down.
+ */
+export const resolvePlayerAttack = (
+  player: Actor,
+  combat: CombatState,
+  targetName: string,
+  bodyPart: BodyPart
+): CombatState | null => {
+  const weapon = findCombatWeapon(player, combat.weaponName);
+  const cost = getAttackApCost(weapon);
+  const target = combat.enemies.find(enemy => enemy.name === targetName);
+  if (!target || isActorDown(target) || combat.ap < cost) return null;
+  if (!hasAmmoForAttack(player, combat, weapon)) return null;
+  const seed = `${combat.seed}|${combat.round}|${combat.pendingAttacks.length}|${targetName}|${bodyPart}`;
+  const attack = rollAttack(player, target, weapon, bodyPart, seed);
+  return {
+    ...combat,
+    ap: combat.ap - cost,
+    enemies: combat.enemies.map(enemy => (enemy.name === targetName
+      ? { ...enemy, health: Math.max(0, enemy.health - attack.damage) }
+      : enemy)),
+    pendingAttacks: [...combat.pendingAttacks, attack]
+  };
+};
+
+const resolveEnemyAttacks = (player: Actor, combat: CombatState): CombatAttack[] =>
+  combat.enemies
+    .filter(enemy => !isActorDown(enemy))
+    .map((enemy, index) => {
+      const weapon = getEquippedWeapon(enemy);
+      return rollAttack(enemy, player, weapon, 'torso', `${combat.seed}|${combat.round}|${index}|${enemy.name}`);
+    });
+
+export const getFleeChance = (player: Actor) =>
+  clamp(readSpecial(player, SpecialAttr.Agility) * 8 + readSpecial(player, SpecialAttr.Luck) * 2, 10, 90);
+
+/**
+ * Closes the current round: surviving enemies return fire and the round record is produced.
+ * The returned state is null once combat is over (all enemies down, the player down, or a successful escape).
+ */
+export const endCombatRound = (
+  player: Actor,
+  combat: CombatState,
+  options?: { flee?: boolean }
+): { record: CombatRoundRecord; next: CombatState | null; playerDamage: number } => {
+  const fled = !!options?.flee && rollD100(`${combat.seed}|${combat.round}|flee`) <= getFleeChance(player);
+  const enemyAttacks = fled ? [] : resolveEnemyAttacks(player, combat);
+  const playerDamage = enemyAttacks.reduce((sum, attack) => sum + attack.damage, 0);
+  const enemiesDown = combat.enemies.every(isActorDown);
+  const playerDown = readNumber(player.health, 0) - playerDamage <= 0;
+  const ended = fled || enemiesDown || playerDown;
+  const record: CombatRoundRecord = {
+    round: combat.round,
+    attacks: [...combat.pendingAttacks, ...enemyAttacks],
+    ...(options?.flee ? { fled } : {}),
+    ...(ended ? { ended: true } : {})
+  };
+  const next: CombatState | null = ended
+    ? null
+    : { ...combat, round: combat.round + 1, ap: combat.maxAp, pendingAttacks: [] };
+  return { record, next, playerDamage };
+};
+
+const describeAttack = (attack: CombatAttack) => {
+  const part = BODY_PART_PROFILE[attack.bodyPart].en;
+  if (!attack.hit) {
+    return `${attack.attacker} attacks ${attack.target}'s ${part} with ${attack.weapon} and misses (${attack.hitChance}% chance).`;
+  }
+  return `${attack.attacker} hits ${attack.target}'s ${part} with ${attack.weapon}${attack.critical ? ' (CRITICAL)' : ''} for ${attack.damage} damage.`;
+};
+
+export const summarizeCombatRound = (record: CombatRoundRecord, combat: CombatState) => {
+  const lines = record.attacks.map(describeAttack);
+  if (record.fled === true) lines.push('The player breaks away and escapes the fight.');
+  if (record.fled === false) lines.push('The player tries to flee but fails to break away.');
+  const enemyStatus = combat.enemies
+    .map(enemy => `${enemy.name}: ${isActorDown(enemy) ? 'down' : `${enemy.health}/${enemy.maxHealth} HP`}`)
+    .join('; ');
+  lines.push(`Enemy status after round ${record.round}: ${enemyStatus}.`);
+  if (record.ended) lines.push('Combat is over.');
+  return lines.join(' ');
+};
+
+// Sums the ammunition the player's attacks in a round used, per weapon.
+const collectRoundAmmoUsage = (player: Actor, record: CombatRoundRecord): AmmoUsage[] => {
+  const usage = new Map<string, AmmoUsage>();
+  record.attacks
+    .filter(attack => attack.attacker === player.name)
+    .forEach(attack => {
+      const weapon = findCombatWeapon(player, attack.weapon);
+      const rounds = getRoundsPerAttack(weapon);
+      if (!weapon || rounds === 0) return;
+      const existing = usage.get(weapon.name);
+      const spent = (existing?.spent || 0) + rounds;
+      const remaining = Math.max(0, getAmmoCount(player, weapon) - spent);
+      usage.set(weapon.name, {
+        weapon: weapon.name,
+        ammoType: weapon.weaponStats!.ammoType,
+        spent,
+        remaining,
+        outOfAmmo: remaining < rounds
+      });
+    });
+  return Array.from(usage.values());
+};
+
+/**
+ * Builds the status change a resolved round contributes to status_track.
+ * Player damage is a normal health delta and spent ammunition a local inventory removal;
+ * enemy health is written back only for known NPCs.
+ */
+export const buildCombatStatusChange = (
+  player: Actor,
+  record: CombatRoundRecord,
+  combat: CombatState,
+  playerDamage: number,
+  knownNpcNames: Set<string>
+): StatusChange => {
+  const ammoUsage = collectRoundAmmoUsage(player, record);
+  const playerChange: PlayerChange = {
+    ...(playerDamage > 0 ? { health: -playerDamage } : {}),
+    ...(ammoUsage.length > 0
+      ? { inventoryChange: { add: [], remove: ammoUsage.map(usage => ({ name: usage.ammoType, count: usage.spent })) } }
+      : {})
+  };
+  const knownNpcsUpdates: KnownNpcUpdate[] = combat.enemies
+    .filter(enemy => knownNpcNames.has(enemy.name))
+    .map(enemy => ({ name: enemy.name, health: enemy.health }));
+  const lastUsage = ammoUsage[ammoUsage.length - 1];
+  return {
+    outcomeSummary: summarizeCombatRound(record, combat),
+    combatRound: record,
+    ...(lastUsage ? { ammoUsage: lastUsage } : {}),
+    ...(Object.keys(playerChange).length > 0 ? { playerChange } : {}),
+    ...(knownNpcsUpdates.length > 0 ? { knownNpcsUpdates } : {}),
+    timePassedMinutes: 1
+  };
+};
+
+export const formatCombatEngageNote = (combat: CombatState, isZh: boolean) => {
+  const names = combat.enemies.map(enemy => enemy.name).join(isZh ? '、' : ', ');
+  return isZh
+    ? `[V.A.T.S.] 遭遇敌对目标：${names}。进入回合制战斗。`
+    : `[V.A.T.S.] Hostiles engaged: ${names}. Turn-based combat started.`;
+};
+
+export const formatCombatRoundLog = (record: CombatRoundRecord, isZh: boolean) => {
+  const lines = record.attacks.map(attack => {
+    const part = isZh ? BODY_PART_PROFILE[attack.bodyPart].zh : BODY_PART_PROFILE[attack.bodyPart].en;
+    if (!attack.hit) {
+      return isZh
+        ? `- ${attack.attacker} → ${attack.target}（${part}）未命中 [${attack.roll}/${attack.hitChance}%]`
+        : `- ${attack.attacker} → ${attack.target} (${part}) MISS [${attack.roll}/${attack.hitChance}%]`;
+    }
+    const critical = attack.critical ? (isZh ? ' 暴击' : ' CRIT') : '';
+    return isZh
+      ? `- ${attack.attacker} → ${attack.target}（${part}）命中${critical} -${attack.damage} HP [${attack.roll}/${attack.hitChance}%]`
+      : `- ${attack.attacker} → ${attack.target} (${part}) HIT${critical} -${attack.damage} HP [${attack.roll}/${attack.hitChance}%]`;
+  });
+  if (record.fled === true) lines.push(isZh ? '- 撤离成功' : '- Escape succeeded');
+  if (record.fled === false) lines.push(isZh ? '- 撤离失败' : '- Escape failed');
+  const header = isZh ? `**[V.A.T.S.] 第 ${record.round} 回合**` : `**[V.A.T.S.] Round ${record.round}**`;
+  const footer = record.ended ? `\n${isZh ? '战斗结束。' : 'Combat over.'}` : '';
+  return `${header}\n${lines.join('\n')}${footer}`;
+};
+
+const isRangedAttackIntent = (intent: string, skillCheck?: SkillCheckResult | null) => {
+  if (skillCheck?.kind === 'skill' && RANGED_SKILLS.includes(skillCheck.stat as Skill)) return true;
+  const text = intent.toLowerCase();
+  return RANGED_ATTACK_KEYWORDS.some(keyword => matchesKeyword(text, keyword));
+};
+
+/**
+ * Works out the ammunition a free-text attack spends before the Event Manager runs.
+ * Uses a weapon named in the intent, otherwise the equipped one; returns null for melee,
+ * non-attack actions, or weapons without an ammo type.
+ */
+export const resolveAmmoUsage = (
+  player: Actor,
+  intent: string,
+  skillCheck?: SkillCheckResult | null
+): AmmoUsage | null => {
+  if (!isRangedAttackIntent(intent, skillCheck)) return null;
+  const text = intent.toLowerCase();
+  const weapon = getCombatWeapons(player).find(item => text.includes(item.name.toLowerCase()))
+    || getEquippedWeapon(player);
+  const rounds = getRoundsPerAttack(weapon);
+  if (!weapon || rounds === 0) return null;
+  const available = getAmmoCount(player, weapon);
+  const outOfAmmo = available < rounds;
+  const spent = outOfAmmo ? 0 : Math.min(available, rounds * EVENT_ATTACKS_PER_ACTION);
+  return {
+    weapon: weapon.name,
+    ammoType: weapon.weaponStats!.ammoType,
+    spent,
+    remaining: available - spent,
+    outOfAmmo
+  };
+};
+
+export const buildAmmoBlock = (usage?: AmmoUsage | null) => {
+  if (!usage) return '';
+  return `AMMO (tracked locally, binding): ${JSON.stringify(usage)}\n`;
+};
+
+export const buildAmmoRule = (index: number, usage?: AmmoUsage | null) => {
+  if (!usage) return '';
+  if (usage.outOfAmmo) {
+    return `${index}. The player's ${usage.weapon} is OUT OF AMMO (${usage.ammoType}): it cannot fire this turn. The attack fails or the player must improvise.\n`;
+  }
+  return `${index}. The player fires ${usage.spent} ${usage.ammoType} from ${usage.weapon}. Ammo is deducted locally; do not add or remove ammunition yourself.\n`;
+};
+
+export const formatAmmoNote = (usage: AmmoUsage, isZh: boolean) => {
+  if (usage.outOfAmmo) {
+    return isZh
+      ? `[弹药] ${usage.weapon} 没有 ${usage.ammoType} 了。`
+      : `[AMMO] ${usage.weapon} is out of ${usage.ammoType}.`;
+  }
+  return isZh
+    ? `[弹药] ${usage.ammoType} -${usage.spent}（剩余 ${usage.remaining}）`
+    : `[AMMO] ${usage.ammoType} -${usage.spent} (${usage.remaining} left)`;
+};
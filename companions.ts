@@ -0,0 +1,81 @@
+import { Actor, InventoryItem, StatusChange } from './types';
+import { enforceCarryLimit } from './carryWeight';
+import { getTradableItems } from './barter';
+import { readNumber } from './utils';
+
+export type CompanionCommand =
+  | { kind: 'give' | 'take'; itemName: string; count: number }
+  | { kind: 'wait' | 'follow' | 'dismiss' };
+
+export const isCompanionWaiting = (npc: Actor) => !!npc.ifCompanion && !!npc.waitingAt;
+
+// A companion left waiting is not at the player's side, so the narrator should not hear about them.
+export const withoutWaitingCompanions = <T extends Actor>(knownNpcs: T[]) =>
+  knownNpcs.filter(npc => !isCompanionWaiting(npc));
+
+const pickItem = (owner: Actor, itemName: string, count: number) => {
+  const item = getTradableItems(owner).find(entry => entry.name === itemName);
+  if (!item) return null;
+  return { item, count: Math.min(Math.max(1, Math.floor(readNumber(count, 1))), readNumber(item.count, 1)) };
+};
+
+const buildTransfer = (from: Actor, to: Actor, itemName: string, count: number) => {
+  const picked = pickItem(from, itemName, count);
+  if (!picked) return null;
+  const add: InventoryItem[] = [{ ...picked.item, count: picked.count }];
+  return {
+    fromChange: { remove: [{ name: picked.item.name, count: picked.count }] },
+    toChange: { add },
+    fits: enforceCarryLimit(to, { add }).rejected.length === 0
+  };
+};
+
+/**
+ * Turns a COMP tab command into a local status change: item transfers move stacks between
+ * the two inventories, and wait, follow and dismiss only touch the companion's own record.
+ */
+export const buildCompanionCommandChange = (
+  player: Actor,
+  companion: Actor,
+  command: CompanionCommand,
+  location: string,
+  isZh: boolean
+): { change: StatusChange } | { error: string } => {
+  const name = companion.name;
+  switch (command.kind) {
+    case 'give':
+    case 'take': {
+      const giving = command.kind === 'give';
+      const transfer = giving
+        ? buildTransfer(player, companion, command.itemName, command.count)
+        : buildTransfer(companion, player, command.itemName, command.count);
+      if (!transfer) {
+        return { error: isZh ? '该物品无法转移（已装备或不存在）。' : 'That item cannot be handed over (equipped or missing).' };
+      }
+      if (!transfer.fits) {
+        return {
+          error: giving
+            ? (isZh ? `${name} 背不动了。` : `${name} cannot carry that much.`)
+            : (isZh ? '这会超出你的负重上限。' : 'That would push you past your carry limit.')
+        };
+      }
+      return {
+        change: {
+          playerChange: { inventoryChange: giving ? transfer.fromChange : transfer.toChange },
+          knownNpcsUpdates: [{ name, inventoryChange: giving ? transfer.toChange : transfer.fromChange }]
+        }
+      };
+    }
+    case 'wait':
+      return { change: { knownNpcsUpdates: [{ name, waitingAt: location }] } };
+    case 'follow':
+      return { change: { knownNpcsUpdates: [{ name, waitingAt: '' }] } };
+    case 'dismiss':
+      return {
+        change: {
+          knownNpcsUpdates: [{ name, waitingAt: '' }],
+          companionUpdates: [{ name, ifCompanion: false, reason: isZh ? '被玩家遣散' : 'Dismissed by the player' }]
+        }
+      };
+  }
+};
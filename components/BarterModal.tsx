@@ -0,0 +1,173 @@
+import React, { useMemo, useState } from 'react';
+import { Actor, InventoryItem, Language } from '../types';
+import {
+  BarterSelection,
+  BarterSide,
+  buildBarterExchange,
+  getBarterProblem,
+  getBuyPrice,
+  getSellPrice,
+  getTradableItems
+} from '../barter';
+
+interface BarterModalProps {
+  player: Actor; // after status effects and survival penalties; sets prices and carry capacity
+  merchants: Actor[];
+  language: Language;
+  onConfirm: (merchantName: string, selection: BarterSelection) => void;
+  onClose: () => void;
+}
+
+const EMPTY_SELECTION: BarterSelection = { buy: {}, sell: {} };
+
+const BarterModal: React.FC<BarterModalProps> = ({ player, merchants, language, onConfirm, onClose }) => {
+  const isZh = language === 'zh';
+  const [merchantName, setMerchantName] = useState(() =>
+    (merchants.find(npc => getTradableItems(npc).length > 0) || merchants[0])?.name || ''
+  );
+  const [selection, setSelection] = useState<BarterSelection>(EMPTY_SELECTION);
+  const merchant = merchants.find(npc => npc.name === merchantName) || null;
+  const exchange = useMemo(
+    () => (merchant ? buildBarterExchange(player, merchant, selection) : null),
+    [player, merchant, selection]
+  );
+  const problem = merchant && exchange ? getBarterProblem(player, merchant, exchange, isZh) : null;
+  const net = exchange ? exchange.sellTotal - exchange.buyTotal : 0;
+  const hasSelection = !!exchange && (exchange.bought.length > 0 || exchange.sold.length > 0);
+
+  const selectMerchant = (name: string) => {
+    setMerchantName(name);
+    setSelection(EMPTY_SELECTION);
+  };
+
+  const adjust = (side: BarterSide, item: InventoryItem, delta: number) => {
+    setSelection(prev => {
+      const current = prev[side][item.name] || 0;
+      const next = Math.min(item.count, Math.max(0, current + delta));
+      if (next === current) return prev;
+      return { ...prev, [side]: { ...prev[side], [item.name]: next } };
+    });
+  };
+
+  const renderColumn = (side: BarterSide, owner: Actor, title: string) => {
+    const items = getTradableItems(owner);
+    return (
+      <div className="flex-1 min-w-0">
+        <div className="flex justify-between text-xs uppercase mb-2">
+          <span className="opacity-70">{title}</span>
+          <span className="opacity-70">{owner.caps} ₵</span>
+        </div>
+        {items.length === 0 ? (
+          <div className="text-xs opacity-50">{isZh ? '没有可交易的物品。' : 'Nothing to trade.'}</div>
+        ) : (
+          <div className="space-y-1 max-h-[40vh] overflow-y-auto pr-1">
+            {items.map(item => {
+              const chosen = selection[side][item.name] || 0;
+              const price = side === 'buy' ? getBuyPrice(player, item) : getSellPrice(player, item);
+              return (
+                <div key={item.name} className="flex items-center justify-between text-xs border-b border-[color:rgba(var(--pip-color-rgb),0.1)] py-1 gap-2">
+                  <div className="flex flex-col min-w-0">
+                    <span className="font-bold truncate">{item.name} {item.count > 1 ? `x${item.count}` : ''}</span>
+                    <span className="text-[0.5625rem] opacity-60">{price} ₵ · {item.weight} lb</span>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <button
+                      type="button"
+                      onClick={() => adjust(side, item, -1)}
+                      disabled={chosen <= 0}
+                      className="w-6 border border-[color:rgba(var(--pip-color-rgb),0.5)] hover:bg-[color:var(--pip-color)] hover:text-black disabled:opacity-30"
+                    >
+                      -
+                    </button>
+                    <span className="w-6 text-center font-bold">{chosen}</span>
+                    <button
+                      type="button"
+                      onClick={() => adjust(side, item, 1)}
+                      disabled={chosen >= item.count}
+                      className="w-6 border border-[color:rgba(var(--pip-color-rgb),0.5)] hover:bg-[color:var(--pip-color)] hover:text-black disabled:opacity-30"
+                    >
+                      +
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed top-0 left-0 w-full h-full z-[3000] flex items-start justify-center bg-black/80 backdrop-blur-sm p-4 overflow-y-auto">
+      <div className="max-w-3xl w-full max-h-[90vh] overflow-y-auto pip-boy-border p-6 md:p-8 bg-black space-y-6">
+        <div className="flex items-center justify-between">
+          <h3 className="text-2xl font-bold uppercase">{isZh ? '交易' : 'Barter'}</h3>
+          <button
+            onClick={onClose}
+            className="text-xs border border-[color:rgba(var(--pip-color-rgb),0.5)] px-2 py-1 hover:bg-[color:var(--pip-color)] hover:text-black transition-colors font-bold uppercase"
+          >
+            {isZh ? '关闭' : 'Close'}
+          </button>
+        </div>
+
+        {merchants.length === 0 ? (
+          <div className="text-xs opacity-50">
+            {isZh ? '附近没有可以交易的已知角色。' : 'No known NPCs to trade with.'}
+          </div>
+        ) : (
+          <>
+            <label className="flex items-center gap-3 text-xs uppercase">
+              <span className="opacity-70">{isZh ? '交易对象' : 'Trade with'}</span>
+              <select
+                value={merchantName}
+                onChange={event => selectMerchant(event.target.value)}
+                className="flex-1 bg-black border border-[color:rgba(var(--pip-color-rgb),0.5)] px-2 py-1 text-[color:var(--pip-color)]"
+              >
+                {merchants.map(npc => (
+                  <option key={npc.name} value={npc.name}>{npc.name}</option>
+                ))}
+              </select>
+            </label>
+
+            {merchant && (
+              <div className="flex flex-col md:flex-row gap-6">
+                {renderColumn('buy', merchant, isZh ? `${merchant.name} 的货物` : `${merchant.name}'s goods`)}
+                {renderColumn('sell', player, isZh ? '你的物品' : 'Your items')}
+              </div>
+            )}
+
+            <div className="border border-[color:rgba(var(--pip-color-rgb),0.3)] p-3 bg-[color:rgba(var(--pip-color-rgb),0.05)] text-xs space-y-1">
+              <div className="flex justify-between">
+                <span className="opacity-70">{isZh ? '买入' : 'Buying'}</span>
+                <span>-{exchange?.buyTotal || 0} ₵</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="opacity-70">{isZh ? '卖出' : 'Selling'}</span>
+                <span>+{exchange?.sellTotal || 0} ₵</span>
+              </div>
+              <div className="flex justify-between font-bold pt-1 border-t border-[color:rgba(var(--pip-color-rgb),0.2)]">
+                <span>{isZh ? '合计' : 'Net'}</span>
+                <span className={net < 0 ? 'text-red-500' : ''}>{net > 0 ? '+' : ''}{net} ₵</span>
+              </div>
+              {hasSelection && problem && (
+                <div className="text-red-500 uppercase text-[0.625rem] pt-1">{problem}</div>
+              )}
+            </div>
+
+            <button
+              type="button"
+              onClick={() => onConfirm(merchantName, selection)}
+              disabled={!merchant || !!problem}
+              className="w-full px-4 py-2 border-2 border-[color:var(--pip-color)] hover:bg-[color:var(--pip-color)] hover:text-black font-bold uppercase transition-all disabled:opacity-40"
+            >
+              {isZh ? '成交' : 'Make the deal'}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BarterModal;
@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import { Actor, BodyPart, CombatState, Language } from '../types';
+import {
+  BODY_PART_PROFILE,
+  COMBAT_BODY_PARTS,
+  UNARMED_LABEL,
+  computeHitChance,
+  findCombatWeapon,
+  getAmmoCount,
+  getAttackApCost,
+  getCombatWeapons,
+  getFleeChance,
+  hasAmmoForAttack,
+  isActorDown
+} from '../combat';
+
+interface CombatPanelProps {
+  player: Actor;
+  combat: CombatState;
+  language: Language;
+  disabled: boolean;
+  onWeaponChange: (weaponName: string) => void;
+  onAttack: (targetName: string, bodyPart: BodyPart) => void;
+  onEndTurn: (flee: boolean) => void;
+}
+
+const CombatPanel: React.FC<CombatPanelProps> = ({
+  player,
+  combat,
+  language,
+  disabled,
+  onWeaponChange,
+  onAttack,
+  onEndTurn
+}) => {
+  const isZh = language === 'zh';
+  const livingEnemies = combat.enemies.filter(enemy => !isActorDown(enemy));
+  const [targetName, setTargetName] = useState<string>(livingEnemies[0]?.name || '');
+  const weapons = getCombatWeapons(player);
+  const weapon = findCombatWeapon(player, combat.weaponName);
+  const attackCost = getAttackApCost(weapon);
+  const hasAmmo = hasAmmoForAttack(player, combat, weapon);
+  const canAfford = combat.ap >= attackCost && hasAmmo;
+  const ammoType = weapon?.weaponStats?.ammoType;
+
+  useEffect(() => {
+    if (!livingEnemies.some(enemy => enemy.name === targetName)) {
+      setTargetName(livingEnemies[0]?.name || '');
+    }
+  }, [livingEnemies, targetName]);
+
+  return (
+    <div className="p-3 md:p-4 bg-black/80 border-t border-[color:rgba(var(--pip-color-rgb),0.3)] space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-bold uppercase tracking-widest">
+          V.A.T.S. · {isZh ? `第 ${combat.round} 回合` : `Round ${combat.round}`}
+        </span>
+        <span className="text-xs uppercase opacity-70">
+          {isZh ? '战斗行动点' : 'Combat AP'} {combat.ap} / {combat.maxAp}
+        </span>
+      </div>
+      <div className="w-full bg-[color:rgba(var(--pip-color-rgb),0.1)] h-2 border border-[color:rgba(var(--pip-color-rgb),0.3)]">
+        <div
+          className="bg-[color:var(--pip-color)] h-full transition-all duration-300"
+          style={{ width: `${Math.max(0, Math.min(100, (combat.ap / combat.maxAp) * 100))}%` }}
+        ></div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        {combat.enemies.map(enemy => {
+          const down = isActorDown(enemy);
+          const selected = enemy.name === targetName;
+          return (
+            <button
+              key={enemy.name}
+              type="button"
+              onClick={() => setTargetName(enemy.name)}
+              disabled={down || disabled}
+              className={`text-left border px-2 py-1 transition-colors disabled:opacity-40 ${selected
+                ? 'border-[color:var(--pip-color)] bg-[color:rgba(var(--pip-color-rgb),0.15)]'
+                : 'border-[color:rgba(var(--pip-color-rgb),0.3)] hover:bg-[color:rgba(var(--pip-color-rgb),0.1)]'}`}
+            >
+              <div className="flex justify-between text-xs uppercase">
+                <span className="font-bold truncate">{enemy.name}</span>
+                <span>{down ? (isZh ? '倒下' : 'DOWN') : `${enemy.health} / ${enemy.maxHealth}`}</span>
+              </div>
+              <div className="w-full bg-[color:rgba(var(--pip-color-rgb),0.1)] h-1.5 mt-1">
+                <div
+                  className="bg-[color:var(--pip-color)] h-full"
+                  style={{ width: `${Math.max(0, Math.min(100, (enemy.health / Math.max(1, enemy.maxHealth)) * 100))}%` }}
+                ></div>
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs uppercase">
+        <span className="opacity-70">{isZh ? '武器' : 'Weapon'}</span>
+        <select
+          value={combat.weaponName || UNARMED_LABEL}
+          onChange={(e) => onWeaponChange(e.target.value)}
+          disabled={disabled}
+          className="bg-black border border-[color:rgba(var(--pip-color-rgb),0.5)] px-2 py-1 text-[color:var(--pip-color)] focus:outline-none"
+        >
+          <option value={UNARMED_LABEL}>{isZh ? '徒手' : 'Unarmed'}</option>
+          {weapons.map(item => (
+            <option key={item.name} value={item.name}>{item.name}</option>
+          ))}
+        </select>
+        <span className="opacity-70">{isZh ? `每次攻击 ${attackCost} 点` : `${attackCost} AP per attack`}</span>
+        {ammoType && (
+          <span className={hasAmmo ? 'opacity-70' : 'text-red-500 font-bold'}>
+            {ammoType} × {getAmmoCount(player, weapon)}{!hasAmmo ? (isZh ? ' · 弹药耗尽' : ' · OUT OF AMMO') : ''}
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
+        {COMBAT_BODY_PARTS.map(part => (
+          <button
+            key={part}
+            type="button"
+            onClick={() => onAttack(targetName, part)}
+            disabled={disabled || !targetName || !canAfford}
+            className="border border-[color:rgba(var(--pip-color-rgb),0.5)] px-2 py-1 text-[10px] uppercase font-bold hover:bg-[color:var(--pip-color)] hover:text-black transition-colors disabled:opacity-40"
+          >
+            <div>{isZh ? BODY_PART_PROFILE[part].zh : BODY_PART_PROFILE[part].en}</div>
+            <div className="opacity-80">{computeHitChance(player, weapon, part)}%</div>
+          </button>
+        ))}
+      </div>
+
+      {combat.pendingAttacks.length > 0 && (
+        <div className="text-[10px] uppercase opacity-70">
+          {isZh ? `本回合已排入 ${combat.pendingAttacks.length} 次攻击` : `${combat.pendingAttacks.length} attack(s) queued this round`}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={() => onEndTurn(false)}
+          disabled={disabled}
+          className="flex-1 px-4 py-2 border-2 border-[color:var(--pip-color)] hover:bg-[color:var(--pip-color)] hover:text-black font-bold uppercase transition-all disabled:opacity-40"
+        >
+          {isZh ? '结束回合' : 'End Turn'}
+        </button>
+        <button
+          type="button"
+          onClick={() => onEndTurn(true)}
+          disabled={disabled}
+          className="px-4 py-2 border border-[color:rgba(var(--pip-color-rgb),0.5)] hover:bg-[color:var(--pip-color)] hover:text-black font-bold uppercase transition-all disabled:opacity-40"
+        >
+          {isZh ? `撤离 ${getFleeChance(player)}%` : `Flee ${getFleeChance(player)}%`}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CombatPanel;
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { Actor, Language } from '../types';
+import { SKILL_LOCALIZATIONS } from '../localization';
+import {
+  CraftingStation,
+  Recipe,
+  RecipeCategory,
+  buildCraftChange,
+  getComponentStatus,
+  getModTargets,
+  localize
+} from '../crafting';
+
+interface CraftingModalProps {
+  player: Actor;
+  recipes: Recipe[];
+  language: Language;
+  notice: string | null;
+  onCraft: (recipeId: string, targetWeapon?: string) => void;
+  onClose: () => void;
+}
+
+const CATEGORY_LABELS: Record<RecipeCategory, { en: string; zh: string }> = {
+  mod: { en: 'Weapon mods', zh: '武器改装' },
+  chem: { en: 'Chems', zh: '药物' },
+  food: { en: 'Cooking', zh: '烹饪' }
+};
+
+const STATION_LABELS: Record<CraftingStation, { en: string; zh: string }> = {
+  workbench: { en: 'Workbench', zh: '工作台' },
+  chemistry: { en: 'Chemistry station', zh: '化学工作台' },
+  campfire: { en: 'Campfire', zh: '篝火' }
+};
+
+const CATEGORIES: RecipeCategory[] = ['mod', 'chem', 'food'];
+
+const CraftingModal: React.FC<CraftingModalProps> = ({ player, recipes, language, notice, onCraft, onClose }) => {
+  const isZh = language === 'zh';
+  const [category, setCategory] = useState<RecipeCategory>('chem');
+  const [targets, setTargets] = useState<Record<string, string>>({});
+  const visible = recipes.filter(recipe => recipe.category === category);
+
+  return (
+    <div className="fixed top-0 left-0 w-full h-full z-[3000] flex items-start justify-center bg-black/80 backdrop-blur-sm p-4 overflow-y-auto">
+      <div className="max-w-2xl w-full max-h-[90vh] overflow-y-auto pip-boy-border p-6 md:p-8 bg-black space-y-6">
+        <div className="flex items-center justify-between">
+          <h3 className="text-2xl font-bold uppercase">{isZh ? '制作' : 'Crafting'}</h3>
+          <button
+            onClick={onClose}
+            className="text-xs border border-[color:rgba(var(--pip-color-rgb),0.5)] px-2 py-1 hover:bg-[color:var(--pip-color)] hover:text-black transition-colors font-bold uppercase"
+          >
+            {isZh ? '关闭' : 'Close'}
+          </button>
+        </div>
+
+        <div className="flex gap-2">
+          {CATEGORIES.map(entry => (
+            <button
+              key={entry}
+              type="button"
+              onClick={() => setCategory(entry)}
+              className={`flex-1 text-xs px-2 py-1 border uppercase font-bold transition-colors ${category === entry
+                ? 'border-[color:var(--pip-color)] bg-[color:var(--pip-color)] text-black'
+                : 'border-[color:rgba(var(--pip-color-rgb),0.5)] hover:bg-[color:rgba(var(--pip-color-rgb),0.1)]'}`}
+            >
+              {isZh ? CATEGORY_LABELS[entry].zh : CATEGORY_LABELS[entry].en}
+            </button>
+          ))}
+        </div>
+
+        {notice && (
+          <div className="text-xs uppercase border border-[color:rgba(var(--pip-color-rgb),0.3)] px-3 py-2 bg-[color:rgba(var(--pip-color-rgb),0.05)]">
+            {notice}
+          </div>
+        )}
+
+        {visible.length === 0 ? (
+          <div className="text-xs opacity-50">
+            {isZh ? '这个时代和地区没有此类配方。' : 'No recipes of this kind in this era and region.'}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {visible.map(recipe => {
+              const skill = player.skills?.[recipe.skill] || 0;
+              const components = getComponentStatus(player, recipe);
+              const modTargets = getModTargets(player, recipe);
+              const target = targets[recipe.id] || modTargets[0]?.name;
+              const result = buildCraftChange(player, recipe, isZh, target);
+              const error = 'error' in result ? result.error : null;
+              return (
+                <div key={recipe.id} className="border border-[color:rgba(var(--pip-color-rgb),0.3)] p-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-bold uppercase">{localize(recipe.name, isZh)}</span>
+                    <span className="text-[0.625rem] uppercase opacity-60">
+                      {isZh ? STATION_LABELS[recipe.station].zh : STATION_LABELS[recipe.station].en}
+                    </span>
+                  </div>
+                  <div className={`text-[0.625rem] uppercase ${skill < recipe.threshold ? 'text-red-500' : 'opacity-70'}`}>
+                    {SKILL_LOCALIZATIONS[language][recipe.skill]} {skill} / {recipe.threshold}
+                  </div>
+                  <ul className="text-xs space-y-0.5">
+                    {components.map(entry => (
+                      <li
+                        key={entry.component.name.en}
+                        className={entry.held < entry.component.count ? 'text-red-500' : 'opacity-90'}
+                      >
+                        ▸ {localize(entry.component.name, isZh)} {entry.held} / {entry.component.count}
+                      </li>
+                    ))}
+                  </ul>
+                  {recipe.mod && (
+                    modTargets.length === 0 ? (
+                      <div className="text-[0.625rem] uppercase opacity-50">
+                        {isZh ? '没有可改装的武器' : 'No weapon this mod fits'}
+                      </div>
+                    ) : (
+                      <select
+                        value={target}
+                        onChange={event => setTargets(prev => ({ ...prev, [recipe.id]: event.target.value }))}
+                        className="w-full bg-black border border-[color:rgba(var(--pip-color-rgb),0.5)] px-2 py-1 text-xs text-[color:var(--pip-color)]"
+                      >
+                        {modTargets.map(item => (
+                          <option key={item.name} value={item.name}>{item.name}</option>
+                        ))}
+                      </select>
+                    )
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => onCraft(recipe.id, target)}
+                    disabled={!!error}
+                    title={error || undefined}
+                    className="w-full text-xs px-3 py-1 border border-[color:var(--pip-color)] uppercase font-bold hover:bg-[color:var(--pip-color)] hover:text-black transition-colors disabled:opacity-40"
+                  >
+                    {isZh ? '制作' : 'Craft'}
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CraftingModal;
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { Actor, Language, Perk, PerkOffer, Skill, SkillSet } from '../types';
+import { SKILL_LOCALIZATIONS } from '../localization';
+import { MAX_SKILL_VALUE, getLevel, getSkillPointsPerLevel } from '../leveling';
+
+interface LevelUpModalProps {
+  player: Actor;
+  perkOffer: PerkOffer | null; // null while the offer for this level is being generated
+  language: Language;
+  onConfirm: (skills: Partial<SkillSet>, perk: Perk | null) => void;
+  onClose: () => void;
+}
+
+const LevelUpModal: React.FC<LevelUpModalProps> = ({ player, perkOffer, language, onConfirm, onClose }) => {
+  const isZh = language === 'zh';
+  const nextLevel = getLevel(player) + 1;
+  const totalPoints = getSkillPointsPerLevel(player);
+  const perkChoices = perkOffer?.perks || [];
+  const [allocation, setAllocation] = useState<Partial<SkillSet>>({});
+  const [selectedPerk, setSelectedPerk] = useState<string | null>(null);
+  const spent = Object.values(allocation).reduce((sum, value) => sum + (value || 0), 0);
+  const remaining = totalPoints - spent;
+  const perk = perkChoices.find(choice => choice.name === selectedPerk) || null;
+  // Points that no skill has room for (every skill capped) are forfeited rather than blocking the level.
+  const room = Object.values(Skill).reduce(
+    (sum, skill) => sum + Math.max(0, MAX_SKILL_VALUE - (player.skills?.[skill] || 0) - (allocation[skill] || 0)),
+    0
+  );
+  const canConfirm = !!perkOffer && (remaining === 0 || room === 0) && (perkChoices.length === 0 || !!perk);
+
+  const adjust = (skill: Skill, delta: number) => {
+    setAllocation(prev => {
+      const current = prev[skill] || 0;
+      const base = player.skills?.[skill] || 0;
+      const next = current + delta;
+      if (next < 0 || base + next > MAX_SKILL_VALUE) return prev;
+      if (delta > 0 && remaining <= 0) return prev;
+      return { ...prev, [skill]: next };
+    });
+  };
+
+  return (
+    <div className="fixed top-0 left-0 w-full h-full z-[3000] flex items-start justify-center bg-black/80 backdrop-blur-sm p-4 overflow-y-auto">
+      <div className="max-w-xl w-full max-h-[90vh] overflow-y-auto pip-boy-border p-6 md:p-8 bg-black space-y-6">
+        <div className="flex items-center justify-between">
+          <h3 className="text-2xl font-bold uppercase">
+            {isZh ? `升级 · 等级 ${nextLevel}` : `Level Up · Level ${nextLevel}`}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-xs border border-[color:rgba(var(--pip-color-rgb),0.5)] px-2 py-1 hover:bg-[color:var(--pip-color)] hover:text-black transition-colors font-bold uppercase"
+          >
+            {isZh ? '稍后' : 'Later'}
+          </button>
+        </div>
+
+        <div>
+          <div className="flex justify-between text-xs uppercase mb-2">
+            <span className="opacity-70">{isZh ? '分配技能点' : 'Distribute skill points'}</span>
+            <span className={remaining > 0 ? 'font-bold' : 'opacity-70'}>
+              {isZh ? `剩余 ${remaining} / ${totalPoints}` : `${remaining} / ${totalPoints} left`}
+            </span>
+          </div>
+          <div className="space-y-1">
+            {Object.values(Skill).map(skill => {
+              const base = player.skills?.[skill] || 0;
+              const added = allocation[skill] || 0;
+              return (
+                <div key={skill} className="flex items-center justify-between text-xs border-b border-[color:rgba(var(--pip-color-rgb),0.1)] py-1">
+                  <span className="opacity-90">{SKILL_LOCALIZATIONS[language][skill]}</span>
+                  <div className="flex items-center gap-2">
+                    <button
+                      type="button"
+                      onClick={() => adjust(skill, -1)}
+                      disabled={added <= 0}
+                      className="w-6 border border-[color:rgba(var(--pip-color-rgb),0.5)] hover:bg-[color:var(--pip-color)] hover:text-black disabled:opacity-30"
+                    >
+                      -
+                    </button>
+                    <span className="w-16 text-center font-bold">
+                      {base + added}{added > 0 ? ` (+${added})` : ''}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => adjust(skill, 1)}
+                      disabled={remaining <= 0 || base + added >= MAX_SKILL_VALUE}
+                      className="w-6 border border-[color:rgba(var(--pip-color-rgb),0.5)] hover:bg-[color:var(--pip-color)] hover:text-black disabled:opacity-30"
+                    >
+                      +
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div>
+          <div className="text-xs uppercase opacity-70 mb-2">
+            {isZh ? '选择一项能力' : 'Choose a perk'}
+            {perkOffer && !perkOffer.generated ? (isZh ? ' · 标准能力表' : ' · standard perk list') : ''}
+          </div>
+          {!perkOffer ? (
+            <div className="text-xs opacity-50 animate-pulse">{isZh ? '正在查阅能力图表……' : 'Consulting the perk chart...'}</div>
+          ) : perkChoices.length === 0 ? (
+            <div className="text-xs opacity-50">{isZh ? '当前没有可选能力。' : 'No perks are available at this level.'}</div>
+          ) : (
+            <div className="space-y-2">
+              {perkChoices.map(choice => (
+                <button
+                  key={choice.name}
+                  type="button"
+                  onClick={() => setSelectedPerk(choice.name)}
+                  className={`w-full text-left border px-3 py-2 transition-colors ${selectedPerk === choice.name
+                    ? 'border-[color:var(--pip-color)] bg-[color:rgba(var(--pip-color-rgb),0.15)]'
+                    : 'border-[color:rgba(var(--pip-color-rgb),0.3)] hover:bg-[color:rgba(var(--pip-color-rgb),0.1)]'}`}
+                >
+                  <div className="text-sm font-bold uppercase">{choice.name}</div>
+                  <div className="text-xs opacity-70">{choice.description}</div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <button
+          type="button"
+          onClick={() => onConfirm(allocation, perk)}
+          disabled={!canConfirm}
+          className="w-full px-4 py-2 border-2 border-[color:var(--pip-color)] hover:bg-[color:var(--pip-color)] hover:text-black font-bold uppercase transition-all disabled:opacity-40"
+        >
+          {isZh ? '确认升级' : 'Confirm'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LevelUpModal;
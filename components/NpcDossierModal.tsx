@@ -0,0 +1,367 @@
+import React, { useMemo, useState } from 'react';
+import { Actor, Language, Skill, StatusTrack } from '../types';
+import { SKILL_LOCALIZATIONS } from '../localization';
+import { isActorDown } from '../combat';
+import { getAffinity, getAffinityRank } from '../affinity';
+import {
+  EMPTY_DOSSIER_FILTER,
+  NpcDossierDraft,
+  NpcDossierFilter,
+  NpcRoleFilter,
+  NpcStatusFilter,
+  filterDossier,
+  getDossierOptions,
+  getLastSeen,
+  getLastSeenLocations
+} from '../npcDossier';
+import { findDuplicateNpcs } from '../npcMerge';
+
+interface NpcDossierModalProps {
+  knownNpcs: Actor[];
+  statusTrack: StatusTrack | null | undefined;
+  location: string;
+  language: Language;
+  editable: boolean;
+  onSave: (npcName: string, draft: NpcDossierDraft) => void;
+  onMerge: (intoName: string, fromName: string) => void;
+  onClose: () => void;
+}
+
+const selectClass = 'bg-black border border-[color:rgba(var(--pip-color-rgb),0.5)] px-2 py-1 text-xs text-[color:var(--pip-color)]';
+const buttonClass = 'text-xs px-3 py-1 border border-[color:var(--pip-color)] uppercase font-bold hover:bg-[color:var(--pip-color)] hover:text-black transition-colors disabled:opacity-40';
+
+const NpcDossierModal: React.FC<NpcDossierModalProps> = ({
+  knownNpcs,
+  statusTrack,
+  location,
+  language,
+  editable,
+  onSave,
+  onMerge,
+  onClose
+}) => {
+  const isZh = language === 'zh';
+  const [filter, setFilter] = useState<NpcDossierFilter>(EMPTY_DOSSIER_FILTER);
+  const [selectedName, setSelectedName] = useState<string | null>(null);
+  const [draft, setDraft] = useState<NpcDossierDraft | null>(null);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [mergeTarget, setMergeTarget] = useState('');
+  const lastSeen = useMemo(
+    () => getLastSeenLocations(statusTrack, knownNpcs, location),
+    [statusTrack, knownNpcs, location]
+  );
+  const options = useMemo(() => getDossierOptions(knownNpcs, lastSeen), [knownNpcs, lastSeen]);
+  const duplicates = useMemo(() => (showDuplicates ? findDuplicateNpcs(knownNpcs) : []), [showDuplicates, knownNpcs]);
+  const visible = filterDossier(knownNpcs, filter, lastSeen);
+  const selected = knownNpcs.find(npc => npc.name === selectedName) || null;
+
+  const updateFilter = (patch: Partial<NpcDossierFilter>) => setFilter(prev => ({ ...prev, ...patch }));
+
+  const select = (npc: Actor) => {
+    setSelectedName(npc.name);
+    setDraft(null);
+    setMergeTarget('');
+  };
+
+  const merge = (intoName: string, fromName: string) => {
+    onMerge(intoName, fromName);
+    setSelectedName(intoName);
+    setMergeTarget('');
+  };
+
+  const renderDuplicates = () => (
+    <div className="border border-[color:rgba(var(--pip-color-rgb),0.3)] p-3 space-y-2">
+      <div className="text-[0.625rem] uppercase opacity-60">
+        {isZh ? '可能的重复记录（名字、阵营与外貌相似）' : 'Possible duplicates (similar name, faction and appearance)'}
+      </div>
+      {duplicates.length === 0 ? (
+        <div className="text-xs opacity-50 italic">{isZh ? '没有发现重复。' : 'No duplicates found.'}</div>
+      ) : duplicates.map(candidate => (
+        <div key={`${candidate.a}|${candidate.b}`} className="flex flex-wrap items-center justify-between gap-2 text-xs">
+          <div>
+            <span className="font-bold">{candidate.a}</span>
+            <span className="opacity-50"> ⇄ </span>
+            <span className="font-bold">{candidate.b}</span>
+            <span className="ml-2 text-[0.5625rem] opacity-60">
+              {Math.round(candidate.score * 100)}%
+              {' · '}{isZh ? '名字' : 'Name'} {candidate.nameScore === null ? (isZh ? '跨语言' : 'cross-language') : `${Math.round(candidate.nameScore * 100)}%`}
+              {' · '}{isZh ? '阵营' : 'Faction'} {candidate.factionMatch ? '✓' : '✗'}
+              {' · '}{isZh ? '外貌' : 'Looks'} {Math.round(candidate.appearanceScore * 100)}%
+            </span>
+          </div>
+          <div className="flex gap-1">
+            <button type="button" onClick={() => merge(candidate.a, candidate.b)} disabled={!editable} className={buttonClass}>
+              {isZh ? `保留 ${candidate.a}` : `Keep ${candidate.a}`}
+            </button>
+            <button type="button" onClick={() => merge(candidate.b, candidate.a)} disabled={!editable} className={buttonClass}>
+              {isZh ? `保留 ${candidate.b}` : `Keep ${candidate.b}`}
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+
+  const startEdit = (npc: Actor) => {
+    setDraft({ lore: npc.lore || '', appearance: npc.appearance || '', alive: !isActorDown(npc) });
+  };
+
+  const saveEdit = (npc: Actor) => {
+    if (!draft) return;
+    onSave(npc.name, draft);
+    setDraft(null);
+  };
+
+  const renderSheet = (npc: Actor) => {
+    const dead = isActorDown(npc);
+    const seen = getLastSeen(lastSeen, npc);
+    const score = getAffinity(npc);
+    return (
+      <div className="space-y-3 text-[0.6875rem]">
+        <div className="flex items-center justify-between">
+          <div>
+            <div className="text-sm font-bold uppercase">{npc.name}</div>
+            <div className="opacity-70">{npc.faction} · {isZh ? '年龄' : 'Age'} {npc.age} · {npc.gender}</div>
+          </div>
+          {!draft && (
+            <button type="button" onClick={() => startEdit(npc)} disabled={!editable} className={buttonClass}>
+              {isZh ? '编辑' : 'Edit'}
+            </button>
+          )}
+        </div>
+        <div className="grid grid-cols-2 gap-1">
+          <div className={dead ? 'text-red-500 font-bold uppercase' : 'uppercase'}>
+            {dead ? (isZh ? '已死亡' : 'Dead') : `HP ${npc.health}/${npc.maxHealth}`}
+          </div>
+          <div className="uppercase">{npc.ifCompanion ? (isZh ? '同伴' : 'Companion') : (isZh ? '非同伴' : 'Not a companion')}</div>
+          <div>{isZh ? '业力' : 'Karma'} {npc.karma} · {npc.caps} ₵</div>
+          <div>{isZh ? '好感' : 'Affinity'} {score} ({getAffinityRank(score, isZh)})</div>
+          <div className="col-span-2 opacity-70">
+            {isZh ? '最后出现' : 'Last seen'}: {seen || (isZh ? '未知' : 'Unknown')}
+          </div>
+        </div>
+        {draft ? (
+          <div className="space-y-2">
+            <label className="block">
+              <span className="text-[0.625rem] uppercase opacity-60">{isZh ? '背景' : 'Lore'}</span>
+              <textarea
+                value={draft.lore}
+                onChange={event => setDraft({ ...draft, lore: event.target.value })}
+                rows={4}
+                className="w-full border border-[color:rgba(var(--pip-color-rgb),0.4)] bg-black/60 p-2 text-[0.6875rem] text-[color:var(--pip-color)] focus:outline-none"
+              />
+            </label>
+            <label className="block">
+              <span className="text-[0.625rem] uppercase opacity-60">{isZh ? '外貌' : 'Appearance'}</span>
+              <textarea
+                value={draft.appearance}
+                onChange={event => setDraft({ ...draft, appearance: event.target.value })}
+                rows={3}
+                className="w-full border border-[color:rgba(var(--pip-color-rgb),0.4)] bg-black/60 p-2 text-[0.6875rem] text-[color:var(--pip-color)] focus:outline-none"
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              <span className="text-[0.625rem] uppercase opacity-60">{isZh ? '状态' : 'Status'}</span>
+              <select
+                value={draft.alive ? 'alive' : 'dead'}
+                onChange={event => setDraft({ ...draft, alive: event.target.value === 'alive' })}
+                className={selectClass}
+              >
+                <option value="alive">{isZh ? '存活' : 'Alive'}</option>
+                <option value="dead">{isZh ? '死亡' : 'Dead'}</option>
+              </select>
+            </label>
+            <div className="text-[0.5625rem] opacity-50">
+              {isZh ? '修改会作为玩家编辑写入状态轨迹，重建状态时保留。' : 'Edits are written to the status track as your own entries and survive status rebuilds.'}
+            </div>
+            <div className="flex gap-2">
+              <button type="button" onClick={() => saveEdit(npc)} disabled={!editable} className={buttonClass}>
+                {isZh ? '保存' : 'Save'}
+              </button>
+              <button type="button" onClick={() => setDraft(null)} className={buttonClass}>
+                {isZh ? '取消' : 'Cancel'}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div>
+              <div className="text-[0.625rem] uppercase opacity-60 mb-1">{isZh ? '背景' : 'Lore'}</div>
+              <div className="opacity-80 leading-tight whitespace-pre-wrap">{npc.lore || (isZh ? '未知' : 'Unknown')}</div>
+            </div>
+            <div>
+              <div className="text-[0.625rem] uppercase opacity-60 mb-1">{isZh ? '外貌' : 'Appearance'}</div>
+              <div className="opacity-80 leading-tight whitespace-pre-wrap">{npc.appearance || (isZh ? '未知' : 'Unknown')}</div>
+            </div>
+          </>
+        )}
+        {(npc.aliases || []).length > 0 && (
+          <div className="opacity-70">{isZh ? '别名' : 'Also known as'}: {(npc.aliases || []).join(isZh ? '、' : ', ')}</div>
+        )}
+        {!draft && knownNpcs.length > 1 && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-[0.625rem] uppercase opacity-60">{isZh ? '合并到' : 'Merge into'}</span>
+            <select value={mergeTarget} onChange={event => setMergeTarget(event.target.value)} className={selectClass}>
+              <option value="">—</option>
+              {knownNpcs.filter(entry => entry.name !== npc.name).map(entry => (
+                <option key={entry.name} value={entry.name}>{entry.name}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => merge(mergeTarget, npc.name)}
+              disabled={!editable || !mergeTarget}
+              className={buttonClass}
+            >
+              {isZh ? '合并' : 'Merge'}
+            </button>
+          </div>
+        )}
+        <div>
+          <div className="text-[0.625rem] uppercase opacity-60 mb-1">SPECIAL</div>
+          <div className="grid grid-cols-2 gap-1">
+            {Object.entries(npc.special || {}).map(([key, val]) => (
+              <div key={key} className="flex justify-between border-b border-[color:rgba(var(--pip-color-rgb),0.1)]">
+                <span className="opacity-70">{key}</span>
+                <span className="font-bold">{val}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+        <div>
+          <div className="text-[0.625rem] uppercase opacity-60 mb-1">{isZh ? '技能' : 'Skills'}</div>
+          <div className="grid grid-cols-2 gap-1">
+            {Object.values(Skill).map(skill => (
+              <div key={skill} className="flex justify-between border-b border-[color:rgba(var(--pip-color-rgb),0.1)]">
+                <span className="opacity-70">{SKILL_LOCALIZATIONS[language][skill]}</span>
+                <span className="font-bold">{npc.skills?.[skill] || 0}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+        <div>
+          <div className="text-[0.625rem] uppercase opacity-60 mb-1">{isZh ? '能力' : 'Perks'}</div>
+          {(npc.perks || []).length === 0 ? (
+            <div className="opacity-40 italic">{isZh ? '暂无' : 'None'}</div>
+          ) : (
+            <div className="space-y-1">
+              {npc.perks.map((perk, idx) => (
+                <div key={`${perk.name}-${idx}`}>
+                  <span className="font-bold uppercase">{perk.name}</span>
+                  <span className="opacity-70"> — {perk.description}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+        <div>
+          <div className="text-[0.625rem] uppercase opacity-60 mb-1">{isZh ? '物品' : 'Inventory'}</div>
+          {(npc.inventory || []).length === 0 ? (
+            <div className="opacity-40 italic">{isZh ? '空' : 'Empty'}</div>
+          ) : (
+            <div className="space-y-0.5">
+              {npc.inventory.map((item, idx) => (
+                <div key={`${item.name}-${idx}`}>
+                  <span className="font-bold">{item.name} {item.count > 1 ? `x${item.count}` : ''}</span>
+                  <span className="opacity-70"> · {item.type}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed top-0 left-0 w-full h-full z-[3000] flex items-start justify-center bg-black/80 backdrop-blur-sm p-4 overflow-y-auto">
+      <div className="max-w-4xl w-full max-h-[90vh] overflow-y-auto pip-boy-border p-6 md:p-8 bg-black space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-2xl font-bold uppercase">{isZh ? 'NPC 档案' : 'NPC Dossier'}</h3>
+          <button
+            onClick={onClose}
+            className="text-xs border border-[color:rgba(var(--pip-color-rgb),0.5)] px-2 py-1 hover:bg-[color:var(--pip-color)] hover:text-black transition-colors font-bold uppercase"
+          >
+            {isZh ? '关闭' : 'Close'}
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <input
+            type="text"
+            value={filter.query}
+            onChange={event => updateFilter({ query: event.target.value })}
+            placeholder={isZh ? '搜索名字、阵营或背景' : 'Search name, faction or lore'}
+            className={`${selectClass} flex-1 min-w-[10rem]`}
+          />
+          <select value={filter.faction} onChange={event => updateFilter({ faction: event.target.value })} className={selectClass}>
+            <option value="">{isZh ? '所有阵营' : 'All factions'}</option>
+            {options.factions.map(faction => <option key={faction} value={faction}>{faction}</option>)}
+          </select>
+          <select
+            value={filter.status}
+            onChange={event => updateFilter({ status: event.target.value as NpcStatusFilter })}
+            className={selectClass}
+          >
+            <option value="all">{isZh ? '生死不限' : 'Alive or dead'}</option>
+            <option value="alive">{isZh ? '存活' : 'Alive'}</option>
+            <option value="dead">{isZh ? '死亡' : 'Dead'}</option>
+          </select>
+          <select
+            value={filter.role}
+            onChange={event => updateFilter({ role: event.target.value as NpcRoleFilter })}
+            className={selectClass}
+          >
+            <option value="all">{isZh ? '所有人' : 'Everyone'}</option>
+            <option value="companion">{isZh ? '同伴' : 'Companions'}</option>
+            <option value="other">{isZh ? '非同伴' : 'Non-companions'}</option>
+          </select>
+          <select value={filter.location} onChange={event => updateFilter({ location: event.target.value })} className={selectClass}>
+            <option value="">{isZh ? '所有地点' : 'Anywhere'}</option>
+            {options.locations.map(place => <option key={place} value={place}>{place}</option>)}
+          </select>
+          <button type="button" onClick={() => setShowDuplicates(prev => !prev)} className={buttonClass}>
+            {showDuplicates ? (isZh ? '隐藏重复' : 'Hide duplicates') : (isZh ? '查找重复' : 'Find duplicates')}
+          </button>
+        </div>
+
+        {showDuplicates && renderDuplicates()}
+
+        <div className="flex flex-col md:flex-row gap-4">
+          <div className="md:w-1/3 space-y-1 max-h-[60vh] overflow-y-auto">
+            <div className="text-[0.625rem] uppercase opacity-50">
+              {isZh ? `${visible.length} / ${knownNpcs.length} 人` : `${visible.length} of ${knownNpcs.length}`}
+            </div>
+            {visible.length === 0 && (
+              <div className="text-xs opacity-50 italic">{isZh ? '没有符合条件的 NPC。' : 'No NPCs match these filters.'}</div>
+            )}
+            {visible.map(npc => (
+              <button
+                key={npc.name}
+                type="button"
+                onClick={() => select(npc)}
+                className={`w-full text-left px-2 py-1 border text-xs transition-colors ${selectedName === npc.name
+                  ? 'border-[color:var(--pip-color)] bg-[color:rgba(var(--pip-color-rgb),0.15)]'
+                  : 'border-[color:rgba(var(--pip-color-rgb),0.2)] hover:bg-[color:rgba(var(--pip-color-rgb),0.1)]'}`}
+              >
+                <div className={`font-bold uppercase ${isActorDown(npc) ? 'line-through opacity-50' : ''}`}>
+                  {npc.ifCompanion ? '◆ ' : ''}{npc.name}
+                </div>
+                <div className="text-[0.5625rem] opacity-60">
+                  {npc.faction}{getLastSeen(lastSeen, npc) ? ` · ${getLastSeen(lastSeen, npc)}` : ''}
+                </div>
+              </button>
+            ))}
+          </div>
+          <div className="md:flex-1 border-t md:border-t-0 md:border-l border-[color:rgba(var(--pip-color-rgb),0.2)] pt-3 md:pt-0 md:pl-4">
+            {selected ? renderSheet(selected) : (
+              <div className="text-xs opacity-50 italic">{isZh ? '选择一名 NPC 查看档案。' : 'Pick an NPC to open their file.'}</div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NpcDossierModal;
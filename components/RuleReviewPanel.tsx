@@ -0,0 +1,54 @@
+import React from 'react';
+import { Language, StatusValidation } from '../types';
+import { formatRuleViolation } from '../statusValidator';
+
+interface RuleReviewPanelProps {
+  validation: StatusValidation;
+  language: Language;
+  disabled: boolean;
+  onAccept: () => void;
+  onReject: () => void;
+}
+
+const RuleReviewPanel: React.FC<RuleReviewPanelProps> = ({ validation, language, disabled, onAccept, onReject }) => {
+  const isZh = language === 'zh';
+  return (
+    <div className="p-3 md:p-4 bg-black/80 border-t border-[color:rgba(var(--pip-color-rgb),0.3)] space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-bold uppercase tracking-widest">
+          {isZh ? '规则校验' : 'Rules check'}
+        </span>
+        <span className="text-xs uppercase opacity-70">
+          {isZh ? '已按规则修正，可以改为接受原始更新' : 'Corrected — you may accept the update as narrated'}
+        </span>
+      </div>
+      <ul className="text-xs space-y-1">
+        {validation.violations.map((violation, index) => (
+          <li key={`${violation.kind}-${violation.target}-${index}`} className="opacity-90">
+            ▸ {formatRuleViolation(violation, isZh)}
+          </li>
+        ))}
+      </ul>
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={onReject}
+          disabled={disabled}
+          className="border border-[color:rgba(var(--pip-color-rgb),0.5)] px-3 py-1 text-xs uppercase font-bold hover:bg-[color:var(--pip-color)] hover:text-black transition-colors disabled:opacity-40"
+        >
+          {isZh ? '保留修正' : 'Keep corrections'}
+        </button>
+        <button
+          type="button"
+          onClick={onAccept}
+          disabled={disabled}
+          className="border border-[color:rgba(var(--pip-color-rgb),0.5)] px-3 py-1 text-xs uppercase font-bold hover:bg-[color:var(--pip-color)] hover:text-black transition-colors disabled:opacity-40"
+        >
+          {isZh ? '接受原始更新' : 'Accept as narrated'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RuleReviewPanel;
@@ -1,11 +1,23 @@
 
 import React, { useEffect, useState } from 'react';
-import { Actor, Language, Quest, SpecialAttr, Skill, TokenUsage } from '../types';
-import { localizeLocation } from '../localization';
+import { Actor, FactionReputation, Language, MapLocation, ModelPrice, Quest, SpecialAttr, Skill, TokenUsage, UsageBudget, UsageLedger } from '../types';
+import { SKILL_LOCALIZATIONS, localizeLocation } from '../localization';
 import type { ApRecoveryConfig } from '../tierSettings';
+import { getEncumbrance } from '../carryWeight';
+import { getLevel, getPendingLevelUps, getXp, getXpForLevel } from '../leveling';
+import { SURVIVAL_LIMITS, SURVIVAL_METERS, getSurvival, getSurvivalConditions } from '../survival';
+import { computeTravelMinutes, findMapLocation, formatTravelDuration } from '../worldMap';
+import { getFactionStandings, getReputationRank } from '../factions';
+import { isUsableItem } from '../consumables';
+import { applyStatusEffects, formatModifiers, getStatusEffectDelta, getStatusEffects } from '../statusEffects';
+import { AFFINITY_LIMIT, getAffinity, getAffinityRank } from '../affinity';
+import { CompanionCommand, isCompanionWaiting } from '../companions';
+import { getTradableItems } from '../barter';
+import { UsageSummary, getAllLedgerEntries, getEntryCost, getSessionEntries, getUsageCategoryLabel, summarizeByStage, summarizeUsage } from '../usageLedger';
 
 interface StatBarProps {
   player: Actor;
+  effectivePlayer: Actor; // after status effects and survival penalties; sets carry capacity
   location: string;
   year: number;
   time: string;
@@ -18,6 +30,10 @@ interface StatBarProps {
   showApRecovery: boolean;
   apRecovery?: ApRecoveryConfig | null;
   tokenUsage: TokenUsage;
+  usageLedger?: UsageLedger;
+  priceTable?: ModelPrice[];
+  usageBudget?: UsageBudget;
+  sessionStartedAt: number;
   onLanguageToggle: (lang: Language) => void;
   autoSaveEnabled: boolean;
   onToggleAutoSave: () => void;
@@ -26,6 +42,28 @@ interface StatBarProps {
   showSave: boolean;
   onRefreshInventory: () => void;
   inventoryRefreshing: boolean;
+  onToggleEquip: (itemName: string) => void;
+  onCompanionCommand: (companionName: string, command: CompanionCommand) => void;
+  onCompanionEquip: (companionName: string, itemName: string) => void;
+  survivalMode: boolean;
+  onLevelUp: () => void;
+  canLevelUp: boolean;
+  factionReputation: FactionReputation;
+  onOpenBarter: () => void;
+  inventoryActionsEnabled: boolean;
+  onOpenCrafting: () => void;
+  onOpenDossier: () => void;
+  onUseItem: (itemName: string) => void;
+  trackedQuestId: string | null;
+  onTrackQuest: (questId: string | null) => void;
+  onQuestRecap: () => void;
+  questRecap: { questId: string; text: string; isError?: boolean } | null;
+  questRecapPending: boolean;
+  locations: MapLocation[];
+  mapRegion: string;
+  onFastTravel: (locationName: string) => void;
+  canFastTravel: boolean;
+  onUpdateLocationNotes: (locationName: string, notes: string) => void;
   onRebuildStatus: () => void;
   statusRebuilding: boolean;
   canRebuildStatus: boolean;
@@ -37,42 +75,7 @@ interface StatBarProps {
   panelScale?: number;
 }
 
-type Tab = 'STAT' | 'SPEC' | 'SKIL' | 'PERK' | 'COMP' | 'DATA' | 'INV';
-
-const skillLocalizations: Record<Language, Record<Skill, string>> = {
-  en: {
-    [Skill.SmallGuns]: 'Small Guns',
-    [Skill.BigGuns]: 'Big Guns',
-    [Skill.EnergyWeapons]: 'Energy Weapons',
-    [Skill.Unarmed]: 'Unarmed',
-    [Skill.MeleeWeapons]: 'Melee Weapons',
-    [Skill.Medicine]: 'Medicine',
-    [Skill.Repair]: 'Repair',
-    [Skill.Science]: 'Science',
-    [Skill.Sneak]: 'Sneak',
-    [Skill.Lockpick]: 'Lockpick',
-    [Skill.Steal]: 'Steal',
-    [Skill.Speech]: 'Speech',
-    [Skill.Barter]: 'Barter',
-    [Skill.Survival]: 'Survival',
-  },
-  zh: {
-    [Skill.SmallGuns]: '轻型枪械',
-    [Skill.BigGuns]: '重型枪械',
-    [Skill.EnergyWeapons]: '能量武器',
-    [Skill.Unarmed]: '徒手',
-    [Skill.MeleeWeapons]: '近战武器',
-    [Skill.Medicine]: '医药',
-    [Skill.Repair]: '修理',
-    [Skill.Science]: '科学',
-    [Skill.Sneak]: '潜行',
-    [Skill.Lockpick]: '开锁',
-    [Skill.Steal]: '盗窃',
-    [Skill.Speech]: '口才',
-    [Skill.Barter]: '交易',
-    [Skill.Survival]: '生存',
-  }
-};
+type Tab = 'STAT' | 'SPEC' | 'SKIL' | 'PERK' | 'COMP' | 'DATA' | 'INV' | 'MAP';
 
 const specialLocalizations: Record<Language, Record<SpecialAttr, string>> = {
   en: {
@@ -97,6 +100,7 @@ const specialLocalizations: Record<Language, Record<SpecialAttr, string>> = {
 
 const StatBar: React.FC<StatBarProps> = ({ 
   player, 
+  effectivePlayer,
   location, 
   year, 
   time, 
@@ -109,6 +113,10 @@ const StatBar: React.FC<StatBarProps> = ({
   showApRecovery,
   apRecovery,
   tokenUsage,
+  usageLedger,
+  priceTable,
+  usageBudget,
+  sessionStartedAt,
   onLanguageToggle,
   autoSaveEnabled,
   onToggleAutoSave,
@@ -117,6 +125,28 @@ const StatBar: React.FC<StatBarProps> = ({
   showSave,
   onRefreshInventory,
   inventoryRefreshing,
+  onToggleEquip,
+  onCompanionCommand,
+  onCompanionEquip,
+  survivalMode,
+  onLevelUp,
+  canLevelUp,
+  factionReputation,
+  onOpenBarter,
+  inventoryActionsEnabled,
+  onOpenCrafting,
+  onOpenDossier,
+  onUseItem,
+  trackedQuestId,
+  onTrackQuest,
+  onQuestRecap,
+  questRecap,
+  questRecapPending,
+  locations,
+  mapRegion,
+  onFastTravel,
+  canFastTravel,
+  onUpdateLocationNotes,
   onRebuildStatus,
   statusRebuilding,
   canRebuildStatus,
@@ -129,10 +159,14 @@ const StatBar: React.FC<StatBarProps> = ({
 }) => {
   const [activeTab, setActiveTab] = useState<Tab>('STAT');
   const [expandedCompanion, setExpandedCompanion] = useState<string | null>(null);
+  const [expandedQuest, setExpandedQuest] = useState<string | null>(null);
   const [editingCompanion, setEditingCompanion] = useState<string | null>(null);
   const [appearanceDraft, setAppearanceDraft] = useState('');
   const [showExportMenu, setShowExportMenu] = useState(false);
   const [openTooltipId, setOpenTooltipId] = useState<string | null>(null);
+  const [selectedLocation, setSelectedLocation] = useState<string | null>(null);
+  const [editingNotes, setEditingNotes] = useState(false);
+  const [notesDraft, setNotesDraft] = useState('');
   const isInventoryTab = activeTab === 'INV';
 
   useEffect(() => {
@@ -144,6 +178,7 @@ const StatBar: React.FC<StatBarProps> = ({
   useEffect(() => {
     setOpenTooltipId(null);
     setEditingCompanion(null);
+    setEditingNotes(false);
   }, [activeTab]);
 
   const dateStr = new Date(time).toLocaleString(language === 'zh' ? 'zh-CN' : 'en-US', {
@@ -159,6 +194,364 @@ const StatBar: React.FC<StatBarProps> = ({
   const apRecoveryLabel = apRecoveryMinutes % 60 === 0
     ? `${apRecoveryMinutes / 60} hr`
     : `${apRecoveryMinutes} min`;
+  const level = getLevel(player);
+  const xp = getXp(player);
+  const levelFloor = getXpForLevel(level);
+  const levelCeiling = getXpForLevel(level + 1);
+  const pendingLevelUps = getPendingLevelUps(player);
+  const encumbrance = getEncumbrance(effectivePlayer);
+  const renderWeightBar = () => (
+    <div>
+      <div className="flex justify-between text-[0.625rem] uppercase mb-1">
+        <span>
+          {language === 'en' ? 'Carry Weight' : '负重'}
+          {encumbrance.overEncumbered && (
+            <span className="ml-2 text-red-500 font-bold">{language === 'en' ? 'Over-encumbered' : '超重'}</span>
+          )}
+        </span>
+        <span>{encumbrance.carried.toFixed(1)} / {encumbrance.capacity} lb</span>
+      </div>
+      <div className="w-full bg-[color:rgba(var(--pip-color-rgb),0.1)] h-3 border border-[color:rgba(var(--pip-color-rgb),0.3)]">
+        <div
+          className={`h-full transition-all duration-500 ${encumbrance.overEncumbered ? 'bg-red-500' : 'bg-[color:var(--pip-color)] shadow-[0_0_10px_rgb(var(--pip-color-rgb))]'}`}
+          style={{ width: `${Math.max(0, Math.min(100, (encumbrance.carried / Math.max(1, encumbrance.capacity)) * 100))}%` }}
+        ></div>
+      </div>
+      <div className="text-[0.5625rem] opacity-50 mt-1 uppercase tracking-widest">
+        {language === 'en' ? `Hard cap ${encumbrance.hardCap} lb` : `上限 ${encumbrance.hardCap} 磅`}
+      </div>
+    </div>
+  );
+  const survivalLabels: Record<(typeof SURVIVAL_METERS)[number], { en: string; zh: string }> = {
+    rads: { en: 'RADs', zh: '辐射' },
+    thirst: { en: 'Thirst', zh: '口渴' },
+    hunger: { en: 'Hunger', zh: '饥饿' },
+    fatigue: { en: 'Fatigue', zh: '疲劳' }
+  };
+  const renderSurvivalGauges = () => {
+    const survival = getSurvival(player);
+    const conditions = getSurvivalConditions(player);
+    return (
+      <div className="space-y-2">
+        {SURVIVAL_METERS.map(meter => {
+          const ratio = survival[meter] / SURVIVAL_LIMITS[meter];
+          return (
+            <div key={meter}>
+              <div className="flex justify-between text-[0.625rem] uppercase mb-1">
+                <span>{language === 'en' ? survivalLabels[meter].en : survivalLabels[meter].zh}</span>
+                <span>{Math.round(survival[meter])} / {SURVIVAL_LIMITS[meter]}</span>
+              </div>
+              <div className="w-full bg-[color:rgba(var(--pip-color-rgb),0.1)] h-2 border border-[color:rgba(var(--pip-color-rgb),0.3)]">
+                <div
+                  className={`h-full transition-all duration-500 ${ratio >= 0.7 ? 'bg-red-500' : 'bg-[color:var(--pip-color)]'}`}
+                  style={{ width: `${Math.max(0, Math.min(100, ratio * 100))}%` }}
+                ></div>
+              </div>
+            </div>
+          );
+        })}
+        {conditions.length > 0 && (
+          <div className="text-[0.5625rem] uppercase tracking-widest text-red-500">
+            {conditions.map(tier => (language === 'en' ? tier.en : tier.zh)).join(' · ')}
+          </div>
+        )}
+      </div>
+    );
+  };
+  const renderReputation = () => {
+    const standings = getFactionStandings(factionReputation);
+    if (standings.length === 0) return null;
+    return (
+      <div>
+        <h3 className="text-xs uppercase opacity-50 mb-2 tracking-widest">{language === 'en' ? 'Reputation' : '声望'}</h3>
+        <div className="space-y-1">
+          {standings.map(({ faction, score }) => (
+            <div key={faction} className="flex justify-between items-center border-b border-[color:rgba(var(--pip-color-rgb),0.05)] py-1.5 px-1">
+              <span className="text-xs opacity-90">{faction}</span>
+              <span className={`text-xs font-bold uppercase ${score < -14 ? 'text-red-500' : 'text-[color:var(--pip-color)]'}`}>
+                {getReputationRank(score, language === 'zh')} ({score > 0 ? '+' : ''}{score})
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+  const renderStatusEffects = () => {
+    const effects = getStatusEffects(player);
+    if (effects.length === 0) return null;
+    return (
+      <div>
+        <h3 className="text-xs uppercase opacity-50 mb-2 tracking-widest">{language === 'en' ? 'Status effects' : '状态效果'}</h3>
+        <div className="space-y-1">
+          {effects.map(effect => (
+            <div key={effect.name} className="flex justify-between items-center border-b border-[color:rgba(var(--pip-color-rgb),0.05)] py-1.5 px-1 gap-2">
+              <div className="flex flex-col min-w-0">
+                <span className="text-xs opacity-90">{effect.name}</span>
+                {effect.modifiers.length > 0 && (
+                  <span className="text-[0.5625rem] opacity-60">{formatModifiers(effect)}</span>
+                )}
+                {effect.source !== effect.name && (
+                  <span className="text-[0.5625rem] opacity-40">{effect.source}</span>
+                )}
+              </div>
+              <span className="text-xs font-bold whitespace-nowrap">
+                {typeof effect.minutesLeft === 'number'
+                  ? formatTravelDuration(effect.minutesLeft, language === 'zh')
+                  : (language === 'en' ? 'Until treated' : '需治疗')}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+  const formatJournalTime = (value: string) => new Date(value).toLocaleString(language === 'zh' ? 'zh-CN' : 'en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+  const renderQuestJournal = (quest: Quest) => {
+    const log = quest.log || [];
+    if (log.length === 0) return null;
+    const expanded = expandedQuest === quest.id;
+    return (
+      <div className="mt-2">
+        <button
+          type="button"
+          onClick={() => setExpandedQuest(expanded ? null : quest.id)}
+          className="text-[0.5625rem] uppercase opacity-60 hover:opacity-100"
+        >
+          {expanded ? '▾' : '▸'} {language === 'en' ? `Journal (${log.length})` : `日志（${log.length}）`}
+        </button>
+        {expanded && (
+          <div className="mt-1 space-y-1 border-l border-[color:rgba(var(--pip-color-rgb),0.2)] pl-2">
+            {log.map((entry, index) => (
+              <div key={`${entry.time}-${index}`} className="text-[0.625rem]">
+                <span className="opacity-50">{formatJournalTime(entry.time)}</span>
+                {entry.status !== 'active' && (
+                  <span className={`ml-1 uppercase font-bold ${entry.status === 'failed' ? 'text-red-500' : ''}`}>
+                    [{entry.status === 'failed' ? (language === 'en' ? 'Failed' : '失败') : (language === 'en' ? 'Completed' : '完成')}]
+                  </span>
+                )}
+                <div className="opacity-80">{entry.objective}</div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+  const formatCost = (summary: UsageSummary) => {
+    if (summary.unpricedCalls === summary.calls) return '—';
+    return `$${summary.cost.toFixed(4)}${summary.unpricedCalls > 0 ? '+' : ''}`;
+  };
+
+  const formatCallCount = (summary: UsageSummary, isZh: boolean) => {
+    const failed = summary.failedCalls > 0 ? (isZh ? `（${summary.failedCalls} 次失败）` : ` (${summary.failedCalls} failed)`) : '';
+    return isZh ? `${summary.calls} 次调用${failed}` : `${summary.calls} calls${failed}`;
+  };
+
+  const renderUsageRow = (label: string, summary: UsageSummary) => (
+    <div key={label} className="grid grid-cols-[1fr_auto_auto] gap-x-3 text-[0.625rem]">
+      <span className="uppercase opacity-70 truncate">{label}</span>
+      <span className="opacity-80 text-right">
+        {(summary.prompt + summary.completion).toLocaleString()}
+        {summary.cached > 0 ? ` (${summary.cached.toLocaleString()}${language === 'en' ? ' cached' : ' 缓存'})` : ''}
+        {summary.estimatedCalls > 0 ? '~' : ''}
+      </span>
+      <span className="text-right w-16">{formatCost(summary)}</span>
+    </div>
+  );
+
+  // Per-call ledger: session and save totals, a per-stage split and the latest calls.
+  const renderUsageLedger = () => {
+    const allEntries = getAllLedgerEntries(usageLedger);
+    if (allEntries.length === 0) return null;
+    const total = summarizeUsage(allEntries, priceTable);
+    const session = summarizeUsage(getSessionEntries(usageLedger, sessionStartedAt), priceTable);
+    const recent = (usageLedger?.entries || []).slice(-6).reverse();
+    const isZh = language === 'zh';
+    return (
+      <div className="pt-4 border-t border-[color:rgba(var(--pip-color-rgb),0.1)]">
+        <h4 className="text-[0.625rem] uppercase opacity-50 mb-2">{isZh ? '模型用量' : 'Model Usage'}</h4>
+        <div className="space-y-0.5">
+          {renderUsageRow(`${isZh ? '本次会话' : 'This session'} · ${formatCallCount(session, isZh)}`, session)}
+          {renderUsageRow(`${isZh ? '存档累计' : 'Save total'} · ${formatCallCount(total, isZh)}`, total)}
+        </div>
+        {(usageBudget?.maxCost || usageBudget?.maxTokens) && (
+          <div className="mt-1 text-[0.5625rem] uppercase opacity-60">
+            {isZh ? '预算上限' : 'Budget cap'}:
+            {usageBudget.maxCost ? ` $${usageBudget.maxCost}` : ''}
+            {usageBudget.maxCost && usageBudget.maxTokens ? ' ·' : ''}
+            {usageBudget.maxTokens ? ` ${usageBudget.maxTokens.toLocaleString()} ${isZh ? '令牌' : 'tokens'}` : ''}
+          </div>
+        )}
+        <h5 className="mt-3 text-[0.5625rem] uppercase opacity-50 mb-1">{isZh ? '按阶段' : 'By stage'}</h5>
+        <div className="space-y-0.5">
+          {summarizeByStage(allEntries, priceTable).map(row => renderUsageRow(getUsageCategoryLabel(row.stage, isZh), row.summary))}
+        </div>
+        <h5 className="mt-3 text-[0.5625rem] uppercase opacity-50 mb-1">{isZh ? '最近调用' : 'Recent calls'}</h5>
+        <div className="space-y-1">
+          {recent.map((entry, index) => {
+            const cost = getEntryCost(entry, priceTable);
+            return (
+              <div key={`${entry.at}-${index}`} className="text-[0.5625rem] border-l border-[color:rgba(var(--pip-color-rgb),0.2)] pl-2">
+                <div className="flex justify-between uppercase opacity-70">
+                  <span>{isZh ? `回合 ${entry.turn}` : `Turn ${entry.turn}`} · {getUsageCategoryLabel(entry.stage, isZh)}</span>
+                  <span>{cost === null ? '—' : `$${cost.toFixed(4)}`}</span>
+                </div>
+                <div className="opacity-60 truncate">
+                  {entry.provider}{entry.model ? ` · ${entry.model}` : ''}
+                </div>
+                <div className="opacity-80">
+                  {isZh ? '输入' : 'In'} {entry.prompt.toLocaleString()}
+                  {entry.cached > 0 ? ` (${entry.cached.toLocaleString()} ${isZh ? '缓存' : 'cached'})` : ''}
+                  {' · '}{isZh ? '输出' : 'Out'} {entry.completion.toLocaleString()}
+                  {entry.estimated ? (isZh ? ' · 估算' : ' · estimated') : ''}
+                  {entry.failed ? (isZh ? ' · 失败' : ' · failed') : ''}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  };
+
+  const renderQuestTracking = (quest: Quest) => {
+    const tracked = trackedQuestId === quest.id;
+    const recap = questRecap && questRecap.questId === quest.id ? questRecap : null;
+    return (
+      <div className="mt-2 space-y-1">
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => onTrackQuest(tracked ? null : quest.id)}
+            className={`text-[0.5625rem] uppercase px-2 py-0.5 border font-bold transition-colors ${tracked
+              ? 'border-[color:var(--pip-color)] bg-[color:var(--pip-color)] text-black'
+              : 'border-[color:rgba(var(--pip-color-rgb),0.5)] hover:bg-[color:rgba(var(--pip-color-rgb),0.1)]'}`}
+          >
+            {tracked ? (language === 'en' ? 'Tracked' : '已追踪') : (language === 'en' ? 'Track' : '追踪')}
+          </button>
+          {tracked && (
+            <button
+              type="button"
+              onClick={onQuestRecap}
+              disabled={questRecapPending}
+              className="text-[0.5625rem] uppercase px-2 py-0.5 border border-[color:rgba(var(--pip-color-rgb),0.5)] font-bold hover:bg-[color:rgba(var(--pip-color-rgb),0.1)] transition-colors disabled:opacity-40"
+            >
+              {questRecapPending
+                ? (language === 'en' ? 'Recalling...' : '回忆中...')
+                : (language === 'en' ? 'Where was I?' : '我进行到哪了？')}
+            </button>
+          )}
+        </div>
+        {tracked && recap && (
+          <div className={`text-[0.625rem] whitespace-pre-wrap border-l border-[color:rgba(var(--pip-color-rgb),0.2)] pl-2 ${recap.isError ? 'text-red-500' : 'opacity-80'}`}>
+            {recap.text}
+          </div>
+        )}
+      </div>
+    );
+  };
+  const renderAffinity = (npc: Actor) => {
+    const score = getAffinity(npc);
+    // The bar fills from the middle: left for resentment, right for regard.
+    const width = `${(Math.abs(score) / AFFINITY_LIMIT) * 50}%`;
+    return (
+      <div className="mt-1">
+        <div className="flex justify-between text-[0.5625rem] uppercase">
+          <span className="opacity-60">{language === 'en' ? 'Affinity' : '好感'}</span>
+          <span className={`font-bold ${score < 0 ? 'text-red-500' : ''}`}>
+            {score} · {getAffinityRank(score, language === 'zh')}
+          </span>
+        </div>
+        <div className="relative h-1 mt-0.5 bg-[color:rgba(var(--pip-color-rgb),0.1)]">
+          <div
+            className={`absolute top-0 h-full ${score < 0 ? 'bg-red-500' : 'bg-[color:var(--pip-color)]'}`}
+            style={score < 0 ? { right: '50%', width } : { left: '50%', width }}
+          />
+        </div>
+      </div>
+    );
+  };
+  const companionButtonClass = 'text-[0.5625rem] border border-[color:rgba(var(--pip-color-rgb),0.4)] px-2 py-0.5 uppercase hover:bg-[color:rgba(var(--pip-color-rgb),0.2)] transition-colors disabled:opacity-40';
+  const renderCompanionCommands = (companion: Actor) => {
+    const waiting = isCompanionWaiting(companion);
+    return (
+      <div className="mt-2 space-y-1">
+        {waiting && (
+          <div className="text-[0.5625rem] uppercase opacity-70">
+            {language === 'en' ? `Waiting at ${companion.waitingAt}` : `在${companion.waitingAt}等待`}
+          </div>
+        )}
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => onCompanionCommand(companion.name, { kind: waiting ? 'follow' : 'wait' })}
+            disabled={!inventoryActionsEnabled}
+            className={companionButtonClass}
+          >
+            {waiting ? (language === 'en' ? 'Recall' : '召回') : (language === 'en' ? 'Wait here' : '在此等待')}
+          </button>
+          <button
+            type="button"
+            onClick={() => onCompanionCommand(companion.name, { kind: 'dismiss' })}
+            disabled={!inventoryActionsEnabled}
+            className={companionButtonClass}
+          >
+            {language === 'en' ? 'Dismiss' : '遣散'}
+          </button>
+        </div>
+      </div>
+    );
+  };
+  const renderCompanionGive = (companion: Actor) => {
+    const items = getTradableItems(player);
+    return (
+      <div>
+        <div className="text-[0.625rem] uppercase opacity-60 mb-1">{language === 'en' ? 'Give Items' : '给予物品'}</div>
+        {items.length === 0 ? (
+          <div className="opacity-40 italic">{language === 'en' ? 'Nothing to give' : '没有可给予的物品'}</div>
+        ) : (
+          <div className="space-y-1">
+            {items.map(item => (
+              <div key={item.name} className="flex items-center justify-between gap-2 text-[0.625rem]">
+                <span>{item.name} {item.count > 1 ? `x${item.count}` : ''}</span>
+                <span className="flex gap-1 shrink-0">
+                  <button
+                    type="button"
+                    onClick={() => onCompanionCommand(companion.name, { kind: 'give', itemName: item.name, count: 1 })}
+                    disabled={!inventoryActionsEnabled}
+                    className={companionButtonClass}
+                  >
+                    {language === 'en' ? 'Give' : '给予'}
+                  </button>
+                  {item.count > 1 && (
+                    <button
+                      type="button"
+                      onClick={() => onCompanionCommand(companion.name, { kind: 'give', itemName: item.name, count: item.count })}
+                      disabled={!inventoryActionsEnabled}
+                      className={companionButtonClass}
+                    >
+                      {language === 'en' ? 'All' : '全部'}
+                    </button>
+                  )}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+  const renderEffectDelta = (delta: number) => (delta !== 0 ? (
+    <span className={`text-[0.625rem] font-bold ${delta < 0 ? 'text-red-500' : 'opacity-70'}`}>
+      ({delta > 0 ? '+' : ''}{delta})
+    </span>
+  ) : null);
   const startEditAppearance = (companion: Actor) => {
     setEditingCompanion(companion.name);
     setAppearanceDraft(companion.appearance || '');
@@ -171,6 +564,181 @@ const StatBar: React.FC<StatBarProps> = ({
     setEditingCompanion(null);
   };
 
+  const renderMap = () => {
+    const isZh = language === 'zh';
+    const current = findMapLocation(locations, location);
+    const selected = findMapLocation(locations, selectedLocation || '') || current;
+    const isHere = !!selected && selected === current;
+    const travelMinutes = selected && !isHere ? computeTravelMinutes(current, selected) : 0;
+    const overEncumbered = getEncumbrance(effectivePlayer).overEncumbered;
+    const travelBlockedReason = overEncumbered
+      ? (isZh ? '超重时无法快速旅行' : 'Cannot fast travel while over-encumbered')
+      : null;
+    const selectLocation = (name: string) => {
+      setSelectedLocation(name);
+      setEditingNotes(false);
+    };
+    return (
+      <div className="space-y-3 animate-in slide-in-from-right-4 duration-300">
+        <div className="flex justify-between text-[0.625rem] uppercase opacity-70">
+          <span>{localizeLocation(mapRegion, language)}</span>
+          <span>{isZh ? `已发现 ${locations.length} 处` : `${locations.length} discovered`}</span>
+        </div>
+        <svg
+          viewBox="0 0 100 100"
+          className="w-full aspect-square border border-[color:rgba(var(--pip-color-rgb),0.4)] bg-[color:rgba(var(--pip-color-rgb),0.04)]"
+        >
+          {[20, 40, 60, 80].map(line => (
+            <g key={line} stroke="rgba(var(--pip-color-rgb),0.12)" strokeWidth="0.3">
+              <line x1={line} y1="0" x2={line} y2="100" />
+              <line x1="0" y1={line} x2="100" y2={line} />
+            </g>
+          ))}
+          {locations.map(place => {
+            const origin = place.discoveredFrom ? findMapLocation(locations, place.discoveredFrom) : null;
+            if (!origin) return null;
+            return (
+              <line
+                key={`road-${place.name}`}
+                x1={origin.x}
+                y1={origin.y}
+                x2={place.x}
+                y2={place.y}
+                stroke="rgba(var(--pip-color-rgb),0.35)"
+                strokeWidth="0.4"
+                strokeDasharray="1.2 1"
+              />
+            );
+          })}
+          {locations.map(place => {
+            const isCurrent = place === current;
+            const isSelected = place === selected;
+            return (
+              <g key={place.name} onClick={() => selectLocation(place.name)} className="cursor-pointer">
+                <circle
+                  cx={place.x}
+                  cy={place.y}
+                  r={isCurrent ? 2.2 : 1.4}
+                  fill={isCurrent ? 'var(--pip-color)' : 'black'}
+                  stroke="var(--pip-color)"
+                  strokeWidth={isSelected ? 0.8 : 0.4}
+                />
+                {(isCurrent || isSelected) && (
+                  <text x={place.x + 3} y={place.y + 1} fontSize="3.2" fill="var(--pip-color)">
+                    {place.name}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+        </svg>
+        {locations.length === 0 && (
+          <div className="text-center py-4 opacity-30 italic text-xs">
+            {isZh ? '尚未发现任何地点' : 'No locations discovered yet'}
+          </div>
+        )}
+        {selected && (
+          <div className="border border-[color:rgba(var(--pip-color-rgb),0.3)] p-2 space-y-2 text-[0.6875rem]">
+            <div className="flex justify-between items-center">
+              <span className="font-bold uppercase">{selected.name}</span>
+              {isHere && <span className="text-[0.5625rem] uppercase opacity-70">{isZh ? '当前位置' : 'You are here'}</span>}
+            </div>
+            <div className="text-[0.5625rem] uppercase opacity-60">
+              {isZh ? '发现于 ' : 'Discovered '}
+              {new Date(selected.discoveredAt).toLocaleString(isZh ? 'zh-CN' : 'en-US', {
+                month: 'short',
+                day: 'numeric',
+                year: 'numeric',
+                hour: '2-digit',
+                minute: '2-digit'
+              })}
+              {selected.discoveredFrom ? (isZh ? ` · 来自 ${selected.discoveredFrom}` : ` · via ${selected.discoveredFrom}`) : ''}
+            </div>
+            {editingNotes ? (
+              <div className="space-y-2">
+                <textarea
+                  value={notesDraft}
+                  onChange={(event) => setNotesDraft(event.target.value)}
+                  rows={3}
+                  className="w-full border border-[color:rgba(var(--pip-color-rgb),0.4)] bg-black/60 p-2 text-[0.6875rem] text-[color:var(--pip-color)] focus:outline-none"
+                />
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      onUpdateLocationNotes(selected.name, notesDraft);
+                      setEditingNotes(false);
+                    }}
+                    className="border border-[color:rgba(var(--pip-color-rgb),0.6)] px-2 py-1 text-[0.5625rem] uppercase hover:bg-[color:rgba(var(--pip-color-rgb),0.25)] transition-colors"
+                  >
+                    {isZh ? '保存' : 'Save'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setEditingNotes(false)}
+                    className="border border-[color:rgba(var(--pip-color-rgb),0.4)] px-2 py-1 text-[0.5625rem] uppercase hover:bg-[color:rgba(var(--pip-color-rgb),0.15)] transition-colors"
+                  >
+                    {isZh ? '取消' : 'Cancel'}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex justify-between items-start gap-2">
+                <div className="opacity-80 leading-tight">
+                  {selected.notes || (isZh ? '暂无笔记' : 'No notes')}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setNotesDraft(selected.notes || '');
+                    setEditingNotes(true);
+                  }}
+                  className="border border-[color:rgba(var(--pip-color-rgb),0.4)] px-2 py-0.5 text-[0.5625rem] uppercase hover:bg-[color:rgba(var(--pip-color-rgb),0.2)] transition-colors"
+                >
+                  {isZh ? '编辑' : 'Edit'}
+                </button>
+              </div>
+            )}
+            {!isHere && (
+              <div className="space-y-1">
+                <button
+                  type="button"
+                  onClick={() => onFastTravel(selected.name)}
+                  disabled={!canFastTravel || !!travelBlockedReason}
+                  className="w-full border border-[color:var(--pip-color)] px-2 py-1 text-[0.625rem] uppercase font-bold hover:bg-[color:var(--pip-color)] hover:text-black transition-colors disabled:opacity-40"
+                >
+                  {isZh
+                    ? `快速旅行 · ${formatTravelDuration(travelMinutes, true)}`
+                    : `Fast travel · ${formatTravelDuration(travelMinutes, false)}`}
+                </button>
+                {travelBlockedReason && (
+                  <div className="text-[0.5625rem] uppercase text-red-500">{travelBlockedReason}</div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+        {locations.length > 0 && (
+          <div className="space-y-1">
+            {locations.map(place => (
+              <button
+                key={place.name}
+                type="button"
+                onClick={() => selectLocation(place.name)}
+                className={`w-full text-left text-[0.625rem] px-2 py-1 border-b border-[color:rgba(var(--pip-color-rgb),0.1)] flex justify-between ${place === selected ? 'bg-[color:rgba(var(--pip-color-rgb),0.15)]' : 'hover:bg-[color:rgba(var(--pip-color-rgb),0.08)]'}`}
+              >
+                <span className="truncate">{place === current ? '■ ' : ''}{place.name}</span>
+                {place !== current && (
+                  <span className="opacity-60">{formatTravelDuration(computeTravelMinutes(current, place), isZh)}</span>
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   const renderTabContent = () => {
     switch (activeTab) {
       case 'STAT':
@@ -179,6 +747,29 @@ const StatBar: React.FC<StatBarProps> = ({
             <div>
               <h3 className="text-xs uppercase opacity-50 mb-2 tracking-widest">{language === 'en' ? 'Condition' : '状态'}</h3>
               <div className="space-y-4">
+                <div>
+                  <div className="flex justify-between text-[0.625rem] uppercase mb-1">
+                    <span>{language === 'en' ? `Level ${level}` : `等级 ${level}`}</span>
+                    <span>{xp} / {levelCeiling} XP</span>
+                  </div>
+                  <div className="w-full bg-[color:rgba(var(--pip-color-rgb),0.1)] h-2 border border-[color:rgba(var(--pip-color-rgb),0.3)]">
+                    <div
+                      className="bg-[color:var(--pip-color)] h-full transition-all duration-500"
+                      style={{ width: `${Math.max(0, Math.min(100, ((xp - levelFloor) / Math.max(1, levelCeiling - levelFloor)) * 100))}%` }}
+                    ></div>
+                  </div>
+                  {pendingLevelUps > 0 && (
+                    <button
+                      type="button"
+                      onClick={onLevelUp}
+                      disabled={!canLevelUp}
+                      className="mt-2 w-full text-[0.625rem] px-2 py-1 border border-[color:var(--pip-color)] bg-[color:var(--pip-color)] text-black font-bold uppercase tracking-widest disabled:opacity-40"
+                    >
+                      {language === 'en' ? 'Level up!' : '升级！'}
+                    </button>
+                  )}
+                </div>
+
                 <div>
                   <div className="flex justify-between text-[0.625rem] uppercase mb-1">
                     <span>HP</span>
@@ -209,6 +800,10 @@ const StatBar: React.FC<StatBarProps> = ({
                     </div>
                   )}
                 </div>
+
+                {renderWeightBar()}
+
+                {survivalMode && renderSurvivalGauges()}
                 
                 <div className="border border-[color:rgba(var(--pip-color-rgb),0.3)] p-3 bg-[color:rgba(var(--pip-color-rgb),0.05)] space-y-2">
                   <div className="flex justify-between items-center">
@@ -228,6 +823,10 @@ const StatBar: React.FC<StatBarProps> = ({
               </div>
             </div>
 
+            {renderReputation()}
+
+            {renderStatusEffects()}
+
             <div className="text-xs space-y-1 opacity-80 pt-4 border-t border-[color:rgba(var(--pip-color-rgb),0.1)]">
               <div className="flex justify-between"><span>LOC:</span> <span className="text-right">{displayLocation}</span></div>
               <div className="flex justify-between"><span>DATE:</span> <span className="text-right">{dateStr}</span></div>
@@ -239,16 +838,22 @@ const StatBar: React.FC<StatBarProps> = ({
       case 'SPEC':
         return (
           <div className="space-y-2 animate-in slide-in-from-right-4 duration-300">
-            {Object.entries(player.special).map(([key, val]) => (
-              <div key={key} className="flex justify-between items-center border-b border-[color:rgba(var(--pip-color-rgb),0.1)] py-2 hover:bg-[color:rgba(var(--pip-color-rgb),0.05)] px-1">
-                <span className="text-sm font-bold tracking-widest">
-                  {language === 'zh'
-                    ? `${key.toUpperCase()} ${specialLocalizations.zh[key as SpecialAttr] || ''}`.trim()
-                    : key.toUpperCase()}
-                </span>
-                <span className="text-xl font-bold glow-text">{val}</span>
-              </div>
-            ))}
+            {Object.entries(applyStatusEffects(player).special).map(([key, val]) => {
+              const effectDelta = getStatusEffectDelta(player, key as SpecialAttr);
+              return (
+                <div key={key} className="flex justify-between items-center border-b border-[color:rgba(var(--pip-color-rgb),0.1)] py-2 hover:bg-[color:rgba(var(--pip-color-rgb),0.05)] px-1">
+                  <span className="text-sm font-bold tracking-widest">
+                    {language === 'zh'
+                      ? `${key.toUpperCase()} ${specialLocalizations.zh[key as SpecialAttr] || ''}`.trim()
+                      : key.toUpperCase()}
+                  </span>
+                  <span className="flex items-baseline gap-2">
+                    {renderEffectDelta(effectDelta)}
+                    <span className="text-xl font-bold glow-text">{val}</span>
+                  </span>
+                </div>
+              );
+            })}
           </div>
         );
 
@@ -257,8 +862,11 @@ const StatBar: React.FC<StatBarProps> = ({
           <div className="space-y-1 animate-in slide-in-from-right-4 duration-300">
             {Object.values(Skill).map((skill) => (
               <div key={skill} className="flex justify-between items-center border-b border-[color:rgba(var(--pip-color-rgb),0.05)] py-1.5 px-1 hover:bg-[color:rgba(var(--pip-color-rgb),0.05)]">
-                <span className="text-xs opacity-90">{skillLocalizations[language][skill]}</span>
-                <span className="text-sm font-bold">{(player.skills as any)[skill] || 0}</span>
+                <span className="text-xs opacity-90">{SKILL_LOCALIZATIONS[language][skill]}</span>
+                <span className="flex items-baseline gap-2">
+                  {renderEffectDelta(getStatusEffectDelta(player, skill))}
+                  <span className="text-sm font-bold">{(applyStatusEffects(player).skills as any)[skill] || 0}</span>
+                </span>
               </div>
             ))}
           </div>
@@ -280,6 +888,13 @@ const StatBar: React.FC<StatBarProps> = ({
       case 'COMP':
         return (
           <div className="space-y-3 animate-in slide-in-from-right-4 duration-300">
+            <button
+              type="button"
+              onClick={onOpenDossier}
+              className="w-full text-[0.625rem] px-2 py-1 border border-[color:rgba(var(--pip-color-rgb),0.5)] uppercase font-bold tracking-widest hover:bg-[color:var(--pip-color)] hover:text-black transition-colors"
+            >
+              {language === 'en' ? `NPC Dossier (${knownNpcs.length})` : `NPC 档案（${knownNpcs.length}）`}
+            </button>
             {companions.length === 0 && (
               <div className="text-center py-10 opacity-30 italic">
                 {language === 'en' ? 'No companions' : '暂无同伴'}
@@ -317,6 +932,7 @@ const StatBar: React.FC<StatBarProps> = ({
                       <div className="text-[0.625rem] opacity-50">
                         {language === 'en' ? 'Age' : '年龄'} {companion.age} · {companion.gender}
                       </div>
+                      {renderAffinity(companion)}
                       <div className="text-[0.5625rem] uppercase opacity-40 mt-2">
                         {language === 'en' ? 'Tap avatar for dossier' : '点击头像展开档案'}
                       </div>
@@ -330,6 +946,7 @@ const StatBar: React.FC<StatBarProps> = ({
                           ? (language === 'en' ? 'Rebuilding...' : '生成中...')
                           : (language === 'en' ? 'Regen Avatar' : '重生成像')}
                       </button>
+                      {renderCompanionCommands(companion)}
                     </div>
                   </div>
                   {isExpanded && (
@@ -396,12 +1013,31 @@ const StatBar: React.FC<StatBarProps> = ({
                         <div className="grid grid-cols-2 gap-1">
                           {Object.values(Skill).map((skill) => (
                             <div key={skill} className="flex justify-between border-b border-[color:rgba(var(--pip-color-rgb),0.1)]">
-                              <span className="opacity-70">{skillLocalizations[language][skill]}</span>
+                              <span className="opacity-70">{SKILL_LOCALIZATIONS[language][skill]}</span>
                               <span className="font-bold">{(companion.skills as any)[skill] || 0}</span>
                             </div>
                           ))}
                         </div>
                       </div>
+                      <div>
+                        <div className="text-[0.625rem] uppercase opacity-60 mb-1">{language === 'en' ? 'Affinity History' : '好感记录'}</div>
+                        {(companion.affinityLog || []).length === 0 ? (
+                          <div className="opacity-40 italic">{language === 'en' ? 'None' : '暂无'}</div>
+                        ) : (
+                          <div className="space-y-1 border-l border-[color:rgba(var(--pip-color-rgb),0.2)] pl-2">
+                            {[...(companion.affinityLog || [])].reverse().map((entry, idx) => (
+                              <div key={`${entry.time}-${idx}`} className="text-[0.625rem]">
+                                <span className="opacity-50">{formatJournalTime(entry.time)}</span>
+                                <span className={`ml-1 font-bold ${entry.delta < 0 ? 'text-red-500' : ''}`}>
+                                  {entry.delta > 0 ? '+' : ''}{entry.delta}
+                                </span>
+                                <span className="opacity-50"> → {entry.score}</span>
+                                {entry.reason && <div className="opacity-80">{entry.reason}</div>}
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
                       <div>
                         <div className="text-[0.625rem] uppercase opacity-60 mb-1">{language === 'en' ? 'Perks' : '能力'}</div>
                         {companion.perks.length === 0 ? (
@@ -427,6 +1063,8 @@ const StatBar: React.FC<StatBarProps> = ({
                               const tooltipId = `comp-${companion.name}-${idx}`;
                               const tooltipOpen = openTooltipId === tooltipId;
                               const tooltipVisibility = tooltipOpen ? 'opacity-100' : 'opacity-0 group-hover:opacity-100';
+                              const isEquipped = Object.values(companion.equipped || {}).includes(item.name);
+                              const canEquip = item.type === 'Weapon' || item.type === 'Armor';
                               return (
                                 <div
                                   key={`${item.name}-${idx}`}
@@ -440,7 +1078,30 @@ const StatBar: React.FC<StatBarProps> = ({
                                   <span className="font-bold">
                                     {item.name} {item.count > 1 ? `x${item.count}` : ''}
                                   </span>
+                                  {isEquipped && <span className="ml-1 font-bold">[{language === 'en' ? 'E' : '装'}]</span>}
                                   <span className="opacity-70"> · {item.type} · {(item.weight * item.count).toFixed(1)} lb</span>
+                                  <span className="flex gap-1 mt-0.5" onClick={(event) => event.stopPropagation()}>
+                                    {canEquip && (
+                                      <button
+                                        type="button"
+                                        onClick={() => onCompanionEquip(companion.name, item.name)}
+                                        disabled={!inventoryActionsEnabled}
+                                        className={companionButtonClass}
+                                      >
+                                        {isEquipped ? (language === 'en' ? 'Unequip' : '卸下') : (language === 'en' ? 'Equip' : '装备')}
+                                      </button>
+                                    )}
+                                    {!isEquipped && item.type !== 'Currency' && (
+                                      <button
+                                        type="button"
+                                        onClick={() => onCompanionCommand(companion.name, { kind: 'take', itemName: item.name, count: item.count })}
+                                        disabled={!inventoryActionsEnabled}
+                                        className={companionButtonClass}
+                                      >
+                                        {language === 'en' ? 'Take' : '拿取'}
+                                      </button>
+                                    )}
+                                  </span>
                                   {item.description && (
                                     <div
                                       className={`pointer-events-none absolute left-0 top-full mt-1 w-56 rounded border border-[color:rgba(var(--pip-color-rgb),0.7)] bg-black px-2 py-1 text-[0.5625rem] text-[color:var(--pip-color)] shadow-[0_0_14px_rgba(var(--pip-color-rgb),0.25)] transition-opacity duration-150 z-50 ${tooltipVisibility}`}
@@ -454,6 +1115,7 @@ const StatBar: React.FC<StatBarProps> = ({
                           </div>
                         )}
                       </div>
+                      {renderCompanionGive(companion)}
                     </div>
                   )}
                 </div>
@@ -462,6 +1124,9 @@ const StatBar: React.FC<StatBarProps> = ({
           </div>
         );
 
+      case 'MAP':
+        return renderMap();
+
       case 'DATA':
         return (
           <div className="space-y-4 animate-in slide-in-from-right-4 duration-300">
@@ -470,9 +1135,38 @@ const StatBar: React.FC<StatBarProps> = ({
                 <div className="space-y-2">
                   {quests.filter(q => q.status === 'active').length === 0 && <div className="text-xs opacity-30 italic px-2">--- {language === 'en' ? 'Empty' : '空'} ---</div>}
                   {quests.filter(q => q.status === 'active').map(q => (
-                    <div key={q.id} className="text-sm border-l-2 border-[color:var(--pip-color)] pl-2 py-2 bg-[color:rgba(var(--pip-color-rgb),0.05)]">
-                      <div className="font-bold text-[color:var(--pip-color)] uppercase text-xs mb-1">{q.name}</div>
+                    <div
+                      key={q.id}
+                      className={`text-sm border-l-2 border-[color:var(--pip-color)] pl-2 py-2 ${trackedQuestId === q.id
+                        ? 'bg-[color:rgba(var(--pip-color-rgb),0.15)] outline outline-1 outline-[color:rgba(var(--pip-color-rgb),0.5)]'
+                        : 'bg-[color:rgba(var(--pip-color-rgb),0.05)]'}`}
+                    >
+                      <div className="font-bold text-[color:var(--pip-color)] uppercase text-xs mb-1">
+                        {trackedQuestId === q.id ? '► ' : ''}{q.name}
+                      </div>
+                      {q.giver && (
+                        <div className="text-[0.5625rem] uppercase opacity-50 mb-1">
+                          {language === 'en' ? 'From' : '委托人'}: {q.giver}
+                          {knownNpcs.some(npc => npc.name === q.giver) ? ' ◆' : ''}
+                        </div>
+                      )}
                       <div className="opacity-70 text-[0.6875rem]">{q.objective}</div>
+                      {q.steps && q.steps.length > 0 && (
+                        <ul className="mt-1 space-y-0.5 text-[0.625rem]">
+                          {q.steps.map(step => (
+                            <li key={step.text} className={step.done ? 'opacity-40 line-through' : 'opacity-80'}>
+                              {step.done ? '☑' : '☐'} {step.text}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                      {q.rewards && q.rewards.length > 0 && (
+                        <div className="mt-1 text-[0.5625rem] opacity-60">
+                          {language === 'en' ? 'Rewards' : '奖励'}: {q.rewards.join(', ')}
+                        </div>
+                      )}
+                      {renderQuestTracking(q)}
+                      {renderQuestJournal(q)}
                     </div>
                   ))}
                 </div>
@@ -482,13 +1176,17 @@ const StatBar: React.FC<StatBarProps> = ({
                   <h4 className="text-[0.625rem] uppercase opacity-50 mb-2">{language === 'en' ? 'Completed' : '已完成'}</h4>
                   <div className="space-y-1">
                     {quests.filter(q => q.status !== 'active').map(q => (
-                      <div key={q.id} className="text-[0.6875rem] opacity-40 line-through px-2">
-                        {q.name}
+                      <div key={q.id} className="px-2">
+                        <div className={`text-[0.6875rem] opacity-40 line-through ${q.status === 'failed' ? 'text-red-500' : ''}`}>
+                          {q.name}
+                        </div>
+                        {renderQuestJournal(q)}
                       </div>
                     ))}
                   </div>
                </div>
              )}
+             {renderUsageLedger()}
           </div>
         );
 
@@ -504,6 +1202,17 @@ const StatBar: React.FC<StatBarProps> = ({
                 const tooltipId = `player-${idx}`;
                 const tooltipOpen = openTooltipId === tooltipId;
                 const tooltipVisibility = tooltipOpen ? 'opacity-100' : 'opacity-0 group-hover:opacity-100';
+                const isEquippable = item.type === 'Weapon' || item.type === 'Armor';
+                const isEquipped = isEquippable && Object.values(player.equipped || {}).includes(item.name);
+                const statLine = item.weaponStats
+                  ? `${language === 'en' ? 'DMG' : '伤害'} ${item.weaponStats.damage}`
+                    + (item.weaponStats.ammoType ? ` · ${item.weaponStats.ammoType}` : '')
+                    + ` · ${language === 'en' ? 'CND' : '耐久'} ${item.weaponStats.condition}%`
+                  : item.armorStats
+                    ? `${language === 'en' ? 'DR' : '伤害抗性'} ${item.armorStats.damageResistance}`
+                      + ` · ${item.armorStats.slot === 'head' ? (language === 'en' ? 'Head' : '头部') : (language === 'en' ? 'Body' : '身体')}`
+                      + ` · ${language === 'en' ? 'CND' : '耐久'} ${item.armorStats.condition}%`
+                    : '';
                 return (
                   <div
                     key={idx}
@@ -516,13 +1225,47 @@ const StatBar: React.FC<StatBarProps> = ({
                   >
                     <div className="flex flex-col truncate pr-2">
                       <span className="font-bold group-hover:text-white transition-colors">
-                        {item.name} {item.count > 1 ? `x${item.count}` : ''}
+                        {isEquipped ? '■ ' : ''}{item.name} {item.count > 1 ? `x${item.count}` : ''}
                       </span>
                       <span className="text-[0.5625rem] opacity-50 truncate">{item.type}</span>
+                      {statLine && (
+                        <span className="text-[0.5625rem] opacity-70 truncate">{statLine}</span>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2 self-center">
+                      {isEquippable && (
+                        <button
+                          type="button"
+                          onClick={(event) => {
+                            event.stopPropagation();
+                            onToggleEquip(item.name);
+                          }}
+                          className={`text-[0.5625rem] px-1.5 py-0.5 border uppercase font-bold transition-colors ${isEquipped
+                            ? 'border-[color:var(--pip-color)] bg-[color:var(--pip-color)] text-black'
+                            : 'border-[color:rgba(var(--pip-color-rgb),0.5)] hover:bg-[color:var(--pip-color)] hover:text-black'}`}
+                        >
+                          {isEquipped
+                            ? (language === 'en' ? 'Unequip' : '卸下')
+                            : (language === 'en' ? 'Equip' : '装备')}
+                        </button>
+                      )}
+                      {isUsableItem(item) && (
+                        <button
+                          type="button"
+                          onClick={(event) => {
+                            event.stopPropagation();
+                            onUseItem(item.name);
+                          }}
+                          disabled={!inventoryActionsEnabled}
+                          className="text-[0.5625rem] px-1.5 py-0.5 border uppercase font-bold transition-colors border-[color:rgba(var(--pip-color-rgb),0.5)] hover:bg-[color:var(--pip-color)] hover:text-black disabled:opacity-40"
+                        >
+                          {language === 'en' ? 'Use' : '使用'}
+                        </button>
+                      )}
+                      <span className="opacity-40 whitespace-nowrap">
+                        {(item.weight * item.count).toFixed(1)} lb
+                      </span>
                     </div>
-                    <span className="opacity-40 whitespace-nowrap self-center">
-                      {(item.weight * item.count).toFixed(1)} lb
-                    </span>
                     {item.description && (
                       <div
                         className={`pointer-events-none absolute left-0 top-full mt-1 w-64 rounded border border-[color:rgba(var(--pip-color-rgb),0.7)] bg-black px-2 py-1 text-[0.5625rem] text-[color:var(--pip-color)] shadow-[0_0_14px_rgba(var(--pip-color-rgb),0.25)] transition-opacity duration-150 z-50 ${tooltipVisibility}`}
@@ -534,9 +1277,26 @@ const StatBar: React.FC<StatBarProps> = ({
                 );
               })}
             </div>
-            <div className="pt-4 text-[0.625rem] opacity-50 text-right">
-               {language === 'en' ? 'Total Weight: ' : '总重: '}
-               {player.inventory.reduce((acc, curr) => acc + curr.weight * curr.count, 0).toFixed(1)} / {player.special.Strength * 10 + 50} lb
+            <div className="pt-4 space-y-3">
+              {renderWeightBar()}
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={onOpenBarter}
+                  disabled={!inventoryActionsEnabled}
+                  className="flex-1 text-[0.625rem] px-2 py-1 border border-[color:rgba(var(--pip-color-rgb),0.5)] uppercase font-bold tracking-widest hover:bg-[color:var(--pip-color)] hover:text-black transition-colors disabled:opacity-40"
+                >
+                  {language === 'en' ? 'Barter' : '交易'}
+                </button>
+                <button
+                  type="button"
+                  onClick={onOpenCrafting}
+                  disabled={!inventoryActionsEnabled}
+                  className="flex-1 text-[0.625rem] px-2 py-1 border border-[color:rgba(var(--pip-color-rgb),0.5)] uppercase font-bold tracking-widest hover:bg-[color:var(--pip-color)] hover:text-black transition-colors disabled:opacity-40"
+                >
+                  {language === 'en' ? 'Craft' : '制作'}
+                </button>
+              </div>
             </div>
           </div>
         );
@@ -550,7 +1310,8 @@ const StatBar: React.FC<StatBarProps> = ({
     { id: 'PERK', label: language === 'en' ? 'PERK' : '能力' },
     { id: 'COMP', label: language === 'en' ? 'COMP' : '同伴' },
     { id: 'DATA', label: language === 'en' ? 'DATA' : '数据' },
-    { id: 'INV', label: language === 'en' ? 'INV' : '背包' }
+    { id: 'INV', label: language === 'en' ? 'INV' : '背包' },
+    { id: 'MAP', label: language === 'en' ? 'MAP' : '地图' }
   ];
 
   const clampedScale = Math.min(1.2, Math.max(0.85, panelScale ?? 1));
@@ -476,8 +476,8 @@ const Terminal: React.FC<TerminalProps> = ({
               {systemErrorLabel || '> SYSTEM LOG'}
             </div>
             <div className="space-y-1">
-            {progressStages.map(stage => (
-              <div key={stage.label} className="flex items-center justify-between text-xs">
+            {progressStages.map((stage, index) => (
+              <div key={`${index}-${stage.label}`} className="flex items-center justify-between text-xs">
                 <span className="uppercase opacity-70">{stage.label}</span>
                 <span className={`uppercase ${stage.status === 'error' ? 'text-[#ff6b6b]' : stage.status === 'done' ? 'text-[color:var(--pip-color)]' : 'opacity-70'}`}>
                   {stageLabel(stage.status)}
@@ -0,0 +1,132 @@
+import { InventoryItem, PlayerChange, SpecialAttr, SpecialSet, StatusChange } from './types';
+import { normalizeName, readNumber } from './utils';
+
+export const USE_ITEM_PREFIX = { en: '[USE ITEM]', zh: '[使用物品]' } as const;
+
+interface ConsumableEffect {
+  keywords: string[];
+  health?: number;
+  rads?: number;
+  thirst?: number;
+  hunger?: number;
+  fatigue?: number;
+  buff?: { special: Partial<SpecialSet>; minutes: number; addictionChance?: number };
+}
+
+// Checked in order, so more specific names come before the generic ones they contain.
+const CONSUMABLE_EFFECTS: ConsumableEffect[] = [
+  { keywords: ['super stimpak', '超级治疗针'], health: 60 },
+  { keywords: ['stimpak', '治疗针'], health: 30 },
+  { keywords: ['healing poultice', '治疗膏药'], health: 35 },
+  {
+    keywords: ['healing powder', '治疗粉'],
+    health: 15,
+    buff: { special: { [SpecialAttr.Perception]: -1 }, minutes: 60 }
+  },
+  { keywords: ['radaway', '消辐宁'], rads: -150 },
+  {
+    keywords: ['buffout', '壮壮丸'],
+    buff: { special: { [SpecialAttr.Strength]: 2, [SpecialAttr.Endurance]: 2 }, minutes: 60, addictionChance: 0.1 }
+  },
+  {
+    keywords: ['mentats', '曼他特'],
+    buff: { special: { [SpecialAttr.Intelligence]: 2, [SpecialAttr.Perception]: 2 }, minutes: 60, addictionChance: 0.1 }
+  },
+  { keywords: ['jet', '杰特'], buff: { special: { [SpecialAttr.Agility]: 2 }, minutes: 15, addictionChance: 0.2 } },
+  { keywords: ['psycho', '赛可'], buff: { special: { [SpecialAttr.Strength]: 2 }, minutes: 30, addictionChance: 0.15 } },
+  { keywords: ['med-x', '镇痛剂'], buff: { special: { [SpecialAttr.Endurance]: 2 }, minutes: 60, addictionChance: 0.1 } },
+  { keywords: ['nuka-cola', 'nuka cola', '核子可乐'], thirst: -15, fatigue: -10, rads: 5 },
+  { keywords: ['purified water', '纯净水'], thirst: -40 },
+  { keywords: ['dirty water', '脏水'], thirst: -25, rads: 15 },
+  { keywords: ['water', '饮用水', '瓶装水'], thirst: -30 },
+  {
+    keywords: ['beer', '啤酒', 'whiskey', '威士忌', 'vodka', '伏特加', 'wine', '葡萄酒'],
+    thirst: -10,
+    buff: { special: { [SpecialAttr.Charisma]: 1, [SpecialAttr.Intelligence]: -1 }, minutes: 60, addictionChance: 0.05 }
+  },
+  { keywords: ['brahmin steak', '婆罗门牛排'], hunger: -40 },
+  { keywords: ['mirelurk cake', '泥沼蟹饼'], hunger: -35 },
+  { keywords: ['iguana-on-a-stick', '烤鬣蜥串'], hunger: -25 },
+  { keywords: ['grilled radroach', '烤辐射蟑螂'], hunger: -15 },
+  {
+    keywords: ['steak', '牛排', 'cram', '午餐肉', 'sugar bombs', '糖弹', 'fancy lads', 'instamash', '土豆泥', 'noodles', '面条', 'pork n\' beans', '猪肉豆', 'salisbury', 'meat', '肉', 'mutfruit', '变种果', 'apple', '苹果'],
+    hunger: -20
+  }
+];
+
+const SURVIVAL_FIELDS = ['rads', 'thirst', 'hunger', 'fatigue'] as const;
+
+export const getConsumableEffect = (itemName: string) => {
+  const key = normalizeName(itemName);
+  return CONSUMABLE_EFFECTS.find(effect => effect.keywords.some(keyword => key.includes(keyword))) || null;
+};
+
+export const isUsableItem = (item: InventoryItem) => item.type === 'Aid' && readNumber(item.count, 1) > 0;
+
+/**
+ * The local change for using one item: the table effect (survival meters only in survival mode),
+ * a timed status effect if the item grants one, and one fewer in the stack. Items without a known effect
+ * are still consumed; the narrator decides what they do.
+ */
+export const buildUseItemChange = (item: InventoryItem, survivalMode: boolean): PlayerChange => {
+  const effect = getConsumableEffect(item.name);
+  const change: PlayerChange = { inventoryChange: { remove: [{ name: item.name, count: 1 }] } };
+  if (!effect) return change;
+  if (effect.health) change.health = effect.health;
+  if (survivalMode) {
+    SURVIVAL_FIELDS.forEach(field => {
+      if (effect[field]) change[field] = effect[field];
+    });
+  }
+  if (effect.buff) {
+    const { special, minutes, addictionChance } = effect.buff;
+    change.statusEffectsAdd = [{
+      name: item.name,
+      source: item.name,
+      modifiers: (Object.keys(special) as SpecialAttr[]).map(stat => ({ stat, delta: special[stat] || 0 })),
+      minutesLeft: minutes,
+      addictionChance
+    }];
+  }
+  return change;
+};
+
+export const formatUseItemAction = (item: InventoryItem, isZh: boolean) =>
+  isZh
+    ? `${USE_ITEM_PREFIX.zh} ${item.name}（效果已生效）`
+    : `${USE_ITEM_PREFIX.en} ${item.name} (effects already applied)`;
+
+export const parseUseItemAction = (text: string) => {
+  const trimmed = text.trim();
+  const prefix = [USE_ITEM_PREFIX.en, USE_ITEM_PREFIX.zh].find(entry => trimmed.startsWith(entry));
+  if (!prefix) return null;
+  return trimmed.slice(prefix.length).replace(/\s*[(（][^()（）]*[)）]\s*$/, '').trim() || null;
+};
+
+/**
+ * The narrated turn after using an item must not consume it again or repeat its table effect
+ * (including a second status effect for the same chem), so those parts of the status update are dropped.
+ */
+export const stripAppliedItemUse = <T extends StatusChange>(change: T, itemName: string): T => {
+  const playerChange = change.playerChange;
+  if (!playerChange) return change;
+  const next: PlayerChange = { ...playerChange };
+  const remove = playerChange.inventoryChange?.remove;
+  if (Array.isArray(remove)) {
+    next.inventoryChange = {
+      ...playerChange.inventoryChange,
+      remove: remove.filter(entry => normalizeName(entry?.name || '') !== normalizeName(itemName))
+    };
+  }
+  const effect = getConsumableEffect(itemName);
+  if (effect?.health) delete next.health;
+  SURVIVAL_FIELDS.forEach(field => {
+    if (effect?.[field]) delete next[field];
+  });
+  if (effect?.buff && Array.isArray(playerChange.statusEffectsAdd)) {
+    const key = normalizeName(itemName);
+    next.statusEffectsAdd = playerChange.statusEffectsAdd.filter(entry =>
+      !normalizeName(entry?.name || '').includes(key) && !normalizeName(entry?.source || '').includes(key));
+  }
+  return { ...change, playerChange: next };
+};
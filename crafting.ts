@@ -0,0 +1,424 @@
+import { Actor, InventoryItem, PlayerChange, Skill } from './types';
+import { FALLOUT_ERA_STARTS } from './constants';
+import { enforceCarryLimit } from './carryWeight';
+import { SKILL_LOCALIZATIONS } from './localization';
+import { normalizeName, readNumber } from './utils';
+
+export type RecipeCategory = 'mod' | 'chem' | 'food';
+export type CraftingStation = 'workbench' | 'chemistry' | 'campfire';
+
+type Localized = { en: string; zh: string };
+
+interface RecipeComponent {
+  name: Localized;
+  aliases?: string[];
+  count: number;
+}
+
+interface RecipeOutput {
+  name: Localized;
+  type: InventoryItem['type'];
+  description: Localized;
+  weight: number;
+  value: number;
+  count: number;
+  isConsumable: boolean;
+}
+
+// Weapon mods rebuild the chosen weapon instead of producing a new item.
+interface WeaponMod {
+  suffix: Localized;
+  damage: number;
+  value: number;
+  appliesTo: 'ranged' | 'melee' | 'any';
+}
+
+export interface Recipe {
+  id: string;
+  name: Localized;
+  category: RecipeCategory;
+  station: CraftingStation;
+  skill: Skill;
+  threshold: number;
+  components: RecipeComponent[];
+  output?: RecipeOutput;
+  mod?: WeaponMod;
+  fromYear?: number;
+  regions?: string[];
+}
+
+const REGION = {
+  socal: FALLOUT_ERA_STARTS[0].region,
+  norcal: FALLOUT_ERA_STARTS[1].region,
+  capital: FALLOUT_ERA_STARTS[2].region,
+  mojave: FALLOUT_ERA_STARTS[3].region,
+  commonwealth: FALLOUT_ERA_STARTS[4].region,
+  appalachia: FALLOUT_ERA_STARTS[5].region
+} as const;
+
+const COMPONENTS = {
+  syringe: { name: { en: 'Empty Syringe', zh: '空注射器' }, aliases: ['syringe', '注射器'] },
+  antiseptic: { name: { en: 'Antiseptic', zh: '消毒剂' }, aliases: ['abraxo cleaner', '阿布拉索清洁剂', '清洁剂'] },
+  brocFlower: { name: { en: 'Broc Flower', zh: '布洛克花' } },
+  xanderRoot: { name: { en: 'Xander Root', zh: '仙达根' }, aliases: ['xander', '仙达'] },
+  caveFungus: { name: { en: 'Cave Fungus', zh: '洞穴真菌' } },
+  fertilizer: { name: { en: 'Fertilizer', zh: '肥料' }, aliases: ['brahmin dung', '婆罗门粪便'] },
+  plastic: { name: { en: 'Plastic', zh: '塑料' } },
+  bloodleaf: { name: { en: 'Bloodleaf', zh: '血叶' } },
+  glowingFungus: { name: { en: 'Glowing Fungus', zh: '荧光真菌' } },
+  purifiedWater: { name: { en: 'Purified Water', zh: '纯净水' } },
+  dirtyWater: { name: { en: 'Dirty Water', zh: '脏水' } },
+  radroachMeat: { name: { en: 'Radroach Meat', zh: '辐射蟑螂肉' } },
+  brahminMeat: { name: { en: 'Brahmin Meat', zh: '婆罗门肉' } },
+  iguanaBits: { name: { en: 'Iguana Bits', zh: '鬣蜥碎肉' } },
+  mirelurkMeat: { name: { en: 'Mirelurk Meat', zh: '泥沼蟹肉' } },
+  mutfruit: { name: { en: 'Mutfruit', zh: '变种果' } },
+  scrapMetal: { name: { en: 'Scrap Metal', zh: '废金属' } },
+  adhesive: { name: { en: 'Adhesive', zh: '粘合剂' }, aliases: ['wonderglue', '神奇胶水', 'duct tape', '胶带'] },
+  screw: { name: { en: 'Screw', zh: '螺丝' } }
+} satisfies Record<string, Omit<RecipeComponent, 'count'>>;
+
+const need = (component: Omit<RecipeComponent, 'count'>, count = 1): RecipeComponent => ({ ...component, count });
+
+export const RECIPES: Recipe[] = [
+  {
+    id: 'stimpak',
+    name: { en: 'Stimpak', zh: '治疗针' },
+    category: 'chem',
+    station: 'chemistry',
+    skill: Skill.Science,
+    threshold: 40,
+    components: [need(COMPONENTS.syringe), need(COMPONENTS.antiseptic)],
+    output: {
+      name: { en: 'Stimpak', zh: '治疗针' },
+      type: 'Aid',
+      description: { en: 'Restores health quickly.', zh: '快速恢复生命值。' },
+      weight: 0.1,
+      value: 75,
+      count: 1,
+      isConsumable: true
+    }
+  },
+  {
+    id: 'healing-powder',
+    name: { en: 'Healing Powder', zh: '治疗粉' },
+    category: 'chem',
+    station: 'campfire',
+    skill: Skill.Survival,
+    threshold: 20,
+    components: [need(COMPONENTS.brocFlower), need(COMPONENTS.xanderRoot)],
+    output: {
+      name: { en: 'Healing Powder', zh: '治疗粉' },
+      type: 'Aid',
+      description: { en: 'A tribal remedy. Heals slowly and dulls perception.', zh: '部落疗药。缓慢治疗，但会降低感知。' },
+      weight: 0.1,
+      value: 20,
+      count: 1,
+      isConsumable: true
+    }
+  },
+  {
+    id: 'healing-poultice',
+    name: { en: 'Healing Poultice', zh: '治疗膏药' },
+    category: 'chem',
+    station: 'campfire',
+    skill: Skill.Survival,
+    threshold: 50,
+    components: [need(COMPONENTS.brocFlower), need(COMPONENTS.xanderRoot), need(COMPONENTS.caveFungus)],
+    output: {
+      name: { en: 'Healing Poultice', zh: '治疗膏药' },
+      type: 'Aid',
+      description: { en: 'A stronger tribal salve.', zh: '效果更强的部落药膏。' },
+      weight: 0.1,
+      value: 50,
+      count: 1,
+      isConsumable: true
+    },
+    regions: [REGION.mojave]
+  },
+  {
+    id: 'jet',
+    name: { en: 'Jet', zh: '杰特' },
+    category: 'chem',
+    station: 'chemistry',
+    skill: Skill.Science,
+    threshold: 30,
+    components: [need(COMPONENTS.fertilizer), need(COMPONENTS.plastic)],
+    output: {
+      name: { en: 'Jet', zh: '杰特' },
+      type: 'Aid',
+      description: { en: 'A fast, addictive inhalant that slows the world down.', zh: '见效快且易上瘾的吸入剂，让时间仿佛变慢。' },
+      weight: 0.1,
+      value: 50,
+      count: 1,
+      isConsumable: true
+    },
+    // First cooked up in New Reno.
+    fromYear: 2241
+  },
+  {
+    id: 'radaway',
+    name: { en: 'RadAway', zh: '消辐宁' },
+    category: 'chem',
+    station: 'chemistry',
+    skill: Skill.Science,
+    threshold: 50,
+    components: [need(COMPONENTS.bloodleaf), need(COMPONENTS.glowingFungus), need(COMPONENTS.purifiedWater)],
+    output: {
+      name: { en: 'RadAway', zh: '消辐宁' },
+      type: 'Aid',
+      description: { en: 'Flushes radiation from the body.', zh: '排出体内辐射。' },
+      weight: 0.1,
+      value: 80,
+      count: 1,
+      isConsumable: true
+    },
+    regions: [REGION.commonwealth, REGION.appalachia]
+  },
+  {
+    id: 'purified-water',
+    name: { en: 'Purified Water', zh: '纯净水' },
+    category: 'food',
+    station: 'campfire',
+    skill: Skill.Survival,
+    threshold: 25,
+    components: [need(COMPONENTS.dirtyWater)],
+    output: {
+      name: { en: 'Purified Water', zh: '纯净水' },
+      type: 'Aid',
+      description: { en: 'Boiled clean. Quenches thirst without rads.', zh: '煮沸过的水。解渴且无辐射。' },
+      weight: 1,
+      value: 20,
+      count: 1,
+      isConsumable: true
+    }
+  },
+  {
+    id: 'grilled-radroach',
+    name: { en: 'Grilled Radroach', zh: '烤辐射蟑螂' },
+    category: 'food',
+    station: 'campfire',
+    skill: Skill.Survival,
+    threshold: 10,
+    components: [need(COMPONENTS.radroachMeat)],
+    output: {
+      name: { en: 'Grilled Radroach', zh: '烤辐射蟑螂' },
+      type: 'Aid',
+      description: { en: 'Crunchy, and safer than raw.', zh: '酥脆，比生吃安全。' },
+      weight: 0.1,
+      value: 7,
+      count: 1,
+      isConsumable: true
+    }
+  },
+  {
+    id: 'iguana-on-a-stick',
+    name: { en: 'Iguana-on-a-Stick', zh: '烤鬣蜥串' },
+    category: 'food',
+    station: 'campfire',
+    skill: Skill.Survival,
+    threshold: 20,
+    components: [need(COMPONENTS.iguanaBits)],
+    output: {
+      name: { en: 'Iguana-on-a-Stick', zh: '烤鬣蜥串' },
+      type: 'Aid',
+      description: { en: 'A West Coast street snack.', zh: '西海岸的街头小吃。' },
+      weight: 0.5,
+      value: 10,
+      count: 1,
+      isConsumable: true
+    },
+    regions: [REGION.socal, REGION.norcal, REGION.mojave]
+  },
+  {
+    id: 'brahmin-steak',
+    name: { en: 'Brahmin Steak', zh: '婆罗门牛排' },
+    category: 'food',
+    station: 'campfire',
+    skill: Skill.Survival,
+    threshold: 30,
+    components: [need(COMPONENTS.brahminMeat)],
+    output: {
+      name: { en: 'Brahmin Steak', zh: '婆罗门牛排' },
+      type: 'Aid',
+      description: { en: 'A hearty cut, cooked through.', zh: '分量十足的熟肉排。' },
+      weight: 1,
+      value: 25,
+      count: 1,
+      isConsumable: true
+    }
+  },
+  {
+    id: 'mirelurk-cake',
+    name: { en: 'Mirelurk Cake', zh: '泥沼蟹饼' },
+    category: 'food',
+    station: 'campfire',
+    skill: Skill.Survival,
+    threshold: 40,
+    components: [need(COMPONENTS.mirelurkMeat), need(COMPONENTS.mutfruit)],
+    output: {
+      name: { en: 'Mirelurk Cake', zh: '泥沼蟹饼' },
+      type: 'Aid',
+      description: { en: 'An East Coast favourite.', zh: '东海岸的招牌菜。' },
+      weight: 0.1,
+      value: 35,
+      count: 1,
+      isConsumable: true
+    },
+    regions: [REGION.capital, REGION.commonwealth]
+  },
+  {
+    id: 'reinforced-receiver',
+    name: { en: 'Reinforced Receiver', zh: '强化机匣' },
+    category: 'mod',
+    station: 'workbench',
+    skill: Skill.Repair,
+    threshold: 35,
+    components: [need(COMPONENTS.scrapMetal, 3), need(COMPONENTS.adhesive)],
+    mod: { suffix: { en: 'Reinforced', zh: '强化' }, damage: 3, value: 40, appliesTo: 'ranged' }
+  },
+  {
+    id: 'long-barrel',
+    name: { en: 'Long Barrel', zh: '长枪管' },
+    category: 'mod',
+    station: 'workbench',
+    skill: Skill.Repair,
+    threshold: 45,
+    components: [need(COMPONENTS.scrapMetal, 2), need(COMPONENTS.screw, 2)],
+    mod: { suffix: { en: 'Long Barrel', zh: '长枪管' }, damage: 2, value: 30, appliesTo: 'ranged' }
+  },
+  {
+    id: 'sharpened-edge',
+    name: { en: 'Sharpened Edge', zh: '开刃' },
+    category: 'mod',
+    station: 'workbench',
+    skill: Skill.Repair,
+    threshold: 25,
+    components: [need(COMPONENTS.scrapMetal), need(COMPONENTS.adhesive)],
+    mod: { suffix: { en: 'Sharpened', zh: '开刃' }, damage: 2, value: 20, appliesTo: 'melee' }
+  }
+];
+
+export const getRecipe = (id: string) => RECIPES.find(recipe => recipe.id === id) || null;
+
+// Recipes without regions are known everywhere; fromYear keeps later inventions out of earlier eras.
+export const getAvailableRecipes = (year: number, region: string) =>
+  RECIPES.filter(recipe =>
+    (!recipe.fromYear || year >= recipe.fromYear)
+    && (!recipe.regions || recipe.regions.includes(region))
+  );
+
+export const localize = (text: Localized, isZh: boolean) => (isZh ? text.zh : text.en);
+
+const matchesComponent = (item: InventoryItem, component: RecipeComponent) => {
+  const key = normalizeName(item.name);
+  return [component.name.en, component.name.zh, ...(component.aliases || [])]
+    .some(alias => key.includes(normalizeName(alias)));
+};
+
+export interface ComponentStatus {
+  component: RecipeComponent;
+  held: number;
+  uses: { name: string; count: number }[];
+}
+
+/**
+ * Matches each component against the inventory. Several stacks can cover one component
+ * ("Wonderglue" and "Duct Tape" both count as adhesive); a stack is never used twice.
+ */
+export const getComponentStatus = (player: Actor, recipe: Recipe): ComponentStatus[] => {
+  const remaining = new Map((player.inventory || []).map(item => [item.name, Math.max(0, readNumber(item.count, 1))]));
+  return recipe.components.map(component => {
+    const uses: { name: string; count: number }[] = [];
+    let needed = component.count;
+    (player.inventory || []).forEach(item => {
+      if (needed <= 0 || !matchesComponent(item, component)) return;
+      const available = remaining.get(item.name) || 0;
+      const used = Math.min(available, needed);
+      if (used <= 0) return;
+      remaining.set(item.name, available - used);
+      uses.push({ name: item.name, count: used });
+      needed -= used;
+    });
+    return { component, held: component.count - needed, uses };
+  });
+};
+
+const isRanged = (item: InventoryItem) => !!item.weaponStats?.ammoType;
+
+const hasMod = (item: InventoryItem, mod: WeaponMod) =>
+  [mod.suffix.en, mod.suffix.zh].some(suffix => normalizeName(item.name).includes(normalizeName(suffix)));
+
+// Weapons a mod can still go on.
+export const getModTargets = (player: Actor, recipe: Recipe) => {
+  const mod = recipe.mod;
+  if (!mod) return [];
+  return (player.inventory || []).filter(item =>
+    item.type === 'Weapon'
+    && item.weaponStats
+    && !hasMod(item, mod)
+    && (mod.appliesTo === 'any' || (mod.appliesTo === 'ranged') === isRanged(item))
+  );
+};
+
+export interface CraftResult {
+  playerChange: PlayerChange;
+  output: InventoryItem;
+}
+
+/**
+ * Returns the inventory change for one craft, or an error message when the recipe cannot be made:
+ * missing components, a skill below the threshold, no target weapon, or an output too heavy to carry.
+ */
+export const buildCraftChange = (
+  player: Actor,
+  recipe: Recipe,
+  isZh: boolean,
+  targetWeapon?: string
+): CraftResult | { error: string } => {
+  const skill = readNumber(player.skills?.[recipe.skill], 0);
+  if (skill < recipe.threshold) {
+    const skillName = SKILL_LOCALIZATIONS[isZh ? 'zh' : 'en'][recipe.skill];
+    return { error: isZh ? `需要${skillName} ${recipe.threshold}。` : `Requires ${skillName} ${recipe.threshold}.` };
+  }
+  const status = getComponentStatus(player, recipe);
+  const missing = status.filter(entry => entry.held < entry.component.count);
+  if (missing.length > 0) {
+    const list = missing.map(entry => localize(entry.component.name, isZh)).join(', ');
+    return { error: isZh ? `缺少材料：${list}。` : `Missing components: ${list}.` };
+  }
+  const remove = status.flatMap(entry => entry.uses);
+  let output: InventoryItem;
+  const playerChange: PlayerChange = {};
+  if (recipe.mod) {
+    const weapon = getModTargets(player, recipe).find(item => item.name === targetWeapon);
+    if (!weapon || !weapon.weaponStats) {
+      return { error: isZh ? '请选择一把可以改装的武器。' : 'Choose a weapon this mod fits.' };
+    }
+    output = {
+      ...weapon,
+      name: `${weapon.name} (${localize(recipe.mod.suffix, isZh)})`,
+      count: 1,
+      value: readNumber(weapon.value, 0) + recipe.mod.value,
+      weaponStats: { ...weapon.weaponStats, damage: readNumber(weapon.weaponStats.damage, 0) + recipe.mod.damage }
+    };
+    remove.push({ name: weapon.name, count: 1 });
+    // The modded weapon stays in hand if the last copy of the original was equipped.
+    if (player.equipped?.weapon === weapon.name && readNumber(weapon.count, 1) <= 1) {
+      playerChange.equipped = { weapon: output.name };
+    }
+  } else if (recipe.output) {
+    const { name, description, ...rest } = recipe.output;
+    output = { ...rest, name: localize(name, isZh), description: localize(description, isZh) };
+  } else {
+    return { error: isZh ? '配方无效。' : 'Invalid recipe.' };
+  }
+  playerChange.inventoryChange = { add: [output], remove };
+  if (enforceCarryLimit(player, playerChange.inventoryChange).rejected.length > 0) {
+    return { error: isZh ? '成品太重，背不动了。' : 'You cannot carry the result.' };
+  }
+  return { playerChange, output };
+};
+
+export const formatCraftNote = (output: InventoryItem, isZh: boolean) =>
+  isZh ? `[制作] 获得 ${output.name} x${output.count}` : `[CRAFTING] Made ${output.name} x${output.count}`;
@@ -0,0 +1,96 @@
+import { FactionChange, FactionReputation } from './types';
+import { RankTier, getRankLabel, normalizeName, readNumber } from './utils';
+
+export const REPUTATION_LIMIT = 100;
+
+// Canonical names for the big factions so "NCR", "the Republic" and "新加州共和国" share one standing.
+const FACTION_ALIASES: Array<{ name: string; aliases: string[] }> = [
+  { name: 'NCR', aliases: ['ncr', 'new california republic', 'new california', '新加州共和国', '新加州'] },
+  { name: "Caesar's Legion", aliases: ["caesar's legion", 'caesars legion', 'legion', '凯撒军团', '军团'] },
+  { name: 'Brotherhood of Steel', aliases: ['brotherhood of steel', 'brotherhood', 'bos', '钢铁兄弟会', '兄弟会'] },
+  { name: 'Institute', aliases: ['the institute', 'institute', '学院'] },
+  { name: 'Railroad', aliases: ['the railroad', 'railroad', '铁路'] },
+  { name: 'Minutemen', aliases: ['the minutemen', 'minutemen', '义勇军', '民兵'] },
+  { name: 'Enclave', aliases: ['the enclave', 'enclave', '英克雷'] },
+  { name: 'Great Khans', aliases: ['great khans', 'khans', '大汗'] },
+  { name: 'Powder Gangers', aliases: ['powder gangers', 'powder gang', '火药帮'] },
+  { name: 'Followers of the Apocalypse', aliases: ['followers of the apocalypse', 'followers', '启示录追随者'] },
+  { name: 'Boomers', aliases: ['boomers', '轰炸者'] },
+  { name: 'Talon Company', aliases: ['talon company', '鹰爪佣兵团'] },
+  { name: 'Regulators', aliases: ['regulators', '监管者'] }
+];
+
+const REPUTATION_RANKS: RankTier[] = [
+  { min: 75, en: 'Idolized', zh: '崇拜' },
+  { min: 40, en: 'Liked', zh: '喜爱' },
+  { min: 15, en: 'Accepted', zh: '接纳' },
+  { min: -14, en: 'Neutral', zh: '中立' },
+  { min: -39, en: 'Shunned', zh: '排斥' },
+  { min: -74, en: 'Hated', zh: '憎恨' },
+  { min: -REPUTATION_LIMIT, en: 'Vilified', zh: '死敌' }
+];
+
+const clampReputation = (value: number) =>
+  Math.min(REPUTATION_LIMIT, Math.max(-REPUTATION_LIMIT, Math.round(value)));
+
+// Aliases match whole names only, so "Legion Assassins" stays its own group.
+export const resolveFactionName = (name: string, reputation?: FactionReputation) => {
+  const trimmed = name.trim();
+  const key = normalizeName(trimmed);
+  const canonical = FACTION_ALIASES.find(entry => entry.aliases.includes(key));
+  if (canonical) return canonical.name;
+  const existing = Object.keys(reputation || {}).find(faction => normalizeName(faction) === key);
+  return existing || trimmed;
+};
+
+export const normalizeFactionChanges = (changes: unknown): FactionChange[] => {
+  if (!Array.isArray(changes)) return [];
+  return changes
+    .filter(entry => entry && typeof entry.faction === 'string' && entry.faction.trim())
+    .map(entry => ({ faction: entry.faction.trim(), delta: Math.round(readNumber(entry.delta, 0)) }))
+    .filter(entry => entry.delta !== 0);
+};
+
+export const applyFactionChanges = (reputation: FactionReputation | undefined, changes?: FactionChange[]) => {
+  const list = normalizeFactionChanges(changes);
+  if (list.length === 0) return reputation || {};
+  const next: FactionReputation = { ...reputation };
+  list.forEach(change => {
+    const faction = resolveFactionName(change.faction, next);
+    next[faction] = clampReputation(readNumber(next[faction], 0) + change.delta);
+  });
+  return next;
+};
+
+export const getReputationRank = (score: number, isZh: boolean) => getRankLabel(REPUTATION_RANKS, score, isZh);
+
+export const getFactionStandings = (reputation: FactionReputation | undefined) =>
+  Object.entries(reputation || {})
+    .map(([faction, score]) => ({ faction, score: clampReputation(readNumber(score, 0)) }))
+    .sort((a, b) => Math.abs(b.score) - Math.abs(a.score) || a.faction.localeCompare(b.faction));
+
+export const formatFactionNote = (changes: FactionChange[] | undefined, reputation: FactionReputation, isZh: boolean) => {
+  const list = normalizeFactionChanges(changes);
+  if (list.length === 0) return '';
+  const parts = list.map(change => {
+    const faction = resolveFactionName(change.faction, reputation);
+    const rank = getReputationRank(readNumber(reputation[faction], 0), isZh);
+    return `${faction} ${change.delta > 0 ? '+' : ''}${change.delta} (${rank})`;
+  });
+  return isZh ? `[声望] ${parts.join('，')}` : `[REPUTATION] ${parts.join(', ')}`;
+};
+
+export const buildFactionBlock = (reputation?: FactionReputation) => {
+  const standings = getFactionStandings(reputation);
+  if (standings.length === 0) return '';
+  const payload = standings.reduce<Record<string, { score: number; rank: string }>>((acc, entry) => {
+    acc[entry.faction] = { score: entry.score, rank: getReputationRank(entry.score, false) };
+    return acc;
+  }, {});
+  return `FACTION REPUTATION (tracked locally, binding): ${JSON.stringify(payload)}\n`;
+};
+
+export const buildFactionRule = (index: number, reputation?: FactionReputation) => {
+  if (getFactionStandings(reputation).length === 0) return '';
+  return `${index}. Members of a faction treat the player according to FACTION REPUTATION: wary or hostile when Shunned or worse, friendly when Liked or better. Keep these reactions consistent with earlier turns.\n`;
+};
@@ -0,0 +1,194 @@
+import { Actor, CombatRoundRecord, CombatState, Perk, PerkOffer, PlayerChange, Skill, SkillCheckResult, SkillSet, SpecialAttr, SpecialSet } from './types';
+import { isActorDown } from './combat';
+import { rollD100 } from './skillCheck';
+import { normalizeName, readNumber } from './utils';
+
+export const MAX_LEVEL = 50;
+export const MAX_SKILL_VALUE = 100;
+
+const EVENT_XP = 10;
+const QUEST_COMPLETION_XP = 100;
+const COMBAT_KILL_XP = 25;
+const SKILL_CHECK_XP: Record<SkillCheckResult['outcome'], number> = {
+  critical_success: 25,
+  success: 15,
+  failure: 5,
+  critical_failure: 5
+};
+export const PERK_CHOICES = 4;
+// Longer names are prose, not a perk title.
+const PERK_NAME_LIMIT = 40;
+
+type PerkEntry = {
+  name: string;
+  zh: string;
+  description: string;
+  descriptionZh: string;
+  level: number;
+  requires?: Partial<SpecialSet>;
+};
+
+// Canonical perks from the mainline games, trimmed to what the narrator can meaningfully honour.
+// Offered when no generated list is available (no model configured, a failed call, the budget cap).
+const PERK_CATALOG: PerkEntry[] = [
+  { name: 'Lead Belly', zh: '铁胃', description: 'Take less radiation from eating and drinking.', descriptionZh: '饮食时受到的辐射减少。', level: 2, requires: { [SpecialAttr.Endurance]: 5 } },
+  { name: 'Gunslinger', zh: '神枪手', description: 'One-handed guns are more accurate in V.A.T.S.', descriptionZh: '单手枪械在 V.A.T.S. 中更精准。', level: 2, requires: { [SpecialAttr.Agility]: 3 } },
+  { name: 'Iron Fist', zh: '铁拳', description: 'Unarmed attacks hit noticeably harder.', descriptionZh: '徒手攻击的伤害显著提升。', level: 2, requires: { [SpecialAttr.Strength]: 4 } },
+  { name: 'Scrounger', zh: '搜刮者', description: 'Find more ammunition in containers.', descriptionZh: '在容器中找到更多弹药。', level: 4, requires: { [SpecialAttr.Luck]: 5 } },
+  { name: 'Strong Back', zh: '强壮背脊', description: '+50 carry weight.', descriptionZh: '负重上限 +50。', level: 4, requires: { [SpecialAttr.Strength]: 5, [SpecialAttr.Endurance]: 5 } },
+  { name: 'Toughness', zh: '坚韧', description: 'Shrug off a portion of incoming damage.', descriptionZh: '减免部分受到的伤害。', level: 4, requires: { [SpecialAttr.Endurance]: 5 } },
+  { name: 'Educated', zh: '博学', description: '+2 skill points every level.', descriptionZh: '每次升级额外获得 2 点技能点。', level: 4, requires: { [SpecialAttr.Intelligence]: 4 } },
+  { name: 'Fortune Finder', zh: '寻宝者', description: 'Find considerably more caps in containers.', descriptionZh: '在容器中找到更多瓶盖。', level: 6, requires: { [SpecialAttr.Luck]: 5 } },
+  { name: 'Cannibal', zh: '食人族', description: 'Feed on corpses to regain health, at the cost of karma.', descriptionZh: '吞食尸体恢复生命，但会损失因果。', level: 4 },
+  { name: 'Pack Rat', zh: '囤积狂', description: 'Light items weigh less; +25 carry weight.', descriptionZh: '轻物品更轻，负重 +25。', level: 6, requires: { [SpecialAttr.Intelligence]: 5 } },
+  { name: 'Commando', zh: '突击队员', description: 'Two-handed weapons are more accurate in V.A.T.S.', descriptionZh: '双手武器在 V.A.T.S. 中更精准。', level: 8, requires: { [SpecialAttr.Agility]: 4 } },
+  { name: 'Sniper', zh: '狙击手', description: 'Much better odds of landing headshots.', descriptionZh: '更容易命中头部。', level: 12, requires: { [SpecialAttr.Perception]: 6, [SpecialAttr.Agility]: 6 } },
+  { name: 'Rad Resistance', zh: '辐射抗性', description: 'Accumulate radiation more slowly.', descriptionZh: '辐射累积得更慢。', level: 8, requires: { [SpecialAttr.Endurance]: 5 } },
+  { name: 'Better Criticals', zh: '更强暴击', description: 'Critical hits deal far more damage.', descriptionZh: '暴击造成更高伤害。', level: 16, requires: { [SpecialAttr.Perception]: 6, [SpecialAttr.Luck]: 6 } },
+  { name: 'Action Boy', zh: '行动派', description: 'More action points in V.A.T.S.', descriptionZh: 'V.A.T.S. 行动点更多。', level: 16, requires: { [SpecialAttr.Agility]: 6 } },
+  { name: 'Finesse', zh: '精巧', description: 'Land critical hits more often.', descriptionZh: '更频繁地打出暴击。', level: 10, requires: { [SpecialAttr.Agility]: 6 } }
+];
+
+// XP needed to reach a level: 100, 300, 600, 1000, ...
+export const getXpForLevel = (level: number) => 50 * level * (level - 1);
+
+export const getLevel = (actor: Actor) => Math.max(1, Math.floor(readNumber(actor.level, 1)));
+
+export const getXp = (actor: Actor) => Math.max(0, Math.floor(readNumber(actor.xp, 0)));
+
+export const getLevelForXp = (xp: number) => {
+  let level = 1;
+  while (level < MAX_LEVEL && xp >= getXpForLevel(level + 1)) level += 1;
+  return level;
+};
+
+export const getPendingLevelUps = (actor: Actor) => Math.max(0, getLevelForXp(getXp(actor)) - getLevel(actor));
+
+const hasPerk = (actor: Actor, entry: PerkEntry) => (actor.perks || []).some(perk => {
+  const name = perk.name.trim().toLowerCase();
+  return name === entry.name.toLowerCase() || name === entry.zh.toLowerCase();
+});
+
+// New Vegas scaling: 10 + INT/2, plus 2 with Educated.
+export const getSkillPointsPerLevel = (actor: Actor) => {
+  const educated = PERK_CATALOG.find(entry => entry.name === 'Educated');
+  return 10
+    + Math.floor(readNumber(actor.special?.[SpecialAttr.Intelligence], 5) / 2)
+    + (educated && hasPerk(actor, educated) ? 2 : 0);
+};
+
+export const computeEventXp = (skillCheck?: SkillCheckResult | null, questsCompleted = 0) =>
+  EVENT_XP + (skillCheck ? SKILL_CHECK_XP[skillCheck.outcome] : 0) + questsCompleted * QUEST_COMPLETION_XP;
+
+// Downed enemies can no longer be targeted, so any that took the player's damage this round fell this round.
+export const computeCombatRoundXp = (playerName: string, record: CombatRoundRecord, combat: CombatState) =>
+  combat.enemies.filter(enemy => isActorDown(enemy) && record.attacks.some(attack =>
+    attack.attacker === playerName && attack.target === enemy.name && attack.damage > 0
+  )).length * COMBAT_KILL_XP;
+
+export const addXp = (change: PlayerChange | undefined, xp: number): PlayerChange | undefined => {
+  if (xp <= 0) return change;
+  return { ...change, xp: readNumber(change?.xp, 0) + xp };
+};
+
+const meetsRequirements = (actor: Actor, entry: PerkEntry) =>
+  Object.entries(entry.requires || {}).every(([attr, min]) =>
+    readNumber(actor.special?.[attr as SpecialAttr], 0) >= (min as number));
+
+/**
+ * The catalog fallback: a small, stable selection of perks the player qualifies for at the given level.
+ * The same player and level always see the same choices so reopening the modal does not reroll them.
+ */
+export const getPerkChoices = (actor: Actor, level: number, isZh: boolean): Perk[] => {
+  const eligible = PERK_CATALOG
+    .filter(entry => entry.level <= level && meetsRequirements(actor, entry) && !hasPerk(actor, entry))
+    .map(entry => ({ entry, order: rollD100(`${actor.name}|${level}|${entry.name}`) }))
+    .sort((a, b) => a.order - b.order)
+    .slice(0, PERK_CHOICES);
+  return eligible.map(({ entry }) => ({
+    name: isZh ? entry.zh : entry.name,
+    description: isZh ? entry.descriptionZh : entry.description,
+    rank: 1
+  }));
+};
+
+// Keeps the usable part of a generated list: titled, described, not already held and no repeats.
+export const normalizePerkChoices = (raw: unknown, actor: Actor): Perk[] => {
+  if (!Array.isArray(raw)) return [];
+  const taken = new Set((actor.perks || []).map(perk => normalizeName(perk.name)));
+  const perks: Perk[] = [];
+  raw.forEach(entry => {
+    if (!entry || typeof entry !== 'object' || perks.length >= PERK_CHOICES) return;
+    const { name, description } = entry as { name?: unknown; description?: unknown };
+    if (typeof name !== 'string' || typeof description !== 'string' || !description.trim()) return;
+    const key = normalizeName(name);
+    if (!key || key.length > PERK_NAME_LIMIT || taken.has(key)) return;
+    taken.add(key);
+    perks.push({ name: name.trim(), description: description.trim(), rank: 1 });
+  });
+  return perks;
+};
+
+export const normalizePerkOffer = (raw: unknown, actor: Actor | null): PerkOffer | undefined => {
+  if (!actor || !raw || typeof raw !== 'object') return undefined;
+  const offer = raw as { level?: unknown; perks?: unknown; generated?: unknown };
+  const level = Math.floor(readNumber(offer.level, 0));
+  const perks = normalizePerkChoices(offer.perks, actor);
+  if (level <= getLevel(actor) || perks.length === 0) return undefined;
+  return { level, perks, generated: offer.generated === true };
+};
+
+// The prompt for a generated offer; the era and region decide which perks are lore-appropriate.
+export const buildPerkOfferPrompt = (actor: Actor, level: number, year: number, location: string) => {
+  const profile = {
+    name: actor.name,
+    faction: actor.faction,
+    special: actor.special,
+    skills: actor.skills,
+    perks: (actor.perks || []).map(perk => perk.name)
+  };
+  return `PLAYER (JSON):
+${JSON.stringify(profile)}
+
+LEVEL REACHED: ${level}
+YEAR: ${year}
+LOCATION: ${location}
+
+Return JSON: {"perks": [{"name": "...", "description": "..."}]} only.`;
+};
+
+export const buildPerkOfferSystem = (targetLang: string) => `You are the Pip-Boy Perk Chart.
+1. Offer exactly ${PERK_CHOICES} perks the player could take on reaching the given level.
+2. Perks must fit the Fallout setting at the given year and location: prefer canonical perks from the games set in that era and region, or close regional variants. Nothing from technology, factions or events that do not exist there yet.
+3. Match the player's SPECIAL, skills and level; stronger perks only at higher levels. Never repeat a perk the player already has.
+4. Each description is one short sentence stating the effect.
+5. Output language must be ${targetLang}.
+6. Return JSON with key "perks" only.`;
+
+/**
+ * Turns a confirmed level-up into a plain player change so rebuildStatusFromTrack replays it.
+ * Max health grows with Endurance as in Fallout 3.
+ */
+export const buildLevelUpChange = (actor: Actor, skills: Partial<SkillSet>, perk: Perk | null): PlayerChange => {
+  const healthGain = 10 + Math.floor(readNumber(actor.special?.[SpecialAttr.Endurance], 5) / 2);
+  const skillDelta: Partial<SkillSet> = {};
+  (Object.keys(skills) as Skill[]).forEach(skill => {
+    const points = Math.max(0, Math.floor(readNumber(skills[skill], 0)));
+    const room = MAX_SKILL_VALUE - readNumber(actor.skills?.[skill], 0);
+    const applied = Math.min(points, Math.max(0, room));
+    if (applied > 0) skillDelta[skill] = applied;
+  });
+  return {
+    level: 1,
+    maxHealth: healthGain,
+    health: healthGain,
+    ...(Object.keys(skillDelta).length > 0 ? { skills: skillDelta } : {}),
+    ...(perk ? { perksAdd: [perk] } : {})
+  };
+};
+
+export const formatXpNote = (xp: number, actor: Actor, isZh: boolean) => {
+  const pending = getPendingLevelUps(actor);
+  const levelNote = pending > 0 ? (isZh ? ' · 可以升级！' : ' · LEVEL UP available!') : '';
+  return isZh ? `[经验] +${xp} XP${levelNote}` : `[XP] +${xp} XP${levelNote}`;
+};
@@ -1,4 +1,4 @@
-import { Language } from './types';
+import { Language, Skill } from './types';
 
 const LOCATION_LOCALIZATIONS: Record<string, string> = {
   "Southern California (Fallout 1)": "南加州（辐射1）",
@@ -21,3 +21,38 @@ export const formatYear = (year: number, language: Language) => {
   const formatted = formatter.format(year);
   return language === 'zh' ? `${formatted}年` : formatted;
 };
+
+export const SKILL_LOCALIZATIONS: Record<Language, Record<Skill, string>> = {
+  en: {
+    [Skill.SmallGuns]: 'Small Guns',
+    [Skill.BigGuns]: 'Big Guns',
+    [Skill.EnergyWeapons]: 'Energy Weapons',
+    [Skill.Unarmed]: 'Unarmed',
+    [Skill.MeleeWeapons]: 'Melee Weapons',
+    [Skill.Medicine]: 'Medicine',
+    [Skill.Repair]: 'Repair',
+    [Skill.Science]: 'Science',
+    [Skill.Sneak]: 'Sneak',
+    [Skill.Lockpick]: 'Lockpick',
+    [Skill.Steal]: 'Steal',
+    [Skill.Speech]: 'Speech',
+    [Skill.Barter]: 'Barter',
+    [Skill.Survival]: 'Survival',
+  },
+  zh: {
+    [Skill.SmallGuns]: '轻型枪械',
+    [Skill.BigGuns]: '重型枪械',
+    [Skill.EnergyWeapons]: '能量武器',
+    [Skill.Unarmed]: '徒手',
+    [Skill.MeleeWeapons]: '近战武器',
+    [Skill.Medicine]: '医药',
+    [Skill.Repair]: '修理',
+    [Skill.Science]: '科学',
+    [Skill.Sneak]: '潜行',
+    [Skill.Lockpick]: '开锁',
+    [Skill.Steal]: '盗窃',
+    [Skill.Speech]: '口才',
+    [Skill.Barter]: '交易',
+    [Skill.Survival]: '生存',
+  }
+};
@@ -0,0 +1,107 @@
+import { RetryPolicy } from './types';
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  attempts: 2,
+  backoffMs: 1500,
+  retryOnRateLimit: true,
+  retryOnServerError: true,
+  retryOnParseError: true
+};
+
+export const RETRY_ATTEMPT_LIMIT = 5;
+export const RETRY_BACKOFF_LIMIT_MS = 30000;
+
+export type ModelErrorKind = 'rateLimit' | 'server' | 'parse' | 'other';
+
+// What one attempt looked like, for the Terminal progress list.
+export type ModelAttemptEvent<R> = {
+  route: R;
+  routeIndex: number;
+  attempt: number;
+  outcome: 'running' | 'failed' | 'done';
+  errorKind?: ModelErrorKind;
+  error?: unknown;
+};
+
+const readInt = (value: unknown, fallback: number, min: number, max: number) =>
+  typeof value === 'number' && Number.isFinite(value)
+    ? Math.min(max, Math.max(min, Math.round(value)))
+    : fallback;
+
+export const normalizeRetryPolicy = (raw: unknown): RetryPolicy => {
+  const policy = raw && typeof raw === 'object' ? raw as Partial<RetryPolicy> : {};
+  return {
+    attempts: readInt(policy.attempts, DEFAULT_RETRY_POLICY.attempts, 1, RETRY_ATTEMPT_LIMIT),
+    backoffMs: readInt(policy.backoffMs, DEFAULT_RETRY_POLICY.backoffMs, 0, RETRY_BACKOFF_LIMIT_MS),
+    retryOnRateLimit: typeof policy.retryOnRateLimit === 'boolean' ? policy.retryOnRateLimit : DEFAULT_RETRY_POLICY.retryOnRateLimit,
+    retryOnServerError: typeof policy.retryOnServerError === 'boolean' ? policy.retryOnServerError : DEFAULT_RETRY_POLICY.retryOnServerError,
+    retryOnParseError: typeof policy.retryOnParseError === 'boolean' ? policy.retryOnParseError : DEFAULT_RETRY_POLICY.retryOnParseError
+  };
+};
+
+// Provider adapters report "<label> request failed (HTTP 429): ..."; the Gemini SDK sets `status` and embeds `"code": 429`.
+const readHttpStatus = (err: unknown, message: string) => {
+  const status = err && typeof err === 'object' ? (err as { status?: unknown }).status : undefined;
+  if (typeof status === 'number') return status;
+  const match = message.match(/\(HTTP (\d{3})\)/) || message.match(/"code"\s*:\s*(\d{3})/);
+  return match ? Number(match[1]) : null;
+};
+
+export const classifyModelError = (err: unknown): ModelErrorKind => {
+  if (err instanceof SyntaxError || (err && typeof err === 'object' && 'rawOutput' in err)) {
+    return 'parse';
+  }
+  const message = err instanceof Error ? err.message : String(err);
+  const status = readHttpStatus(err, message);
+  if (status === 429) return 'rateLimit';
+  if (status !== null && status >= 500) return 'server';
+  if (status !== null) return 'other';
+  const normalized = message.toLowerCase();
+  if (normalized.includes('rate limit') || normalized.includes('resource_exhausted')) return 'rateLimit';
+  // fetch rejects with a TypeError when the connection drops; adapters report an empty stream as a lost connection.
+  if (err instanceof TypeError || normalized.includes('unreachable') || normalized.includes('connection to the wasteland lost')) {
+    return 'server';
+  }
+  return 'other';
+};
+
+const isRetryable = (kind: ModelErrorKind, policy: RetryPolicy) =>
+  (kind === 'rateLimit' && policy.retryOnRateLimit)
+  || (kind === 'server' && policy.retryOnServerError)
+  || (kind === 'parse' && policy.retryOnParseError);
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Calls each route in order. A retryable failure is retried on the same route with doubling
+ * backoff until the policy's attempts run out; any other failure moves straight to the next
+ * route. The last error is rethrown once every route has failed.
+ */
+export const runWithFailover = async <R, T>(
+  routes: R[],
+  policy: RetryPolicy,
+  call: (route: R) => Promise<T>,
+  onAttempt?: (event: ModelAttemptEvent<R>) => void
+): Promise<T> => {
+  let lastError: unknown = new Error('No model route configured.');
+  for (let routeIndex = 0; routeIndex < routes.length; routeIndex += 1) {
+    const route = routes[routeIndex];
+    for (let attempt = 1; attempt <= policy.attempts; attempt += 1) {
+      onAttempt?.({ route, routeIndex, attempt, outcome: 'running' });
+      try {
+        const result = await call(route);
+        onAttempt?.({ route, routeIndex, attempt, outcome: 'done' });
+        return result;
+      } catch (err) {
+        lastError = err;
+        const errorKind = classifyModelError(err);
+        onAttempt?.({ route, routeIndex, attempt, outcome: 'failed', errorKind, error: err });
+        if (!isRetryable(errorKind, policy)) break;
+        if (attempt < policy.attempts && policy.backoffMs > 0) {
+          await wait(policy.backoffMs * 2 ** (attempt - 1));
+        }
+      }
+    }
+  }
+  throw lastError;
+};
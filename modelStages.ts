@@ -0,0 +1,111 @@
+import { GameSettings, ModelProvider, ModelStage, StageModelFallback, StageModelRoutes, TextModelId } from './types';
+import { isRegisteredProvider } from './services/providers';
+
+// Pipeline order, which is also the order of the settings panel and the usage breakdown.
+export const MODEL_STAGES: ModelStage[] = ['event', 'narrator', 'status', 'memory', 'inventory'];
+
+const STAGE_LABELS: Record<ModelStage, { en: string; zh: string; hintEn: string; hintZh: string }> = {
+  event: {
+    en: 'Event Manager',
+    zh: '事件管理',
+    hintEn: 'Resolves the action; needs solid rule-following.',
+    hintZh: '结算行动结果，需要较好的规则遵循能力。'
+  },
+  narrator: {
+    en: 'Narrator',
+    zh: '叙事者',
+    hintEn: 'Writes the story text; benefits most from a strong model.',
+    hintZh: '撰写剧情文本，最能体现强模型的差异。'
+  },
+  status: {
+    en: 'Status Manager',
+    zh: '状态管理',
+    hintEn: 'Structured bookkeeping; a fast model is usually enough.',
+    hintZh: '结构化记账，通常快速模型即可。'
+  },
+  memory: {
+    en: 'Memory Compression',
+    zh: '记忆压缩',
+    hintEn: 'Summarizes old turns when the history limit is hit.',
+    hintZh: '历史达到上限时总结旧回合。'
+  },
+  inventory: {
+    en: 'Inventory Audit',
+    zh: '库存审计',
+    hintEn: 'Weight audits and legacy inventory recovery.',
+    hintZh: '物品重量校验与旧存档库存恢复。'
+  }
+};
+
+export const getStageLabel = (stage: ModelStage, isZh: boolean) =>
+  isZh ? STAGE_LABELS[stage].zh : STAGE_LABELS[stage].en;
+
+export const getStageHint = (stage: ModelStage, isZh: boolean) =>
+  isZh ? STAGE_LABELS[stage].hintZh : STAGE_LABELS[stage].hintEn;
+
+export const isModelStage = (value: unknown): value is ModelStage =>
+  typeof value === 'string' && (MODEL_STAGES as string[]).includes(value);
+
+const resolveModel = (settings: GameSettings, provider: ModelProvider, textProvider: ModelProvider, model?: string) =>
+  model?.trim() || (provider === textProvider ? settings.textModel?.trim() : '') || undefined;
+
+/**
+ * The provider and model a stage runs on. Each half of an override is optional, so a stage
+ * can swap only the model on the main provider, or move to another provider entirely.
+ */
+export const getStageRoute = (
+  settings: GameSettings,
+  stage: ModelStage,
+  textProvider: ModelProvider
+): { provider: ModelProvider; model?: TextModelId } => {
+  const route = settings.stageModels?.[stage];
+  const provider = route?.provider || textProvider;
+  return { provider, model: resolveModel(settings, provider, textProvider, route?.model) };
+};
+
+// The primary route followed by the stage's fallbacks, skipping repeats of a provider/model pair.
+export const getStageRouteList = (
+  settings: GameSettings,
+  stage: ModelStage,
+  textProvider: ModelProvider
+): Array<{ provider: ModelProvider; model?: TextModelId }> => {
+  const routes = [getStageRoute(settings, stage, textProvider)];
+  (settings.stageModels?.[stage]?.fallbacks || []).forEach(fallback => {
+    const next = { provider: fallback.provider, model: resolveModel(settings, fallback.provider, textProvider, fallback.model) };
+    if (!routes.some(route => route.provider === next.provider && route.model === next.model)) {
+      routes.push(next);
+    }
+  });
+  return routes;
+};
+
+const readModel = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+
+const readProvider = (value: unknown) => (isRegisteredProvider(value) ? value : undefined);
+
+const readFallbacks = (value: unknown): StageModelFallback[] => {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((raw: unknown) => {
+    if (!raw || typeof raw !== 'object') return [];
+    const fallback = raw as { provider?: unknown; model?: unknown };
+    const provider = readProvider(fallback.provider);
+    return provider ? [{ provider, model: readModel(fallback.model) }] : [];
+  });
+};
+
+// Saves and imports may name providers this build does not register; those routes are dropped.
+export const normalizeStageModels = (raw: unknown): StageModelRoutes | undefined => {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const routes: StageModelRoutes = {};
+  Object.entries(raw as Record<string, unknown>).forEach(([stage, value]) => {
+    if (!isModelStage(stage) || !value || typeof value !== 'object') return;
+    const route = value as { provider?: unknown; model?: unknown; fallbacks?: unknown };
+    const provider = readProvider(route.provider);
+    const model = readModel(route.model);
+    const fallbacks = readFallbacks(route.fallbacks);
+    if (provider || model || fallbacks.length > 0) {
+      routes[stage] = { provider, model, ...(fallbacks.length > 0 ? { fallbacks } : {}) };
+    }
+  });
+  return Object.keys(routes).length > 0 ? routes : undefined;
+};
@@ -0,0 +1,93 @@
+import { Actor, KnownNpcUpdate, StatusTrack } from './types';
+import { isActorDown } from './combat';
+import { isCompanionWaiting } from './companions';
+import { normalizeName } from './utils';
+
+export type NpcStatusFilter = 'all' | 'alive' | 'dead';
+export type NpcRoleFilter = 'all' | 'companion' | 'other';
+
+export interface NpcDossierFilter {
+  query: string;
+  faction: string; // '' for any
+  status: NpcStatusFilter;
+  role: NpcRoleFilter;
+  location: string; // '' for any
+}
+
+export interface NpcDossierDraft {
+  lore: string;
+  appearance: string;
+  alive: boolean;
+}
+
+export const EMPTY_DOSSIER_FILTER: NpcDossierFilter = {
+  query: '',
+  faction: '',
+  status: 'all',
+  role: 'all',
+  location: ''
+};
+
+const uniqueSorted = (values: Array<string | undefined>) =>
+  Array.from(new Set(values.map(value => (value || '').trim()).filter(Boolean))).sort((a, b) => a.localeCompare(b));
+
+/**
+ * Where each NPC was last involved, read back from the status track: the location a turn ended in
+ * is stamped on every NPC that turn added or updated. Companions at the player's side are wherever
+ * the player is, and waiting ones wherever they were left. Keys are lower-cased names.
+ */
+export const getLastSeenLocations = (track: StatusTrack | null | undefined, knownNpcs: Actor[], currentLocation: string) => {
+  const seen = new Map<string, string>();
+  const stamp = (name: unknown, location: string) => {
+    if (typeof name === 'string' && name.trim() && location.trim()) seen.set(normalizeName(name), location.trim());
+  };
+  if (track) {
+    let location = typeof track.initial_status.location === 'string' ? track.initial_status.location : '';
+    (track.initial_status.knownNpcs || []).forEach(npc => stamp(npc?.name, location));
+    [...(track.status_change || [])]
+      .sort((a, b) => a.narration_index - b.narration_index)
+      .forEach(change => {
+        if (typeof change.location === 'string' && change.location.trim()) location = change.location.trim();
+        // Dossier edits are bookkeeping, not sightings.
+        if (change.userAuthored) return;
+        [...(change.newNpc || []), ...(change.knownNpcsUpdates || [])].forEach(entry => stamp(entry?.name, location));
+      });
+  }
+  knownNpcs.forEach(npc => {
+    if (!npc.ifCompanion) return;
+    stamp(npc.name, isCompanionWaiting(npc) ? npc.waitingAt || '' : currentLocation);
+  });
+  return seen;
+};
+
+export const getLastSeen = (lastSeen: Map<string, string>, npc: Actor) => lastSeen.get(normalizeName(npc.name)) || '';
+
+export const getDossierOptions = (knownNpcs: Actor[], lastSeen: Map<string, string>) => ({
+  factions: uniqueSorted(knownNpcs.map(npc => npc.faction)),
+  locations: uniqueSorted(knownNpcs.map(npc => getLastSeen(lastSeen, npc)))
+});
+
+export const filterDossier = (knownNpcs: Actor[], filter: NpcDossierFilter, lastSeen: Map<string, string>) => {
+  const query = normalizeName(filter.query);
+  return knownNpcs
+    .filter(npc => !filter.faction || npc.faction === filter.faction)
+    .filter(npc => filter.status === 'all' || (filter.status === 'dead') === isActorDown(npc))
+    .filter(npc => filter.role === 'all' || (filter.role === 'companion') === !!npc.ifCompanion)
+    .filter(npc => !filter.location || getLastSeen(lastSeen, npc) === filter.location)
+    .filter(npc => !query || [npc.name, npc.faction, npc.lore, npc.appearance]
+      .some(value => typeof value === 'string' && value.toLowerCase().includes(query)))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Only the fields the player actually changed go into the update.
+export const buildDossierEdit = (npc: Actor, draft: NpcDossierDraft): KnownNpcUpdate | null => {
+  const update: KnownNpcUpdate = { name: npc.name };
+  const lore = draft.lore.trim();
+  const appearance = draft.appearance.trim();
+  if (lore !== (npc.lore || '').trim()) update.lore = lore;
+  if (appearance !== (npc.appearance || '').trim()) update.appearance = appearance;
+  if (draft.alive === isActorDown(npc)) {
+    update.health = draft.alive ? Math.max(1, npc.maxHealth || 1) : 0;
+  }
+  return Object.keys(update).length > 1 ? update : null;
+};
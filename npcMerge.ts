@@ -0,0 +1,177 @@
+import { Actor, InventoryItem, NpcMerge, Perk, Quest, SpecialAttr } from './types';
+import { resolveFactionName } from './factions';
+import { normalizeName } from './utils';
+
+// Pairs scoring below this are not offered as duplicates.
+const DUPLICATE_THRESHOLD = 0.7;
+const MAX_CANDIDATES = 20;
+
+// Titles and ranks the narrator adds or drops freely ("Doc Mitchell", "Dr. Mitchell", "米切尔医生").
+const TITLE_WORDS = [
+  'doc', 'dr', 'doctor', 'mr', 'mrs', 'ms', 'miss', 'sir', 'madam', 'the', 'old', 'young',
+  'captain', 'cpt', 'sergeant', 'sgt', 'lieutenant', 'lt', 'general', 'colonel', 'major',
+  'elder', 'paladin', 'knight', 'scribe', 'sheriff', 'boss', 'chief', 'father', 'mother', 'uncle', 'aunt'
+];
+const CJK_TITLES = ['医生', '博士', '先生', '女士', '小姐', '夫人', '队长', '中士', '上尉', '中尉', '将军', '上校', '少校', '长老', '圣骑士', '骑士', '抄写员', '警长', '老大', '首领', '神父', '大叔', '大婶', '老'];
+
+export interface DuplicateCandidate {
+  a: string;
+  b: string;
+  score: number; // 0-1
+  nameScore: number | null; // null when the names are in different scripts
+  factionMatch: boolean;
+  appearanceScore: number;
+}
+
+const CJK_PATTERN = /[㐀-鿿]/;
+
+const isCjk = (value: string) => CJK_PATTERN.test(value);
+
+const coreName = (name: string) => {
+  if (isCjk(name)) {
+    const stripped = CJK_TITLES.reduce((text, title) => text.split(title).join(''), name.replace(/[\s·•.]/g, ''));
+    return stripped || name.trim();
+  }
+  const tokens = name.toLowerCase().replace(/[.,'"()]/g, ' ').split(/\s+/).filter(Boolean);
+  const core = tokens.filter(token => !TITLE_WORDS.includes(token));
+  return (core.length > 0 ? core : tokens).join(' ');
+};
+
+const levenshtein = (a: string, b: string) => {
+  const row = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j += 1) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+};
+
+const similarity = (a: string, b: string) => {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+};
+
+const wordSet = (text: string | undefined) =>
+  new Set((text || '').toLowerCase().split(/[^a-z0-9㐀-鿿]+/).filter(word => word.length > 2 || isCjk(word)));
+
+const jaccard = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(word => {
+    if (b.has(word)) shared += 1;
+  });
+  return shared / (a.size + b.size - shared);
+};
+
+const nameScore = (a: string, b: string) => {
+  const coreA = coreName(a);
+  const coreB = coreName(b);
+  if (coreA === coreB) return 1;
+  // "Mitchell" and "Doc Mitchell Jr" share a surname token; that is nearly as good as a match.
+  const tokensA = coreA.split(' ');
+  const tokensB = coreB.split(' ');
+  const shared = tokensA.filter(token => token.length > 2 && tokensB.includes(token));
+  if (shared.length > 0) return Math.max(0.85, similarity(coreA, coreB));
+  return similarity(coreA, coreB);
+};
+
+// Across scripts the names say nothing, so age, gender and SPECIAL have to carry the match.
+const profileScore = (a: Actor, b: Actor) => {
+  const specials = Object.values(SpecialAttr);
+  const checks = [
+    a.age === b.age,
+    normalizeName(a.gender || '') === normalizeName(b.gender || ''),
+    ...specials.map(attr => a.special?.[attr] === b.special?.[attr])
+  ];
+  return checks.filter(Boolean).length / checks.length;
+};
+
+const sameFaction = (a: Actor, b: Actor) =>
+  !!a.faction && !!b.faction && normalizeName(resolveFactionName(a.faction)) === normalizeName(resolveFactionName(b.faction));
+
+export const scoreDuplicate = (a: Actor, b: Actor): DuplicateCandidate => {
+  const factionMatch = sameFaction(a, b);
+  const appearanceScore = jaccard(wordSet(a.appearance), wordSet(b.appearance));
+  if (isCjk(a.name) !== isCjk(b.name)) {
+    const score = profileScore(a, b) * 0.7 + (factionMatch ? 0.3 : 0);
+    return { a: a.name, b: b.name, score, nameScore: null, factionMatch, appearanceScore };
+  }
+  const names = nameScore(a.name, b.name);
+  const score = names * 0.6 + (factionMatch ? 0.25 : 0) + appearanceScore * 0.15;
+  return { a: a.name, b: b.name, score: names < 0.6 ? Math.min(score, names) : score, nameScore: names, factionMatch, appearanceScore };
+};
+
+export const findDuplicateNpcs = (knownNpcs: Actor[]) => {
+  const candidates: DuplicateCandidate[] = [];
+  for (let i = 0; i < knownNpcs.length; i += 1) {
+    for (let j = i + 1; j < knownNpcs.length; j += 1) {
+      const candidate = scoreDuplicate(knownNpcs[i], knownNpcs[j]);
+      if (candidate.score >= DUPLICATE_THRESHOLD) candidates.push(candidate);
+    }
+  }
+  return candidates.sort((x, y) => y.score - x.score).slice(0, MAX_CANDIDATES);
+};
+
+// Every name an NPC answers to, so a merged record still catches updates sent under the old name.
+export const getNpcNames = (npc: Actor) => [npc.name, ...(npc.aliases || [])];
+
+export const matchesNpcName = (npc: Actor, name: string) =>
+  getNpcNames(npc).some(entry => normalizeName(entry) === normalizeName(name));
+
+const unionBy = <T>(base: T[], extra: T[], key: (entry: T) => string) => {
+  const seen = new Set(base.map(key));
+  return [...base, ...extra.filter(entry => !seen.has(key(entry)))];
+};
+
+/**
+ * Folds one record into another. The kept record wins every field it has; the other one
+ * fills the gaps, adds its lore, perks and items the kept one lacks, and leaves its name as an alias.
+ */
+export const mergeNpcRecords = (keep: Actor, drop: Actor): Actor => {
+  const keepLore = (keep.lore || '').trim();
+  const dropLore = (drop.lore || '').trim();
+  const aliases = unionBy<string>(keep.aliases || [], [drop.name, ...(drop.aliases || [])], normalizeName)
+    .filter(alias => normalizeName(alias) !== normalizeName(keep.name));
+  return {
+    ...drop,
+    ...keep,
+    appearance: keep.appearance || drop.appearance,
+    lore: !dropLore || keepLore.includes(dropLore) ? keepLore : [keepLore, dropLore].filter(Boolean).join('\n\n'),
+    perks: unionBy<Perk>(keep.perks || [], drop.perks || [], perk => normalizeName(perk.name)),
+    inventory: unionBy<InventoryItem>(keep.inventory || [], drop.inventory || [], item => normalizeName(item.name)),
+    ifCompanion: !!keep.ifCompanion || !!drop.ifCompanion,
+    avatarUrl: keep.avatarUrl || drop.avatarUrl,
+    affinity: keep.affinity ?? drop.affinity,
+    affinityLog: [...(drop.affinityLog || []), ...(keep.affinityLog || [])].sort((x, y) => x.time.localeCompare(y.time)),
+    aliases
+  };
+};
+
+const replaceName = (text: string, from: string, to: string) =>
+  (from && text.includes(from) ? text.split(from).join(to) : text);
+
+export const rewriteNpcReferences = (quests: Quest[], from: string, to: string) =>
+  quests.map(quest => ({
+    ...quest,
+    hiddenProgress: replaceName(quest.hiddenProgress || '', from, to),
+    ...(quest.giver && normalizeName(quest.giver) === normalizeName(from) ? { giver: to } : {})
+  }));
+
+// Replayed from the status track as well, so it must not depend on anything but its inputs.
+export const applyNpcMerge = (knownNpcs: Actor[], quests: Quest[], merge: NpcMerge | undefined) => {
+  if (!merge) return { knownNpcs, quests };
+  const keep = knownNpcs.find(npc => npc.name === merge.into);
+  const drop = knownNpcs.find(npc => npc.name === merge.from);
+  if (!keep || !drop || keep === drop) return { knownNpcs, quests };
+  const merged = mergeNpcRecords(keep, drop);
+  return {
+    knownNpcs: knownNpcs.filter(npc => npc !== drop).map(npc => (npc === keep ? merged : npc)),
+    quests: rewriteNpcReferences(quests, drop.name, keep.name)
+  };
+};
@@ -0,0 +1,79 @@
+import { Quest, QuestLogEntry, QuestStep } from './types';
+import { normalizeName } from './utils';
+
+export const normalizeQuestSteps = (raw: unknown): QuestStep[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap(entry => {
+    if (typeof entry === 'string') return entry.trim() ? [{ text: entry.trim(), done: false }] : [];
+    if (!entry || typeof entry !== 'object') return [];
+    const text = typeof entry.text === 'string' ? entry.text.trim() : '';
+    return text ? [{ text, done: entry.done === true }] : [];
+  });
+};
+
+export const normalizeQuestRewards = (raw: unknown): string[] =>
+  (Array.isArray(raw) ? raw : [])
+    .filter((entry): entry is string => typeof entry === 'string' && entry.trim().length > 0)
+    .map(entry => entry.trim());
+
+// Steps are matched by text: known steps keep their place and take the new done flag, new ones are appended.
+export const mergeQuestSteps = (existing: QuestStep[] | undefined, incoming: QuestStep[] | undefined) => {
+  if (!incoming || incoming.length === 0) return existing;
+  const merged = [...(existing || [])];
+  incoming.forEach(step => {
+    const index = merged.findIndex(entry => normalizeName(entry.text) === normalizeName(step.text));
+    if (index > -1) {
+      merged[index] = { ...merged[index], done: step.done };
+    } else {
+      merged.push(step);
+    }
+  });
+  return merged;
+};
+
+/**
+ * Adds a journal line when a quest is new or its objective or status changed, so earlier
+ * objectives (and the branch the quest took) stay readable after the model rewrites them.
+ */
+export const appendQuestLog = (quest: Quest, previous: Quest | null, time: string): Quest => {
+  const log = previous?.log || quest.log || [];
+  const changed = !previous
+    || normalizeName(previous.objective) !== normalizeName(quest.objective)
+    || previous.status !== quest.status;
+  if (!changed || !quest.objective.trim()) return { ...quest, log };
+  const entry: QuestLogEntry = { time, objective: quest.objective, status: quest.status };
+  return { ...quest, log: [...log, entry] };
+};
+
+// The journal history is for the player; models only need the current state of each quest.
+export const stripQuestLog = (quests: Quest[]) =>
+  quests.map(({ log: _log, ...quest }) => quest);
+
+// The narrator only hears what is still open: active quests and their unfinished steps.
+export const getActiveQuestsForNarrator = (quests: Quest[]) =>
+  quests
+    .filter(quest => quest.status === 'active')
+    .map(({ log: _log, rewards: _rewards, steps, ...quest }) => {
+      const open = (steps || []).filter(step => !step.done);
+      return open.length > 0 ? { ...quest, steps: open } : quest;
+    });
+
+// Only an active quest can be tracked; a finished or missing one silently unpins.
+export const getTrackedQuest = (quests: Quest[], trackedQuestId?: string | null) =>
+  (trackedQuestId ? quests.find(quest => quest.id === trackedQuestId && quest.status === 'active') || null : null);
+
+export const buildTrackedQuestBlock = (quest?: Quest | null) => {
+  if (!quest) return '';
+  const [open] = getActiveQuestsForNarrator([quest]);
+  return `TRACKED QUEST (pinned by the player): ${JSON.stringify(open)}\n`;
+};
+
+export const buildTrackedQuestRule = (index: number, quest?: Quest | null) => {
+  if (!quest) return '';
+  return `${index}. The player is tracking "${quest.name}". When it fits the scene, add hooks, leads or encounters that point toward its current objective, but never advance or complete it on the player's behalf.\n`;
+};
+
+export const buildTrackedQuestNarrationRule = (index: number, quest?: Quest | null) => {
+  if (!quest) return '';
+  return `${index}. The player is tracking "${quest.name}". When EVENT_OUTCOME touches it, make that thread easy to notice, without adding outcomes.\n`;
+};
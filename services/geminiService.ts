@@ -1,9 +1,38 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
-import { Actor, NarratorResponse, SpecialAttr, Skill, Language, Quest, GroundingSource, UserTier, PlayerCreationResult, TextModelId, ImageModelId, TokenUsage, StatusUpdate, InventoryItem, HistoryEntry, EventOutcome, EventNarrationResponse } from "../types";
+import { Actor, NarratorResponse, SpecialAttr, Skill, Language, Perk, Quest, GroundingSource, UserTier, PlayerCreationResult, TextModelId, ImageModelId, TokenUsage, StatusUpdate, InventoryItem, HistoryEntry, EventOutcome, EventNarrationResponse, SkillCheckResult, AmmoUsage, FactionReputation } from "../types";
+import { buildSkillCheckBlock, buildSkillCheckRule } from "../skillCheck";
+import { buildEncumbranceBlock, buildEncumbranceRule } from "../carryWeight";
+import { buildSurvivalBlock, buildSurvivalRule } from "../survival";
+import { buildAmmoBlock, buildAmmoRule } from "../combat";
+import { buildFactionBlock, buildFactionRule } from "../factions";
+import { buildStatusEffectRule } from "../statusEffects";
+import { buildTrackedQuestBlock, buildTrackedQuestNarrationRule, buildTrackedQuestRule } from "../quests";
+import { buildAffinityRule } from "../affinity";
+import { buildPerkOfferPrompt, buildPerkOfferSystem, normalizePerkChoices } from "../leveling";
 
 const ISO_DATE_TIME_PATTERN = "^\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}:\\d{2}\\.\\d{3}Z$";
 
+const weaponStatsSchema = {
+  type: Type.OBJECT,
+  properties: {
+    damage: { type: Type.NUMBER },
+    ammoType: { type: Type.STRING },
+    condition: { type: Type.NUMBER, minimum: 0, maximum: 100 }
+  },
+  required: ["damage", "ammoType", "condition"]
+};
+
+const armorStatsSchema = {
+  type: Type.OBJECT,
+  properties: {
+    damageResistance: { type: Type.NUMBER },
+    slot: { type: Type.STRING, enum: ["body", "head"] },
+    condition: { type: Type.NUMBER, minimum: 0, maximum: 100 }
+  },
+  required: ["damageResistance", "slot", "condition"]
+};
+
 const actorSchema = {
   type: Type.OBJECT,
   properties: {
@@ -53,7 +82,9 @@ const actorSchema = {
           weight: { type: Type.NUMBER },
           value: { type: Type.NUMBER },
           count: { type: Type.NUMBER },
-          isConsumable: { type: Type.BOOLEAN }
+          isConsumable: { type: Type.BOOLEAN },
+          weaponStats: weaponStatsSchema,
+          armorStats: armorStatsSchema
         },
         required: ["name", "type", "description", "weight", "value", "count", "isConsumable"]
       }
@@ -87,6 +118,32 @@ const memorySchema = {
   required: ["memory"]
 };
 
+const recapSchema = {
+  type: Type.OBJECT,
+  properties: {
+    recap: { type: Type.STRING }
+  },
+  required: ["recap"]
+};
+
+const perkOfferSchema = {
+  type: Type.OBJECT,
+  properties: {
+    perks: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          description: { type: Type.STRING }
+        },
+        required: ["name", "description"]
+      }
+    }
+  },
+  required: ["perks"]
+};
+
 const arenaSchema = {
   type: Type.OBJECT,
   properties: {
@@ -146,7 +203,20 @@ const questSchema = {
       name: { type: Type.STRING },
       objective: { type: Type.STRING },
       status: { type: Type.STRING, enum: ["active", "completed", "failed"] },
-      hiddenProgress: { type: Type.STRING }
+      hiddenProgress: { type: Type.STRING },
+      steps: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            text: { type: Type.STRING },
+            done: { type: Type.BOOLEAN }
+          },
+          required: ["text", "done"]
+        }
+      },
+      giver: { type: Type.STRING },
+      rewards: { type: Type.ARRAY, items: { type: Type.STRING } }
     },
     required: ["id", "name", "objective", "status", "hiddenProgress"]
   }
@@ -175,6 +245,28 @@ const perkSchema = {
   required: ["name", "description", "rank"]
 };
 
+const statusEffectSchema = {
+  type: Type.OBJECT,
+  properties: {
+    name: { type: Type.STRING },
+    source: { type: Type.STRING },
+    modifiers: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          stat: { type: Type.STRING, enum: [...Object.values(SpecialAttr), ...Object.values(Skill)] },
+          delta: { type: Type.NUMBER }
+        },
+        required: ["stat", "delta"]
+      }
+    },
+    minutesLeft: { type: Type.NUMBER },
+    addictionChance: { type: Type.NUMBER }
+  },
+  required: ["name", "source", "modifiers", "minutesLeft", "addictionChance"]
+};
+
 const deltaSpecialSchema = {
   type: Type.OBJECT,
   properties: {
@@ -231,7 +323,9 @@ const inventoryChangeSchema = {
           weight: { type: Type.NUMBER },
           value: { type: Type.NUMBER },
           count: { type: Type.NUMBER },
-          isConsumable: { type: Type.BOOLEAN }
+          isConsumable: { type: Type.BOOLEAN },
+          weaponStats: weaponStatsSchema,
+          armorStats: armorStatsSchema
         },
         required: ["name", "type", "description", "weight", "value", "count", "isConsumable"]
       }
@@ -274,7 +368,9 @@ const knownNpcUpdateSchema = {
         properties: { name: { type: Type.STRING } },
         required: ["name"]
       }
-    }
+    },
+    affinityDelta: { type: Type.NUMBER },
+    affinityReason: { type: Type.STRING }
   },
   required: ["name"]
 };
@@ -286,6 +382,10 @@ const playerChangeSchema = {
     maxHealth: { type: Type.NUMBER },
     karma: { type: Type.NUMBER },
     caps: { type: Type.NUMBER },
+    rads: { type: Type.NUMBER },
+    thirst: { type: Type.NUMBER },
+    hunger: { type: Type.NUMBER },
+    fatigue: { type: Type.NUMBER },
     special: deltaSpecialSchema,
     skills: deltaSkillsSchema,
     perksAdd: { type: Type.ARRAY, items: perkSchema },
@@ -297,6 +397,15 @@ const playerChangeSchema = {
         required: ["name"]
       }
     },
+    statusEffectsAdd: { type: Type.ARRAY, items: statusEffectSchema },
+    statusEffectsRemove: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { name: { type: Type.STRING } },
+        required: ["name"]
+      }
+    },
     inventoryChange: inventoryChangeSchema
   }
 };
@@ -315,6 +424,21 @@ const statusSchema = {
       type: Type.ARRAY,
       items: knownNpcUpdateSchema
     },
+    hostileNpcs: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING }
+    },
+    factionChanges: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          faction: { type: Type.STRING },
+          delta: { type: Type.NUMBER }
+        },
+        required: ["faction", "delta"]
+      }
+    },
     timePassedMinutes: { type: Type.NUMBER },
     location: { type: Type.STRING },
     currentYear: { type: Type.NUMBER },
@@ -330,6 +454,8 @@ const statusSchema = {
     "companionUpdates",
     "newNpc",
     "knownNpcsUpdates",
+    "hostileNpcs",
+    "factionChanges",
     "timePassedMinutes",
     "location",
     "currentYear",
@@ -355,7 +481,9 @@ const inventoryItemSchema = {
     weight: { type: Type.NUMBER },
     value: { type: Type.NUMBER },
     count: { type: Type.NUMBER },
-    isConsumable: { type: Type.BOOLEAN }
+    isConsumable: { type: Type.BOOLEAN },
+    weaponStats: weaponStatsSchema,
+    armorStats: armorStatsSchema
   },
   required: ["name", "type", "description", "weight", "value", "count", "isConsumable"]
 };
@@ -597,7 +725,7 @@ export async function createPlayerCharacter(
           7. SKILLS: The skills object must include all skills with numeric values (do not omit any skill).
       8. FIELDS TO LOCALIZE: name, faction, appearance, lore, perks[].name, perks[].description, inventory[].name, inventory[].description, companions[].name, companions[].faction, companions[].appearance, companions[].lore, companions[].perks[].name, companions[].perks[].description, companions[].inventory[].name, companions[].inventory[].description.
           ${options?.userSystemPrompt?.trim() ? `9. USER DIRECTIVE: ${options.userSystemPrompt.trim()}` : ''}`;
-  const prompt = `Create a Fallout character for the year ${year} in ${region} based on this input: "${userInput}". Ensure they have appropriate initial perks, inventory, and starting Bottle Caps (50-200 caps). Include a short appearance description for the player and any companions. If the user mentions starting companions, include them.`;
+  const prompt = `Create a Fallout character for the year ${year} in ${region} based on this input: "${userInput}". Ensure they have appropriate initial perks, inventory, and starting Bottle Caps (50-200 caps). Include a short appearance description for the player and any companions. Give weapons weaponStats and armor armorStats. If the user mentions starting companions, include them.`;
 
   emit(`API key: ${source} (${describeApiKey(apiKey)})`);
   emit(`Requesting character profile from ${selectedTextModel}...`);
@@ -634,6 +762,16 @@ export async function createPlayerCharacter(
   }
 }
 
+// Numbers the optional, locally computed rules that follow the fixed task list.
+const buildLocalRules = (start: number, builders: Array<(index: number) => string>) => {
+  let index = start;
+  return builders.map(build => {
+    const rule = build(index);
+    if (rule) index += 1;
+    return rule;
+  }).join("");
+};
+
 export async function getNarrativeResponse(
   player: Actor,
   history: any[],
@@ -643,7 +781,7 @@ export async function getNarrativeResponse(
   quests: Quest[],
   knownNpcs: Actor[],
   lang: Language,
-  options?: { tier?: UserTier; apiKey?: string; textModel?: TextModelId; userSystemPrompt?: string }
+  options?: { tier?: UserTier; apiKey?: string; textModel?: TextModelId; userSystemPrompt?: string; factionReputation?: FactionReputation }
 ): Promise<NarratorResponse> {
   const { key: apiKey } = resolveApiKey(options?.apiKey);
   const ai = new GoogleGenAI({ apiKey: apiKey || '' });
@@ -655,17 +793,24 @@ export async function getNarrativeResponse(
     Environment Year: ${year}
     Environment Location: ${location}
     Current Player Profile: ${JSON.stringify(player)}
-    Existing Quests: ${JSON.stringify(quests)}
+    Active Quests (open steps only): ${JSON.stringify(quests)}
     Known NPCs: ${JSON.stringify(knownNpcs)}
     Interaction Context:
     ${context}
     Player's current intent/action: "${userInput}"
-
+    ${buildEncumbranceBlock(player)}${buildSurvivalBlock(player)}${buildFactionBlock(options?.factionReputation)}
     TASK:
     1. Determine the outcome of the action.
     2. Narrate the outcome as a DM of a Fallout RPG, focusing on vivid descriptions, character dialogues, and environmental details.
     3. Only return ruleViolation when the player explicitly dictates outcomes or facts; otherwise set ruleViolation to "false". Missing tools/items or unmet conditions should be described in the narrative, not flagged as a rule violation.
     4. If the player notes that prior narration missed/forgot plot or lore, comply and correct the continuity in your response.
+    ${buildLocalRules(5, [
+      index => buildEncumbranceRule(index, player),
+      index => buildSurvivalRule(index, player),
+      index => buildStatusEffectRule(index, player),
+      index => buildFactionRule(index, options?.factionReputation),
+      index => buildAffinityRule(index, knownNpcs)
+    ])}
   `;
   const systemInstruction = `You are the Fallout Overseer. 
           1. SOURCE: Strictly source all lore, item stats, and location details from the Fallout Wiki in English.
@@ -726,7 +871,7 @@ export async function getEventOutcome(
   quests: Quest[],
   knownNpcs: Actor[],
   lang: Language,
-  options?: { tier?: UserTier; apiKey?: string; textModel?: TextModelId; userSystemPrompt?: string }
+  options?: { tier?: UserTier; apiKey?: string; textModel?: TextModelId; userSystemPrompt?: string; skillCheck?: SkillCheckResult | null; ammoUsage?: AmmoUsage | null; factionReputation?: FactionReputation; trackedQuest?: Quest | null }
 ): Promise<EventOutcome> {
   const { key: apiKey } = resolveApiKey(options?.apiKey);
   const ai = new GoogleGenAI({ apiKey: apiKey || '' });
@@ -744,7 +889,7 @@ export async function getEventOutcome(
     Interaction Context:
     ${context}
     Player's current intent/action: "${userInput}"
-
+    ${buildSkillCheckBlock(options?.skillCheck)}${buildAmmoBlock(options?.ammoUsage)}${buildEncumbranceBlock(player)}${buildSurvivalBlock(player)}${buildFactionBlock(options?.factionReputation)}${buildTrackedQuestBlock(options?.trackedQuest)}
     TASK:
     1. Determine the outcome of the action.
     2. Summarize the concrete outcome in outcomeSummary (concise, causal, no decorative language).
@@ -754,7 +899,16 @@ export async function getEventOutcome(
     6. If the player's action includes using an item that is not in their inventory, don't return a rule violation. Instead, set the outcome where the player realizes they don't have the item.
     7. Only return ruleViolation when the player explicitly dictates outcomes or facts; otherwise set ruleViolation to "false". If required tools/items are missing, narrate the failure or workaround instead of flagging ruleViolation.
     8. If the player notes that prior narration missed/forgot plot or lore, comply and correct the continuity in your outcomeSummary.
-    Return strict JSON with keys: outcomeSummary, ruleViolation.
+    ${buildLocalRules(9, [
+      index => buildSkillCheckRule(index, options?.skillCheck),
+      index => buildAmmoRule(index, options?.ammoUsage),
+      index => buildEncumbranceRule(index, player),
+      index => buildSurvivalRule(index, player),
+      index => buildStatusEffectRule(index, player),
+      index => buildFactionRule(index, options?.factionReputation),
+      index => buildAffinityRule(index, knownNpcs),
+      index => buildTrackedQuestRule(index, options?.trackedQuest)
+    ])}Return strict JSON with keys: outcomeSummary, ruleViolation.
   `;
   const systemInstruction = `You are the Vault-Tec Event Manager.
           1. SOURCE: Strictly source all lore, item stats, and location details from the Fallout Wiki in English.
@@ -806,7 +960,7 @@ export async function getEventNarration(
   currentTime: string,
   eventOutcome: EventOutcome,
   lang: Language,
-  options?: { tier?: UserTier; apiKey?: string; textModel?: TextModelId; userSystemPrompt?: string }
+  options?: { tier?: UserTier; apiKey?: string; textModel?: TextModelId; userSystemPrompt?: string; trackedQuest?: Quest | null }
 ): Promise<EventNarrationResponse> {
   const { key: apiKey } = resolveApiKey(options?.apiKey);
   const ai = new GoogleGenAI({ apiKey: apiKey || '' });
@@ -819,15 +973,19 @@ export async function getEventNarration(
     Current Time: ${currentTime}
     Current Player Profile: ${JSON.stringify(player)}
     Known NPCs (inventory omitted): ${JSON.stringify(knownNpcs)}
-    Current Quests (completed omitted): ${JSON.stringify(quests)}
-
+    Active Quests (open steps only): ${JSON.stringify(quests)}
+    ${buildTrackedQuestBlock(options?.trackedQuest)}
     EVENT_OUTCOME:
     ${JSON.stringify(eventOutcome)}
 
     TASK:
     1. Narrate the outcome strictly based on EVENT_OUTCOME. Do NOT add new outcomes or state changes.
     2. Focus on vivid descriptions, character dialogues, and environmental details that align with the event.
-    Return JSON with keys: storyText, imagePrompt.
+    3. If EVENT_OUTCOME.ammoUsage.outOfAmmo is true, the player's weapon is empty: narrate it clicking dry or the player switching weapons, never firing it.
+    ${buildLocalRules(4, [
+      index => buildTrackedQuestNarrationRule(index, options?.trackedQuest),
+      index => buildAffinityRule(index, knownNpcs)
+    ])}Return JSON with keys: storyText, imagePrompt.
   `;
   const systemInstruction = `You are the Fallout Overseer.
           1. SOURCE: Strictly source all lore, item stats, and location details from the Fallout Wiki in English.
@@ -977,7 +1135,7 @@ export async function getStatusUpdate(
   currentTime: string,
   narration: string,
   lang: Language,
-  options?: { tier?: UserTier; apiKey?: string; textModel?: TextModelId }
+  options?: { tier?: UserTier; apiKey?: string; textModel?: TextModelId; factionReputation?: FactionReputation }
 ): Promise<StatusUpdate & { tokenUsage?: TokenUsage }> {
   const { key: apiKey } = resolveApiKey(options?.apiKey);
   const ai = new GoogleGenAI({ apiKey: apiKey || '' });
@@ -991,17 +1149,19 @@ export async function getStatusUpdate(
     Current Player Status: ${JSON.stringify(player)}
     Current Quests: ${JSON.stringify(quests)}
     Known NPCs: ${JSON.stringify(knownNpcs)}
+    Current Faction Reputation: ${JSON.stringify(options?.factionReputation || {})}
 
     INPUT TEXT:
     ${narration}
 
     TASK:
     Update status fields based on the input text. Return JSON with keys:
-    playerChange, questUpdates, companionUpdates, newNpc (array), knownNpcsUpdates (array), timePassedMinutes, location, currentYear, currentTime.
+    playerChange, questUpdates, companionUpdates, newNpc (array), knownNpcsUpdates (array), hostileNpcs (array of names), factionChanges (array), timePassedMinutes, location, currentYear, currentTime.
     playerChange should contain only changed fields; for unchanged values use 0/false/empty lists or objects, including inventoryChange with add/remove lists.
     All numeric playerChange fields must be deltas (positive or negative), not final totals. special and skills are per-stat deltas.
     Each newNpc entry MUST include appearance (short physical description).
     Use knownNpcsUpdates to modify existing known NPCs (e.g., mark as dead). Use newNpc only for newly discovered NPCs.
+    hostileNpcs lists the names of NPCs/creatures that are openly attacking the player right now (each must also appear in newNpc or Known NPCs); use [] when no fight is underway.
     You are encouraged to use playerChange.perksAdd/perksRemove to add/remove player perks to reflect a consequence of an event. You are also encouraged to use knownNpcsUpdates.perksAdd/perksRemove to add/remove NPC/companion perks to reflect a consequence of an event. Use knownNpcsUpdates.inventoryChange.add/remove to update NPC/companion inventory (do not output full inventories).
     currentTime MUST be full ISO 8601 UTC, e.g. 2281-07-15T17:05:00.000Z.
     If no changes are needed, use empty string/0/false (or []/{} for lists/objects). timePassedMinutes should be 0 if no time passes.
@@ -1009,17 +1169,21 @@ export async function getStatusUpdate(
   const systemInstruction = `You are the Vault-Tec Status Manager.
           1. PURPOSE: Emit ONLY status changes shown in the status bar (player stats, inventory, caps, quests, known NPCs/companions, location/year/time, timePassedMinutes).
           2. INPUTS: Use the CURRENT STATUS and the INPUT TEXT only (event outcome summary or narration). Do NOT infer changes that are not explicitly stated or clearly implied by the text.
-          3. CONSISTENCY: Keep existing items, caps, perks, SPECIAL, skills, and quests unless the narration clearly changes them. Never invent trades or items.
-          4. INVENTORY CHANGE: Use inventoryChange.add/remove only. add items with full details; remove uses name + count. Do NOT output full inventory lists.
+          3. CONSISTENCY: Keep existing items, caps, perks, SPECIAL, skills, and quests unless the narration clearly changes them. Never invent trades or items. Trades made on the barter screen are already settled locally; do not move items or caps for them again. Items used with "[USE ITEM]" are already consumed and their effects applied; do not remove them or repeat those effects.
+          4. INVENTORY CHANGE: Use inventoryChange.add/remove only. add items with full details; remove uses name + count. Do NOT output full inventory lists. Weapons carry weaponStats (damage, ammoType = ammo item name or empty for melee, condition 0-100); armor carries armorStats (damageResistance, slot body/head, condition 0-100); zero/empty them for other item types.
           5. PLAYER CHANGE: All numeric playerChange fields are DELTAS (positive or negative), not final totals. special and skills are per-stat deltas.
-          6. QUESTS: Return questUpdates entries only when a quest is created, advanced, completed, or failed. Do not delete quests.
+          6. QUESTS: Return questUpdates entries only when a quest is created, advanced, completed, or failed. Do not delete quests. objective is the current objective only; earlier ones are kept in a local journal. steps lists sub-objectives as {text, done}: repeat a step with the same text to check it off. giver is the known NPC who gave the quest, or "" if none; rewards lists promised rewards, or [] if none.
           7. OUTPUT LANGUAGE: All text fields must be in ${targetLang}.
           8. NEW NPCS: For newNpc entries, include a short physical appearance description in the appearance field.
-          9. KNOWN NPC UPDATES: Use knownNpcsUpdates to modify existing known NPCs (e.g., mark as dead). Do not add new NPCs there. Use perksAdd/perksRemove to add/remove NPC/companion perks; avoid replacing the full perks array unless you must fully redefine it. Use inventoryChange.add/remove to update NPC/companion inventory; do NOT output full inventory lists.
+          9. KNOWN NPC UPDATES: Use knownNpcsUpdates to modify existing known NPCs (e.g., mark as dead). Do not add new NPCs there. Use perksAdd/perksRemove to add/remove NPC/companion perks; avoid replacing the full perks array unless you must fully redefine it. Use inventoryChange.add/remove to update NPC/companion inventory; do NOT output full inventory lists. Set affinityDelta (-25 to 25, 0 when unchanged) and a short affinityReason when the player's words or deeds change how that NPC feels about them; never output the affinity score itself.
           10. PERKS: Use playerChange.perksAdd/perksRemove to add/remove player perks.
           11. RETURN FORMAT: Return JSON only with all keys. If nothing changes, use empty string/0/false (or []/{} for lists/objects). timePassedMinutes should be 0 if no time passes.
           12. TIME FORMAT: currentTime MUST be full ISO 8601 UTC, e.g. 2281-07-15T17:05:00.000Z. Do NOT return time-only like "16:17".
-          13. LORE: Respect Fallout lore for year ${year} and location ${location}.`;
+          13. LORE: Respect Fallout lore for year ${year} and location ${location}.
+          14. HOSTILES: hostileNpcs names only NPCs/creatures actively fighting the player at the end of the input text. It starts a turn-based combat mode, so leave it empty for threats, standoffs, or fights that already ended.
+          15. SURVIVAL: playerChange.rads/thirst/hunger/fatigue are deltas for events the text describes: radiation exposure (+rads), RadAway (about -150 rads), drinking (-thirst), eating (-hunger), sleeping or resting (-fatigue). Passive decay over time is applied locally; do not add it. Use 0 when nothing happens.
+          16. FACTIONS: factionChanges lists standing changes with named factions that the text clearly implies (helping, betraying, or attacking a faction or its members) as {faction, delta}, with delta usually between -15 and +15. Reuse names from Current Faction Reputation. Use [] when nothing changes.
+          17. STATUS EFFECTS: Use playerChange.statusEffectsAdd for conditions the text clearly causes (a crippled limb, a chem high, sickness, withdrawal) as {name, source, modifiers: [{stat, delta}], minutesLeft, addictionChance}. stat is a SPECIAL attribute or skill name; minutesLeft is the in-game duration, 0 lasting until removed; addictionChance is 0-1 and only for chems or alcohol, otherwise 0. Adding an active effect's name again refreshes it. Use statusEffectsRemove only when treatment or the story ends an effect; timed effects wear off locally, so never remove them just because time passed.`;
 
   const response = await ai.models.generateContent({
     model: selectedTextModel,
@@ -1070,7 +1234,8 @@ export async function refreshInventory(
           4. CONSUMABLE FLAG: Set isConsumable=true for items that are eaten/used up (Aid/food/chems/drinks, stimpaks, etc.). Set false otherwise.
           5. CONSISTENCY: Do not rename items or change their type/description unless clearly wrong. Keep value unless obviously invalid.
           6. OUTPUT LANGUAGE: All text fields must be in ${targetLang}.
-          7. RETURN FORMAT: Return JSON only with key inventory.`;
+          7. RETURN FORMAT: Return JSON only with key inventory.
+          8. COMBAT STATS: Fill weaponStats for Weapon items and armorStats for Armor items using Fallout Wiki values when missing or zero. Use zeros/empty strings for other item types.`;
 
   const response = await ai.models.generateContent({
     model: selectedTextModel,
@@ -1255,6 +1420,97 @@ Return JSON: {"memory": "..."} only.`;
   return { memory, tokenUsage };
 }
 
+export async function getQuestRecap(
+  quest: Quest,
+  recentHistory: HistoryEntry[],
+  lang: Language,
+  options?: { tier?: UserTier; apiKey?: string; textModel?: TextModelId }
+): Promise<{ recap: string; tokenUsage?: TokenUsage }> {
+  const selectedTextModel = options?.textModel || DEFAULT_TEXT_MODEL;
+  const { key: apiKey } = resolveApiKey(options?.apiKey);
+  const ai = new GoogleGenAI({ apiKey: apiKey || '' });
+  const targetLang = lang === 'zh' ? 'Chinese' : 'English';
+
+  const historyText = removeBase64Images(recentHistory
+    .map(entry => `${entry.sender?.toUpperCase?.() || 'NARRATOR'}: ${entry.text}`)
+    .join('\n'));
+
+  const prompt = `TRACKED QUEST (JSON, including hidden progress and journal):
+${JSON.stringify(quest)}
+
+RECENT HISTORY:
+${historyText || 'None'}
+
+Return JSON: {"recap": "..."} only.`;
+  const systemInstruction = `You are the Pip-Boy Quest Log.
+1. Remind the player where they stand on the tracked quest: what happened so far, what they were doing last, and what the current objective asks of them.
+2. Use the hidden progress and journal for accuracy, but do not reveal twists the player has not discovered yet.
+3. Keep it to one short paragraph and do not advance the story.
+4. Output language must be ${targetLang}.
+5. Return JSON with key "recap" only.`;
+
+  const response = await ai.models.generateContent({
+    model: selectedTextModel,
+    contents: prompt,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: recapSchema,
+      systemInstruction
+    }
+  });
+
+  if (!response.text) throw new Error("No response from quest recap.");
+  const parsed = safeJsonParse(response.text);
+  const recap = typeof parsed?.recap === 'string' ? parsed.recap.trim() : '';
+  const tokenUsage = normalizeTokenUsage({
+    promptTokens: response.usageMetadata?.promptTokenCount,
+    completionTokens: response.usageMetadata?.candidatesTokenCount,
+    totalTokens: response.usageMetadata?.totalTokenCount
+  }, `${systemInstruction}\n${prompt}`, response.text);
+  if (!recap) {
+    throw new Error("Quest recap came back empty.");
+  }
+  return { recap, tokenUsage };
+}
+
+export async function getPerkOffer(
+  player: Actor,
+  level: number,
+  year: number,
+  location: string,
+  lang: Language,
+  options?: { tier?: UserTier; apiKey?: string; textModel?: TextModelId }
+): Promise<{ perks: Perk[]; tokenUsage?: TokenUsage }> {
+  const selectedTextModel = options?.textModel || DEFAULT_TEXT_MODEL;
+  const { key: apiKey } = resolveApiKey(options?.apiKey);
+  const ai = new GoogleGenAI({ apiKey: apiKey || '' });
+  const prompt = buildPerkOfferPrompt(player, level, year, location);
+  const systemInstruction = buildPerkOfferSystem(lang === 'zh' ? 'Chinese' : 'English');
+
+  const response = await ai.models.generateContent({
+    model: selectedTextModel,
+    contents: prompt,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: perkOfferSchema,
+      systemInstruction
+    }
+  });
+
+  if (!response.text) throw new Error("No response from perk offer.");
+  const parsed = safeJsonParse(response.text);
+  const perks = normalizePerkChoices(parsed?.perks, player);
+  const tokenUsage = normalizeTokenUsage({
+    promptTokens: response.usageMetadata?.promptTokenCount,
+    completionTokens: response.usageMetadata?.candidatesTokenCount,
+    totalTokens: response.usageMetadata?.totalTokenCount
+  }, `${systemInstruction}\n${prompt}`, response.text);
+  if (perks.length === 0) {
+    throw new Error("Perk offer came back empty.");
+  }
+  return { perks, tokenUsage };
+}
+
 export async function generateCompanionAvatar(
   npc: Actor,
   options?: { tier?: UserTier; apiKey?: string; imageModel?: ImageModelId; imageUserSystemPrompt?: string }
@@ -1,5 +1,14 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { Actor, NarratorResponse, Language, Quest, GroundingSource, UserTier, PlayerCreationResult, TextModelId, ImageModelId, ModelProvider, SpecialAttr, Skill, TokenUsage, HistoryEntry, StatusUpdate, InventoryItem, EventOutcome, EventNarrationResponse } from "../types";
+import { Type } from "@google/genai";
+import { Actor, NarratorResponse, Language, Perk, Quest, GroundingSource, UserTier, PlayerCreationResult, TextModelId, ImageModelId, ModelProvider, SpecialAttr, Skill, TokenUsage, HistoryEntry, StatusUpdate, InventoryItem, EventOutcome, EventNarrationResponse, SkillCheckResult, AmmoUsage, FactionReputation } from "../types";
+import { buildSkillCheckBlock, buildSkillCheckRule } from "../skillCheck";
+import { buildEncumbranceBlock, buildEncumbranceRule } from "../carryWeight";
+import { buildSurvivalBlock, buildSurvivalRule } from "../survival";
+import { buildAmmoBlock, buildAmmoRule } from "../combat";
+import { buildFactionBlock, buildFactionRule } from "../factions";
+import { buildStatusEffectRule } from "../statusEffects";
+import { buildTrackedQuestBlock, buildTrackedQuestNarrationRule, buildTrackedQuestRule } from "../quests";
+import { buildAffinityRule } from "../affinity";
+import { buildPerkOfferPrompt, buildPerkOfferSystem, normalizePerkChoices } from "../leveling";
 import {
   createPlayerCharacter as createGeminiPlayer,
   getNarrativeResponse as getGeminiNarration,
@@ -7,6 +16,8 @@ import {
   generateSceneImage as generateGeminiScene,
   generateCompanionAvatar as generateGeminiAvatar,
   compressMemory as compressGeminiMemory,
+  getQuestRecap as getGeminiQuestRecap,
+  getPerkOffer as getGeminiPerkOffer,
   getStatusUpdate as getGeminiStatusUpdate,
   getEventOutcome as getGeminiEventOutcome,
   getEventNarration as getGeminiEventNarration,
@@ -14,486 +25,55 @@ import {
   auditInventoryWeights as auditGeminiInventoryWeights,
   recoverInventoryStatus as recoverGeminiInventoryStatus
 } from "./geminiService";
+import {
+  DEFAULT_PROVIDER,
+  ImageRequest,
+  ImageResult,
+  JsonCallRequest,
+  JsonCallResult,
+  JsonSchema,
+  ModelProviderAdapter,
+  ProviderConnection,
+  TaskSchema,
+  WebSearchResult,
+  getProviderAdapter,
+  isRegisteredProvider,
+  normalizeBaseUrl,
+  sanitizeJsonText
+} from "./providers";
+
+export { providerRequiresApiKey, providerSupportsImages } from "./providers";
 
-const OPENAI_BASE_URL = "https://api.openai.com/v1";
-const GROK_BASE_URL = "https://api.x.ai/v1";
-const CLAUDE_BASE_URL = "https://api.anthropic.com/v1";
-const DOUBAO_BASE_URL = "https://ark.cn-beijing.volces.com/api/v3";
-
-const estimateTokens = (text: string) => {
-  if (!text) return 0;
-  const cjkMatches = text.match(/[\u4E00-\u9FFF\u3400-\u4DBF]/g);
-  const cjkCount = cjkMatches ? cjkMatches.length : 0;
-  const nonCjkCount = Math.max(0, text.length - cjkCount);
-  return cjkCount + Math.ceil(nonCjkCount / 4);
-};
-
-const normalizeTokenUsage = (
-  usage: { promptTokens?: number; completionTokens?: number; totalTokens?: number } | undefined,
-  inputText: string,
-  outputText: string
-): TokenUsage => {
-  const promptTokens = usage?.promptTokens ?? 0;
-  const completionTokens = usage?.completionTokens ?? 0;
-  const totalTokens = usage?.totalTokens ?? 0;
-  if (promptTokens > 0 || completionTokens > 0 || totalTokens > 0) {
-    const total = totalTokens || promptTokens + completionTokens;
-    return {
-      sent: Math.max(0, Math.floor(promptTokens)),
-      received: Math.max(0, Math.floor(completionTokens)),
-      total: Math.max(0, Math.floor(total))
-    };
-  }
-  const estimatedPrompt = estimateTokens(inputText);
-  const estimatedCompletion = estimateTokens(outputText);
-  return {
-    sent: estimatedPrompt,
-    received: estimatedCompletion,
-    total: estimatedPrompt + estimatedCompletion
-  };
-};
-
-type JsonCallRuntimeOptions = {
-  onNarrationStream?: (text: string) => void;
-};
-
-type SseEvent = {
-  event: string;
-  data: string;
-};
-
-type StreamedJsonResult = {
-  content: string;
-  tokenUsage: TokenUsage;
-};
-
-const GEMINI_CACHE_TTL_SECONDS = 600;
-const GEMINI_CACHE_TTL = `${GEMINI_CACHE_TTL_SECONDS}s`;
-const GEMINI_CACHE_MIN_TOTAL_TOKENS = 1024;
-
-type GeminiCacheRecord = {
-  name: string;
-  expiresAtMs: number;
-};
-
-const geminiCacheRecords = new Map<string, GeminiCacheRecord>();
-const geminiCacheInflight = new Map<string, Promise<string | null>>();
-const geminiCacheUnsupportedModels = new Set<string>();
-const geminiCacheTooSmallKeys = new Set<string>();
-
-const isGeminiCacheTooSmallError = (message: string) => {
-  const lower = message.toLowerCase();
-  return lower.includes("too small") || lower.includes("min_total_token_count");
-};
-
-const isGeminiCacheUnsupportedError = (message: string) => {
-  const lower = message.toLowerCase();
-  return (
-    lower.includes("unsupported")
-    || lower.includes("not support")
-    || lower.includes("does not support")
-  );
-};
-
-const hashString = (value: string) => {
-  let hash = 2166136261;
-  for (let i = 0; i < value.length; i += 1) {
-    hash ^= value.charCodeAt(i);
-    hash = Math.imul(hash, 16777619);
-  }
-  return (hash >>> 0).toString(16);
-};
-
-const buildOpenAiPromptCacheKey = (
-  model: string,
-  schemaName: string,
-  system: string,
-  providerLabel: string
-) => {
-  const keyBase = `${providerLabel}|${model}|${schemaName}|${system}`;
-  return `fallout-${hashString(keyBase)}`;
-};
-
-const tryParseJson = (value: string): any | null => {
-  try {
-    return JSON.parse(value);
-  } catch {
-    return null;
-  }
-};
-
-const consumeSse = async (
-  stream: ReadableStream<Uint8Array> | null,
-  onEvent: (event: SseEvent) => void
-) => {
-  if (!stream) {
-    return;
-  }
-  const reader = stream.getReader();
-  const decoder = new TextDecoder();
-  let buffer = "";
-
-  const flushChunk = (chunk: string) => {
-    if (!chunk.trim()) return;
-    const lines = chunk.replace(/\r/g, "").split("\n");
-    let eventName = "message";
-    const dataParts: string[] = [];
-    lines.forEach((line) => {
-      if (line.startsWith("event:")) {
-        eventName = line.slice(6).trim();
-      } else if (line.startsWith("data:")) {
-        dataParts.push(line.slice(5).trimStart());
-      }
-    });
-    if (!dataParts.length) return;
-    onEvent({ event: eventName, data: dataParts.join("\n") });
-  };
-
-  while (true) {
-    const { value, done } = await reader.read();
-    if (done) break;
-    buffer += decoder.decode(value, { stream: true });
-    while (true) {
-      const boundary = buffer.indexOf("\n\n");
-      if (boundary === -1) break;
-      const chunk = buffer.slice(0, boundary);
-      buffer = buffer.slice(boundary + 2);
-      flushChunk(chunk);
-    }
-  }
-
-  buffer += decoder.decode();
-  if (buffer.trim()) {
-    flushChunk(buffer);
-  }
-};
-
-const extractStoryTextFromPartialJson = (raw: string): string | null => {
-  const keyIndex = raw.indexOf('"storyText"');
-  if (keyIndex < 0) return null;
-  const colonIndex = raw.indexOf(":", keyIndex);
-  if (colonIndex < 0) return null;
-
-  let i = colonIndex + 1;
-  while (i < raw.length && /\s/.test(raw[i])) {
-    i += 1;
-  }
-  if (i >= raw.length || raw[i] !== '"') {
-    return null;
-  }
-
-  i += 1;
-  let result = "";
-  let escaping = false;
-  while (i < raw.length) {
-    const ch = raw[i];
-    if (escaping) {
-      switch (ch) {
-        case '"':
-          result += '"';
-          break;
-        case "\\":
-          result += "\\";
-          break;
-        case "/":
-          result += "/";
-          break;
-        case "b":
-          result += "\b";
-          break;
-        case "f":
-          result += "\f";
-          break;
-        case "n":
-          result += "\n";
-          break;
-        case "r":
-          result += "\r";
-          break;
-        case "t":
-          result += "\t";
-          break;
-        case "u": {
-          const code = raw.slice(i + 1, i + 5);
-          if (/^[0-9a-fA-F]{4}$/.test(code)) {
-            result += String.fromCharCode(parseInt(code, 16));
-            i += 4;
-          }
-          break;
-        }
-        default:
-          result += ch;
-      }
-      escaping = false;
-      i += 1;
-      continue;
-    }
-    if (ch === "\\") {
-      escaping = true;
-      i += 1;
-      continue;
-    }
-    if (ch === '"') {
-      return result;
-    }
-    result += ch;
-    i += 1;
-  }
-
-  return result;
-};
-
-const createNarrationStreamAccumulator = (onNarrationStream?: (text: string) => void) => {
-  let raw = "";
-  let last = "";
-
-  const emit = (next: string | null | undefined) => {
-    if (typeof next !== "string") return;
-    if (next === last) return;
-    last = next;
-    onNarrationStream?.(next);
-  };
-
-  return {
-    append(delta: string) {
-      if (!onNarrationStream || !delta) return;
-      raw += delta;
-      emit(extractStoryTextFromPartialJson(raw));
-    },
-    finalize(content: string) {
-      if (!onNarrationStream) return;
-      const parsed = tryParseJson(content);
-      const parsedStory = parsed && typeof parsed.storyText === "string" ? parsed.storyText : null;
-      emit(parsedStory ?? extractStoryTextFromPartialJson(content) ?? last);
-    }
-  };
-};
-
-const shouldRetryWithoutPromptCache = (text: string) => {
-  const lower = text.toLowerCase();
-  return lower.includes("prompt_cache") || lower.includes("prompt cache");
-};
-
-const buildRequestFailedMessage = (requestLabel: string, status: number, errorText: string) => (
-  errorText
-    ? `${requestLabel} request failed (HTTP ${status}): ${errorText}`
-    : `${requestLabel} request failed (HTTP ${status}).`
-);
-
-const isStreamUnsupportedError = (status: number, errorText: string) => (
-  status === 400
-  || status === 404
-  || status === 405
-  || errorText.toLowerCase().includes("stream")
-);
-
-const fetchWithPromptCacheRetry = async (
-  send: (allowPromptCache: boolean) => Promise<Response>,
-  enablePromptCache: boolean
-) => {
-  let allowPromptCache = true;
-  let res = await send(allowPromptCache);
-  let errorText = "";
-  if (!res.ok) {
-    errorText = await res.text();
-    if (enablePromptCache && shouldRetryWithoutPromptCache(errorText)) {
-      allowPromptCache = false;
-      res = await send(allowPromptCache);
-      if (!res.ok) {
-        errorText = await res.text();
-      } else {
-        errorText = "";
-      }
-    }
-  }
-  return { res, allowPromptCache, errorText };
-};
-
-const fetchStreamWithPromptCacheRetry = async (
-  send: (allowPromptCache: boolean) => Promise<Response>,
-  enablePromptCache: boolean
-) => {
-  let res = await send(true);
-  let errorText = "";
-  if (!res.ok) {
-    errorText = await res.text();
-    if (enablePromptCache && shouldRetryWithoutPromptCache(errorText)) {
-      res = await send(false);
-      if (!res.ok) {
-        errorText = await res.text();
-      } else {
-        errorText = "";
-      }
-    }
-  }
-  return { res, errorText };
-};
-
-const buildGeminiCacheKey = (
-  apiKey: string,
-  baseUrl: string,
-  model: string,
-  systemInstruction: string
-) => `${apiKey.slice(-12)}|${baseUrl || "default"}|${model}|${hashString(systemInstruction)}`;
-
-const getGeminiCachedContentName = async (
-  ai: GoogleGenAI,
-  apiKey: string,
-  baseUrl: string,
-  model: string,
-  systemInstruction: string
-): Promise<string | null> => {
-  if (geminiCacheUnsupportedModels.has(model)) {
-    return null;
-  }
-
-  const cacheKey = buildGeminiCacheKey(apiKey, baseUrl, model, systemInstruction);
-  if (geminiCacheTooSmallKeys.has(cacheKey)) {
-    return null;
-  }
-  if (estimateTokens(systemInstruction) < GEMINI_CACHE_MIN_TOTAL_TOKENS) {
-    geminiCacheTooSmallKeys.add(cacheKey);
-    return null;
-  }
-  const now = Date.now();
-  const existing = geminiCacheRecords.get(cacheKey);
-  if (existing && existing.expiresAtMs > now) {
-    return existing.name;
-  }
-
-  const inFlight = geminiCacheInflight.get(cacheKey);
-  if (inFlight) {
-    return inFlight;
-  }
-
-  const createPromise = (async () => {
-    try {
-      const created = await ai.caches.create({
-        model,
-        config: {
-          systemInstruction,
-          ttl: GEMINI_CACHE_TTL,
-          displayName: `fallout-${hashString(cacheKey).slice(0, 10)}`
-        }
-      });
-      const name = typeof created?.name === "string" ? created.name : "";
-      if (!name) {
-        return null;
-      }
-      const expiresAtMs = created?.expireTime
-        ? Date.parse(created.expireTime)
-        : now + GEMINI_CACHE_TTL_SECONDS * 1000;
-      geminiCacheRecords.set(cacheKey, {
-        name,
-        expiresAtMs: Number.isFinite(expiresAtMs) ? expiresAtMs : now + GEMINI_CACHE_TTL_SECONDS * 1000
-      });
-      return name;
-    } catch (error) {
-      const message = error instanceof Error ? error.message.toLowerCase() : String(error).toLowerCase();
-      if (isGeminiCacheTooSmallError(message)) {
-        geminiCacheTooSmallKeys.add(cacheKey);
-        return null;
-      }
-      if (isGeminiCacheUnsupportedError(message)) {
-        geminiCacheUnsupportedModels.add(model);
-        return null;
-      }
-      return null;
-    } finally {
-      geminiCacheInflight.delete(cacheKey);
-    }
-  })();
-
-  geminiCacheInflight.set(cacheKey, createPromise);
-  return createPromise;
-};
-
-const callGeminiJsonWithCache = async (
-  ai: GoogleGenAI,
-  params: {
-    apiKey: string;
-    baseUrl: string;
-    model: string;
-    prompt: string;
-    systemInstruction: string;
-    responseSchema: any;
-    onNarrationStream?: (text: string) => void;
-  }
-): Promise<{ text: string; usageMetadata?: any }> => {
-  const { apiKey, baseUrl, model, prompt, systemInstruction, responseSchema, onNarrationStream } = params;
-  const narrationStream = createNarrationStreamAccumulator(onNarrationStream);
-
-  const run = async (allowCachedContent: boolean) => {
-    const config: Record<string, any> = {
-      responseMimeType: "application/json",
-      responseSchema
-    };
-
-    if (allowCachedContent) {
-      const cachedContent = await getGeminiCachedContentName(ai, apiKey, baseUrl, model, systemInstruction);
-      if (cachedContent) {
-        config.cachedContent = cachedContent;
-      } else {
-        config.systemInstruction = systemInstruction;
-      }
-    } else {
-      config.systemInstruction = systemInstruction;
-    }
-
-    if (onNarrationStream) {
-      const stream = await ai.models.generateContentStream({
-        model,
-        contents: prompt,
-        config
-      });
-      let responseText = "";
-      let usageMetadata: any;
-      for await (const chunk of stream) {
-        if (typeof chunk?.text === "string" && chunk.text) {
-          responseText += chunk.text;
-          narrationStream.append(chunk.text);
-        }
-        if (chunk?.usageMetadata) {
-          usageMetadata = chunk.usageMetadata;
-        }
-      }
-      if (!responseText) {
-        throw new Error("Connection to the Wasteland lost.");
-      }
-      narrationStream.finalize(responseText);
-      return { text: responseText, usageMetadata };
-    }
-
-    const response = await ai.models.generateContent({
-      model,
-      contents: prompt,
-      config
-    });
-    if (!response.text) {
-      throw new Error("Connection to the Wasteland lost.");
-    }
-    return { text: response.text, usageMetadata: response.usageMetadata };
-  };
-
-  try {
-    return await run(true);
-  } catch (error) {
-    const message = error instanceof Error ? error.message.toLowerCase() : String(error).toLowerCase();
-    if (!message.includes("cache") && !message.includes("cached")) {
-      throw error;
-    }
-    return run(false);
-  }
-};
 
 const actorSchemaHint = `Return JSON with keys:
 name, age, gender, faction, appearance, special, skills, perks, inventory, lore, health, maxHealth, karma, caps, ifCompanion (optional), avatarUrl (optional).
 Perks must include name, rank, and a non-empty description.
 Inventory items must include count (number) and isConsumable (boolean).
+Weapon items must include weaponStats (damage, ammoType, condition); Armor items must include armorStats (damageResistance, slot, condition). Use zeros/empty strings for other item types.
 Skills must include numeric values for: Small Guns, Big Guns, Energy Weapons, Unarmed, Melee Weapons, Medicine, Repair, Science, Sneak, Lockpick, Steal, Speech, Barter, Survival.`;
 
 const ISO_DATE_TIME_PATTERN = "^\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}:\\d{2}\\.\\d{3}Z$";
 
+const weaponStatsSchema = {
+  type: Type.OBJECT,
+  properties: {
+    damage: { type: Type.NUMBER },
+    ammoType: { type: Type.STRING },
+    condition: { type: Type.NUMBER, minimum: 0, maximum: 100 }
+  },
+  required: ["damage", "ammoType", "condition"]
+};
+
+const armorStatsSchema = {
+  type: Type.OBJECT,
+  properties: {
+    damageResistance: { type: Type.NUMBER },
+    slot: { type: Type.STRING, enum: ["body", "head"] },
+    condition: { type: Type.NUMBER, minimum: 0, maximum: 100 }
+  },
+  required: ["damageResistance", "slot", "condition"]
+};
+
 const actorSchema = {
   type: Type.OBJECT,
   properties: {
@@ -546,7 +126,9 @@ const actorSchema = {
           weight: { type: Type.NUMBER },
           value: { type: Type.NUMBER },
           count: { type: Type.NUMBER },
-          isConsumable: { type: Type.BOOLEAN }
+          isConsumable: { type: Type.BOOLEAN },
+          weaponStats: weaponStatsSchema,
+          armorStats: armorStatsSchema
         },
         required: ["name", "type", "description", "weight", "value", "count", "isConsumable"]
       }
@@ -581,7 +163,20 @@ const questSchema = {
       name: { type: Type.STRING },
       objective: { type: Type.STRING },
       status: { type: Type.STRING, enum: ["active", "completed", "failed"] },
-      hiddenProgress: { type: Type.STRING }
+      hiddenProgress: { type: Type.STRING },
+      steps: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            text: { type: Type.STRING },
+            done: { type: Type.BOOLEAN }
+          },
+          required: ["text", "done"]
+        }
+      },
+      giver: { type: Type.STRING },
+      rewards: { type: Type.ARRAY, items: { type: Type.STRING } }
     },
     required: ["id", "name", "objective", "status", "hiddenProgress"]
   }
@@ -595,6 +190,32 @@ const memorySchema = {
   required: ["memory"]
 };
 
+const recapSchema = {
+  type: Type.OBJECT,
+  properties: {
+    recap: { type: Type.STRING }
+  },
+  required: ["recap"]
+};
+
+const perkOfferSchema = {
+  type: Type.OBJECT,
+  properties: {
+    perks: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          description: { type: Type.STRING }
+        },
+        required: ["name", "description"]
+      }
+    }
+  },
+  required: ["perks"]
+};
+
 const arenaSchema = {
   type: Type.OBJECT,
   properties: {
@@ -631,6 +252,28 @@ const perkSchema = {
   required: ["name", "description", "rank"]
 };
 
+const statusEffectSchema = {
+  type: Type.OBJECT,
+  properties: {
+    name: { type: Type.STRING },
+    source: { type: Type.STRING },
+    modifiers: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          stat: { type: Type.STRING, enum: [...Object.values(SpecialAttr), ...Object.values(Skill)] },
+          delta: { type: Type.NUMBER }
+        },
+        required: ["stat", "delta"]
+      }
+    },
+    minutesLeft: { type: Type.NUMBER },
+    addictionChance: { type: Type.NUMBER }
+  },
+  required: ["name", "source", "modifiers", "minutesLeft", "addictionChance"]
+};
+
 const deltaSpecialSchema = {
   type: Type.OBJECT,
   properties: {
@@ -687,7 +330,9 @@ const inventoryChangeSchema = {
           weight: { type: Type.NUMBER },
           value: { type: Type.NUMBER },
           count: { type: Type.NUMBER },
-          isConsumable: { type: Type.BOOLEAN }
+          isConsumable: { type: Type.BOOLEAN },
+          weaponStats: weaponStatsSchema,
+          armorStats: armorStatsSchema
         },
         required: ["name", "type", "description", "weight", "value", "count", "isConsumable"]
       }
@@ -730,7 +375,9 @@ const knownNpcUpdateSchema = {
         properties: { name: { type: Type.STRING } },
         required: ["name"]
       }
-    }
+    },
+    affinityDelta: { type: Type.NUMBER },
+    affinityReason: { type: Type.STRING }
   },
   required: ["name"]
 };
@@ -742,6 +389,10 @@ const playerChangeSchema = {
     maxHealth: { type: Type.NUMBER },
     karma: { type: Type.NUMBER },
     caps: { type: Type.NUMBER },
+    rads: { type: Type.NUMBER },
+    thirst: { type: Type.NUMBER },
+    hunger: { type: Type.NUMBER },
+    fatigue: { type: Type.NUMBER },
     special: boundedSpecialSchema,
     skills: boundedSkillsSchema,
     perksAdd: { type: Type.ARRAY, items: perkSchema },
@@ -753,6 +404,15 @@ const playerChangeSchema = {
         required: ["name"]
       }
     },
+    statusEffectsAdd: { type: Type.ARRAY, items: statusEffectSchema },
+    statusEffectsRemove: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { name: { type: Type.STRING } },
+        required: ["name"]
+      }
+    },
     inventoryChange: inventoryChangeSchema
   }
 };
@@ -771,6 +431,21 @@ const statusSchema = {
       type: Type.ARRAY,
       items: knownNpcUpdateSchema
     },
+    hostileNpcs: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING }
+    },
+    factionChanges: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          faction: { type: Type.STRING },
+          delta: { type: Type.NUMBER }
+        },
+        required: ["faction", "delta"]
+      }
+    },
     timePassedMinutes: { type: Type.NUMBER },
     location: { type: Type.STRING },
     currentYear: { type: Type.NUMBER },
@@ -786,6 +461,8 @@ const statusSchema = {
     "companionUpdates",
     "newNpc",
     "knownNpcsUpdates",
+    "hostileNpcs",
+    "factionChanges",
     "timePassedMinutes",
     "location",
     "currentYear",
@@ -811,7 +488,9 @@ const inventoryItemSchema = {
     weight: { type: Type.NUMBER },
     value: { type: Type.NUMBER },
     count: { type: Type.NUMBER },
-    isConsumable: { type: Type.BOOLEAN }
+    isConsumable: { type: Type.BOOLEAN },
+    weaponStats: weaponStatsSchema,
+    armorStats: armorStatsSchema
   },
   required: ["name", "type", "description", "weight", "value", "count", "isConsumable"]
 };
@@ -849,8 +528,6 @@ const inventoryRecoverySchema = {
   required: ["initialInventory", "inventoryChanges"]
 };
 
-type JsonSchema = Record<string, any>;
-
 const specialJsonProperties = Object.values(SpecialAttr).reduce((acc: Record<string, any>, attr) => {
   acc[attr] = { type: "number", minimum: 0, maximum: 10 };
   return acc;
@@ -882,6 +559,52 @@ const jsonPerkSchema: JsonSchema = {
   additionalProperties: false
 };
 
+const jsonStatusEffectSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    name: { type: "string" },
+    source: { type: "string" },
+    modifiers: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          stat: { type: "string", enum: [...Object.values(SpecialAttr), ...Object.values(Skill)] },
+          delta: { type: "number" }
+        },
+        required: ["stat", "delta"],
+        additionalProperties: false
+      }
+    },
+    minutesLeft: { type: "number" },
+    addictionChance: { type: "number" }
+  },
+  required: ["name", "source", "modifiers", "minutesLeft", "addictionChance"],
+  additionalProperties: false
+};
+
+const jsonWeaponStatsSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    damage: { type: "number" },
+    ammoType: { type: "string" },
+    condition: { type: "number" }
+  },
+  required: ["damage", "ammoType", "condition"],
+  additionalProperties: false
+};
+
+const jsonArmorStatsSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    damageResistance: { type: "number" },
+    slot: { type: "string", enum: ["body", "head"] },
+    condition: { type: "number" }
+  },
+  required: ["damageResistance", "slot", "condition"],
+  additionalProperties: false
+};
+
 const jsonInventoryItemSchema: JsonSchema = {
   type: "object",
   properties: {
@@ -891,9 +614,11 @@ const jsonInventoryItemSchema: JsonSchema = {
     weight: { type: "number" },
     value: { type: "number" },
     count: { type: "number" },
-    isConsumable: { type: "boolean" }
+    isConsumable: { type: "boolean" },
+    weaponStats: jsonWeaponStatsSchema,
+    armorStats: jsonArmorStatsSchema
   },
-  required: ["name", "type", "description", "weight", "value", "count", "isConsumable"],
+  required: ["name", "type", "description", "weight", "value", "count", "isConsumable", "weaponStats", "armorStats"],
   additionalProperties: false
 };
 
@@ -928,6 +653,10 @@ const jsonPlayerChangeSchema: JsonSchema = {
     maxHealth: { type: "number" },
     karma: { type: "number" },
     caps: { type: "number" },
+    rads: { type: "number" },
+    thirst: { type: "number" },
+    hunger: { type: "number" },
+    fatigue: { type: "number" },
     special: {
       type: "object",
       properties: specialDeltaJsonProperties,
@@ -950,6 +679,16 @@ const jsonPlayerChangeSchema: JsonSchema = {
         additionalProperties: false
       }
     },
+    statusEffectsAdd: { type: "array", items: jsonStatusEffectSchema },
+    statusEffectsRemove: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: { name: { type: "string" } },
+        required: ["name"],
+        additionalProperties: false
+      }
+    },
     inventoryChange: jsonInventoryChangeSchema
   },
   required: [
@@ -957,10 +696,16 @@ const jsonPlayerChangeSchema: JsonSchema = {
     "maxHealth",
     "karma",
     "caps",
+    "rads",
+    "thirst",
+    "hunger",
+    "fatigue",
     "special",
     "skills",
     "perksAdd",
     "perksRemove",
+    "statusEffectsAdd",
+    "statusEffectsRemove",
     "inventoryChange"
   ],
   additionalProperties: false
@@ -973,9 +718,23 @@ const jsonQuestSchema: JsonSchema = {
     name: { type: "string" },
     objective: { type: "string" },
     status: { type: "string", enum: ["active", "completed", "failed"] },
-    hiddenProgress: { type: "string" }
+    hiddenProgress: { type: "string" },
+    steps: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          text: { type: "string" },
+          done: { type: "boolean" }
+        },
+        required: ["text", "done"],
+        additionalProperties: false
+      }
+    },
+    giver: { type: "string" },
+    rewards: { type: "array", items: { type: "string" } }
   },
-  required: ["id", "name", "objective", "status", "hiddenProgress"],
+  required: ["id", "name", "objective", "status", "hiddenProgress", "steps", "giver", "rewards"],
   additionalProperties: false
 };
 
@@ -1079,7 +838,9 @@ const jsonKnownNpcUpdateSchema: JsonSchema = {
         required: ["name"],
         additionalProperties: false
       }
-    }
+    },
+    affinityDelta: { type: "number" },
+    affinityReason: { type: "string" }
   },
   required: [
     "name",
@@ -1096,7 +857,9 @@ const jsonKnownNpcUpdateSchema: JsonSchema = {
     "skills",
     "inventoryChange",
     "perksAdd",
-    "perksRemove"
+    "perksRemove",
+    "affinityDelta",
+    "affinityReason"
   ],
   additionalProperties: false
 };
@@ -1126,14 +889,6 @@ const jsonNarratorSchema: JsonSchema = {
   additionalProperties: false
 };
 
-const jsonNarratorSchemaDoubao: JsonSchema = {
-  ...jsonNarratorSchema,
-  properties: {
-    ...jsonNarratorSchema.properties,
-    ruleViolation: { type: "string" }
-  }
-};
-
 const jsonArenaSchema: JsonSchema = {
   type: "object",
   properties: {
@@ -1165,6 +920,22 @@ const jsonStatusSchema: JsonSchema = {
       type: "array",
       items: jsonKnownNpcUpdateSchema
     },
+    hostileNpcs: {
+      type: "array",
+      items: { type: "string" }
+    },
+    factionChanges: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          faction: { type: "string" },
+          delta: { type: "number" }
+        },
+        required: ["faction", "delta"],
+        additionalProperties: false
+      }
+    },
     timePassedMinutes: { type: "number" },
     location: { type: "string" },
     currentYear: { type: "number" },
@@ -1180,6 +951,8 @@ const jsonStatusSchema: JsonSchema = {
     "companionUpdates",
     "newNpc",
     "knownNpcsUpdates",
+    "hostileNpcs",
+    "factionChanges",
     "timePassedMinutes",
     "location",
     "currentYear",
@@ -1233,22 +1006,6 @@ const jsonEventOutcomeSchema: JsonSchema = {
   additionalProperties: false
 };
 
-const jsonEventSchemaDoubao: JsonSchema = {
-  ...jsonEventSchema,
-  properties: {
-    ...jsonEventSchema.properties,
-    ruleViolation: { type: "string" }
-  }
-};
-
-const jsonEventOutcomeSchemaDoubao: JsonSchema = {
-  ...jsonEventOutcomeSchema,
-  properties: {
-    ...jsonEventOutcomeSchema.properties,
-    ruleViolation: { type: "string" }
-  }
-};
-
 const jsonInventoryRefreshSchema: JsonSchema = {
   type: "object",
   properties: {
@@ -1294,9 +1051,81 @@ const jsonMemorySchema: JsonSchema = {
   additionalProperties: false
 };
 
-const buildInventoryWeightSystem = (targetLang: string) => `You are the Vault-Tec Inventory Auditor.
-1. PURPOSE: Only verify and correct item WEIGHT values.
-2. WEIGHT RULE: If weight is 0 lb, verify via Fallout Wiki and correct it. If the item truly weighs 0 (e.g. bottle caps), keep 0.
+const jsonRecapSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    recap: { type: "string" }
+  },
+  required: ["recap"],
+  additionalProperties: false
+};
+
+const jsonPerkOfferSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    perks: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          description: { type: "string" }
+        },
+        required: ["name", "description"],
+        additionalProperties: false
+      }
+    }
+  },
+  required: ["perks"],
+  additionalProperties: false
+};
+
+const narratorSchema = {
+  type: Type.OBJECT,
+  properties: {
+    storyText: { type: Type.STRING },
+    ruleViolation: { type: Type.STRING },
+    timePassedMinutes: { type: Type.NUMBER },
+    imagePrompt: { type: Type.STRING }
+  },
+  required: ["storyText", "timePassedMinutes", "imagePrompt"]
+};
+
+const eventNarrationSchema = {
+  type: Type.OBJECT,
+  properties: {
+    storyText: { type: Type.STRING },
+    imagePrompt: { type: Type.STRING }
+  },
+  required: ["storyText", "imagePrompt"]
+};
+
+const jsonEventNarrationSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    storyText: { type: "string" },
+    imagePrompt: { type: "string" }
+  },
+  required: ["storyText", "imagePrompt"],
+  additionalProperties: false
+};
+
+const playerCreationTask: TaskSchema = { name: "player_creation", jsonSchema: jsonPlayerCreationSchema, openApiSchema: playerCreationSchema };
+const narratorTask: TaskSchema = { name: "narrator", jsonSchema: jsonNarratorSchema, openApiSchema: narratorSchema };
+const eventOutcomeTask: TaskSchema = { name: "event_outcome", jsonSchema: jsonEventOutcomeSchema, openApiSchema: eventOutcomeSchema };
+const eventNarrationTask: TaskSchema = { name: "event_narration", jsonSchema: jsonEventNarrationSchema, openApiSchema: eventNarrationSchema };
+const arenaTask: TaskSchema = { name: "arena", jsonSchema: jsonArenaSchema, openApiSchema: arenaSchema };
+const statusTask: TaskSchema = { name: "status_update", jsonSchema: jsonStatusSchema, openApiSchema: statusSchema };
+const inventoryRefreshTask: TaskSchema = { name: "inventory_refresh", jsonSchema: jsonInventoryRefreshSchema, openApiSchema: inventoryRefreshSchema };
+const inventoryAuditTask: TaskSchema = { name: "inventory_audit", jsonSchema: jsonInventoryRefreshSchema, openApiSchema: inventoryRefreshSchema };
+const inventoryRecoveryTask: TaskSchema = { name: "inventory_recovery", jsonSchema: jsonInventoryRecoverySchema, openApiSchema: inventoryRecoverySchema };
+const memoryTask: TaskSchema = { name: "memory", jsonSchema: jsonMemorySchema, openApiSchema: memorySchema };
+const questRecapTask: TaskSchema = { name: "quest_recap", jsonSchema: jsonRecapSchema, openApiSchema: recapSchema };
+const perkOfferTask: TaskSchema = { name: "perk_offer", jsonSchema: jsonPerkOfferSchema, openApiSchema: perkOfferSchema };
+
+const buildInventoryWeightSystem = (targetLang: string) => `You are the Vault-Tec Inventory Auditor.
+1. PURPOSE: Only verify and correct item WEIGHT values.
+2. WEIGHT RULE: If weight is 0 lb, verify via Fallout Wiki and correct it. If the item truly weighs 0 (e.g. bottle caps), keep 0.
 3. DO NOT change name, type, description, value, count, or isConsumable.
 4. OUTPUT LANGUAGE: All text fields must be in ${targetLang}.
 5. RETURN FORMAT: Return JSON only with key inventory.`;
@@ -1386,17 +1215,21 @@ ${userSystemPrompt && userSystemPrompt.trim() ? `9. USER DIRECTIVE: ${userSystem
 const buildStatusSystem = (targetLang: string, year: number, location: string) => `You are the Vault-Tec Status Manager.
 1. PURPOSE: Emit ONLY status changes shown in the status bar (player stats, inventory, caps, quests, known NPCs/companions, location/year/time, timePassedMinutes).
 2. INPUTS: Use the CURRENT STATUS and the INPUT TEXT only (event outcome summary or narration). Do NOT infer changes that are not explicitly stated or clearly implied by the text.
-3. CONSISTENCY: Keep existing items, caps, perks, SPECIAL, skills, and quests unless the narration clearly changes them. Never invent trades or items.
-4. INVENTORY CHANGE: Use inventoryChange.add/remove only. add items with full details; remove uses name + count. Do NOT output full inventory lists.
+3. CONSISTENCY: Keep existing items, caps, perks, SPECIAL, skills, and quests unless the narration clearly changes them. Never invent trades or items. Trades made on the barter screen are already settled locally; do not move items or caps for them again. Items used with "[USE ITEM]" are already consumed and their effects applied; do not remove them or repeat those effects.
+4. INVENTORY CHANGE: Use inventoryChange.add/remove only. add items with full details; remove uses name + count. Do NOT output full inventory lists. Weapons carry weaponStats (damage, ammoType = ammo item name or empty for melee, condition 0-100); armor carries armorStats (damageResistance, slot body/head, condition 0-100); zero/empty them for other item types.
 5. PLAYER CHANGE: All numeric playerChange fields are DELTAS (positive or negative), not final totals. special and skills are per-stat deltas.
-6. QUESTS: Return questUpdates entries only when a quest is created, advanced, completed, or failed. Do not delete quests.
+6. QUESTS: Return questUpdates entries only when a quest is created, advanced, completed, or failed. Do not delete quests. objective is the current objective only; earlier ones are kept in a local journal. steps lists sub-objectives as {text, done}: repeat a step with the same text to check it off. giver is the known NPC who gave the quest, or "" if none; rewards lists promised rewards, or [] if none.
 7. OUTPUT LANGUAGE: All text fields must be in ${targetLang}.
 8. NEW NPCS: For newNpc entries, include a short physical appearance description in the appearance field.
-9. KNOWN NPC UPDATES: Use knownNpcsUpdates to modify existing known NPCs (e.g., mark as dead). Do not add new NPCs there. Use perksAdd/perksRemove to add/remove NPC/companion perks; avoid replacing the full perks array unless you must fully redefine it. Use inventoryChange.add/remove to update NPC/companion inventory; do NOT output full inventory lists.
+9. KNOWN NPC UPDATES: Use knownNpcsUpdates to modify existing known NPCs (e.g., mark as dead). Do not add new NPCs there. Use perksAdd/perksRemove to add/remove NPC/companion perks; avoid replacing the full perks array unless you must fully redefine it. Use inventoryChange.add/remove to update NPC/companion inventory; do NOT output full inventory lists. Set affinityDelta (-25 to 25, 0 when unchanged) and a short affinityReason when the player's words or deeds change how that NPC feels about them; never output the affinity score itself.
 10. PERKS: Use playerChange.perksAdd/perksRemove to add/remove player perks.
 11. RETURN FORMAT: Return JSON only with all keys. If nothing changes, use empty string/0/false (or []/{} for lists/objects). timePassedMinutes should be 0 if no time passes.
 12. TIME FORMAT: currentTime MUST be full ISO 8601 UTC, e.g. 2281-07-15T17:05:00.000Z. Do NOT return time-only like "16:17".
-13. LORE: Respect Fallout lore for year ${year} and location ${location}.`;
+13. LORE: Respect Fallout lore for year ${year} and location ${location}.
+14. HOSTILES: hostileNpcs names only NPCs/creatures actively fighting the player at the end of the input text. It starts a turn-based combat mode, so leave it empty for threats, standoffs, or fights that already ended.
+15. SURVIVAL: playerChange.rads/thirst/hunger/fatigue are deltas for events the text describes: radiation exposure (+rads), RadAway (about -150 rads), drinking (-thirst), eating (-hunger), sleeping or resting (-fatigue). Passive decay over time is applied locally; do not add it. Use 0 when nothing happens.
+16. FACTIONS: factionChanges lists standing changes with named factions that the text clearly implies (helping, betraying, or attacking a faction or its members) as {faction, delta}, with delta usually between -15 and +15. Reuse names from Current Faction Reputation. Use [] when nothing changes.
+17. STATUS EFFECTS: Use playerChange.statusEffectsAdd for conditions the text clearly causes (a crippled limb, a chem high, sickness, withdrawal) as {name, source, modifiers: [{stat, delta}], minutesLeft, addictionChance}. stat is a SPECIAL attribute or skill name; minutesLeft is the in-game duration, 0 lasting until removed; addictionChance is 0-1 and only for chems or alcohol, otherwise 0. Adding an active effect's name again refreshes it. Use statusEffectsRemove only when treatment or the story ends an effect; timed effects wear off locally, so never remove them just because time passed.`;
 
 const buildArenaSystem = (targetLang: string, mode: 'scenario' | 'wargame', userSystemPrompt?: string) => `You are the Wasteland Smash Arena simulator.
 1. LORE: Always consult the Fallout Wiki in English when possible. If a party is not in the wiki, infer from established Fallout lore.
@@ -1426,17 +1259,18 @@ const buildNarratorPrompt = (
   year: number,
   location: string,
   quests: Quest[],
-  knownNpcs: Actor[]
+  knownNpcs: Actor[],
+  factionReputation?: FactionReputation
 ) => `
 Environment Year: ${year}
 Environment Location: ${location}
 Current Player Profile: ${JSON.stringify(player)}
-Existing Quests: ${JSON.stringify(quests)}
+Active Quests (open steps only): ${JSON.stringify(quests)}
 Known NPCs: ${JSON.stringify(knownNpcs)}
 Interaction Context:
 ${history.map(h => `${h.sender.toUpperCase()}: ${h.text}`).join("\n")}
 Player's current intent/action: "${userInput}"
-
+${buildEncumbranceBlock(player)}${buildSurvivalBlock(player)}${buildFactionBlock(factionReputation)}
 TASK:
 1. Determine the outcome of the action.
 2. Narrate the outcome as a DM of a Fallout RPG, focusing on vivid descriptions, character dialogues, and environmental details.
@@ -1446,7 +1280,23 @@ TASK:
 6. If the player's action includes using an item that is not in their inventory, don't return a rule violation. Instead, narrate how the player realizes they don't have the item.
 7. Only set ruleViolation when the player explicitly dictates outcomes or facts; missing tools/items or unmet conditions are not violations. If no violation, set ruleViolation to "false".
 8. If the player notes that prior narration missed/forgot plot or lore, comply and correct the continuity in your narration.
-Return strict JSON with keys: storyText, ruleViolation, timePassedMinutes, imagePrompt.`;
+${buildLocalRules(9, [
+  index => buildEncumbranceRule(index, player),
+  index => buildSurvivalRule(index, player),
+  index => buildStatusEffectRule(index, player),
+  index => buildFactionRule(index, factionReputation),
+  index => buildAffinityRule(index, knownNpcs)
+])}Return strict JSON with keys: storyText, ruleViolation, timePassedMinutes, imagePrompt.`;
+
+// Numbers the optional, locally computed rules that follow the fixed task list.
+const buildLocalRules = (start: number, builders: Array<(index: number) => string>) => {
+  let index = start;
+  return builders.map(build => {
+    const rule = build(index);
+    if (rule) index += 1;
+    return rule;
+  }).join("");
+};
 
 const buildEventPrompt = (
   player: Actor,
@@ -1456,7 +1306,11 @@ const buildEventPrompt = (
   location: string,
   currentTime: string,
   quests: Quest[],
-  knownNpcs: Actor[]
+  knownNpcs: Actor[],
+  skillCheck?: SkillCheckResult | null,
+  ammoUsage?: AmmoUsage | null,
+  factionReputation?: FactionReputation,
+  trackedQuest?: Quest | null
 ) => `
 Environment Year: ${year}
 Environment Location: ${location}
@@ -1467,7 +1321,7 @@ Known NPCs: ${JSON.stringify(knownNpcs)}
 Interaction Context:
 ${history.map(h => `${h.sender.toUpperCase()}: ${h.text}`).join("\n")}
 Player's current intent/action: "${userInput}"
-
+${buildSkillCheckBlock(skillCheck)}${buildAmmoBlock(ammoUsage)}${buildEncumbranceBlock(player)}${buildSurvivalBlock(player)}${buildFactionBlock(factionReputation)}${buildTrackedQuestBlock(trackedQuest)}
 TASK:
 1. Determine the outcome of the action.
 2. Summarize the concrete outcome in outcomeSummary (concise, causal, no decorative language).
@@ -1477,7 +1331,16 @@ TASK:
 6. If the player's action includes using an item that is not in their inventory, don't return a rule violation. Instead, set the outcome where the player realizes they don't have the item.
 7. Only set ruleViolation when the player explicitly dictates outcomes or facts; missing tools/items or unmet conditions are not violations. If no violation, set ruleViolation to "false".
 8. If the player notes that prior narration missed/forgot plot or lore, comply and correct the continuity in outcomeSummary.
-Return strict JSON with keys: outcomeSummary, ruleViolation.`;
+${buildLocalRules(9, [
+  index => buildSkillCheckRule(index, skillCheck),
+  index => buildAmmoRule(index, ammoUsage),
+  index => buildEncumbranceRule(index, player),
+  index => buildSurvivalRule(index, player),
+  index => buildStatusEffectRule(index, player),
+  index => buildFactionRule(index, factionReputation),
+  index => buildAffinityRule(index, knownNpcs),
+  index => buildTrackedQuestRule(index, trackedQuest)
+])}Return strict JSON with keys: outcomeSummary, ruleViolation.`;
 
 const buildEventNarratorPrompt = (
   player: Actor,
@@ -1486,22 +1349,27 @@ const buildEventNarratorPrompt = (
   year: number,
   location: string,
   currentTime: string,
-  eventOutcome: EventOutcome
+  eventOutcome: EventOutcome,
+  trackedQuest?: Quest | null
 ) => `
 Environment Year: ${year}
 Environment Location: ${location}
 Current Time: ${currentTime}
 Current Player Profile: ${JSON.stringify(player)}
 Known NPCs (inventory omitted): ${JSON.stringify(knownNpcs)}
-Current Quests (completed omitted): ${JSON.stringify(quests)}
-
+Active Quests (open steps only): ${JSON.stringify(quests)}
+${buildTrackedQuestBlock(trackedQuest)}
 EVENT_OUTCOME:
 ${JSON.stringify(eventOutcome)}
 
 TASK:
 1. Narrate the outcome strictly based on EVENT_OUTCOME. Do NOT add new outcomes or state changes.
 2. Focus on vivid descriptions, character dialogues, and environmental details that align with the event.
-Return JSON with keys: storyText, imagePrompt.`;
+3. If EVENT_OUTCOME.ammoUsage.outOfAmmo is true, the player's weapon is empty: narrate it clicking dry or the player switching weapons, never firing it.
+${buildLocalRules(4, [
+  index => buildTrackedQuestNarrationRule(index, trackedQuest),
+  index => buildAffinityRule(index, knownNpcs)
+])}Return JSON with keys: storyText, imagePrompt.`;
 
 const buildArenaPrompt = (
   focus: string,
@@ -1585,7 +1453,8 @@ const buildStatusPrompt = (
   year: number,
   location: string,
   currentTime: string,
-  narration: string
+  narration: string,
+  factionReputation?: FactionReputation
 ) => `
 Environment Year: ${year}
 Environment Location: ${location}
@@ -1593,17 +1462,19 @@ Current Time: ${currentTime}
 Current Player Status: ${JSON.stringify(player)}
 Current Quests: ${JSON.stringify(quests)}
 Known NPCs: ${JSON.stringify(knownNpcs)}
+Current Faction Reputation: ${JSON.stringify(factionReputation || {})}
 
 INPUT TEXT:
 ${narration}
 
 TASK:
 Update status fields based on the input text. Return JSON with keys:
-playerChange, questUpdates, companionUpdates, newNpc (array), knownNpcsUpdates (array), timePassedMinutes, location, currentYear, currentTime.
+playerChange, questUpdates, companionUpdates, newNpc (array), knownNpcsUpdates (array), hostileNpcs (array of names), factionChanges (array), timePassedMinutes, location, currentYear, currentTime.
 playerChange should contain only changed fields; for unchanged values use 0/false/empty lists or objects, including inventoryChange with add/remove lists.
 All numeric playerChange fields must be deltas (positive or negative), not final totals. special and skills are per-stat deltas.
 Each newNpc entry MUST include appearance (short physical description).
 Use knownNpcsUpdates to modify existing known NPCs (e.g., mark as dead). Use newNpc only for newly discovered NPCs.
+hostileNpcs lists the names of NPCs/creatures that are openly attacking the player right now (each must also appear in newNpc or Known NPCs); use [] when no fight is underway.
 You are encouraged to use playerChange.perksAdd/perksRemove to add/remove player perks to reflect a consequence of an event. You are also encouraged to use knownNpcsUpdates.perksAdd/perksRemove to add/remove NPC/companion perks to reflect a consequence of an event. Use knownNpcsUpdates.inventoryChange.add/remove to update NPC/companion inventory (do not output full inventories).
 currentTime MUST be full ISO 8601 UTC, e.g. 2281-07-15T17:05:00.000Z.
 If no changes are needed, use empty string/0/false (or []/{} for lists/objects).`;
@@ -1615,7 +1486,8 @@ const buildInventoryRefreshSystem = (targetLang: string) => `You are the Vault-T
 4. CONSUMABLE FLAG: Set isConsumable=true for items that are eaten/used up (Aid/food/chems/drinks, stimpaks, etc.). Set false otherwise.
 5. CONSISTENCY: Do not rename items or change their type/description unless clearly wrong. Keep value unless obviously invalid.
 6. OUTPUT LANGUAGE: All text fields must be in ${targetLang}.
-7. RETURN FORMAT: Return JSON only with key inventory.`;
+7. RETURN FORMAT: Return JSON only with key inventory.
+8. COMBAT STATS: Fill weaponStats for Weapon items and armorStats for Armor items using Fallout Wiki values when missing or zero. Use zeros/empty strings for other item types.`;
 
 const buildInventoryRefreshPrompt = (inventory: InventoryItem[]) => `
 Current Inventory (JSON):
@@ -1625,11 +1497,7 @@ TASK:
 Return JSON with key inventory containing the rectified items.`;
 
 const normalizeProvider = (provider?: ModelProvider): ModelProvider =>
-  provider && ["openai", "grok", "gemini", "claude", "doubao"].includes(provider) ? provider : "gemini";
-
-const isOpenAiCompatible = (provider: ModelProvider) => provider === "openai" || provider === "grok";
-
-const getOpenAiLabel = (provider: ModelProvider) => (provider === "grok" ? "Grok" : "OpenAI");
+  isRegisteredProvider(provider) ? provider : DEFAULT_PROVIDER;
 
 const requireApiKey = (apiKey: string | undefined, provider: ModelProvider) => {
   if (!apiKey) {
@@ -1638,199 +1506,8 @@ const requireApiKey = (apiKey: string | undefined, provider: ModelProvider) => {
   return apiKey;
 };
 
-const normalizeBaseUrl = (value?: string) => {
-  const trimmed = value?.trim() || "";
-  if (!trimmed) return "";
-  return trimmed.replace(/\/+$/, "");
-};
-
-const extractGrokCitations = (payload: any): GroundingSource[] => {
-  const candidates = [
-    payload?.citations,
-    payload?.choices?.[0]?.citations,
-    payload?.choices?.[0]?.message?.citations,
-    payload?.choices?.[0]?.message?.context?.citations
-  ];
-  const citationList = candidates.find((entry) => Array.isArray(entry)) as any[] | undefined;
-  if (!citationList) return [];
-  return citationList
-    .map((item) => {
-      if (!item) return null;
-      if (typeof item === "string") {
-        return { title: item, uri: item };
-      }
-      const uri = item.url || item.uri || "";
-      if (!uri) return null;
-      const title = item.title || item.name || item.text || uri;
-      return { title, uri };
-    })
-    .filter((entry): entry is GroundingSource => !!entry);
-};
-
-const callGrokWebSearch = async (
-  apiKey: string,
-  baseUrl: string,
-  model: string,
-  prompt: string,
-  maxLength = 800
-): Promise<{ text: string; sources: GroundingSource[] }> => {
-  const res = await fetch(`${baseUrl}/responses`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`
-    },
-    body: JSON.stringify({
-      model,
-      input: [
-        { role: "user", content: prompt }
-      ],
-      tools: [{ type: "web_search" }]
-    })
-  });
-  if (!res.ok) {
-    throw new Error(await formatHttpError(res, "Grok request failed"));
-  }
-  const data = await res.json();
-  let content = "";
-  if (typeof data?.output_text === "string") {
-    content = data.output_text;
-  } else if (Array.isArray(data?.output)) {
-    data.output.forEach((entry: any) => {
-      const parts = Array.isArray(entry?.content) ? entry.content : [];
-      parts.forEach((part: any) => {
-        if (typeof part?.text === "string") {
-          content += part.text;
-        }
-      });
-    });
-  }
-  const sources = extractGrokCitations(data);
-  const trimmed = clampImagePrompt(content, maxLength);
-  return { text: trimmed, sources };
-};
-
-const callOpenAiWebSearch = async (
-  apiKey: string,
-  baseUrl: string,
-  model: string,
-  prompt: string,
-  maxLength = 800
-): Promise<{ text: string }> => {
-  const res = await fetch(`${baseUrl}/responses`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`
-    },
-    body: JSON.stringify({
-      model,
-      input: [
-        { role: "user", content: prompt }
-      ],
-      tools: [{ type: "web_search" }]
-    })
-  });
-  if (!res.ok) {
-    throw new Error(await formatHttpError(res, "OpenAI request failed"));
-  }
-  const data = await res.json();
-  let content = "";
-  if (typeof data?.output_text === "string") {
-    content = data.output_text;
-  } else if (Array.isArray(data?.output)) {
-    data.output.forEach((entry: any) => {
-      const parts = Array.isArray(entry?.content) ? entry.content : [];
-      parts.forEach((part: any) => {
-        if (typeof part?.text === "string") {
-          content += part.text;
-        }
-      });
-    });
-  }
-  const trimmed = clampImagePrompt(content, maxLength);
-  return { text: trimmed };
-};
-
-const resolveBaseUrl = (provider: ModelProvider, baseUrl?: string) => {
-  const normalized = normalizeBaseUrl(baseUrl);
-  if (normalized) return normalized;
-  switch (provider) {
-    case "openai":
-      return OPENAI_BASE_URL;
-    case "grok":
-      return GROK_BASE_URL;
-    case "claude":
-      return CLAUDE_BASE_URL;
-    case "doubao":
-      return DOUBAO_BASE_URL;
-    case "gemini":
-    default:
-      return "";
-  }
-};
-
-const formatHttpError = async (res: Response, fallback: string) => {
-  const text = await res.text();
-  if (text) {
-    return `${fallback} (HTTP ${res.status}): ${text}`;
-  }
-  return `${fallback} (HTTP ${res.status}).`;
-};
-
-const sanitizeJsonText = (text: string) => {
-  let cleaned = text.trim();
-  cleaned = cleaned.replace(/```(?:json)?/gi, "").replace(/```/g, "");
-  cleaned = cleaned.replace(/[“”]/g, '"').replace(/[‘’]/g, "'");
-  cleaned = cleaned.replace(/[\u0000-\u001F]+/g, " ");
-  const start = cleaned.indexOf("{");
-  const end = cleaned.lastIndexOf("}");
-  if (start >= 0 && end > start) {
-    cleaned = cleaned.slice(start, end + 1);
-  }
-  cleaned = cleaned.replace(/,\s*([}\]])/g, "$1");
-  cleaned = cleaned.replace(/\\(?!["\\/bfnrtu])/g, "\\\\");
-  let fixed = "";
-  let inString = false;
-  let escaped = false;
-  for (let i = 0; i < cleaned.length; i += 1) {
-    const char = cleaned[i];
-    if (!inString) {
-      if (char === '"') {
-        inString = true;
-      }
-      fixed += char;
-      continue;
-    }
-    if (escaped) {
-      escaped = false;
-      fixed += char;
-      continue;
-    }
-    if (char === "\\") {
-      escaped = true;
-      fixed += char;
-      continue;
-    }
-    if (char === '"') {
-      const remainder = cleaned.slice(i + 1);
-      const nextNonSpace = remainder.match(/\S/);
-      const nextChar = nextNonSpace ? nextNonSpace[0] : "";
-      if (nextChar && ![":", ",", "}", "]"].includes(nextChar)) {
-        fixed += '\\"';
-        continue;
-      }
-      inString = false;
-      fixed += char;
-      continue;
-    }
-    fixed += char;
-  }
-  cleaned = fixed;
-  return cleaned;
-};
-
-function safeJsonParse(text: string): any {
+// A reply that fails to parse was still billed; its usage rides on the error for the ledger.
+function safeJsonParse(text: string, tokenUsage?: TokenUsage): any {
   const trimmed = text.trim();
   try {
     return JSON.parse(trimmed);
@@ -1849,6 +1526,9 @@ function safeJsonParse(text: string): any {
     } catch (finalError) {
       const error = finalError instanceof Error ? finalError : new Error(String(finalError));
       (error as { rawOutput?: string }).rawOutput = text;
+      if (tokenUsage) {
+        (error as { tokenUsage?: TokenUsage }).tokenUsage = tokenUsage;
+      }
       throw error;
     }
   }
@@ -1931,19 +1611,6 @@ const buildImagePrompt = (prompt: string, highQuality: boolean) => {
   return `Cinematic Fallout concept art. ${prompt}. Atmosphere: desolate, atmospheric, detailed. Style: digital art, 4k, hyper-realistic wasteland aesthetic.`;
 };
 
-const clampImagePrompt = (prompt: string, maxLength: number) => {
-  const cleaned = prompt
-    .replace(/\[[^\]]*\]\([^)]+\)/g, " ")
-    .replace(/https?:\/\/\S+/gi, " ")
-    .replace(/\[[0-9]+\]/g, " ")
-    .replace(/\s+/g, " ")
-    .trim();
-  if (cleaned.length <= maxLength) {
-    return cleaned;
-  }
-  return cleaned.slice(0, maxLength).trim();
-};
-
 const buildUserGuidanceLine = (userSystemPrompt?: string) => {
   const guidance = userSystemPrompt?.trim();
   return guidance ? `User guidance: ${guidance}` : "";
@@ -2004,896 +1671,194 @@ async function resizeImageToSquare(base64: string, size: number): Promise<string
   });
 }
 
-const callOpenAiJson = async (
-  apiKey: string,
-  baseUrl: string,
-  model: string,
-  system: string,
-  prompt: string,
-  schema?: JsonSchema,
-  schemaName = "response",
-  providerLabel = "OpenAI",
-  runtimeOptions?: JsonCallRuntimeOptions
-) => {
-  const requestLabel = providerLabel || "OpenAI";
-  const enablePromptCache = requestLabel === "OpenAI";
-  const narrationStream = createNarrationStreamAccumulator(runtimeOptions?.onNarrationStream);
-  const responseFormatChat = schema
-    ? { type: "json_schema", json_schema: { name: schemaName, schema, strict: true } }
-    : { type: "json_object" };
-  const responseFormatResponses = schema
-    ? { type: "json_schema", name: schemaName, schema, strict: true }
-    : { type: "json_object" };
-  const baseHeaders = {
-    "Content-Type": "application/json",
-    Authorization: `Bearer ${apiKey}`
-  };
-  const isResponsesOnlyModel = /^gpt-5/i.test(model);
-  const includeReasoning = requestLabel !== "Grok";
-  const buildResponsesBody = (formatOverride?: any, stream = false, allowPromptCache = true) => {
-    const body: Record<string, any> = {
-      model,
-      instructions: system,
-      input: [
-        { role: "user", content: prompt }
-      ],
-      text: { format: formatOverride ?? responseFormatResponses }
-    };
-    if (stream) {
-      body.stream = true;
-    }
-    if (includeReasoning) {
-      body.reasoning = { effort: "low" };
-    }
-    if (enablePromptCache && allowPromptCache) {
-      body.prompt_cache_retention = "in_memory";
-      body.prompt_cache_key = buildOpenAiPromptCacheKey(model, schemaName, system, requestLabel);
-    }
-    return body;
-  };
-  const extractResponsesContent = (data: any) => {
-    if (typeof data?.output_text === "string" && data.output_text.trim()) {
-      return data.output_text;
-    }
-    let text = "";
-    let jsonPayload: any = null;
-    const outputs = Array.isArray(data?.output) ? data.output : [];
-    outputs.forEach((entry: any) => {
-      const parts = Array.isArray(entry?.content) ? entry.content : [];
-      parts.forEach((part: any) => {
-        if (!part || typeof part !== "object") return;
-        if (part.type === "output_json" && part.json != null) {
-          jsonPayload = part.json;
-        }
-        if (typeof part.text === "string") {
-          text += part.text;
-        }
-      });
-    });
-    if (jsonPayload != null) {
-      return JSON.stringify(jsonPayload);
-    }
-    return text;
-  };
-
-  const parseResponsesStream = async (res: Response): Promise<StreamedJsonResult> => {
-    let content = "";
-    let usage: any;
-    let completedResponsePayload: any = null;
-
-    await consumeSse(res.body, ({ event, data }) => {
-      if (!data || data === "[DONE]") {
-        return;
-      }
-      const payload = tryParseJson(data);
-      if (!payload || typeof payload !== "object") {
-        return;
-      }
-      const eventType = typeof payload.type === "string" ? payload.type : event;
-
-      if (eventType === "response.output_text.delta" && typeof payload.delta === "string") {
-        content += payload.delta;
-        narrationStream.append(payload.delta);
-        return;
-      }
-      if (eventType === "response.output_text.done" && typeof payload.text === "string" && !content.trim()) {
-        content += payload.text;
-        narrationStream.append(payload.text);
-        return;
-      }
-      if (eventType === "response.completed") {
-        const responsePayload = payload.response ?? payload;
-        completedResponsePayload = responsePayload;
-        usage = responsePayload?.usage ?? usage;
-        return;
-      }
-      if (!usage && payload.usage) {
-        usage = payload.usage;
-      }
-    });
-
-    if ((!content || !content.trim()) && completedResponsePayload) {
-      content = extractResponsesContent(completedResponsePayload);
-    }
-    if (!content.trim()) {
-      const error = new Error(`${requestLabel} response contained no output.`);
-      (error as { rawOutput?: string }).rawOutput = JSON.stringify(completedResponsePayload ?? {});
-      throw error;
-    }
-
-    narrationStream.finalize(content);
-    const tokenUsage = normalizeTokenUsage({
-      promptTokens: usage?.input_tokens,
-      completionTokens: usage?.output_tokens,
-      totalTokens: usage?.total_tokens
-    }, `${system}\n${prompt}`, content);
-    return { content, tokenUsage };
-  };
-
-  const parseChatCompletionsStream = async (res: Response): Promise<StreamedJsonResult> => {
-    let content = "";
-    let usage: any;
+type ConnectionOptions = {
+  apiKey?: string;
+  proxyApiKey?: string;
+  proxyBaseUrl?: string;
+  useProxy?: boolean;
+  localBaseUrl?: string; // endpoint of a self-hosted provider
+  provider?: ModelProvider;
+};
 
-    await consumeSse(res.body, ({ data }) => {
-      if (!data || data === "[DONE]") {
-        return;
-      }
-      const payload = tryParseJson(data);
-      if (!payload || typeof payload !== "object") {
-        return;
-      }
-      const delta = payload?.choices?.[0]?.delta?.content;
-      if (typeof delta === "string") {
-        content += delta;
-        narrationStream.append(delta);
-      }
-      if (payload.usage) {
-        usage = payload.usage;
-      }
-    });
+type ResearchOptions = ConnectionOptions & {
+  textProvider?: ModelProvider;
+  textApiKey?: string;
+  textProxyApiKey?: string;
+  textProxyBaseUrl?: string;
+  textModel?: TextModelId;
+};
 
-    if (!content.trim()) {
-      throw new Error(`${requestLabel} response contained no output.`);
-    }
+// Guests play on the bundled Gemini service, which keeps its own task implementations.
+const isGuestGemini = (options?: { tier?: UserTier; provider?: ModelProvider }) =>
+  options?.tier === "guest" && normalizeProvider(options?.provider) === "gemini";
 
-    narrationStream.finalize(content);
-    const tokenUsage = normalizeTokenUsage({
-      promptTokens: usage?.prompt_tokens,
-      completionTokens: usage?.completion_tokens,
-      totalTokens: usage?.total_tokens
-    }, `${system}\n${prompt}`, content);
-    return { content, tokenUsage };
-  };
+// A self-hosted server is reached directly at its configured address, even with the proxy on.
+const getDirectBaseUrl = (adapter: ModelProviderAdapter, options: ConnectionOptions | undefined) =>
+  (adapter.selfHosted && normalizeBaseUrl(options?.localBaseUrl)) || adapter.defaultBaseUrl;
 
-  if (runtimeOptions?.onNarrationStream) {
-    const { res: streamRes, errorText: streamErrorText } = await fetchStreamWithPromptCacheRetry(
-      (allowPromptCache) => fetch(`${baseUrl}/responses`, {
-        method: "POST",
-        headers: baseHeaders,
-        body: JSON.stringify(buildResponsesBody(undefined, true, allowPromptCache))
-      }),
-      enablePromptCache
-    );
-    if (streamRes.ok) {
-      return parseResponsesStream(streamRes);
-    }
-    if (enablePromptCache && !isStreamUnsupportedError(streamRes.status, streamErrorText)) {
-      throw new Error(buildRequestFailedMessage(requestLabel, streamRes.status, streamErrorText));
-    }
+const resolveEndpoint = (options: ConnectionOptions | undefined) => {
+  const adapter = getProviderAdapter(normalizeProvider(options?.provider));
+  const useProxy = !!options?.useProxy && !adapter.selfHosted;
+  const baseUrl = useProxy ? normalizeBaseUrl(options?.proxyBaseUrl) : getDirectBaseUrl(adapter, options);
+  if (useProxy && !baseUrl) {
+    throw new Error("Missing proxy base URL.");
   }
+  const key = useProxy ? options?.proxyApiKey : options?.apiKey;
+  const apiKey = adapter.requiresApiKey === false ? key || "" : requireApiKey(key, adapter.id);
+  return { adapter, apiKey, baseUrl };
+};
 
-  const initialResponsesResult = await fetchWithPromptCacheRetry(
-    (allowCache) => fetch(`${baseUrl}/responses`, {
-      method: "POST",
-      headers: baseHeaders,
-      body: JSON.stringify(buildResponsesBody(undefined, false, allowCache))
-    }),
-    enablePromptCache
-  );
-  let res = initialResponsesResult.res;
-  const allowPromptCache = initialResponsesResult.allowPromptCache;
-  const errorText = initialResponsesResult.errorText;
-  if (res.ok) {
-    const data = await res.json();
-    const content = extractResponsesContent(data);
-    if (data?.status === "incomplete" && data?.incomplete_details?.reason) {
-      const error = new Error(`${requestLabel} response incomplete: ${data.incomplete_details.reason}`);
-      (error as { rawOutput?: string }).rawOutput = JSON.stringify(data);
-      throw error;
-    }
-    if (!content.trim()) {
-      const error = new Error(`${requestLabel} response contained no output.`);
-      (error as { rawOutput?: string }).rawOutput = JSON.stringify(data);
-      throw error;
-    }
-    const usage = data?.usage;
-    const tokenUsage = normalizeTokenUsage({
-      promptTokens: usage?.input_tokens,
-      completionTokens: usage?.output_tokens,
-      totalTokens: usage?.total_tokens
-    }, `${system}\n${prompt}`, content);
-    narrationStream.finalize(content);
-    return { content, tokenUsage };
+const resolveConnection = (
+  options: ConnectionOptions | undefined,
+  model: string | undefined,
+  modelKind: "text" | "image"
+): { adapter: ModelProviderAdapter; connection: ProviderConnection } => {
+  const { adapter, apiKey, baseUrl } = resolveEndpoint(options);
+  if (!model) {
+    throw new Error(`Missing ${modelKind} model name.`);
   }
+  return { adapter, connection: { apiKey, baseUrl, model } };
+};
 
-  const formatRejected = schema && (errorText.includes("json_schema") || errorText.includes("text.format"));
-  if (formatRejected) {
-    const retryBody = buildResponsesBody({ type: "json_object" }, false, allowPromptCache);
-    res = await fetch(`${baseUrl}/responses`, {
-      method: "POST",
-      headers: baseHeaders,
-      body: JSON.stringify(retryBody)
-    });
-    if (res.ok) {
-      const data = await res.json();
-      const content = extractResponsesContent(data);
-      if (!content.trim()) {
-        const error = new Error(`${requestLabel} response contained no output.`);
-        (error as { rawOutput?: string }).rawOutput = JSON.stringify(data);
-        throw error;
-      }
-      const usage = data?.usage;
-      const tokenUsage = normalizeTokenUsage({
-        promptTokens: usage?.input_tokens,
-        completionTokens: usage?.output_tokens,
-        totalTokens: usage?.total_tokens
-      }, `${system}\n${prompt}`, content);
-      narrationStream.finalize(content);
-      return { content, tokenUsage };
-    }
-  }
+const callJsonTask = (
+  options: (ConnectionOptions & { textModel?: TextModelId }) | undefined,
+  request: JsonCallRequest,
+  onNarrationStream?: (text: string) => void
+): Promise<JsonCallResult> => {
+  const { adapter, connection } = resolveConnection(options, options?.textModel, "text");
+  return onNarrationStream && adapter.streamJson
+    ? adapter.streamJson(connection, request, onNarrationStream)
+    : adapter.callJson(connection, request);
+};
 
-  const shouldFallback = !isResponsesOnlyModel && (
-    res.status === 404
-    || res.status === 405
-    || (requestLabel === "Grok" && res.status === 400)
-  );
-  if (!shouldFallback) {
-    throw new Error(buildRequestFailedMessage(requestLabel, res.status, errorText));
+const generateImageTask = async (
+  options: (ConnectionOptions & { imageModel?: ImageModelId }) | undefined,
+  prompt: string,
+  aspectRatio: ImageRequest["aspectRatio"]
+): Promise<ImageResult> => {
+  const { adapter, connection } = resolveConnection(options, options?.imageModel, "image");
+  if (!adapter.generateImage) {
+    throw new Error(`${adapter.label} image generation is not supported.`);
   }
+  return adapter.generateImage(connection, { prompt, aspectRatio });
+};
 
-  const baseBody = {
-    model,
-    messages: [
-      { role: "system", content: system },
-      { role: "user", content: prompt }
-    ]
-  };
-
-  if (runtimeOptions?.onNarrationStream) {
-    let chatStreamRes = await fetch(`${baseUrl}/chat/completions`, {
-      method: "POST",
-      headers: baseHeaders,
-      body: JSON.stringify({
-        ...baseBody,
-        response_format: responseFormatChat,
-        stream: true,
-        stream_options: { include_usage: true }
-      })
-    });
-    if (!chatStreamRes.ok) {
-      const chatStreamError = await chatStreamRes.text();
-      if (!isStreamUnsupportedError(chatStreamRes.status, chatStreamError)) {
-        throw new Error(buildRequestFailedMessage(requestLabel, chatStreamRes.status, chatStreamError));
-      }
-    } else {
-      return parseChatCompletionsStream(chatStreamRes);
-    }
-  }
+// Hosted URLs are used as-is; inline data goes through the caller's resize or compression.
+const toImageUrl = async (image: ImageResult, process: (dataUrl: string) => Promise<string>) => {
+  if (image.url) return image.url;
+  if (!image.base64) return null;
+  return process(`data:image/png;base64,${image.base64}`);
+};
 
-  const chatBody: Record<string, any> = {
-    ...baseBody,
-    response_format: responseFormatChat
-  };
-  if (enablePromptCache && allowPromptCache) {
-    chatBody.prompt_cache_retention = "in_memory";
+// Image research runs on the text provider and its key; a provider without search, or any failure, skips it.
+const researchImagePrompt = async (
+  options: ResearchOptions | undefined,
+  prompt: string,
+  maxLength: number
+): Promise<WebSearchResult | null> => {
+  const adapter = getProviderAdapter(normalizeProvider(options?.textProvider || options?.provider));
+  const useProxy = !!options?.useProxy && !adapter.selfHosted;
+  const apiKey = useProxy
+    ? (options?.textProxyApiKey || options?.proxyApiKey)
+    : (options?.textApiKey || options?.apiKey);
+  const model = options?.textModel || "";
+  if (!adapter.webSearch || !apiKey || !model) {
+    return null;
   }
-
-  let chatRes = await fetch(`${baseUrl}/chat/completions`, {
-    method: "POST",
-    headers: baseHeaders,
-    body: JSON.stringify(chatBody)
-  });
-  if (!chatRes.ok) {
-    const text = await chatRes.text();
-    const formatRejected = text.includes("response_format") || text.includes("json_schema");
-    if (schema && formatRejected) {
-      chatRes = await fetch(`${baseUrl}/chat/completions`, {
-        method: "POST",
-        headers: baseHeaders,
-        body: JSON.stringify({ ...baseBody, response_format: { type: "json_object" } })
-      });
-      if (!chatRes.ok) {
-        throw new Error(await formatHttpError(chatRes, `${requestLabel} request failed`));
-      }
-    } else {
-      throw new Error(buildRequestFailedMessage(requestLabel, chatRes.status, text));
-    }
+  const baseUrl = (useProxy ? normalizeBaseUrl(options?.textProxyBaseUrl || options?.proxyBaseUrl) : "") || getDirectBaseUrl(adapter, options);
+  try {
+    return await adapter.webSearch({ apiKey, baseUrl, model }, prompt, maxLength);
+  } catch {
+    return null;
   }
-  const data = await chatRes.json();
-  const content = data?.choices?.[0]?.message?.content || "";
-  const usage = data?.usage;
-  const tokenUsage = normalizeTokenUsage({
-    promptTokens: usage?.prompt_tokens,
-    completionTokens: usage?.completion_tokens,
-    totalTokens: usage?.total_tokens
-  }, `${system}\n${prompt}`, content);
-  narrationStream.finalize(content);
-  return { content, tokenUsage };
 };
 
-const callClaudeJson = async (
-  apiKey: string,
-  baseUrl: string,
-  model: string,
-  system: string,
-  prompt: string,
-  schema?: JsonSchema,
-  runtimeOptions?: JsonCallRuntimeOptions
-) => {
-  const narrationStream = createNarrationStreamAccumulator(runtimeOptions?.onNarrationStream);
-  const headers = {
-    "Content-Type": "application/json",
-    "x-api-key": apiKey,
-    "anthropic-version": "2023-06-01"
-  };
-  const buildBody = (stream = false, allowPromptCache = true) => {
-    const body: Record<string, any> = {
-      model,
-      max_tokens: 4096,
-      system: allowPromptCache
-        ? [{ type: "text", text: system, cache_control: { type: "ephemeral" } }]
-        : system,
-      messages: [{ role: "user", content: prompt }]
-    };
-    if (schema) {
-      body.output_format = {
-        type: "json_schema",
-        schema
-      };
-      body.betas = ["structured-outputs-2025-11-13"];
-    }
-    if (stream) {
-      body.stream = true;
-    }
-    return body;
-  };
+const buildSceneResearchPrompt = (prompt: string, guidanceBlock: string) => `Research visual references for this Fallout scene: "${prompt}".${guidanceBlock}
+1. Extract 3-5 keywords related to Fallout lore, items, or environment.
+2. Search for these keywords + "Fallout" on Google to identify high-quality visual benchmarks (e.g. from Fallout 4 or New Vegas).
+3. Based on your search results, describe the exact textures, lighting (e.g. dawn over the Mojave, fluorescent flickering in a vault), and key props.
+4. Format your final response as a detailed scene description for a concept artist.
+5. Return plain text only, no citations or URLs. Keep it under 800 characters.`;
 
-  const parseClaudeStream = async (res: Response): Promise<StreamedJsonResult> => {
-    let content = "";
-    let usage: any;
+const buildPortraitResearchPrompt = (description: string, guidanceBlock: string) => `Research a Fallout portrait for: ${description}.${guidanceBlock}
+1. Identify key visual traits, attire, and faction motifs.
+2. Use Fallout Wiki terms when possible.
+3. Output a concise portrait description for a concept artist.
+4. Return plain text only, no citations or URLs. Keep it under 500 characters.`;
+
+// Only providers that can enumerate their models (self-hosted servers) return a list; the rest return [].
+export async function listProviderModels(
+  options?: { apiKey?: string; proxyApiKey?: string; proxyBaseUrl?: string; useProxy?: boolean; localBaseUrl?: string; provider?: ModelProvider }
+): Promise<string[]> {
+  const { adapter, apiKey, baseUrl } = resolveEndpoint(options);
+  return adapter.listModels ? adapter.listModels({ apiKey, baseUrl }) : [];
+}
 
-    await consumeSse(res.body, ({ event, data }) => {
-      if (!data || data === "[DONE]") {
-        return;
-      }
-      const payload = tryParseJson(data);
-      if (!payload || typeof payload !== "object") {
-        return;
-      }
-      const eventType = typeof payload.type === "string" ? payload.type : event;
-      if (eventType === "content_block_delta") {
-        const delta = payload?.delta?.text;
-        if (typeof delta === "string") {
-          content += delta;
-          narrationStream.append(delta);
-        }
-      }
-      if (eventType === "message_start" && payload?.message?.usage) {
-        usage = payload.message.usage;
-      }
-      if (eventType === "message_delta" && payload?.usage) {
-        usage = payload.usage;
-      }
+export async function createPlayerCharacter(
+  userInput: string,
+  year: number,
+  region: string,
+  lang: Language,
+  options?: { tier?: UserTier; onProgress?: (message: string) => void; apiKey?: string; proxyApiKey?: string; proxyBaseUrl?: string; useProxy?: boolean; localBaseUrl?: string; textModel?: TextModelId; provider?: ModelProvider; userSystemPrompt?: string }
+): Promise<PlayerCreationResult> {
+  if (isGuestGemini(options)) {
+    return createGeminiPlayer(userInput, year, region, lang, {
+      tier: options?.tier,
+      onProgress: options?.onProgress,
+      apiKey: options?.apiKey,
+      textModel: options?.textModel,
+      userSystemPrompt: options?.userSystemPrompt
     });
+  }
+  const emit = (message: string) => options?.onProgress?.(message);
+  const targetLang = lang === "zh" ? "Chinese" : "English";
+  const system = buildCharacterSystem(targetLang, options?.userSystemPrompt);
+  const prompt = `Create a Fallout character for the year ${year} in ${region} based on this input: "${userInput}". Ensure they have appropriate initial perks, inventory, and starting Bottle Caps (50-200 caps). Include a short appearance description for the player and any companions. If the user mentions starting companions, include them.`;
 
-    if (!content.trim()) {
-      throw new Error("Claude response contained no output.");
-    }
-
-    narrationStream.finalize(content);
-    const tokenUsage = normalizeTokenUsage({
-      promptTokens: usage?.input_tokens,
-      completionTokens: usage?.output_tokens,
-      totalTokens: usage?.input_tokens && usage?.output_tokens ? usage.input_tokens + usage.output_tokens : undefined
-    }, `${system}\n${prompt}`, content);
-    return { content, tokenUsage };
-  };
-
-  if (runtimeOptions?.onNarrationStream) {
-    const { res: streamRes, errorText: streamErrorText } = await fetchStreamWithPromptCacheRetry(
-      (allowPromptCache) => fetch(`${baseUrl}/messages`, {
-        method: "POST",
-        headers,
-        body: JSON.stringify(buildBody(true, allowPromptCache))
-      }),
-      true
-    );
-    if (streamRes.ok) {
-      return parseClaudeStream(streamRes);
-    }
-    if (!isStreamUnsupportedError(streamRes.status, streamErrorText)) {
-      throw new Error(buildRequestFailedMessage("Claude", streamRes.status, streamErrorText));
-    }
+  emit(`Requesting character profile from ${options?.textModel || "model"}...`);
+  const result = await callJsonTask(options, { system, prompt, schema: playerCreationTask });
+  if (!result.content) {
+    throw new Error("No response from Vault-Tec database.");
   }
+  emit(`Response received (${result.content.length} chars). Parsing JSON...`);
+  const parsed = safeJsonParse(result.content, result.tokenUsage);
+  if (parsed && typeof parsed === "object") {
+    parsed.tokenUsage = result.tokenUsage;
+  }
+  emit("Character JSON parsed successfully.");
+  return parsed;
+}
 
-  const initialClaudeResult = await fetchWithPromptCacheRetry(
-    (allowPromptCache) => fetch(`${baseUrl}/messages`, {
-      method: "POST",
-      headers,
-      body: JSON.stringify(buildBody(false, allowPromptCache))
-    }),
-    true
-  );
-  let res = initialClaudeResult.res;
-  const errorText = initialClaudeResult.errorText;
-  if (!res.ok) {
-    const formatRejected = errorText.includes("output_format") || errorText.includes("json_schema") || errorText.includes("structured");
-    if (schema && formatRejected) {
-      res = await fetch(`${baseUrl}/messages`, {
-        method: "POST",
-        headers,
-        body: JSON.stringify({
-          model,
-          max_tokens: 4096,
-          system,
-          messages: [{ role: "user", content: prompt }]
-        })
-      });
-      if (!res.ok) {
-        throw new Error(await formatHttpError(res, "Claude request failed"));
-      }
-    } else {
-      throw new Error(buildRequestFailedMessage("Claude", res.status, errorText));
-    }
+export async function getNarrativeResponse(
+  player: Actor,
+  history: any[],
+  userInput: string,
+  year: number,
+  location: string,
+  quests: Quest[],
+  knownNpcs: Actor[],
+  lang: Language,
+  options?: { tier?: UserTier; apiKey?: string; proxyApiKey?: string; proxyBaseUrl?: string; useProxy?: boolean; localBaseUrl?: string; textModel?: TextModelId; provider?: ModelProvider; userSystemPrompt?: string; onNarrationStream?: (text: string) => void; factionReputation?: FactionReputation }
+): Promise<NarratorResponse> {
+  if (isGuestGemini(options)) {
+    return getGeminiNarration(player, history, userInput, year, location, quests, knownNpcs, lang, {
+      tier: options?.tier,
+      apiKey: options?.apiKey,
+      textModel: options?.textModel,
+      userSystemPrompt: options?.userSystemPrompt,
+      factionReputation: options?.factionReputation
+    });
   }
-  const data = await res.json();
-  const content = data?.content?.find((part: any) => part?.text)?.text;
-  const usage = data?.usage;
-  const tokenUsage = normalizeTokenUsage({
-    promptTokens: usage?.input_tokens,
-    completionTokens: usage?.output_tokens,
-    totalTokens: usage?.input_tokens && usage?.output_tokens ? usage.input_tokens + usage.output_tokens : undefined
-  }, `${system}\n${prompt}`, content || "");
-  narrationStream.finalize(content || "");
-  return { content: content || "", tokenUsage };
-};
+  const targetLang = lang === "zh" ? "Chinese" : "English";
+  const system = buildNarratorSystem(targetLang, year, location, options?.userSystemPrompt);
+  const prompt = buildNarratorPrompt(player, history, userInput, year, location, quests, knownNpcs, options?.factionReputation);
 
-const callDoubaoJson = async (
-  apiKey: string,
-  baseUrl: string,
-  model: string,
-  system: string,
-  prompt: string,
-  schema?: JsonSchema,
-  schemaName = "response",
-  runtimeOptions?: JsonCallRuntimeOptions
-) => {
-  const narrationStream = createNarrationStreamAccumulator(runtimeOptions?.onNarrationStream);
-  const headers = {
-    "Content-Type": "application/json",
-    Authorization: `Bearer ${apiKey}`
-  };
-  const baseBody = {
-    model,
-    input: [
-      { role: "system", content: [{ type: "input_text", text: system }] },
-      { role: "user", content: [{ type: "input_text", text: prompt }] }
-    ]
-  };
-  const textFormat = schema
-    ? { type: "json_schema", name: schemaName, schema, strict: true }
-    : { type: "json_object" };
-  const buildBody = (format: any, stream = false, allowPromptCache = true) => {
-    const body: Record<string, any> = {
-      ...baseBody,
-      text: { format }
-    };
-    if (allowPromptCache) {
-      body.caching = { type: "enabled" };
-    }
-    if (stream) {
-      body.stream = true;
-      body.stream_options = { include_usage: true };
-    }
-    return body;
-  };
-
-  const parseDoubaoStream = async (res: Response): Promise<StreamedJsonResult> => {
-    let content = "";
-    let usage: any;
-
-    await consumeSse(res.body, ({ event, data }) => {
-      if (!data || data === "[DONE]") {
-        return;
-      }
-      const payload = tryParseJson(data);
-      if (!payload || typeof payload !== "object") {
-        return;
-      }
-      const eventType = typeof payload.type === "string" ? payload.type : event;
-      if (eventType === "response.output_text.delta" && typeof payload.delta === "string") {
-        content += payload.delta;
-        narrationStream.append(payload.delta);
-        return;
-      }
-      if (eventType === "response.output_text.done" && typeof payload.text === "string" && !content.trim()) {
-        content += payload.text;
-        narrationStream.append(payload.text);
-        return;
-      }
-      if (eventType === "response.completed" && payload?.response?.usage) {
-        usage = payload.response.usage;
-        return;
-      }
-      if (payload.usage) {
-        usage = payload.usage;
-      }
-    });
-
-    if (!content.trim()) {
-      throw new Error("Doubao response contained no output.");
-    }
-    narrationStream.finalize(content);
-    const tokenUsage = normalizeTokenUsage({
-      promptTokens: usage?.input_tokens,
-      completionTokens: usage?.output_tokens,
-      totalTokens: usage?.total_tokens
-    }, `${system}\n${prompt}`, content);
-    return { content, tokenUsage };
-  };
-
-  if (runtimeOptions?.onNarrationStream) {
-    const { res: streamRes, errorText: streamErrorText } = await fetchStreamWithPromptCacheRetry(
-      (allowPromptCache) => fetch(`${baseUrl}/responses`, {
-        method: "POST",
-        headers,
-        body: JSON.stringify(buildBody(textFormat, true, allowPromptCache))
-      }),
-      true
-    );
-    if (streamRes.ok) {
-      return parseDoubaoStream(streamRes);
-    }
-    if (!isStreamUnsupportedError(streamRes.status, streamErrorText)) {
-      throw new Error(buildRequestFailedMessage("Doubao", streamRes.status, streamErrorText));
-    }
-  }
-
-  const initialDoubaoResult = await fetchWithPromptCacheRetry(
-    (allowPromptCache) => fetch(`${baseUrl}/responses`, {
-      method: "POST",
-      headers,
-      body: JSON.stringify(buildBody(textFormat, false, allowPromptCache))
-    }),
-    true
-  );
-  let res = initialDoubaoResult.res;
-  const allowPromptCache = initialDoubaoResult.allowPromptCache;
-  const errorText = initialDoubaoResult.errorText;
-  if (!res.ok) {
-    const formatRejected = errorText.includes("response_format") || errorText.includes("text.format") || errorText.includes("json_schema");
-    if (schema && formatRejected) {
-      res = await fetch(`${baseUrl}/responses`, {
-        method: "POST",
-        headers,
-        body: JSON.stringify(buildBody({ type: "json_object" }, false, allowPromptCache))
-      });
-      if (!res.ok) {
-        throw new Error(await formatHttpError(res, "Doubao request failed"));
-      }
-    } else {
-      throw new Error(buildRequestFailedMessage("Doubao", res.status, errorText));
-    }
-  }
-  const data = await res.json();
-  const output = Array.isArray(data?.output) ? data.output : [];
-  const outputText = output
-    .filter((item: any) => item?.type === "message" && item?.role === "assistant")
-    .flatMap((item: any) => Array.isArray(item?.content) ? item.content : [])
-    .filter((part: any) => part?.type === "output_text" && typeof part?.text === "string")
-    .map((part: any) => part.text)
-    .join("")
-    .trim();
-  const content = typeof data?.output_text === "string"
-    ? data.output_text.trim()
-    : outputText;
-  const usage = data?.usage;
-  const tokenUsage = normalizeTokenUsage({
-    promptTokens: usage?.input_tokens,
-    completionTokens: usage?.output_tokens,
-    totalTokens: usage?.total_tokens
-  }, `${system}\n${prompt}`, content || "");
-  narrationStream.finalize(content || "");
-  return { content: content || "", tokenUsage };
-};
-
-const fetchImageAsBase64 = async (url: string) => {
-  const res = await fetch(url);
-  if (!res.ok) {
-    throw new Error(`Failed to fetch image (${res.status}).`);
-  }
-  const blob = await res.blob();
-  return new Promise<string>((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => resolve(String(reader.result));
-    reader.onerror = () => reject(new Error("Failed to read image data."));
-    reader.readAsDataURL(blob);
-  });
-};
-
-const generateOpenAiImage = async (
-  apiKey: string,
-  baseUrl: string,
-  model: string,
-  prompt: string,
-  provider: ModelProvider
-) => {
-  const requestLabel = getOpenAiLabel(provider);
-  const effectivePrompt = provider === "grok"
-    ? clampImagePrompt(prompt, 1024)
-    : prompt;
-  const requestBody: Record<string, any> = {
-    model,
-    prompt: effectivePrompt
-  };
-  if (provider !== "grok") {
-    requestBody.size = "1024x1024";
-  }
-  let res = await fetch(`${baseUrl}/images/generations`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`
-    },
-    body: JSON.stringify(requestBody)
-  });
-  if (!res.ok) {
-    const text = await res.text();
-    const message = text
-      ? `${requestLabel} image request failed (HTTP ${res.status}): ${text}`
-      : `${requestLabel} image request failed (HTTP ${res.status}).`;
-    throw new Error(message);
-  }
-  const data = await res.json();
-  const b64 = data?.data?.[0]?.b64_json as string | undefined;
-  if (b64) return b64;
-  const url = data?.data?.[0]?.url as string | undefined;
-  if (url) {
-    if (provider === "grok") {
-      return url;
-    }
-    const dataUrl = await fetchImageAsBase64(url);
-    return dataUrl.replace(/^data:image\/png;base64,/, "").replace(/^data:image\/jpeg;base64,/, "");
-  }
-  return undefined;
-};
-
-const generateDoubaoImage = async (apiKey: string, baseUrl: string, model: string, prompt: string) => {
-  const res = await fetch(`${baseUrl}/images/generations`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`
-    },
-    body: JSON.stringify({
-      model,
-      prompt,
-      size: "2048x2048",
-      response_format: "b64_json"
-    })
-  });
-  if (!res.ok) {
-    throw new Error(await formatHttpError(res, "Doubao image request failed"));
-  }
-  const data = await res.json();
-  return data?.data?.[0]?.b64_json as string | undefined;
-};
-
-export async function createPlayerCharacter(
-  userInput: string,
-  year: number,
-  region: string,
-  lang: Language,
-  options?: { tier?: UserTier; onProgress?: (message: string) => void; apiKey?: string; proxyApiKey?: string; proxyBaseUrl?: string; useProxy?: boolean; textModel?: TextModelId; provider?: ModelProvider; userSystemPrompt?: string }
-): Promise<PlayerCreationResult> {
-  const provider = normalizeProvider(options?.provider);
-  const useProxy = !!options?.useProxy;
-  if (provider === "gemini") {
-    if (options?.tier === "guest") {
-      return createGeminiPlayer(userInput, year, region, lang, {
-        tier: options?.tier,
-        onProgress: options?.onProgress,
-        apiKey: options?.apiKey,
-        textModel: options?.textModel,
-        userSystemPrompt: options?.userSystemPrompt
-      });
-    }
-    const proxyBaseUrl = normalizeBaseUrl(options?.proxyBaseUrl);
-    if (useProxy && !proxyBaseUrl) {
-      throw new Error("Missing proxy base URL.");
-    }
-    const apiKey = requireApiKey(useProxy ? options?.proxyApiKey : options?.apiKey, provider);
-    const model = options?.textModel || "";
-    if (!model) {
-      throw new Error("Missing text model name.");
-    }
-    const emit = (message: string) => options?.onProgress?.(message);
-    const targetLang = lang === "zh" ? "Chinese" : "English";
-    const system = buildCharacterSystem(targetLang, options?.userSystemPrompt);
-    const prompt = `Create a Fallout character for the year ${year} in ${region} based on this input: "${userInput}". Ensure they have appropriate initial perks, inventory, and starting Bottle Caps (50-200 caps). Include a short appearance description for the player and any companions. If the user mentions starting companions, include them.`;
-    const ai = new GoogleGenAI({
-      apiKey,
-      ...(proxyBaseUrl ? { httpOptions: { baseUrl: proxyBaseUrl } } : {})
-    });
-    emit(`Requesting character profile from ${model}...`);
-    const response = await callGeminiJsonWithCache(ai, {
-      apiKey,
-      baseUrl: proxyBaseUrl || "",
-      model,
-      prompt,
-      systemInstruction: system,
-      responseSchema: playerCreationSchema
-    });
-    if (!response.text) {
-      throw new Error("No response from Vault-Tec database.");
-    }
-    emit(`Response received (${response.text.length} chars). Parsing JSON...`);
-    const tokenUsage = normalizeTokenUsage({
-      promptTokens: response.usageMetadata?.promptTokenCount,
-      completionTokens: response.usageMetadata?.candidatesTokenCount,
-      totalTokens: response.usageMetadata?.totalTokenCount
-    }, `${system}\n${prompt}`, response.text);
-    const parsed = safeJsonParse(response.text);
-    if (parsed && typeof parsed === "object") {
-      parsed.tokenUsage = tokenUsage;
-    }
-    emit("Character JSON parsed successfully.");
-    return parsed;
-  }
-
-  const baseUrl = resolveBaseUrl(provider, useProxy ? options?.proxyBaseUrl : undefined);
-  if (useProxy && !baseUrl) {
-    throw new Error("Missing proxy base URL.");
-  }
-  const apiKey = requireApiKey(useProxy ? options?.proxyApiKey : options?.apiKey, provider);
-  const model = options?.textModel || "";
-  if (!model) {
-    throw new Error("Missing text model name.");
-  }
-
-  const targetLang = lang === "zh" ? "Chinese" : "English";
-  const system = buildCharacterSystem(targetLang, options?.userSystemPrompt);
-  const prompt = `Create a Fallout character for the year ${year} in ${region} based on this input: "${userInput}". Ensure they have appropriate initial perks, inventory, and starting Bottle Caps (50-200 caps). Include a short appearance description for the player and any companions. If the user mentions starting companions, include them.`;
-
-  const result = isOpenAiCompatible(provider)
-    ? await callOpenAiJson(
-      apiKey,
-      baseUrl,
-      model,
-      system,
-      prompt,
-      jsonPlayerCreationSchema,
-      "player_creation",
-      getOpenAiLabel(provider)
-    )
-    : provider === "claude"
-      ? await callClaudeJson(apiKey, baseUrl, model, system, prompt, jsonPlayerCreationSchema)
-      : await callDoubaoJson(apiKey, baseUrl, model, system, prompt, jsonPlayerCreationSchema, "player_creation");
-
-  const parsed = safeJsonParse(result.content);
-  if (parsed && typeof parsed === "object") {
-    parsed.tokenUsage = result.tokenUsage;
-  }
-  return parsed;
-}
-
-export async function getNarrativeResponse(
-  player: Actor,
-  history: any[],
-  userInput: string,
-  year: number,
-  location: string,
-  quests: Quest[],
-  knownNpcs: Actor[],
-  lang: Language,
-  options?: { tier?: UserTier; apiKey?: string; proxyApiKey?: string; proxyBaseUrl?: string; useProxy?: boolean; textModel?: TextModelId; provider?: ModelProvider; userSystemPrompt?: string; onNarrationStream?: (text: string) => void }
-): Promise<NarratorResponse> {
-  const provider = normalizeProvider(options?.provider);
-  const useProxy = !!options?.useProxy;
-  if (provider === "gemini") {
-    if (options?.tier === "guest") {
-      return getGeminiNarration(player, history, userInput, year, location, quests, knownNpcs, lang, {
-        tier: options?.tier,
-        apiKey: options?.apiKey,
-        textModel: options?.textModel,
-        userSystemPrompt: options?.userSystemPrompt
-      });
-    }
-    const proxyBaseUrl = normalizeBaseUrl(options?.proxyBaseUrl);
-    if (useProxy && !proxyBaseUrl) {
-      throw new Error("Missing proxy base URL.");
-    }
-    const apiKey = requireApiKey(useProxy ? options?.proxyApiKey : options?.apiKey, provider);
-    const model = options?.textModel || "";
-    if (!model) {
-      throw new Error("Missing text model name.");
-    }
-    const targetLang = lang === "zh" ? "Chinese" : "English";
-    const system = buildNarratorSystem(targetLang, year, location, options?.userSystemPrompt);
-    const prompt = buildNarratorPrompt(player, history, userInput, year, location, quests, knownNpcs);
-    const ai = new GoogleGenAI({
-      apiKey,
-      ...(proxyBaseUrl ? { httpOptions: { baseUrl: proxyBaseUrl } } : {})
-    });
-    const response = await callGeminiJsonWithCache(ai, {
-      apiKey,
-      baseUrl: proxyBaseUrl || "",
-      model,
-      prompt,
-      systemInstruction: system,
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          storyText: { type: Type.STRING },
-          ruleViolation: { type: Type.STRING },
-          timePassedMinutes: { type: Type.NUMBER },
-          imagePrompt: { type: Type.STRING }
-        },
-        required: ["storyText", "timePassedMinutes", "imagePrompt"]
-      },
-      onNarrationStream: options?.onNarrationStream
-    });
-    if (!response.text) {
-      throw new Error("Connection to the Wasteland lost.");
-    }
-    const tokenUsage = normalizeTokenUsage({
-      promptTokens: response.usageMetadata?.promptTokenCount,
-      completionTokens: response.usageMetadata?.candidatesTokenCount,
-      totalTokens: response.usageMetadata?.totalTokenCount
-    }, `${system}\n${prompt}`, response.text);
-    const parsed = safeJsonParse(response.text);
-    const result = parseNarrator(parsed, userInput);
-    result.tokenUsage = tokenUsage;
-    return result;
-  }
-
-  const baseUrl = resolveBaseUrl(provider, useProxy ? options?.proxyBaseUrl : undefined);
-  if (useProxy && !baseUrl) {
-    throw new Error("Missing proxy base URL.");
-  }
-  const apiKey = requireApiKey(useProxy ? options?.proxyApiKey : options?.apiKey, provider);
-  const model = options?.textModel || "";
-  if (!model) {
-    throw new Error("Missing text model name.");
-  }
-
-  const targetLang = lang === "zh" ? "Chinese" : "English";
-  const system = buildNarratorSystem(targetLang, year, location, options?.userSystemPrompt);
-  const prompt = buildNarratorPrompt(player, history, userInput, year, location, quests, knownNpcs);
-
-  const narratorSchema = provider === "doubao" ? jsonNarratorSchemaDoubao : jsonNarratorSchema;
-  const result = isOpenAiCompatible(provider)
-    ? await callOpenAiJson(
-      apiKey,
-      baseUrl,
-      model,
-      system,
-      prompt,
-      narratorSchema,
-      "narrator",
-      getOpenAiLabel(provider),
-      { onNarrationStream: options?.onNarrationStream }
-    )
-    : provider === "claude"
-      ? await callClaudeJson(apiKey, baseUrl, model, system, prompt, narratorSchema, { onNarrationStream: options?.onNarrationStream })
-      : await callDoubaoJson(apiKey, baseUrl, model, system, prompt, narratorSchema, "narrator", { onNarrationStream: options?.onNarrationStream });
-
-  const parsed = safeJsonParse(result.content);
-  const response = parseNarrator(parsed, userInput);
-  response.tokenUsage = result.tokenUsage;
-  return response;
-}
+  const result = await callJsonTask(options, { system, prompt, schema: narratorTask }, options?.onNarrationStream);
+  const parsed = safeJsonParse(result.content, result.tokenUsage);
+  const response = parseNarrator(parsed, userInput);
+  response.tokenUsage = result.tokenUsage;
+  return response;
+}
 
 export async function getEventOutcome(
   player: Actor,
@@ -2905,91 +1870,28 @@ export async function getEventOutcome(
   quests: Quest[],
   knownNpcs: Actor[],
   lang: Language,
-  options?: { tier?: UserTier; apiKey?: string; proxyApiKey?: string; proxyBaseUrl?: string; useProxy?: boolean; textModel?: TextModelId; provider?: ModelProvider; userSystemPrompt?: string }
+  options?: { tier?: UserTier; apiKey?: string; proxyApiKey?: string; proxyBaseUrl?: string; useProxy?: boolean; localBaseUrl?: string; textModel?: TextModelId; provider?: ModelProvider; userSystemPrompt?: string; skillCheck?: SkillCheckResult | null; ammoUsage?: AmmoUsage | null; factionReputation?: FactionReputation; trackedQuest?: Quest | null }
 ): Promise<EventOutcome> {
-  const provider = normalizeProvider(options?.provider);
-  const useProxy = !!options?.useProxy;
+  if (isGuestGemini(options)) {
+    return getGeminiEventOutcome(
+      player,
+      history,
+      userInput,
+      year,
+      location,
+      currentTime,
+      quests,
+      knownNpcs,
+      lang,
+      { tier: options?.tier, apiKey: options?.apiKey, textModel: options?.textModel, userSystemPrompt: options?.userSystemPrompt, skillCheck: options?.skillCheck, ammoUsage: options?.ammoUsage, factionReputation: options?.factionReputation, trackedQuest: options?.trackedQuest }
+    );
+  }
   const targetLang = lang === "zh" ? "Chinese" : "English";
   const system = buildEventSystem(targetLang, year, location, options?.userSystemPrompt);
-  const prompt = buildEventPrompt(player, history, userInput, year, location, currentTime, quests, knownNpcs);
-
-  if (provider === "gemini") {
-    if (options?.tier === "guest") {
-      const response = await getGeminiEventOutcome(
-        player,
-        history,
-        userInput,
-        year,
-        location,
-        currentTime,
-        quests,
-        knownNpcs,
-        lang,
-        { tier: options?.tier, apiKey: options?.apiKey, textModel: options?.textModel, userSystemPrompt: options?.userSystemPrompt }
-      );
-      return response;
-    }
-    const proxyBaseUrl = normalizeBaseUrl(options?.proxyBaseUrl);
-    if (useProxy && !proxyBaseUrl) {
-      throw new Error("Missing proxy base URL.");
-    }
-    const apiKey = requireApiKey(useProxy ? options?.proxyApiKey : options?.apiKey, provider);
-    const model = options?.textModel || "";
-    if (!model) {
-      throw new Error("Missing text model name.");
-    }
-    const ai = new GoogleGenAI({
-      apiKey,
-      ...(proxyBaseUrl ? { httpOptions: { baseUrl: proxyBaseUrl } } : {})
-    });
-    const response = await callGeminiJsonWithCache(ai, {
-      apiKey,
-      baseUrl: proxyBaseUrl || "",
-      model,
-      prompt,
-      systemInstruction: system,
-      responseSchema: eventOutcomeSchema
-    });
-    if (!response.text) {
-      throw new Error("Connection to the Wasteland lost.");
-    }
-    const tokenUsage = normalizeTokenUsage({
-      promptTokens: response.usageMetadata?.promptTokenCount,
-      completionTokens: response.usageMetadata?.candidatesTokenCount,
-      totalTokens: response.usageMetadata?.totalTokenCount
-    }, `${system}\n${prompt}`, response.text);
-    const parsed = safeJsonParse(response.text);
-    const outcome = { ...parseEventOutcomeSummary(parsed), tokenUsage };
-    return outcome as EventOutcome;
-  }
-
-  const baseUrl = resolveBaseUrl(provider, useProxy ? options?.proxyBaseUrl : undefined);
-  if (useProxy && !baseUrl) {
-    throw new Error("Missing proxy base URL.");
-  }
-  const apiKey = requireApiKey(useProxy ? options?.proxyApiKey : options?.apiKey, provider);
-  const model = options?.textModel || "";
-  if (!model) {
-    throw new Error("Missing text model name.");
-  }
+  const prompt = buildEventPrompt(player, history, userInput, year, location, currentTime, quests, knownNpcs, options?.skillCheck, options?.ammoUsage, options?.factionReputation, options?.trackedQuest);
 
-  const eventSchemaForProvider = provider === "doubao" ? jsonEventOutcomeSchemaDoubao : jsonEventOutcomeSchema;
-  const result = isOpenAiCompatible(provider)
-    ? await callOpenAiJson(
-      apiKey,
-      baseUrl,
-      model,
-      system,
-      prompt,
-      eventSchemaForProvider,
-      "event_outcome",
-      getOpenAiLabel(provider)
-    )
-    : provider === "claude"
-      ? await callClaudeJson(apiKey, baseUrl, model, system, prompt, eventSchemaForProvider)
-      : await callDoubaoJson(apiKey, baseUrl, model, system, prompt, eventSchemaForProvider, "event_outcome");
-
-  const parsed = safeJsonParse(result.content);
+  const result = await callJsonTask(options, { system, prompt, schema: eventOutcomeTask });
+  const parsed = safeJsonParse(result.content, result.tokenUsage);
   const outcome = { ...parseEventOutcomeSummary(parsed), tokenUsage: result.tokenUsage };
   return outcome as EventOutcome;
 }
@@ -3003,102 +1905,23 @@ export async function getEventNarration(
   currentTime: string,
   eventOutcome: EventOutcome,
   lang: Language,
-  options?: { tier?: UserTier; apiKey?: string; proxyApiKey?: string; proxyBaseUrl?: string; useProxy?: boolean; textModel?: TextModelId; provider?: ModelProvider; userSystemPrompt?: string; onNarrationStream?: (text: string) => void }
+  options?: { tier?: UserTier; apiKey?: string; proxyApiKey?: string; proxyBaseUrl?: string; useProxy?: boolean; localBaseUrl?: string; textModel?: TextModelId; provider?: ModelProvider; userSystemPrompt?: string; trackedQuest?: Quest | null; onNarrationStream?: (text: string) => void }
 ): Promise<EventNarrationResponse> {
-  const provider = normalizeProvider(options?.provider);
-  const useProxy = !!options?.useProxy;
-  const targetLang = lang === "zh" ? "Chinese" : "English";
-  const system = buildEventNarratorSystem(targetLang, year, location, options?.userSystemPrompt);
-  const prompt = buildEventNarratorPrompt(player, knownNpcs, quests, year, location, currentTime, eventOutcome);
-
-  if (provider === "gemini") {
-    if (options?.tier === "guest") {
-      return getGeminiEventNarration(player, knownNpcs, quests, year, location, currentTime, eventOutcome, lang, {
-        tier: options?.tier,
-        apiKey: options?.apiKey,
-        textModel: options?.textModel,
-        userSystemPrompt: options?.userSystemPrompt
-      });
-    }
-    const proxyBaseUrl = normalizeBaseUrl(options?.proxyBaseUrl);
-    if (useProxy && !proxyBaseUrl) {
-      throw new Error("Missing proxy base URL.");
-    }
-    const apiKey = requireApiKey(useProxy ? options?.proxyApiKey : options?.apiKey, provider);
-    const model = options?.textModel || "";
-    if (!model) {
-      throw new Error("Missing text model name.");
-    }
-    const ai = new GoogleGenAI({
-      apiKey,
-      ...(proxyBaseUrl ? { httpOptions: { baseUrl: proxyBaseUrl } } : {})
-    });
-    const response = await callGeminiJsonWithCache(ai, {
-      apiKey,
-      baseUrl: proxyBaseUrl || "",
-      model,
-      prompt,
-      systemInstruction: system,
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          storyText: { type: Type.STRING },
-          imagePrompt: { type: Type.STRING }
-        },
-        required: ["storyText", "imagePrompt"]
-      },
-      onNarrationStream: options?.onNarrationStream
+  if (isGuestGemini(options)) {
+    return getGeminiEventNarration(player, knownNpcs, quests, year, location, currentTime, eventOutcome, lang, {
+      tier: options?.tier,
+      apiKey: options?.apiKey,
+      textModel: options?.textModel,
+      userSystemPrompt: options?.userSystemPrompt,
+      trackedQuest: options?.trackedQuest
     });
-    if (!response.text) {
-      throw new Error("Connection to the Wasteland lost.");
-    }
-    const tokenUsage = normalizeTokenUsage({
-      promptTokens: response.usageMetadata?.promptTokenCount,
-      completionTokens: response.usageMetadata?.candidatesTokenCount,
-      totalTokens: response.usageMetadata?.totalTokenCount
-    }, `${system}\n${prompt}`, response.text);
-    const parsed = safeJsonParse(response.text);
-    const narration = { ...parseEventNarration(parsed, eventOutcome.outcomeSummary || ""), tokenUsage };
-    return narration as EventNarrationResponse;
-  }
-
-  const baseUrl = resolveBaseUrl(provider, useProxy ? options?.proxyBaseUrl : undefined);
-  if (useProxy && !baseUrl) {
-    throw new Error("Missing proxy base URL.");
   }
-  const apiKey = requireApiKey(useProxy ? options?.proxyApiKey : options?.apiKey, provider);
-  const model = options?.textModel || "";
-  if (!model) {
-    throw new Error("Missing text model name.");
-  }
-
-  const eventNarrationSchema: JsonSchema = {
-    type: "object",
-    properties: {
-      storyText: { type: "string" },
-      imagePrompt: { type: "string" }
-    },
-    required: ["storyText", "imagePrompt"],
-    additionalProperties: false
-  };
+  const targetLang = lang === "zh" ? "Chinese" : "English";
+  const system = buildEventNarratorSystem(targetLang, year, location, options?.userSystemPrompt);
+  const prompt = buildEventNarratorPrompt(player, knownNpcs, quests, year, location, currentTime, eventOutcome, options?.trackedQuest);
 
-  const result = isOpenAiCompatible(provider)
-    ? await callOpenAiJson(
-      apiKey,
-      baseUrl,
-      model,
-      system,
-      prompt,
-      eventNarrationSchema,
-      "event_narration",
-      getOpenAiLabel(provider),
-      { onNarrationStream: options?.onNarrationStream }
-    )
-    : provider === "claude"
-      ? await callClaudeJson(apiKey, baseUrl, model, system, prompt, eventNarrationSchema, { onNarrationStream: options?.onNarrationStream })
-      : await callDoubaoJson(apiKey, baseUrl, model, system, prompt, eventNarrationSchema, "event_narration", { onNarrationStream: options?.onNarrationStream });
-
-  const parsed = safeJsonParse(result.content);
+  const result = await callJsonTask(options, { system, prompt, schema: eventNarrationTask }, options?.onNarrationStream);
+  const parsed = safeJsonParse(result.content, result.tokenUsage);
   const narration = { ...parseEventNarration(parsed, eventOutcome.outcomeSummary || ""), tokenUsage: result.tokenUsage };
   return narration as EventNarrationResponse;
 }
@@ -3114,6 +1937,7 @@ export async function getArenaNarration(
     proxyApiKey?: string;
     proxyBaseUrl?: string;
     useProxy?: boolean;
+    localBaseUrl?: string;
     textModel?: TextModelId;
     provider?: ModelProvider;
     userSystemPrompt?: string;
@@ -3123,102 +1947,27 @@ export async function getArenaNarration(
     forcePowers?: Array<number | null>;
   }
 ): Promise<{ storyText: string; tokenUsage?: TokenUsage; forcePowers?: number[]; imagePrompt?: string }> {
-  const provider = normalizeProvider(options?.provider);
-  const useProxy = !!options?.useProxy;
   const finish = !!options?.finish;
   const mode = options?.mode === 'wargame' ? 'wargame' : 'scenario';
   const phase = options?.phase === 'battle' ? 'battle' : 'briefing';
-  if (provider === "gemini") {
-    if (options?.tier === "guest") {
-      return getGeminiArenaNarration(focus, involvedParties, history, lang, {
-        tier: options?.tier,
-        apiKey: options?.apiKey,
-        textModel: options?.textModel,
-        userSystemPrompt: options?.userSystemPrompt,
-        finish,
-        mode,
-        phase,
-        forcePowers: options?.forcePowers
-      });
-    }
-    const proxyBaseUrl = normalizeBaseUrl(options?.proxyBaseUrl);
-    if (useProxy && !proxyBaseUrl) {
-      throw new Error("Missing proxy base URL.");
-    }
-    const apiKey = requireApiKey(useProxy ? options?.proxyApiKey : options?.apiKey, provider);
-    const model = options?.textModel || "";
-    if (!model) {
-      throw new Error("Missing text model name.");
-    }
-    const targetLang = lang === "zh" ? "Chinese" : "English";
-    const system = buildArenaSystem(targetLang, mode, options?.userSystemPrompt);
-    const prompt = buildArenaPrompt(focus, involvedParties, history, finish, mode, phase, options?.forcePowers);
-    const ai = new GoogleGenAI({
-      apiKey,
-      ...(proxyBaseUrl ? { httpOptions: { baseUrl: proxyBaseUrl } } : {})
-    });
-    const response = await callGeminiJsonWithCache(ai, {
-      apiKey,
-      baseUrl: proxyBaseUrl || "",
-      model,
-      prompt,
-      systemInstruction: system,
-      responseSchema: arenaSchema
+  if (isGuestGemini(options)) {
+    return getGeminiArenaNarration(focus, involvedParties, history, lang, {
+      tier: options?.tier,
+      apiKey: options?.apiKey,
+      textModel: options?.textModel,
+      userSystemPrompt: options?.userSystemPrompt,
+      finish,
+      mode,
+      phase,
+      forcePowers: options?.forcePowers
     });
-    if (!response.text) {
-      throw new Error("Connection to the Wasteland lost.");
-    }
-    const tokenUsage = normalizeTokenUsage({
-      promptTokens: response.usageMetadata?.promptTokenCount,
-      completionTokens: response.usageMetadata?.candidatesTokenCount,
-      totalTokens: response.usageMetadata?.totalTokenCount
-    }, `${system}\n${prompt}`, response.text);
-    const parsed = safeJsonParse(response.text);
-    const storyText = parsed?.storyText ? String(parsed.storyText) : "";
-    if (!storyText.trim()) {
-      throw new Error("Invalid arena response.");
-    }
-    const imagePrompt = typeof parsed?.imagePrompt === "string" ? parsed.imagePrompt : "";
-    if (!imagePrompt.trim()) {
-      throw new Error("Invalid arena response.");
-    }
-    const forcePowers = parseForcePowers(parsed?.forcePowers, involvedParties);
-    if (mode === 'wargame' && (!forcePowers || forcePowers.length !== involvedParties.length)) {
-      throw new Error("Invalid force power output.");
-    }
-    return { storyText, tokenUsage, forcePowers, imagePrompt };
-  }
-
-  const baseUrl = resolveBaseUrl(provider, useProxy ? options?.proxyBaseUrl : undefined);
-  if (useProxy && !baseUrl) {
-    throw new Error("Missing proxy base URL.");
-  }
-  const apiKey = requireApiKey(useProxy ? options?.proxyApiKey : options?.apiKey, provider);
-  const model = options?.textModel || "";
-  if (!model) {
-    throw new Error("Missing text model name.");
   }
-
   const targetLang = lang === "zh" ? "Chinese" : "English";
   const system = buildArenaSystem(targetLang, mode, options?.userSystemPrompt);
   const prompt = buildArenaPrompt(focus, involvedParties, history, finish, mode, phase, options?.forcePowers);
 
-  const result = isOpenAiCompatible(provider)
-    ? await callOpenAiJson(
-      apiKey,
-      baseUrl,
-      model,
-      system,
-      prompt,
-      jsonArenaSchema,
-      "arena",
-      getOpenAiLabel(provider)
-    )
-    : provider === "claude"
-      ? await callClaudeJson(apiKey, baseUrl, model, system, prompt, jsonArenaSchema)
-      : await callDoubaoJson(apiKey, baseUrl, model, system, prompt, jsonArenaSchema, "arena");
-
-  const parsed = safeJsonParse(result.content);
+  const result = await callJsonTask(options, { system, prompt, schema: arenaTask });
+  const parsed = safeJsonParse(result.content, result.tokenUsage);
   const storyText = parsed?.storyText ? String(parsed.storyText) : "";
   if (!storyText.trim()) {
     throw new Error("Invalid arena response.");
@@ -3243,178 +1992,55 @@ export async function getStatusUpdate(
   currentTime: string,
   narration: string,
   lang: Language,
-  options?: { tier?: UserTier; apiKey?: string; proxyApiKey?: string; proxyBaseUrl?: string; useProxy?: boolean; textModel?: TextModelId; provider?: ModelProvider }
+  options?: { tier?: UserTier; apiKey?: string; proxyApiKey?: string; proxyBaseUrl?: string; useProxy?: boolean; localBaseUrl?: string; textModel?: TextModelId; provider?: ModelProvider; factionReputation?: FactionReputation }
 ): Promise<{ update: StatusUpdate; tokenUsage?: TokenUsage }> {
-  const provider = normalizeProvider(options?.provider);
-  const useProxy = !!options?.useProxy;
+  if (isGuestGemini(options)) {
+    const response = await getGeminiStatusUpdate(
+      player,
+      quests,
+      knownNpcs,
+      year,
+      location,
+      currentTime,
+      narration,
+      lang,
+      { tier: options?.tier, apiKey: options?.apiKey, textModel: options?.textModel, factionReputation: options?.factionReputation }
+    );
+    const normalized = normalizeInventoryChangeCarrier(response);
+    const update = normalized && typeof normalized === "object" ? (normalized as StatusUpdate) : {};
+    return { update, tokenUsage: (response as any)?.tokenUsage };
+  }
   const targetLang = lang === "zh" ? "Chinese" : "English";
   const system = buildStatusSystem(targetLang, year, location);
-  const prompt = buildStatusPrompt(player, quests, knownNpcs, year, location, currentTime, narration);
-
-  if (provider === "gemini") {
-      if (options?.tier === "guest") {
-        const response = await getGeminiStatusUpdate(
-          player,
-          quests,
-          knownNpcs,
-          year,
-          location,
-          currentTime,
-          narration,
-          lang,
-          { tier: options?.tier, apiKey: options?.apiKey, textModel: options?.textModel }
-        );
-        const normalized = normalizeInventoryChangeCarrier(response);
-        const update = normalized && typeof normalized === "object" ? (normalized as StatusUpdate) : {};
-        return { update, tokenUsage: (response as any)?.tokenUsage };
-      }
-    const proxyBaseUrl = normalizeBaseUrl(options?.proxyBaseUrl);
-    if (useProxy && !proxyBaseUrl) {
-      throw new Error("Missing proxy base URL.");
-    }
-    const apiKey = requireApiKey(useProxy ? options?.proxyApiKey : options?.apiKey, provider);
-    const model = options?.textModel || "";
-    if (!model) {
-      throw new Error("Missing text model name.");
-    }
-    const ai = new GoogleGenAI({
-      apiKey,
-      ...(proxyBaseUrl ? { httpOptions: { baseUrl: proxyBaseUrl } } : {})
-    });
-    const response = await callGeminiJsonWithCache(ai, {
-      apiKey,
-      baseUrl: proxyBaseUrl || "",
-      model,
-      prompt,
-      systemInstruction: system,
-      responseSchema: statusSchema
-    });
-    if (!response.text) {
-      throw new Error("Connection to the Wasteland lost.");
-    }
-    const tokenUsage = normalizeTokenUsage({
-      promptTokens: response.usageMetadata?.promptTokenCount,
-      completionTokens: response.usageMetadata?.candidatesTokenCount,
-      totalTokens: response.usageMetadata?.totalTokenCount
-    }, `${system}\n${prompt}`, response.text);
-      const parsed = safeJsonParse(response.text);
-      const normalized = normalizeInventoryChangeCarrier(parsed);
-      const update = normalized && typeof normalized === "object" ? (normalized as StatusUpdate) : {};
-      return { update, tokenUsage };
-  }
+  const prompt = buildStatusPrompt(player, quests, knownNpcs, year, location, currentTime, narration, options?.factionReputation);
 
-  const baseUrl = resolveBaseUrl(provider, useProxy ? options?.proxyBaseUrl : undefined);
-  if (useProxy && !baseUrl) {
-    throw new Error("Missing proxy base URL.");
-  }
-  const apiKey = requireApiKey(useProxy ? options?.proxyApiKey : options?.apiKey, provider);
-  const model = options?.textModel || "";
-  if (!model) {
-    throw new Error("Missing text model name.");
-  }
-
-  const result = isOpenAiCompatible(provider)
-    ? await callOpenAiJson(
-      apiKey,
-      baseUrl,
-      model,
-      system,
-      prompt,
-      jsonStatusSchema,
-      "status_update",
-      getOpenAiLabel(provider)
-    )
-    : provider === "claude"
-      ? await callClaudeJson(apiKey, baseUrl, model, system, prompt, jsonStatusSchema)
-      : await callDoubaoJson(apiKey, baseUrl, model, system, prompt, jsonStatusSchema, "status_update");
-
-    const parsed = safeJsonParse(result.content);
-    const normalized = normalizeInventoryChangeCarrier(parsed);
-    const update = normalized && typeof normalized === "object" ? (normalized as StatusUpdate) : {};
-    return { update, tokenUsage: result.tokenUsage };
-  }
+  const result = await callJsonTask(options, { system, prompt, schema: statusTask });
+  const parsed = safeJsonParse(result.content, result.tokenUsage);
+  const normalized = normalizeInventoryChangeCarrier(parsed);
+  const update = normalized && typeof normalized === "object" ? (normalized as StatusUpdate) : {};
+  return { update, tokenUsage: result.tokenUsage };
+}
 
 export async function refreshInventory(
   inventory: InventoryItem[],
   lang: Language,
-  options?: { tier?: UserTier; apiKey?: string; proxyApiKey?: string; proxyBaseUrl?: string; useProxy?: boolean; textModel?: TextModelId; provider?: ModelProvider }
+  options?: { tier?: UserTier; apiKey?: string; proxyApiKey?: string; proxyBaseUrl?: string; useProxy?: boolean; localBaseUrl?: string; textModel?: TextModelId; provider?: ModelProvider }
 ): Promise<{ inventory: InventoryItem[]; tokenUsage?: TokenUsage }> {
-  const provider = normalizeProvider(options?.provider);
-  const useProxy = !!options?.useProxy;
+  if (isGuestGemini(options)) {
+    const response = await refreshGeminiInventory(inventory, lang, {
+      tier: options?.tier,
+      apiKey: options?.apiKey,
+      textModel: options?.textModel
+    });
+    const data = response && typeof response === "object" ? (response as { inventory?: InventoryItem[] }) : {};
+    return { inventory: Array.isArray(data.inventory) ? data.inventory : [], tokenUsage: (response as any)?.tokenUsage };
+  }
   const targetLang = lang === "zh" ? "Chinese" : "English";
   const system = buildInventoryRefreshSystem(targetLang);
   const prompt = buildInventoryRefreshPrompt(inventory);
 
-  if (provider === "gemini") {
-    if (options?.tier === "guest") {
-      const response = await refreshGeminiInventory(inventory, lang, {
-        tier: options?.tier,
-        apiKey: options?.apiKey,
-        textModel: options?.textModel
-      });
-      const data = response && typeof response === "object" ? (response as { inventory?: InventoryItem[] }) : {};
-      return { inventory: Array.isArray(data.inventory) ? data.inventory : [], tokenUsage: (response as any)?.tokenUsage };
-    }
-    const proxyBaseUrl = normalizeBaseUrl(options?.proxyBaseUrl);
-    if (useProxy && !proxyBaseUrl) {
-      throw new Error("Missing proxy base URL.");
-    }
-    const apiKey = requireApiKey(useProxy ? options?.proxyApiKey : options?.apiKey, provider);
-    const model = options?.textModel || "";
-    if (!model) {
-      throw new Error("Missing text model name.");
-    }
-    const ai = new GoogleGenAI({
-      apiKey,
-      ...(proxyBaseUrl ? { httpOptions: { baseUrl: proxyBaseUrl } } : {})
-    });
-    const response = await callGeminiJsonWithCache(ai, {
-      apiKey,
-      baseUrl: proxyBaseUrl || "",
-      model,
-      prompt,
-      systemInstruction: system,
-      responseSchema: inventoryRefreshSchema
-    });
-    if (!response.text) {
-      throw new Error("Connection to the Wasteland lost.");
-    }
-    const tokenUsage = normalizeTokenUsage({
-      promptTokens: response.usageMetadata?.promptTokenCount,
-      completionTokens: response.usageMetadata?.candidatesTokenCount,
-      totalTokens: response.usageMetadata?.totalTokenCount
-    }, `${system}\n${prompt}`, response.text);
-    const parsed = safeJsonParse(response.text);
-    const items = parsed && typeof parsed === "object" && Array.isArray(parsed.inventory) ? parsed.inventory : [];
-    return { inventory: items, tokenUsage };
-  }
-
-  const baseUrl = resolveBaseUrl(provider, useProxy ? options?.proxyBaseUrl : undefined);
-  if (useProxy && !baseUrl) {
-    throw new Error("Missing proxy base URL.");
-  }
-  const apiKey = requireApiKey(useProxy ? options?.proxyApiKey : options?.apiKey, provider);
-  const model = options?.textModel || "";
-  if (!model) {
-    throw new Error("Missing text model name.");
-  }
-
-  const result = isOpenAiCompatible(provider)
-    ? await callOpenAiJson(
-      apiKey,
-      baseUrl,
-      model,
-      system,
-      prompt,
-      jsonInventoryRefreshSchema,
-      "inventory_refresh",
-      getOpenAiLabel(provider)
-    )
-    : provider === "claude"
-      ? await callClaudeJson(apiKey, baseUrl, model, system, prompt, jsonInventoryRefreshSchema)
-      : await callDoubaoJson(apiKey, baseUrl, model, system, prompt, jsonInventoryRefreshSchema, "inventory_refresh");
-
-  const parsed = safeJsonParse(result.content);
+  const result = await callJsonTask(options, { system, prompt, schema: inventoryRefreshTask });
+  const parsed = safeJsonParse(result.content, result.tokenUsage);
   const items = parsed && typeof parsed === "object" && Array.isArray(parsed.inventory) ? parsed.inventory : [];
   return { inventory: items, tokenUsage: result.tokenUsage };
 }
@@ -3422,84 +2048,23 @@ export async function refreshInventory(
 export async function auditInventoryWeights(
   inventory: InventoryItem[],
   lang: Language,
-  options?: { tier?: UserTier; apiKey?: string; proxyApiKey?: string; proxyBaseUrl?: string; useProxy?: boolean; textModel?: TextModelId; provider?: ModelProvider }
+  options?: { tier?: UserTier; apiKey?: string; proxyApiKey?: string; proxyBaseUrl?: string; useProxy?: boolean; localBaseUrl?: string; textModel?: TextModelId; provider?: ModelProvider }
 ): Promise<{ inventory: InventoryItem[]; tokenUsage?: TokenUsage }> {
-  const provider = normalizeProvider(options?.provider);
-  const useProxy = !!options?.useProxy;
+  if (isGuestGemini(options)) {
+    const response = await auditGeminiInventoryWeights(inventory, lang, {
+      tier: options?.tier,
+      apiKey: options?.apiKey,
+      textModel: options?.textModel
+    });
+    const data = response && typeof response === "object" ? (response as { inventory?: InventoryItem[] }) : {};
+    return { inventory: Array.isArray(data.inventory) ? data.inventory : [], tokenUsage: (response as any)?.tokenUsage };
+  }
   const targetLang = lang === "zh" ? "Chinese" : "English";
   const system = buildInventoryWeightSystem(targetLang);
   const prompt = buildInventoryWeightPrompt(inventory);
 
-  if (provider === "gemini") {
-    if (options?.tier === "guest") {
-      const response = await auditGeminiInventoryWeights(inventory, lang, {
-        tier: options?.tier,
-        apiKey: options?.apiKey,
-        textModel: options?.textModel
-      });
-      const data = response && typeof response === "object" ? (response as { inventory?: InventoryItem[] }) : {};
-      return { inventory: Array.isArray(data.inventory) ? data.inventory : [], tokenUsage: (response as any)?.tokenUsage };
-    }
-    const proxyBaseUrl = normalizeBaseUrl(options?.proxyBaseUrl);
-    if (useProxy && !proxyBaseUrl) {
-      throw new Error("Missing proxy base URL.");
-    }
-    const apiKey = requireApiKey(useProxy ? options?.proxyApiKey : options?.apiKey, provider);
-    const model = options?.textModel || "";
-    if (!model) {
-      throw new Error("Missing text model name.");
-    }
-    const ai = new GoogleGenAI({
-      apiKey,
-      ...(proxyBaseUrl ? { httpOptions: { baseUrl: proxyBaseUrl } } : {})
-    });
-    const response = await callGeminiJsonWithCache(ai, {
-      apiKey,
-      baseUrl: proxyBaseUrl || "",
-      model,
-      prompt,
-      systemInstruction: system,
-      responseSchema: inventoryRefreshSchema
-    });
-    if (!response.text) {
-      throw new Error("Connection to the Wasteland lost.");
-    }
-    const tokenUsage = normalizeTokenUsage({
-      promptTokens: response.usageMetadata?.promptTokenCount,
-      completionTokens: response.usageMetadata?.candidatesTokenCount,
-      totalTokens: response.usageMetadata?.totalTokenCount
-    }, `${system}\n${prompt}`, response.text);
-    const parsed = safeJsonParse(response.text);
-    const items = parsed && typeof parsed === "object" && Array.isArray(parsed.inventory) ? parsed.inventory : [];
-    return { inventory: items, tokenUsage };
-  }
-
-  const baseUrl = resolveBaseUrl(provider, useProxy ? options?.proxyBaseUrl : undefined);
-  if (useProxy && !baseUrl) {
-    throw new Error("Missing proxy base URL.");
-  }
-  const apiKey = requireApiKey(useProxy ? options?.proxyApiKey : options?.apiKey, provider);
-  const model = options?.textModel || "";
-  if (!model) {
-    throw new Error("Missing text model name.");
-  }
-
-  const result = isOpenAiCompatible(provider)
-    ? await callOpenAiJson(
-      apiKey,
-      baseUrl,
-      model,
-      system,
-      prompt,
-      jsonInventoryRefreshSchema,
-      "inventory_audit",
-      getOpenAiLabel(provider)
-    )
-    : provider === "claude"
-      ? await callClaudeJson(apiKey, baseUrl, model, system, prompt, jsonInventoryRefreshSchema)
-      : await callDoubaoJson(apiKey, baseUrl, model, system, prompt, jsonInventoryRefreshSchema, "inventory_audit");
-
-  const parsed = safeJsonParse(result.content);
+  const result = await callJsonTask(options, { system, prompt, schema: inventoryAuditTask });
+  const parsed = safeJsonParse(result.content, result.tokenUsage);
   const items = parsed && typeof parsed === "object" && Array.isArray(parsed.inventory) ? parsed.inventory : [];
   return { inventory: items, tokenUsage: result.tokenUsage };
 }
@@ -3508,91 +2073,27 @@ export async function recoverInventoryStatus(
   lore: string,
   narrations: string[],
   lang: Language,
-  options?: { tier?: UserTier; apiKey?: string; proxyApiKey?: string; proxyBaseUrl?: string; useProxy?: boolean; textModel?: TextModelId; provider?: ModelProvider }
+  options?: { tier?: UserTier; apiKey?: string; proxyApiKey?: string; proxyBaseUrl?: string; useProxy?: boolean; localBaseUrl?: string; textModel?: TextModelId; provider?: ModelProvider }
 ): Promise<{ initialInventory: InventoryItem[]; inventoryChanges: { narration_index: number; inventoryChange: any }[]; tokenUsage?: TokenUsage }> {
-  const provider = normalizeProvider(options?.provider);
-  const useProxy = !!options?.useProxy;
-  const targetLang = lang === "zh" ? "Chinese" : "English";
-  const system = buildInventoryRecoverySystem(targetLang);
-  const prompt = buildInventoryRecoveryPrompt(lore, narrations);
-
-  if (provider === "gemini") {
-    if (options?.tier === "guest") {
-      const response = await recoverGeminiInventoryStatus(lore, narrations, lang, {
-        tier: options?.tier,
-        apiKey: options?.apiKey,
-        textModel: options?.textModel
-      });
-      const data = response && typeof response === "object" ? response as any : {};
-      return {
-        initialInventory: Array.isArray(data.initialInventory) ? data.initialInventory : [],
-        inventoryChanges: Array.isArray(data.inventoryChanges) ? data.inventoryChanges : [],
-        tokenUsage: data?.tokenUsage
-      };
-    }
-    const proxyBaseUrl = normalizeBaseUrl(options?.proxyBaseUrl);
-    if (useProxy && !proxyBaseUrl) {
-      throw new Error("Missing proxy base URL.");
-    }
-    const apiKey = requireApiKey(useProxy ? options?.proxyApiKey : options?.apiKey, provider);
-    const model = options?.textModel || "";
-    if (!model) {
-      throw new Error("Missing text model name.");
-    }
-    const ai = new GoogleGenAI({
-      apiKey,
-      ...(proxyBaseUrl ? { httpOptions: { baseUrl: proxyBaseUrl } } : {})
-    });
-    const response = await callGeminiJsonWithCache(ai, {
-      apiKey,
-      baseUrl: proxyBaseUrl || "",
-      model,
-      prompt,
-      systemInstruction: system,
-      responseSchema: inventoryRecoverySchema
+  if (isGuestGemini(options)) {
+    const response = await recoverGeminiInventoryStatus(lore, narrations, lang, {
+      tier: options?.tier,
+      apiKey: options?.apiKey,
+      textModel: options?.textModel
     });
-    if (!response.text) {
-      throw new Error("Connection to the Wasteland lost.");
-    }
-    const tokenUsage = normalizeTokenUsage({
-      promptTokens: response.usageMetadata?.promptTokenCount,
-      completionTokens: response.usageMetadata?.candidatesTokenCount,
-      totalTokens: response.usageMetadata?.totalTokenCount
-    }, `${system}\n${prompt}`, response.text);
-    const parsed = safeJsonParse(response.text);
+    const data = response && typeof response === "object" ? response as any : {};
     return {
-      initialInventory: Array.isArray(parsed?.initialInventory) ? parsed.initialInventory : [],
-      inventoryChanges: Array.isArray(parsed?.inventoryChanges) ? parsed.inventoryChanges : [],
-      tokenUsage
+      initialInventory: Array.isArray(data.initialInventory) ? data.initialInventory : [],
+      inventoryChanges: Array.isArray(data.inventoryChanges) ? data.inventoryChanges : [],
+      tokenUsage: data?.tokenUsage
     };
   }
+  const targetLang = lang === "zh" ? "Chinese" : "English";
+  const system = buildInventoryRecoverySystem(targetLang);
+  const prompt = buildInventoryRecoveryPrompt(lore, narrations);
 
-  const baseUrl = resolveBaseUrl(provider, useProxy ? options?.proxyBaseUrl : undefined);
-  if (useProxy && !baseUrl) {
-    throw new Error("Missing proxy base URL.");
-  }
-  const apiKey = requireApiKey(useProxy ? options?.proxyApiKey : options?.apiKey, provider);
-  const model = options?.textModel || "";
-  if (!model) {
-    throw new Error("Missing text model name.");
-  }
-
-  const result = isOpenAiCompatible(provider)
-    ? await callOpenAiJson(
-      apiKey,
-      baseUrl,
-      model,
-      system,
-      prompt,
-      jsonInventoryRecoverySchema,
-      "inventory_recovery",
-      getOpenAiLabel(provider)
-    )
-    : provider === "claude"
-      ? await callClaudeJson(apiKey, baseUrl, model, system, prompt, jsonInventoryRecoverySchema)
-      : await callDoubaoJson(apiKey, baseUrl, model, system, prompt, jsonInventoryRecoverySchema, "inventory_recovery");
-
-  const parsed = safeJsonParse(result.content);
+  const result = await callJsonTask(options, { system, prompt, schema: inventoryRecoveryTask });
+  const parsed = safeJsonParse(result.content, result.tokenUsage);
   return {
     initialInventory: Array.isArray(parsed?.initialInventory) ? parsed.initialInventory : [],
     inventoryChanges: Array.isArray(parsed?.inventoryChanges) ? parsed.inventoryChanges : [],
@@ -3608,15 +2109,20 @@ export async function compressMemory(
   payload: { saveState: any; compressedMemory: string; recentHistory: HistoryEntry[] },
   lang: Language,
   maxMemoryK: number,
-  options?: { tier?: UserTier; apiKey?: string; proxyApiKey?: string; proxyBaseUrl?: string; useProxy?: boolean; textModel?: TextModelId; provider?: ModelProvider }
+  options?: { tier?: UserTier; apiKey?: string; proxyApiKey?: string; proxyBaseUrl?: string; useProxy?: boolean; localBaseUrl?: string; textModel?: TextModelId; provider?: ModelProvider }
 ): Promise<{ memory: string; tokenUsage?: TokenUsage }> {
-  const provider = normalizeProvider(options?.provider);
-  const useProxy = !!options?.useProxy;
-  
+  if (isGuestGemini(options)) {
+    return compressGeminiMemory(payload, lang, maxMemoryK, {
+      tier: options?.tier,
+      apiKey: options?.apiKey,
+      textModel: options?.textModel
+    });
+  }
+
   const historyText = payload.recentHistory
     .map(entry => `${entry.sender.toUpperCase()}: ${entry.text}`)
     .join("\n");
-    
+
   const safeHistoryText = removeBase64Images(historyText);
   const safeSaveState = removeBase64Images(JSON.stringify(payload.saveState));
   const safeCompressedMemory = removeBase64Images(payload.compressedMemory || 'None');
@@ -3638,77 +2144,11 @@ Return JSON: {"memory": "..."} only.`;
 3. Output language must be ${targetLang}.
 4. Return JSON with key "memory" only.`;
 
-  if (provider === "gemini") {
-    if (options?.tier === "guest") {
-      return compressGeminiMemory(payload, lang, maxMemoryK, {
-        tier: options?.tier,
-        apiKey: options?.apiKey,
-        textModel: options?.textModel
-      });
-    }
-    const proxyBaseUrl = normalizeBaseUrl(options?.proxyBaseUrl);
-    if (useProxy && !proxyBaseUrl) {
-      throw new Error("Missing proxy base URL.");
-    }
-    const apiKey = requireApiKey(useProxy ? options?.proxyApiKey : options?.apiKey, provider);
-    const model = options?.textModel || "";
-    if (!model) {
-      throw new Error("Missing text model name.");
-    }
-    const ai = new GoogleGenAI({
-      apiKey,
-      ...(proxyBaseUrl ? { httpOptions: { baseUrl: proxyBaseUrl } } : {})
-    });
-    const response = await callGeminiJsonWithCache(ai, {
-      apiKey,
-      baseUrl: proxyBaseUrl || "",
-      model,
-      prompt,
-      systemInstruction: system,
-      responseSchema: memorySchema
-    });
-    if (!response.text) {
-      throw new Error("No response from compression service.");
-    }
-    const parsed = safeJsonParse(response.text);
-    const memory = typeof parsed?.memory === "string" ? parsed.memory.trim() : "";
-    const tokenUsage = normalizeTokenUsage({
-      promptTokens: response.usageMetadata?.promptTokenCount,
-      completionTokens: response.usageMetadata?.candidatesTokenCount,
-      totalTokens: response.usageMetadata?.totalTokenCount
-    }, `${system}\n${prompt}`, response.text);
-    if (!memory) {
-      throw new Error("Compression returned empty memory.");
-    }
-    return { memory, tokenUsage };
-  }
-
-  const baseUrl = resolveBaseUrl(provider, useProxy ? options?.proxyBaseUrl : undefined);
-  if (useProxy && !baseUrl) {
-    throw new Error("Missing proxy base URL.");
-  }
-  const apiKey = requireApiKey(useProxy ? options?.proxyApiKey : options?.apiKey, provider);
-  const model = options?.textModel || "";
-  if (!model) {
-    throw new Error("Missing text model name.");
+  const result = await callJsonTask(options, { system, prompt, schema: memoryTask });
+  if (!result.content) {
+    throw new Error("No response from compression service.");
   }
-
-  const result = isOpenAiCompatible(provider)
-    ? await callOpenAiJson(
-      apiKey,
-      baseUrl,
-      model,
-      system,
-      prompt,
-      jsonMemorySchema,
-      "memory",
-      getOpenAiLabel(provider)
-    )
-    : provider === "claude"
-      ? await callClaudeJson(apiKey, baseUrl, model, system, prompt, jsonMemorySchema)
-      : await callDoubaoJson(apiKey, baseUrl, model, system, prompt, jsonMemorySchema, "memory");
-
-  const parsed = safeJsonParse(result.content);
+  const parsed = safeJsonParse(result.content, result.tokenUsage);
   const memory = typeof parsed?.memory === "string" ? parsed.memory.trim() : "";
   if (!memory) {
     throw new Error("Compression returned empty memory.");
@@ -3716,92 +2156,104 @@ Return JSON: {"memory": "..."} only.`;
   return { memory, tokenUsage: result.tokenUsage };
 }
 
-export async function generateCompanionAvatar(
-  npc: Actor,
-  options?: { tier?: UserTier; apiKey?: string; proxyApiKey?: string; proxyBaseUrl?: string; useProxy?: boolean; imageModel?: ImageModelId; provider?: ModelProvider; imageUserSystemPrompt?: string }
-): Promise<{ url?: string; error?: string } | undefined> {
-  const provider = normalizeProvider(options?.provider);
-  const useProxy = !!options?.useProxy;
-  if (provider === "gemini") {
-    if (options?.tier === "guest") {
-      return generateGeminiAvatar(npc, {
-        tier: options?.tier,
-        apiKey: options?.apiKey,
-        imageModel: options?.imageModel,
-        imageUserSystemPrompt: options?.imageUserSystemPrompt
-      });
-    }
-    const proxyBaseUrl = normalizeBaseUrl(options?.proxyBaseUrl);
-    if (useProxy && !proxyBaseUrl) {
-      return { error: "Missing proxy base URL." };
-    }
-    const apiKey = requireApiKey(useProxy ? options?.proxyApiKey : options?.apiKey, provider);
-    const model = options?.imageModel || "";
-    if (!model) {
-      return { error: "Missing image model name." };
-    }
-    const appearance = npc.appearance?.trim() || npc.lore?.trim();
-    const appearanceLine = appearance ? `Appearance: ${appearance}.` : '';
-    const guidanceLine = buildUserGuidanceLine(options?.imageUserSystemPrompt);
-    const guidanceBlock = guidanceLine ? `\n${guidanceLine}` : "";
-    const prompt = `Fallout companion portrait. Name: ${npc.name}. Faction: ${npc.faction}. Gender: ${npc.gender}. Age: ${npc.age}. ${appearanceLine} Style: Pip-Boy dossier headshot, gritty, realistic, neutral background.${guidanceBlock}`;
-    try {
-      const imageAi = new GoogleGenAI({
-        apiKey,
-        ...(proxyBaseUrl ? { httpOptions: { baseUrl: proxyBaseUrl } } : {})
-      });
-      const response = await imageAi.models.generateContent({
-        model,
-        contents: {
-          parts: [{ text: prompt }]
-        },
-        config: {
-          imageConfig: { aspectRatio: "1:1" }
-        }
-      });
-      if (response.candidates?.[0]?.content?.parts) {
-        for (const part of response.candidates[0].content.parts) {
-          if (part.inlineData) {
-            const rawBase64 = `data:image/png;base64,${part.inlineData.data}`;
-            const resized = await resizeImageToSquare(rawBase64, 100);
-            return { url: resized };
-          }
-        }
-      }
-      return { error: "No image data returned from the model." };
-    } catch (e) {
-      return { error: e instanceof Error ? e.message : String(e) };
-    }
+// A read-only reminder for the tracked quest; it is not a turn, so it never touches AP or the status track.
+export async function getQuestRecap(
+  quest: Quest,
+  recentHistory: HistoryEntry[],
+  lang: Language,
+  options?: { tier?: UserTier; apiKey?: string; proxyApiKey?: string; proxyBaseUrl?: string; useProxy?: boolean; localBaseUrl?: string; textModel?: TextModelId; provider?: ModelProvider }
+): Promise<{ recap: string; tokenUsage?: TokenUsage }> {
+  if (isGuestGemini(options)) {
+    return getGeminiQuestRecap(quest, recentHistory, lang, {
+      tier: options?.tier,
+      apiKey: options?.apiKey,
+      textModel: options?.textModel
+    });
   }
-  if (provider === "claude") {
-    return { error: "Claude image generation is not supported." };
+
+  const historyText = removeBase64Images(recentHistory
+    .map(entry => `${entry.sender.toUpperCase()}: ${entry.text}`)
+    .join("\n"));
+
+  const prompt = `TRACKED QUEST (JSON, including hidden progress and journal):
+${JSON.stringify(quest)}
+
+RECENT HISTORY:
+${historyText || "None"}
+
+Return JSON: {"recap": "..."} only.`;
+  const targetLang = lang === "zh" ? "Chinese" : "English";
+  const system = `You are the Pip-Boy Quest Log.
+1. Remind the player where they stand on the tracked quest: what happened so far, what they were doing last, and what the current objective asks of them.
+2. Use the hidden progress and journal for accuracy, but do not reveal twists the player has not discovered yet.
+3. Keep it to one short paragraph and do not advance the story.
+4. Output language must be ${targetLang}.
+5. Return JSON with key "recap" only.`;
+
+  const result = await callJsonTask(options, { system, prompt, schema: questRecapTask });
+  if (!result.content) {
+    throw new Error("No response from quest recap.");
+  }
+  const parsed = safeJsonParse(result.content, result.tokenUsage);
+  const recap = typeof parsed?.recap === "string" ? parsed.recap.trim() : "";
+  if (!recap) {
+    throw new Error("Quest recap came back empty.");
+  }
+  return { recap, tokenUsage: result.tokenUsage };
+}
+
+// The perks offered at a level-up, fitted to the save's era and region; the pick itself is recorded locally.
+export async function getPerkOffer(
+  player: Actor,
+  level: number,
+  year: number,
+  location: string,
+  lang: Language,
+  options?: { tier?: UserTier; apiKey?: string; proxyApiKey?: string; proxyBaseUrl?: string; useProxy?: boolean; localBaseUrl?: string; textModel?: TextModelId; provider?: ModelProvider }
+): Promise<{ perks: Perk[]; tokenUsage?: TokenUsage }> {
+  if (isGuestGemini(options)) {
+    return getGeminiPerkOffer(player, level, year, location, lang, {
+      tier: options?.tier,
+      apiKey: options?.apiKey,
+      textModel: options?.textModel
+    });
   }
 
-  const baseUrl = resolveBaseUrl(provider, useProxy ? options?.proxyBaseUrl : undefined);
-  if (useProxy && !baseUrl) {
-    return { error: "Missing proxy base URL." };
+  const prompt = buildPerkOfferPrompt(player, level, year, location);
+  const system = buildPerkOfferSystem(lang === "zh" ? "Chinese" : "English");
+  const result = await callJsonTask(options, { system, prompt, schema: perkOfferTask });
+  if (!result.content) {
+    throw new Error("No response from perk offer.");
   }
-  const apiKey = requireApiKey(useProxy ? options?.proxyApiKey : options?.apiKey, provider);
-  const model = options?.imageModel || "";
-  if (!model) {
-    return { error: "Missing image model name." };
+  const parsed = safeJsonParse(result.content, result.tokenUsage);
+  const perks = normalizePerkChoices(parsed?.perks, player);
+  if (perks.length === 0) {
+    throw new Error("Perk offer came back empty.");
   }
+  return { perks, tokenUsage: result.tokenUsage };
+}
 
+export async function generateCompanionAvatar(
+  npc: Actor,
+  options?: { tier?: UserTier; apiKey?: string; proxyApiKey?: string; proxyBaseUrl?: string; useProxy?: boolean; localBaseUrl?: string; imageModel?: ImageModelId; provider?: ModelProvider; imageUserSystemPrompt?: string }
+): Promise<{ url?: string; error?: string } | undefined> {
+  if (isGuestGemini(options)) {
+    return generateGeminiAvatar(npc, {
+      tier: options?.tier,
+      apiKey: options?.apiKey,
+      imageModel: options?.imageModel,
+      imageUserSystemPrompt: options?.imageUserSystemPrompt
+    });
+  }
   const appearance = npc.appearance?.trim() || npc.lore?.trim();
   const appearanceLine = appearance ? `Appearance: ${appearance}.` : '';
-  const prompt = `Fallout companion portrait. Name: ${npc.name}. Faction: ${npc.faction}. Gender: ${npc.gender}. Age: ${npc.age}. ${appearanceLine} Style: Pip-Boy dossier headshot, gritty, realistic, neutral background.`;
+  const guidanceLine = buildUserGuidanceLine(options?.imageUserSystemPrompt);
+  const guidanceBlock = guidanceLine ? `\n${guidanceLine}` : "";
+  const prompt = `Fallout companion portrait. Name: ${npc.name}. Faction: ${npc.faction}. Gender: ${npc.gender}. Age: ${npc.age}. ${appearanceLine} Style: Pip-Boy dossier headshot, gritty, realistic, neutral background.${guidanceBlock}`;
   try {
-    const base64 = isOpenAiCompatible(provider)
-      ? await generateOpenAiImage(apiKey, baseUrl, model, prompt, provider)
-      : await generateDoubaoImage(apiKey, baseUrl, model, prompt);
-    if (!base64) {
-      return { error: "No image data returned from the model." };
-    }
-    if (provider === "grok" && /^https?:/i.test(base64)) {
-      return { url: base64 };
-    }
-    const resized = await resizeImageToSquare(`data:image/png;base64,${base64}`, 100);
-    return { url: resized };
+    const image = await generateImageTask(options, prompt, "1:1");
+    const url = await toImageUrl(image, dataUrl => resizeImageToSquare(dataUrl, 100));
+    return url ? { url } : { error: "No image data returned from the model." };
   } catch (e) {
     return { error: e instanceof Error ? e.message : String(e) };
   }
@@ -3818,6 +2270,7 @@ export async function generateArenaAvatar(
     proxyBaseUrl?: string;
     textProxyBaseUrl?: string;
     useProxy?: boolean;
+    localBaseUrl?: string;
     imageModel?: ImageModelId;
     textModel?: TextModelId;
     provider?: ModelProvider;
@@ -3827,143 +2280,20 @@ export async function generateArenaAvatar(
     imageUserSystemPrompt?: string;
   }
 ): Promise<{ url?: string; error?: string } | undefined> {
-  const imageProvider = normalizeProvider(options?.provider);
-  const researchProvider = normalizeProvider(options?.textProvider || options?.provider);
-  const useProxy = !!options?.useProxy;
-  const proxyBaseUrl = normalizeBaseUrl(options?.proxyBaseUrl);
-  const researchProxyBaseUrl = normalizeBaseUrl(options?.textProxyBaseUrl || options?.proxyBaseUrl);
-  if (useProxy && !proxyBaseUrl) {
-    return { error: "Missing proxy base URL." };
-  }
-  if (imageProvider === "claude") {
-    return { error: "Claude image generation is not supported." };
-  }
-
-  const imageApiKey = requireApiKey(useProxy ? options?.proxyApiKey : options?.apiKey, imageProvider);
-  const imageModel = options?.imageModel || "";
-  if (!imageModel) {
-    return { error: "Missing image model name." };
-  }
-
   const basePrompt = `Fallout dossier portrait for "${label}". Description: ${description}. Style: Pip-Boy dossier headshot, gritty, realistic, neutral background.`;
-  let finalPrompt = basePrompt;
   const guidanceLine = buildUserGuidanceLine(options?.imageUserSystemPrompt);
   const guidanceBlock = guidanceLine ? `\n${guidanceLine}` : "";
-
-  if (options?.highQuality !== false && options?.textModel) {
-    const textModel = options.textModel;
-    const researchApiKey = useProxy
-      ? (options?.textProxyApiKey || options?.proxyApiKey)
-      : (options?.textApiKey || options?.apiKey);
-    if (researchProvider === "gemini" && researchApiKey) {
-      try {
-        const researchAi = new GoogleGenAI({
-          apiKey: researchApiKey,
-          ...(researchProxyBaseUrl ? { httpOptions: { baseUrl: researchProxyBaseUrl } } : {})
-        });
-        const researchResponse = await researchAi.models.generateContent({
-          model: textModel,
-          contents: `Research a Fallout portrait for: ${description}.${guidanceBlock}
-1. Identify key visual traits, attire, and faction motifs.
-2. Use Fallout Wiki terms when possible.
-3. Output a concise portrait description for a concept artist.`,
-          config: {
-            tools: [{ googleSearch: {} }]
-          }
-        });
-        if (researchResponse?.text) {
-          finalPrompt = `Fallout dossier portrait. ${researchResponse.text}`;
-        }
-      } catch {
-        finalPrompt = basePrompt;
-      }
-    } else if (researchProvider === "grok" && researchApiKey) {
-      try {
-        const researchBaseUrl = resolveBaseUrl(researchProvider, useProxy ? researchProxyBaseUrl : undefined);
-        const researchResponse = await callGrokWebSearch(
-          researchApiKey,
-          researchBaseUrl,
-          textModel,
-          `Research a Fallout portrait for: ${description}.${guidanceBlock}
-1. Identify key visual traits, attire, and faction motifs.
-2. Use Fallout Wiki terms when possible.
-3. Output a concise portrait description for a concept artist.
-4. Return plain text only, no citations or URLs. Keep it under 500 characters.`
-        , 500
-        );
-        if (researchResponse.text) {
-          finalPrompt = `Fallout dossier portrait. ${researchResponse.text}`;
-        }
-      } catch {
-        finalPrompt = basePrompt;
-      }
-    } else if (researchProvider === "openai" && researchApiKey) {
-      try {
-        const researchBaseUrl = resolveBaseUrl(researchProvider, useProxy ? researchProxyBaseUrl : undefined);
-        const researchResponse = await callOpenAiWebSearch(
-          researchApiKey,
-          researchBaseUrl,
-          textModel,
-          `Research a Fallout portrait for: ${description}.${guidanceBlock}
-1. Identify key visual traits, attire, and faction motifs.
-2. Use Fallout Wiki terms when possible.
-3. Output a concise portrait description for a concept artist.
-4. Return plain text only, no citations or URLs. Keep it under 500 characters.`
-        , 500
-        );
-        if (researchResponse.text) {
-          finalPrompt = `Fallout dossier portrait. ${researchResponse.text}`;
-        }
-      } catch {
-        finalPrompt = basePrompt;
-      }
-    }
-  }
-
   try {
-    if (imageProvider === "gemini") {
-      const imageAi = new GoogleGenAI({
-        apiKey: imageApiKey,
-        ...(proxyBaseUrl ? { httpOptions: { baseUrl: proxyBaseUrl } } : {})
-      });
-      const response = await imageAi.models.generateContent({
-        model: imageModel,
-        contents: {
-          parts: [{ text: finalPrompt }]
-        },
-        config: {
-          imageConfig: { aspectRatio: "1:1" }
-        }
-      });
-      if (response.candidates?.[0]?.content?.parts) {
-        for (const part of response.candidates[0].content.parts) {
-          if (part.inlineData) {
-            const rawBase64 = `data:image/png;base64,${part.inlineData.data}`;
-            const resized = await resizeImageToSquare(rawBase64, 100);
-            return { url: resized };
-          }
-        }
+    let finalPrompt = basePrompt;
+    if (options?.highQuality !== false) {
+      const research = await researchImagePrompt(options, buildPortraitResearchPrompt(description, guidanceBlock), 500);
+      if (research?.text) {
+        finalPrompt = `Fallout dossier portrait. ${research.text}`;
       }
-      return { error: "No image data returned from the model." };
-    }
-
-    const base64 = isOpenAiCompatible(imageProvider)
-      ? await generateOpenAiImage(
-        imageApiKey,
-        resolveBaseUrl(imageProvider, proxyBaseUrl),
-        imageModel,
-        finalPrompt,
-        imageProvider
-      )
-      : await generateDoubaoImage(imageApiKey, resolveBaseUrl(imageProvider, proxyBaseUrl), imageModel, finalPrompt);
-    if (!base64) {
-      return { error: "No image data returned from the model." };
-    }
-    if (imageProvider === "grok" && /^https?:/i.test(base64)) {
-      return { url: base64 };
     }
-    const resized = await resizeImageToSquare(`data:image/png;base64,${base64}`, 100);
-    return { url: resized };
+    const image = await generateImageTask(options, finalPrompt, "1:1");
+    const url = await toImageUrl(image, dataUrl => resizeImageToSquare(dataUrl, 100));
+    return url ? { url } : { error: "No image data returned from the model." };
   } catch (e) {
     return { error: e instanceof Error ? e.message : String(e) };
   }
@@ -3971,257 +2301,34 @@ export async function generateArenaAvatar(
 
 export async function generateSceneImage(
   prompt: string,
-  options?: { highQuality?: boolean; tier?: UserTier; apiKey?: string; proxyApiKey?: string; proxyBaseUrl?: string; textProxyBaseUrl?: string; useProxy?: boolean; imageModel?: ImageModelId; textModel?: TextModelId; provider?: ModelProvider; textProvider?: ModelProvider; textApiKey?: string; textProxyApiKey?: string; imageUserSystemPrompt?: string }
+  options?: { highQuality?: boolean; tier?: UserTier; apiKey?: string; proxyApiKey?: string; proxyBaseUrl?: string; textProxyBaseUrl?: string; useProxy?: boolean; localBaseUrl?: string; imageModel?: ImageModelId; textModel?: TextModelId; provider?: ModelProvider; textProvider?: ModelProvider; textApiKey?: string; textProxyApiKey?: string; imageUserSystemPrompt?: string }
 ): Promise<{ url?: string; sources?: GroundingSource[]; error?: string } | undefined> {
-  const imageProvider = normalizeProvider(options?.provider);
-  const researchProvider = normalizeProvider(options?.textProvider || options?.provider);
-  const useProxy = !!options?.useProxy;
-  const contextSuffix = buildImageContext(options?.imageUserSystemPrompt);
-  const imageContextSuffix = contextSuffix;
+  const imageContextSuffix = buildImageContext(options?.imageUserSystemPrompt);
   const guidanceLine = buildUserGuidanceLine(options?.imageUserSystemPrompt);
   const guidanceBlock = guidanceLine ? `\n${guidanceLine}` : "";
-  if (imageProvider === "gemini") {
-    if (options?.tier === "guest") {
-      const guestPrompt = imageContextSuffix ? `${prompt}\n${imageContextSuffix}` : prompt;
-      return generateGeminiScene(guestPrompt, {
-        highQuality: options?.highQuality,
-        tier: options?.tier,
-        apiKey: options?.apiKey,
-        imageModel: options?.imageModel,
-        textModel: options?.textModel
-      });
-    }
-    const proxyBaseUrl = normalizeBaseUrl(options?.proxyBaseUrl);
-    const researchProxyBaseUrl = normalizeBaseUrl(options?.textProxyBaseUrl || options?.proxyBaseUrl);
-    if (useProxy && !proxyBaseUrl) {
-      return { error: "Missing proxy base URL." };
-    }
-    const imageApiKey = requireApiKey(useProxy ? options?.proxyApiKey : options?.apiKey, imageProvider);
-    const imageModel = options?.imageModel || "";
-    if (!imageModel) {
-      return { error: "Missing image model name." };
-    }
-    const textModel = options?.textModel || "";
-    const useHighQuality = options?.highQuality !== false;
-    const researchApiKey = useProxy
-      ? (options?.textProxyApiKey || options?.proxyApiKey)
-      : (options?.textApiKey || options?.apiKey);
-    try {
-      let detailedDescription = prompt;
-      let groundingSources: GroundingSource[] = [];
-      if (useHighQuality && textModel && researchApiKey) {
-        if (researchProvider === "gemini") {
-          const researchAi = new GoogleGenAI({
-            apiKey: researchApiKey,
-            ...(researchProxyBaseUrl ? { httpOptions: { baseUrl: researchProxyBaseUrl } } : {})
-          });
-          try {
-            const researchResponse = await researchAi.models.generateContent({
-              model: textModel,
-              contents: `Research visual references for this Fallout scene: "${prompt}".${guidanceBlock}
-1. Extract 3-5 keywords related to Fallout lore, items, or environment.
-2. Search for these keywords + "Fallout" on Google to identify high-quality visual benchmarks (e.g. from Fallout 4 or New Vegas).
-3. Based on your search results, describe the exact textures, lighting (e.g. dawn over the Mojave, fluorescent flickering in a vault), and key props.
-4. Format your final response as a detailed scene description for a concept artist.`,
-              config: {
-                tools: [{ googleSearch: {} }]
-              }
-            });
-            if (researchResponse?.text) {
-              detailedDescription = researchResponse.text;
-            }
-            groundingSources = researchResponse?.candidates?.[0]?.groundingMetadata?.groundingChunks
-              ?.filter((chunk: any) => chunk.web)
-              ?.map((chunk: any) => ({
-                title: chunk.web.title,
-                uri: chunk.web.uri
-              })) || [];
-          } catch {
-            // Skip research if the model does not support search.
-          }
-        } else if (researchProvider === "grok") {
-          try {
-            const researchBaseUrl = resolveBaseUrl(researchProvider, useProxy ? researchProxyBaseUrl : undefined);
-            const researchResponse = await callGrokWebSearch(
-              researchApiKey,
-              researchBaseUrl,
-              textModel,
-              `Research visual references for this Fallout scene: "${prompt}".${guidanceBlock}
-1. Extract 3-5 keywords related to Fallout lore, items, or environment.
-2. Search for these keywords + "Fallout" on Google to identify high-quality visual benchmarks (e.g. from Fallout 4 or New Vegas).
-3. Based on your search results, describe the exact textures, lighting (e.g. dawn over the Mojave, fluorescent flickering in a vault), and key props.
-4. Format your final response as a detailed scene description for a concept artist.
-5. Return plain text only, no citations or URLs. Keep it under 800 characters.`
-            , 800
-            );
-            if (researchResponse.text) {
-              detailedDescription = researchResponse.text;
-            }
-            groundingSources = researchResponse.sources;
-          } catch {
-            // Skip research if not supported.
-          }
-        } else if (researchProvider === "openai") {
-          try {
-            const researchBaseUrl = resolveBaseUrl(researchProvider, useProxy ? researchProxyBaseUrl : undefined);
-            const researchResponse = await callOpenAiWebSearch(
-              researchApiKey,
-              researchBaseUrl,
-              textModel,
-              `Research visual references for this Fallout scene: "${prompt}".${guidanceBlock}
-1. Extract 3-5 keywords related to Fallout lore, items, or environment.
-2. Search for these keywords + "Fallout" on Google to identify high-quality visual benchmarks (e.g. from Fallout 4 or New Vegas).
-3. Based on your search results, describe the exact textures, lighting (e.g. dawn over the Mojave, fluorescent flickering in a vault), and key props.
-4. Format your final response as a detailed scene description for a concept artist.
-5. Return plain text only, no citations or URLs. Keep it under 800 characters.`
-            , 800
-            );
-            if (researchResponse.text) {
-              detailedDescription = researchResponse.text;
-            }
-          } catch {
-            // Skip research if not supported.
-          }
-        }
-      }
-      const finalDescription = imageContextSuffix ? `${detailedDescription}\n${imageContextSuffix}` : detailedDescription;
-      const finalPrompt = buildImagePrompt(finalDescription, useHighQuality);
-      const imageAi = new GoogleGenAI({
-        apiKey: imageApiKey,
-        ...(proxyBaseUrl ? { httpOptions: { baseUrl: proxyBaseUrl } } : {})
-      });
-      const imageResponse = await imageAi.models.generateContent({
-        model: imageModel,
-        contents: {
-          parts: [{ text: finalPrompt }]
-        },
-        config: {
-          imageConfig: { aspectRatio: "16:9" }
-        }
-      });
-      if (imageResponse.candidates?.[0]?.content?.parts) {
-        for (const part of imageResponse.candidates[0].content.parts) {
-          if (part.inlineData) {
-            const rawBase64 = `data:image/png;base64,${part.inlineData.data}`;
-            const compressed = await compressImage(rawBase64);
-            return { url: compressed, sources: groundingSources };
-          }
-        }
-      }
-      return { error: "No image data returned from the model." };
-    } catch (e) {
-      return { error: e instanceof Error ? e.message : String(e) };
-    }
-  }
-  if (imageProvider === "claude") {
-    return { error: "Claude image generation is not supported." };
-  }
-
-  const baseUrl = resolveBaseUrl(imageProvider, useProxy ? options?.proxyBaseUrl : undefined);
-  const researchProxyBaseUrl = normalizeBaseUrl(options?.textProxyBaseUrl || options?.proxyBaseUrl);
-  if (useProxy && !baseUrl) {
-    return { error: "Missing proxy base URL." };
-  }
-  const apiKey = requireApiKey(useProxy ? options?.proxyApiKey : options?.apiKey, imageProvider);
-  const model = options?.imageModel || "";
-  if (!model) {
-    return { error: "Missing image model name." };
+  if (isGuestGemini(options)) {
+    const guestPrompt = imageContextSuffix ? `${prompt}\n${imageContextSuffix}` : prompt;
+    return generateGeminiScene(guestPrompt, {
+      highQuality: options?.highQuality,
+      tier: options?.tier,
+      apiKey: options?.apiKey,
+      imageModel: options?.imageModel,
+      textModel: options?.textModel
+    });
   }
   try {
-    let detailedDescription = prompt;
-    let groundingSources: GroundingSource[] = [];
     const useHighQuality = options?.highQuality !== false;
-    const researchApiKey = useProxy
-      ? (options?.textProxyApiKey || options?.proxyApiKey)
-      : (options?.textApiKey || options?.apiKey);
-    if (useHighQuality && options?.textModel && researchApiKey) {
-      if (researchProvider === "gemini") {
-        try {
-          const researchAi = new GoogleGenAI({
-            apiKey: researchApiKey,
-            ...(useProxy && researchProxyBaseUrl ? { httpOptions: { baseUrl: researchProxyBaseUrl } } : {})
-          });
-          const researchResponse = await researchAi.models.generateContent({
-            model: options.textModel,
-            contents: `Research visual references for this Fallout scene: "${prompt}".${guidanceBlock}
-1. Extract 3-5 keywords related to Fallout lore, items, or environment.
-2. Search for these keywords + "Fallout" on Google to identify high-quality visual benchmarks (e.g. from Fallout 4 or New Vegas).
-3. Based on your search results, describe the exact textures, lighting (e.g. dawn over the Mojave, fluorescent flickering in a vault), and key props.
-4. Format your final response as a detailed scene description for a concept artist.`,
-            config: {
-              tools: [{ googleSearch: {} }]
-            }
-          });
-          if (researchResponse?.text) {
-            detailedDescription = researchResponse.text;
-          }
-          groundingSources = researchResponse?.candidates?.[0]?.groundingMetadata?.groundingChunks
-            ?.filter((chunk: any) => chunk.web)
-            ?.map((chunk: any) => ({
-              title: chunk.web.title,
-              uri: chunk.web.uri
-            })) || [];
-        } catch {
-          // Skip research if not supported.
-        }
-      } else if (researchProvider === "grok") {
-        try {
-          const researchBaseUrl = resolveBaseUrl(researchProvider, useProxy ? researchProxyBaseUrl : undefined);
-          const researchResponse = await callGrokWebSearch(
-            researchApiKey,
-            researchBaseUrl,
-            options.textModel,
-            `Research visual references for this Fallout scene: "${prompt}".${guidanceBlock}
-1. Extract 3-5 keywords related to Fallout lore, items, or environment.
-2. Search for these keywords + "Fallout" on Google to identify high-quality visual benchmarks (e.g. from Fallout 4 or New Vegas).
-3. Based on your search results, describe the exact textures, lighting (e.g. dawn over the Mojave, fluorescent flickering in a vault), and key props.
-4. Format your final response as a detailed scene description for a concept artist.
-5. Return plain text only, no citations or URLs. Keep it under 800 characters.`
-          , 800
-          );
-          if (researchResponse.text) {
-            detailedDescription = researchResponse.text;
-          }
-          groundingSources = researchResponse.sources;
-        } catch {
-          // Skip research if not supported.
-        }
-      } else if (researchProvider === "openai") {
-        try {
-          const researchBaseUrl = resolveBaseUrl(researchProvider, useProxy ? researchProxyBaseUrl : undefined);
-          const researchResponse = await callOpenAiWebSearch(
-            researchApiKey,
-            researchBaseUrl,
-            options.textModel,
-            `Research visual references for this Fallout scene: "${prompt}".${guidanceBlock}
-1. Extract 3-5 keywords related to Fallout lore, items, or environment.
-2. Search for these keywords + "Fallout" on Google to identify high-quality visual benchmarks (e.g. from Fallout 4 or New Vegas).
-3. Based on your search results, describe the exact textures, lighting (e.g. dawn over the Mojave, fluorescent flickering in a vault), and key props.
-4. Format your final response as a detailed scene description for a concept artist.
-5. Return plain text only, no citations or URLs. Keep it under 800 characters.`
-          , 800
-          );
-          if (researchResponse.text) {
-            detailedDescription = researchResponse.text;
-          }
-        } catch {
-          // Skip research if not supported.
-        }
-      }
-    }
+    const research = useHighQuality
+      ? await researchImagePrompt(options, buildSceneResearchPrompt(prompt, guidanceBlock), 800)
+      : null;
+    const detailedDescription = research?.text || prompt;
     const finalDescription = imageContextSuffix ? `${detailedDescription}\n${imageContextSuffix}` : detailedDescription;
     const finalPrompt = buildImagePrompt(finalDescription, useHighQuality);
-    const base64 = isOpenAiCompatible(imageProvider)
-      ? await generateOpenAiImage(apiKey, baseUrl, model, finalPrompt, imageProvider)
-      : await generateDoubaoImage(apiKey, baseUrl, model, finalPrompt);
-    if (!base64) {
-      return { error: "No image data returned from the model." };
-    }
-    if (imageProvider === "grok" && /^https?:/i.test(base64)) {
-      return { url: base64, sources: groundingSources };
-    }
-    const compressed = await compressImage(`data:image/png;base64,${base64}`);
-    return { url: compressed, sources: groundingSources };
+    const image = await generateImageTask(options, finalPrompt, "16:9");
+    const url = await toImageUrl(image, compressImage);
+    return url
+      ? { url, sources: research?.sources || [] }
+      : { error: "No image data returned from the model." };
   } catch (e) {
     return { error: e instanceof Error ? e.message : String(e) };
   }
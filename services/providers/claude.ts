@@ -0,0 +1,182 @@
+import { registerProvider } from "./registry";
+import {
+  JsonCallRuntimeOptions,
+  StreamedJsonResult,
+  buildRequestFailedMessage,
+  consumeSse,
+  createNarrationStreamAccumulator,
+  fetchStreamWithPromptCacheRetry,
+  fetchWithPromptCacheRetry,
+  formatHttpError,
+  isStreamUnsupportedError,
+  normalizeTokenUsage,
+  tryParseJson
+} from "./shared";
+import { JsonSchema } from "./types";
+
+const CLAUDE_BASE_URL = "https://api.anthropic.com/v1";
+
+// input_tokens excludes prompt-cache reads and writes, which are still billed as input.
+const readClaudeUsage = (usage: any) => {
+  const cacheRead = usage?.cache_read_input_tokens ?? 0;
+  const promptTokens = (usage?.input_tokens ?? 0) + cacheRead + (usage?.cache_creation_input_tokens ?? 0);
+  const completionTokens = usage?.output_tokens ?? 0;
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+    cachedTokens: cacheRead
+  };
+};
+
+const callClaudeJson = async (
+  apiKey: string,
+  baseUrl: string,
+  model: string,
+  system: string,
+  prompt: string,
+  schema?: JsonSchema,
+  runtimeOptions?: JsonCallRuntimeOptions
+) => {
+  const narrationStream = createNarrationStreamAccumulator(runtimeOptions?.onNarrationStream);
+  const headers = {
+    "Content-Type": "application/json",
+    "x-api-key": apiKey,
+    "anthropic-version": "2023-06-01"
+  };
+  const buildBody = (stream = false, allowPromptCache = true) => {
+    const body: Record<string, any> = {
+      model,
+      max_tokens: 4096,
+      system: allowPromptCache
+        ? [{ type: "text", text: system, cache_control: { type: "ephemeral" } }]
+        : system,
+      messages: [{ role: "user", content: prompt }]
+    };
+    if (schema) {
+      body.output_format = {
+        type: "json_schema",
+        schema
+      };
+      body.betas = ["structured-outputs-2025-11-13"];
+    }
+    if (stream) {
+      body.stream = true;
+    }
+    return body;
+  };
+
+  const parseClaudeStream = async (res: Response): Promise<StreamedJsonResult> => {
+    let content = "";
+    let usage: any;
+
+    await consumeSse(res.body, ({ event, data }) => {
+      if (!data || data === "[DONE]") {
+        return;
+      }
+      const payload = tryParseJson(data);
+      if (!payload || typeof payload !== "object") {
+        return;
+      }
+      const eventType = typeof payload.type === "string" ? payload.type : event;
+      if (eventType === "content_block_delta") {
+        const delta = payload?.delta?.text;
+        if (typeof delta === "string") {
+          content += delta;
+          narrationStream.append(delta);
+        }
+      }
+      if (eventType === "message_start" && payload?.message?.usage) {
+        usage = payload.message.usage;
+      }
+      // message_delta only carries the output count; keep the input counts from message_start.
+      if (eventType === "message_delta" && payload?.usage) {
+        usage = { ...usage, ...payload.usage };
+      }
+    });
+
+    if (!content.trim()) {
+      throw new Error("Claude response contained no output.");
+    }
+
+    narrationStream.finalize(content);
+    const tokenUsage = normalizeTokenUsage(readClaudeUsage(usage), `${system}\n${prompt}`, content);
+    return { content, tokenUsage };
+  };
+
+  if (runtimeOptions?.onNarrationStream) {
+    const { res: streamRes, errorText: streamErrorText } = await fetchStreamWithPromptCacheRetry(
+      (allowPromptCache) => fetch(`${baseUrl}/messages`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(buildBody(true, allowPromptCache))
+      }),
+      true
+    );
+    if (streamRes.ok) {
+      return parseClaudeStream(streamRes);
+    }
+    if (!isStreamUnsupportedError(streamRes.status, streamErrorText)) {
+      throw new Error(buildRequestFailedMessage("Claude", streamRes.status, streamErrorText));
+    }
+  }
+
+  const initialClaudeResult = await fetchWithPromptCacheRetry(
+    (allowPromptCache) => fetch(`${baseUrl}/messages`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(buildBody(false, allowPromptCache))
+    }),
+    true
+  );
+  let res = initialClaudeResult.res;
+  const errorText = initialClaudeResult.errorText;
+  if (!res.ok) {
+    const formatRejected = errorText.includes("output_format") || errorText.includes("json_schema") || errorText.includes("structured");
+    if (schema && formatRejected) {
+      res = await fetch(`${baseUrl}/messages`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          model,
+          max_tokens: 4096,
+          system,
+          messages: [{ role: "user", content: prompt }]
+        })
+      });
+      if (!res.ok) {
+        throw new Error(await formatHttpError(res, "Claude request failed"));
+      }
+    } else {
+      throw new Error(buildRequestFailedMessage("Claude", res.status, errorText));
+    }
+  }
+  const data = await res.json();
+  const content = data?.content?.find((part: any) => part?.text)?.text;
+  const usage = data?.usage;
+  const tokenUsage = normalizeTokenUsage(readClaudeUsage(usage), `${system}\n${prompt}`, content || "");
+  narrationStream.finalize(content || "");
+  return { content: content || "", tokenUsage };
+};
+registerProvider({
+  id: "claude",
+  label: "Claude",
+  defaultBaseUrl: CLAUDE_BASE_URL,
+  callJson: (connection, request) => callClaudeJson(
+    connection.apiKey,
+    connection.baseUrl,
+    connection.model,
+    request.system,
+    request.prompt,
+    request.schema.jsonSchema
+  ),
+  streamJson: (connection, request, onNarrationStream) => callClaudeJson(
+    connection.apiKey,
+    connection.baseUrl,
+    connection.model,
+    request.system,
+    request.prompt,
+    request.schema.jsonSchema,
+    { onNarrationStream }
+  )
+});
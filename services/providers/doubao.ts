@@ -0,0 +1,230 @@
+import { registerProvider } from "./registry";
+import {
+  JsonCallRuntimeOptions,
+  StreamedJsonResult,
+  buildRequestFailedMessage,
+  consumeSse,
+  createNarrationStreamAccumulator,
+  fetchStreamWithPromptCacheRetry,
+  fetchWithPromptCacheRetry,
+  formatHttpError,
+  isStreamUnsupportedError,
+  normalizeTokenUsage,
+  tryParseJson
+} from "./shared";
+import { JsonSchema } from "./types";
+
+const DOUBAO_BASE_URL = "https://ark.cn-beijing.volces.com/api/v3";
+
+// Doubao's structured output rejects union types, so nullable fields are sent as their plain type.
+const withoutNullableTypes = (schema: any): any => {
+  if (Array.isArray(schema)) return schema.map(withoutNullableTypes);
+  if (!schema || typeof schema !== "object") return schema;
+  return Object.fromEntries(Object.entries(schema).map(([key, value]) => {
+    if (key === "type" && Array.isArray(value)) {
+      const types = value.filter(type => type !== "null");
+      return [key, types.length === 1 ? types[0] : types];
+    }
+    return [key, withoutNullableTypes(value)];
+  }));
+};
+
+const callDoubaoJson = async (
+  apiKey: string,
+  baseUrl: string,
+  model: string,
+  system: string,
+  prompt: string,
+  schema?: JsonSchema,
+  schemaName = "response",
+  runtimeOptions?: JsonCallRuntimeOptions
+) => {
+  const narrationStream = createNarrationStreamAccumulator(runtimeOptions?.onNarrationStream);
+  const headers = {
+    "Content-Type": "application/json",
+    Authorization: `Bearer ${apiKey}`
+  };
+  const baseBody = {
+    model,
+    input: [
+      { role: "system", content: [{ type: "input_text", text: system }] },
+      { role: "user", content: [{ type: "input_text", text: prompt }] }
+    ]
+  };
+  const textFormat = schema
+    ? { type: "json_schema", name: schemaName, schema, strict: true }
+    : { type: "json_object" };
+  const buildBody = (format: any, stream = false, allowPromptCache = true) => {
+    const body: Record<string, any> = {
+      ...baseBody,
+      text: { format }
+    };
+    if (allowPromptCache) {
+      body.caching = { type: "enabled" };
+    }
+    if (stream) {
+      body.stream = true;
+      body.stream_options = { include_usage: true };
+    }
+    return body;
+  };
+
+  const parseDoubaoStream = async (res: Response): Promise<StreamedJsonResult> => {
+    let content = "";
+    let usage: any;
+
+    await consumeSse(res.body, ({ event, data }) => {
+      if (!data || data === "[DONE]") {
+        return;
+      }
+      const payload = tryParseJson(data);
+      if (!payload || typeof payload !== "object") {
+        return;
+      }
+      const eventType = typeof payload.type === "string" ? payload.type : event;
+      if (eventType === "response.output_text.delta" && typeof payload.delta === "string") {
+        content += payload.delta;
+        narrationStream.append(payload.delta);
+        return;
+      }
+      if (eventType === "response.output_text.done" && typeof payload.text === "string" && !content.trim()) {
+        content += payload.text;
+        narrationStream.append(payload.text);
+        return;
+      }
+      if (eventType === "response.completed" && payload?.response?.usage) {
+        usage = payload.response.usage;
+        return;
+      }
+      if (payload.usage) {
+        usage = payload.usage;
+      }
+    });
+
+    if (!content.trim()) {
+      throw new Error("Doubao response contained no output.");
+    }
+    narrationStream.finalize(content);
+    const tokenUsage = normalizeTokenUsage({
+      promptTokens: usage?.input_tokens,
+      cachedTokens: usage?.input_tokens_details?.cached_tokens,
+      completionTokens: usage?.output_tokens,
+      totalTokens: usage?.total_tokens
+    }, `${system}\n${prompt}`, content);
+    return { content, tokenUsage };
+  };
+
+  if (runtimeOptions?.onNarrationStream) {
+    const { res: streamRes, errorText: streamErrorText } = await fetchStreamWithPromptCacheRetry(
+      (allowPromptCache) => fetch(`${baseUrl}/responses`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(buildBody(textFormat, true, allowPromptCache))
+      }),
+      true
+    );
+    if (streamRes.ok) {
+      return parseDoubaoStream(streamRes);
+    }
+    if (!isStreamUnsupportedError(streamRes.status, streamErrorText)) {
+      throw new Error(buildRequestFailedMessage("Doubao", streamRes.status, streamErrorText));
+    }
+  }
+
+  const initialDoubaoResult = await fetchWithPromptCacheRetry(
+    (allowPromptCache) => fetch(`${baseUrl}/responses`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(buildBody(textFormat, false, allowPromptCache))
+    }),
+    true
+  );
+  let res = initialDoubaoResult.res;
+  const allowPromptCache = initialDoubaoResult.allowPromptCache;
+  const errorText = initialDoubaoResult.errorText;
+  if (!res.ok) {
+    const formatRejected = errorText.includes("response_format") || errorText.includes("text.format") || errorText.includes("json_schema");
+    if (schema && formatRejected) {
+      res = await fetch(`${baseUrl}/responses`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(buildBody({ type: "json_object" }, false, allowPromptCache))
+      });
+      if (!res.ok) {
+        throw new Error(await formatHttpError(res, "Doubao request failed"));
+      }
+    } else {
+      throw new Error(buildRequestFailedMessage("Doubao", res.status, errorText));
+    }
+  }
+  const data = await res.json();
+  const output = Array.isArray(data?.output) ? data.output : [];
+  const outputText = output
+    .filter((item: any) => item?.type === "message" && item?.role === "assistant")
+    .flatMap((item: any) => Array.isArray(item?.content) ? item.content : [])
+    .filter((part: any) => part?.type === "output_text" && typeof part?.text === "string")
+    .map((part: any) => part.text)
+    .join("")
+    .trim();
+  const content = typeof data?.output_text === "string"
+    ? data.output_text.trim()
+    : outputText;
+  const usage = data?.usage;
+  const tokenUsage = normalizeTokenUsage({
+    promptTokens: usage?.input_tokens,
+    cachedTokens: usage?.input_tokens_details?.cached_tokens,
+    completionTokens: usage?.output_tokens,
+    totalTokens: usage?.total_tokens
+  }, `${system}\n${prompt}`, content || "");
+  narrationStream.finalize(content || "");
+  return { content: content || "", tokenUsage };
+};
+
+const generateDoubaoImage = async (apiKey: string, baseUrl: string, model: string, prompt: string) => {
+  const res = await fetch(`${baseUrl}/images/generations`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${apiKey}`
+    },
+    body: JSON.stringify({
+      model,
+      prompt,
+      size: "2048x2048",
+      response_format: "b64_json"
+    })
+  });
+  if (!res.ok) {
+    throw new Error(await formatHttpError(res, "Doubao image request failed"));
+  }
+  const data = await res.json();
+  return data?.data?.[0]?.b64_json as string | undefined;
+};
+registerProvider({
+  id: "doubao",
+  label: "Doubao",
+  defaultBaseUrl: DOUBAO_BASE_URL,
+  callJson: (connection, request) => callDoubaoJson(
+    connection.apiKey,
+    connection.baseUrl,
+    connection.model,
+    request.system,
+    request.prompt,
+    withoutNullableTypes(request.schema.jsonSchema),
+    request.schema.name
+  ),
+  streamJson: (connection, request, onNarrationStream) => callDoubaoJson(
+    connection.apiKey,
+    connection.baseUrl,
+    connection.model,
+    request.system,
+    request.prompt,
+    withoutNullableTypes(request.schema.jsonSchema),
+    request.schema.name,
+    { onNarrationStream }
+  ),
+  generateImage: async (connection, request) => {
+    const base64 = await generateDoubaoImage(connection.apiKey, connection.baseUrl, connection.model, request.prompt);
+    return base64 ? { base64 } : {};
+  }
+});
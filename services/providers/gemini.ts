@@ -0,0 +1,254 @@
+import { GoogleGenAI } from "@google/genai";
+import { GroundingSource } from "../../types";
+import { registerProvider } from "./registry";
+import { clampImagePrompt, createNarrationStreamAccumulator, estimateTokens, hashString, normalizeTokenUsage } from "./shared";
+import { JsonCallRequest, ProviderConnection } from "./types";
+
+const GEMINI_CACHE_TTL_SECONDS = 600;
+const GEMINI_CACHE_TTL = `${GEMINI_CACHE_TTL_SECONDS}s`;
+const GEMINI_CACHE_MIN_TOTAL_TOKENS = 1024;
+
+type GeminiCacheRecord = {
+  name: string;
+  expiresAtMs: number;
+};
+
+const geminiCacheRecords = new Map<string, GeminiCacheRecord>();
+const geminiCacheInflight = new Map<string, Promise<string | null>>();
+const geminiCacheUnsupportedModels = new Set<string>();
+const geminiCacheTooSmallKeys = new Set<string>();
+
+const isGeminiCacheTooSmallError = (message: string) => {
+  const lower = message.toLowerCase();
+  return lower.includes("too small") || lower.includes("min_total_token_count");
+};
+
+const isGeminiCacheUnsupportedError = (message: string) => {
+  const lower = message.toLowerCase();
+  return (
+    lower.includes("unsupported")
+    || lower.includes("not support")
+    || lower.includes("does not support")
+  );
+};
+
+const buildGeminiCacheKey = (
+  apiKey: string,
+  baseUrl: string,
+  model: string,
+  systemInstruction: string
+) => `${apiKey.slice(-12)}|${baseUrl || "default"}|${model}|${hashString(systemInstruction)}`;
+
+const getGeminiCachedContentName = async (
+  ai: GoogleGenAI,
+  apiKey: string,
+  baseUrl: string,
+  model: string,
+  systemInstruction: string
+): Promise<string | null> => {
+  if (geminiCacheUnsupportedModels.has(model)) {
+    return null;
+  }
+
+  const cacheKey = buildGeminiCacheKey(apiKey, baseUrl, model, systemInstruction);
+  if (geminiCacheTooSmallKeys.has(cacheKey)) {
+    return null;
+  }
+  if (estimateTokens(systemInstruction) < GEMINI_CACHE_MIN_TOTAL_TOKENS) {
+    geminiCacheTooSmallKeys.add(cacheKey);
+    return null;
+  }
+  const now = Date.now();
+  const existing = geminiCacheRecords.get(cacheKey);
+  if (existing && existing.expiresAtMs > now) {
+    return existing.name;
+  }
+
+  const inFlight = geminiCacheInflight.get(cacheKey);
+  if (inFlight) {
+    return inFlight;
+  }
+
+  const createPromise = (async () => {
+    try {
+      const created = await ai.caches.create({
+        model,
+        config: {
+          systemInstruction,
+          ttl: GEMINI_CACHE_TTL,
+          displayName: `fallout-${hashString(cacheKey).slice(0, 10)}`
+        }
+      });
+      const name = typeof created?.name === "string" ? created.name : "";
+      if (!name) {
+        return null;
+      }
+      const expiresAtMs = created?.expireTime
+        ? Date.parse(created.expireTime)
+        : now + GEMINI_CACHE_TTL_SECONDS * 1000;
+      geminiCacheRecords.set(cacheKey, {
+        name,
+        expiresAtMs: Number.isFinite(expiresAtMs) ? expiresAtMs : now + GEMINI_CACHE_TTL_SECONDS * 1000
+      });
+      return name;
+    } catch (error) {
+      const message = error instanceof Error ? error.message.toLowerCase() : String(error).toLowerCase();
+      if (isGeminiCacheTooSmallError(message)) {
+        geminiCacheTooSmallKeys.add(cacheKey);
+        return null;
+      }
+      if (isGeminiCacheUnsupportedError(message)) {
+        geminiCacheUnsupportedModels.add(model);
+        return null;
+      }
+      return null;
+    } finally {
+      geminiCacheInflight.delete(cacheKey);
+    }
+  })();
+
+  geminiCacheInflight.set(cacheKey, createPromise);
+  return createPromise;
+};
+
+const callGeminiJsonWithCache = async (
+  ai: GoogleGenAI,
+  params: {
+    apiKey: string;
+    baseUrl: string;
+    model: string;
+    prompt: string;
+    systemInstruction: string;
+    responseSchema: any;
+    onNarrationStream?: (text: string) => void;
+  }
+): Promise<{ text: string; usageMetadata?: any }> => {
+  const { apiKey, baseUrl, model, prompt, systemInstruction, responseSchema, onNarrationStream } = params;
+  const narrationStream = createNarrationStreamAccumulator(onNarrationStream);
+
+  const run = async (allowCachedContent: boolean) => {
+    const config: Record<string, any> = {
+      responseMimeType: "application/json",
+      responseSchema
+    };
+
+    if (allowCachedContent) {
+      const cachedContent = await getGeminiCachedContentName(ai, apiKey, baseUrl, model, systemInstruction);
+      if (cachedContent) {
+        config.cachedContent = cachedContent;
+      } else {
+        config.systemInstruction = systemInstruction;
+      }
+    } else {
+      config.systemInstruction = systemInstruction;
+    }
+
+    if (onNarrationStream) {
+      const stream = await ai.models.generateContentStream({
+        model,
+        contents: prompt,
+        config
+      });
+      let responseText = "";
+      let usageMetadata: any;
+      for await (const chunk of stream) {
+        if (typeof chunk?.text === "string" && chunk.text) {
+          responseText += chunk.text;
+          narrationStream.append(chunk.text);
+        }
+        if (chunk?.usageMetadata) {
+          usageMetadata = chunk.usageMetadata;
+        }
+      }
+      if (!responseText) {
+        throw new Error("Connection to the Wasteland lost.");
+      }
+      narrationStream.finalize(responseText);
+      return { text: responseText, usageMetadata };
+    }
+
+    const response = await ai.models.generateContent({
+      model,
+      contents: prompt,
+      config
+    });
+    if (!response.text) {
+      throw new Error("Connection to the Wasteland lost.");
+    }
+    return { text: response.text, usageMetadata: response.usageMetadata };
+  };
+
+  try {
+    return await run(true);
+  } catch (error) {
+    const message = error instanceof Error ? error.message.toLowerCase() : String(error).toLowerCase();
+    if (!message.includes("cache") && !message.includes("cached")) {
+      throw error;
+    }
+    return run(false);
+  }
+};
+const createClient = (connection: ProviderConnection) => new GoogleGenAI({
+  apiKey: connection.apiKey,
+  ...(connection.baseUrl ? { httpOptions: { baseUrl: connection.baseUrl } } : {})
+});
+
+const callGeminiJson = async (
+  connection: ProviderConnection,
+  request: JsonCallRequest,
+  onNarrationStream?: (text: string) => void
+) => {
+  const response = await callGeminiJsonWithCache(createClient(connection), {
+    apiKey: connection.apiKey,
+    baseUrl: connection.baseUrl,
+    model: connection.model,
+    prompt: request.prompt,
+    systemInstruction: request.system,
+    responseSchema: request.schema.openApiSchema,
+    onNarrationStream
+  });
+  const tokenUsage = normalizeTokenUsage({
+    promptTokens: response.usageMetadata?.promptTokenCount,
+    cachedTokens: response.usageMetadata?.cachedContentTokenCount,
+    completionTokens: response.usageMetadata?.candidatesTokenCount,
+    totalTokens: response.usageMetadata?.totalTokenCount
+  }, `${request.system}\n${request.prompt}`, response.text);
+  return { content: response.text, tokenUsage };
+};
+
+registerProvider({
+  id: "gemini",
+  label: "Gemini",
+  defaultBaseUrl: "",
+  callJson: (connection, request) => callGeminiJson(connection, request),
+  streamJson: (connection, request, onNarrationStream) => callGeminiJson(connection, request, onNarrationStream),
+  generateImage: async (connection, request) => {
+    const response = await createClient(connection).models.generateContent({
+      model: connection.model,
+      contents: {
+        parts: [{ text: request.prompt }]
+      },
+      config: {
+        imageConfig: { aspectRatio: request.aspectRatio }
+      }
+    });
+    const part = response.candidates?.[0]?.content?.parts?.find(entry => entry.inlineData);
+    return part?.inlineData?.data ? { base64: part.inlineData.data } : {};
+  },
+  webSearch: async (connection, prompt, maxLength) => {
+    const response = await createClient(connection).models.generateContent({
+      model: connection.model,
+      contents: prompt,
+      config: {
+        tools: [{ googleSearch: {} }]
+      }
+    });
+    const sources: GroundingSource[] = response?.candidates?.[0]?.groundingMetadata?.groundingChunks
+      ?.filter((chunk: any) => chunk.web)
+      ?.map((chunk: any) => ({
+        title: chunk.web.title,
+        uri: chunk.web.uri
+      })) || [];
+    return { text: clampImagePrompt(response?.text || "", maxLength), sources };
+  }
+});
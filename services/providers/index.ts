@@ -0,0 +1,10 @@
+// Each provider module registers its adapter on import; adding a backend means adding one module here.
+import "./gemini";
+import "./openai";
+import "./claude";
+import "./doubao";
+import "./local";
+
+export * from "./registry";
+export * from "./types";
+export { normalizeBaseUrl, sanitizeJsonText } from "./shared";
@@ -0,0 +1,184 @@
+import { registerProvider } from "./registry";
+import {
+  StreamedJsonResult,
+  buildRequestFailedMessage,
+  consumeSse,
+  createNarrationStreamAccumulator,
+  isStreamUnsupportedError,
+  normalizeTokenUsage,
+  sanitizeJsonText,
+  tryParseJson
+} from "./shared";
+import { JsonCallRequest, ProviderConnection } from "./types";
+
+// Ollama's default; llama.cpp (:8080/v1) and LM Studio (:1234/v1) are set in the settings panel.
+const LOCAL_BASE_URL = "http://localhost:11434/v1";
+
+// Strictest first. Many local servers reject json_schema, some reject response_format entirely.
+type JsonMode = "json_schema" | "json_object" | "prompt";
+const JSON_MODES: JsonMode[] = ["json_schema", "json_object", "prompt"];
+
+// The first mode each server/model accepted, so later calls skip the ones that failed.
+const acceptedJsonModes = new Map<string, JsonMode>();
+
+const buildHeaders = (apiKey: string) => ({
+  "Content-Type": "application/json",
+  ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+});
+
+const buildSystem = (request: JsonCallRequest, mode: JsonMode) => {
+  if (mode === "json_schema") return request.system;
+  return `${request.system}
+
+Respond with a single JSON object that follows this JSON Schema, with no prose or code fences around it:
+${JSON.stringify(request.schema.jsonSchema)}`;
+};
+
+const buildBody = (connection: ProviderConnection, request: JsonCallRequest, mode: JsonMode, stream: boolean) => {
+  const body: Record<string, any> = {
+    model: connection.model,
+    messages: [
+      { role: "system", content: buildSystem(request, mode) },
+      { role: "user", content: request.prompt }
+    ]
+  };
+  if (mode === "json_schema") {
+    body.response_format = {
+      type: "json_schema",
+      json_schema: { name: request.schema.name, schema: request.schema.jsonSchema, strict: true }
+    };
+  } else if (mode === "json_object") {
+    body.response_format = { type: "json_object" };
+  }
+  if (stream) {
+    body.stream = true;
+  }
+  return body;
+};
+
+// Without a response_format the model may wrap its JSON in prose; repair it here so the task parser gets an object.
+const repairContent = (content: string, mode: JsonMode) => {
+  if (mode !== "prompt" || tryParseJson(content.trim())) return content;
+  return sanitizeJsonText(content);
+};
+
+const send = async (connection: ProviderConnection, body: Record<string, any>) => {
+  try {
+    return await fetch(`${connection.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: buildHeaders(connection.apiKey),
+      body: JSON.stringify(body)
+    });
+  } catch {
+    throw new Error(`Local model server is unreachable at ${connection.baseUrl}.`);
+  }
+};
+
+const readCompletion = async (
+  res: Response,
+  request: JsonCallRequest,
+  mode: JsonMode,
+  narrationStream: ReturnType<typeof createNarrationStreamAccumulator> | null
+): Promise<StreamedJsonResult> => {
+  let content = "";
+  let usage: any;
+  if (narrationStream) {
+    await consumeSse(res.body, ({ data }) => {
+      if (!data || data === "[DONE]") return;
+      const payload = tryParseJson(data);
+      const delta = payload?.choices?.[0]?.delta?.content;
+      if (typeof delta === "string") {
+        content += delta;
+        narrationStream.append(delta);
+      }
+      if (payload?.usage) {
+        usage = payload.usage;
+      }
+    });
+  } else {
+    const data = await res.json();
+    content = typeof data?.choices?.[0]?.message?.content === "string" ? data.choices[0].message.content : "";
+    usage = data?.usage;
+  }
+  if (!content.trim()) {
+    throw new Error("Local response contained no output.");
+  }
+  content = repairContent(content, mode);
+  narrationStream?.finalize(content);
+  const tokenUsage = normalizeTokenUsage({
+    promptTokens: usage?.prompt_tokens,
+    cachedTokens: usage?.prompt_tokens_details?.cached_tokens,
+    completionTokens: usage?.completion_tokens,
+    totalTokens: usage?.total_tokens
+  }, `${request.system}\n${request.prompt}`, content);
+  return { content, tokenUsage };
+};
+
+// Servers that do not support a response_format reject the request itself; anything else
+// (unknown model, model still loading, server error) is a real failure and is not retried here.
+const isFormatRejection = (status: number) => status === 400 || status === 422;
+
+/**
+ * Chat Completions against a self-hosted server, walking down the JSON modes while the server
+ * rejects the request format. A streaming request the server refuses is retried once without streaming.
+ */
+const callLocalJson = async (
+  connection: ProviderConnection,
+  request: JsonCallRequest,
+  onNarrationStream?: (text: string) => void
+): Promise<StreamedJsonResult> => {
+  const cacheKey = `${connection.baseUrl}|${connection.model}`;
+  const accepted = acceptedJsonModes.get(cacheKey);
+  const modes = accepted ? JSON_MODES.slice(JSON_MODES.indexOf(accepted)) : JSON_MODES;
+  let lastError = "";
+  for (const mode of modes) {
+    if (onNarrationStream) {
+      const streamRes = await send(connection, buildBody(connection, request, mode, true));
+      if (streamRes.ok) {
+        acceptedJsonModes.set(cacheKey, mode);
+        return readCompletion(streamRes, request, mode, createNarrationStreamAccumulator(onNarrationStream));
+      }
+      const streamErrorText = await streamRes.text();
+      if (!isStreamUnsupportedError(streamRes.status, streamErrorText)) {
+        lastError = buildRequestFailedMessage("Local", streamRes.status, streamErrorText);
+        if (!isFormatRejection(streamRes.status)) break;
+        continue;
+      }
+    }
+    const res = await send(connection, buildBody(connection, request, mode, false));
+    if (res.ok) {
+      acceptedJsonModes.set(cacheKey, mode);
+      return readCompletion(res, request, mode, null);
+    }
+    lastError = buildRequestFailedMessage("Local", res.status, await res.text());
+    if (!isFormatRejection(res.status)) break;
+  }
+  throw new Error(lastError || "Local request failed.");
+};
+
+registerProvider({
+  id: "local",
+  label: "Local",
+  defaultBaseUrl: LOCAL_BASE_URL,
+  requiresApiKey: false,
+  selfHosted: true,
+  listModels: async (connection) => {
+    let res: Response;
+    try {
+      res = await fetch(`${connection.baseUrl}/models`, { headers: buildHeaders(connection.apiKey) });
+    } catch {
+      throw new Error(`Local model server is unreachable at ${connection.baseUrl}.`);
+    }
+    if (!res.ok) {
+      throw new Error(buildRequestFailedMessage("Local model list", res.status, await res.text()));
+    }
+    const data = await res.json();
+    const entries: any[] = Array.isArray(data?.data) ? data.data : Array.isArray(data?.models) ? data.models : [];
+    const ids = entries
+      .map(entry => (typeof entry === "string" ? entry : entry?.id || entry?.name || ""))
+      .filter((id: string) => !!id);
+    return Array.from(new Set<string>(ids)).sort((a, b) => a.localeCompare(b));
+  },
+  callJson: (connection, request) => callLocalJson(connection, request),
+  streamJson: (connection, request, onNarrationStream) => callLocalJson(connection, request, onNarrationStream)
+});
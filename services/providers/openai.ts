@@ -0,0 +1,572 @@
+import { GroundingSource, ModelProvider } from "../../types";
+import { registerProvider } from "./registry";
+import {
+  JsonCallRuntimeOptions,
+  StreamedJsonResult,
+  buildRequestFailedMessage,
+  clampImagePrompt,
+  consumeSse,
+  createNarrationStreamAccumulator,
+  fetchStreamWithPromptCacheRetry,
+  fetchWithPromptCacheRetry,
+  formatHttpError,
+  hashString,
+  isStreamUnsupportedError,
+  normalizeTokenUsage,
+  tryParseJson
+} from "./shared";
+import { JsonSchema, ModelProviderAdapter, WebSearchResult } from "./types";
+
+const OPENAI_BASE_URL = "https://api.openai.com/v1";
+const GROK_BASE_URL = "https://api.x.ai/v1";
+
+const getOpenAiLabel = (provider: ModelProvider) => (provider === "grok" ? "Grok" : "OpenAI");
+
+const buildOpenAiPromptCacheKey = (
+  model: string,
+  schemaName: string,
+  system: string,
+  providerLabel: string
+) => {
+  const keyBase = `${providerLabel}|${model}|${schemaName}|${system}`;
+  return `fallout-${hashString(keyBase)}`;
+};
+
+const extractGrokCitations = (payload: any): GroundingSource[] => {
+  const candidates = [
+    payload?.citations,
+    payload?.choices?.[0]?.citations,
+    payload?.choices?.[0]?.message?.citations,
+    payload?.choices?.[0]?.message?.context?.citations
+  ];
+  const citationList = candidates.find((entry) => Array.isArray(entry)) as any[] | undefined;
+  if (!citationList) return [];
+  return citationList
+    .map((item) => {
+      if (!item) return null;
+      if (typeof item === "string") {
+        return { title: item, uri: item };
+      }
+      const uri = item.url || item.uri || "";
+      if (!uri) return null;
+      const title = item.title || item.name || item.text || uri;
+      return { title, uri };
+    })
+    .filter((entry): entry is GroundingSource => !!entry);
+};
+
+const callGrokWebSearch = async (
+  apiKey: string,
+  baseUrl: string,
+  model: string,
+  prompt: string,
+  maxLength = 800
+): Promise<{ text: string; sources: GroundingSource[] }> => {
+  const res = await fetch(`${baseUrl}/responses`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${apiKey}`
+    },
+    body: JSON.stringify({
+      model,
+      input: [
+        { role: "user", content: prompt }
+      ],
+      tools: [{ type: "web_search" }]
+    })
+  });
+  if (!res.ok) {
+    throw new Error(await formatHttpError(res, "Grok request failed"));
+  }
+  const data = await res.json();
+  let content = "";
+  if (typeof data?.output_text === "string") {
+    content = data.output_text;
+  } else if (Array.isArray(data?.output)) {
+    data.output.forEach((entry: any) => {
+      const parts = Array.isArray(entry?.content) ? entry.content : [];
+      parts.forEach((part: any) => {
+        if (typeof part?.text === "string") {
+          content += part.text;
+        }
+      });
+    });
+  }
+  const sources = extractGrokCitations(data);
+  const trimmed = clampImagePrompt(content, maxLength);
+  return { text: trimmed, sources };
+};
+
+const callOpenAiWebSearch = async (
+  apiKey: string,
+  baseUrl: string,
+  model: string,
+  prompt: string,
+  maxLength = 800
+): Promise<{ text: string }> => {
+  const res = await fetch(`${baseUrl}/responses`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${apiKey}`
+    },
+    body: JSON.stringify({
+      model,
+      input: [
+        { role: "user", content: prompt }
+      ],
+      tools: [{ type: "web_search" }]
+    })
+  });
+  if (!res.ok) {
+    throw new Error(await formatHttpError(res, "OpenAI request failed"));
+  }
+  const data = await res.json();
+  let content = "";
+  if (typeof data?.output_text === "string") {
+    content = data.output_text;
+  } else if (Array.isArray(data?.output)) {
+    data.output.forEach((entry: any) => {
+      const parts = Array.isArray(entry?.content) ? entry.content : [];
+      parts.forEach((part: any) => {
+        if (typeof part?.text === "string") {
+          content += part.text;
+        }
+      });
+    });
+  }
+  const trimmed = clampImagePrompt(content, maxLength);
+  return { text: trimmed };
+};
+
+const callOpenAiJson = async (
+  apiKey: string,
+  baseUrl: string,
+  model: string,
+  system: string,
+  prompt: string,
+  schema?: JsonSchema,
+  schemaName = "response",
+  providerLabel = "OpenAI",
+  runtimeOptions?: JsonCallRuntimeOptions
+) => {
+  const requestLabel = providerLabel || "OpenAI";
+  const enablePromptCache = requestLabel === "OpenAI";
+  const narrationStream = createNarrationStreamAccumulator(runtimeOptions?.onNarrationStream);
+  const responseFormatChat = schema
+    ? { type: "json_schema", json_schema: { name: schemaName, schema, strict: true } }
+    : { type: "json_object" };
+  const responseFormatResponses = schema
+    ? { type: "json_schema", name: schemaName, schema, strict: true }
+    : { type: "json_object" };
+  const baseHeaders = {
+    "Content-Type": "application/json",
+    Authorization: `Bearer ${apiKey}`
+  };
+  const isResponsesOnlyModel = /^gpt-5/i.test(model);
+  const includeReasoning = requestLabel !== "Grok";
+  const buildResponsesBody = (formatOverride?: any, stream = false, allowPromptCache = true) => {
+    const body: Record<string, any> = {
+      model,
+      instructions: system,
+      input: [
+        { role: "user", content: prompt }
+      ],
+      text: { format: formatOverride ?? responseFormatResponses }
+    };
+    if (stream) {
+      body.stream = true;
+    }
+    if (includeReasoning) {
+      body.reasoning = { effort: "low" };
+    }
+    if (enablePromptCache && allowPromptCache) {
+      body.prompt_cache_retention = "in_memory";
+      body.prompt_cache_key = buildOpenAiPromptCacheKey(model, schemaName, system, requestLabel);
+    }
+    return body;
+  };
+  const extractResponsesContent = (data: any) => {
+    if (typeof data?.output_text === "string" && data.output_text.trim()) {
+      return data.output_text;
+    }
+    let text = "";
+    let jsonPayload: any = null;
+    const outputs = Array.isArray(data?.output) ? data.output : [];
+    outputs.forEach((entry: any) => {
+      const parts = Array.isArray(entry?.content) ? entry.content : [];
+      parts.forEach((part: any) => {
+        if (!part || typeof part !== "object") return;
+        if (part.type === "output_json" && part.json != null) {
+          jsonPayload = part.json;
+        }
+        if (typeof part.text === "string") {
+          text += part.text;
+        }
+      });
+    });
+    if (jsonPayload != null) {
+      return JSON.stringify(jsonPayload);
+    }
+    return text;
+  };
+
+  const parseResponsesStream = async (res: Response): Promise<StreamedJsonResult> => {
+    let content = "";
+    let usage: any;
+    let completedResponsePayload: any = null;
+
+    await consumeSse(res.body, ({ event, data }) => {
+      if (!data || data === "[DONE]") {
+        return;
+      }
+      const payload = tryParseJson(data);
+      if (!payload || typeof payload !== "object") {
+        return;
+      }
+      const eventType = typeof payload.type === "string" ? payload.type : event;
+
+      if (eventType === "response.output_text.delta" && typeof payload.delta === "string") {
+        content += payload.delta;
+        narrationStream.append(payload.delta);
+        return;
+      }
+      if (eventType === "response.output_text.done" && typeof payload.text === "string" && !content.trim()) {
+        content += payload.text;
+        narrationStream.append(payload.text);
+        return;
+      }
+      if (eventType === "response.completed") {
+        const responsePayload = payload.response ?? payload;
+        completedResponsePayload = responsePayload;
+        usage = responsePayload?.usage ?? usage;
+        return;
+      }
+      if (!usage && payload.usage) {
+        usage = payload.usage;
+      }
+    });
+
+    if ((!content || !content.trim()) && completedResponsePayload) {
+      content = extractResponsesContent(completedResponsePayload);
+    }
+    if (!content.trim()) {
+      const error = new Error(`${requestLabel} response contained no output.`);
+      (error as { rawOutput?: string }).rawOutput = JSON.stringify(completedResponsePayload ?? {});
+      throw error;
+    }
+
+    narrationStream.finalize(content);
+    const tokenUsage = normalizeTokenUsage({
+      promptTokens: usage?.input_tokens,
+      cachedTokens: usage?.input_tokens_details?.cached_tokens,
+      completionTokens: usage?.output_tokens,
+      totalTokens: usage?.total_tokens
+    }, `${system}\n${prompt}`, content);
+    return { content, tokenUsage };
+  };
+
+  const parseChatCompletionsStream = async (res: Response): Promise<StreamedJsonResult> => {
+    let content = "";
+    let usage: any;
+
+    await consumeSse(res.body, ({ data }) => {
+      if (!data || data === "[DONE]") {
+        return;
+      }
+      const payload = tryParseJson(data);
+      if (!payload || typeof payload !== "object") {
+        return;
+      }
+      const delta = payload?.choices?.[0]?.delta?.content;
+      if (typeof delta === "string") {
+        content += delta;
+        narrationStream.append(delta);
+      }
+      if (payload.usage) {
+        usage = payload.usage;
+      }
+    });
+
+    if (!content.trim()) {
+      throw new Error(`${requestLabel} response contained no output.`);
+    }
+
+    narrationStream.finalize(content);
+    const tokenUsage = normalizeTokenUsage({
+      promptTokens: usage?.prompt_tokens,
+      cachedTokens: usage?.prompt_tokens_details?.cached_tokens,
+      completionTokens: usage?.completion_tokens,
+      totalTokens: usage?.total_tokens
+    }, `${system}\n${prompt}`, content);
+    return { content, tokenUsage };
+  };
+
+  if (runtimeOptions?.onNarrationStream) {
+    const { res: streamRes, errorText: streamErrorText } = await fetchStreamWithPromptCacheRetry(
+      (allowPromptCache) => fetch(`${baseUrl}/responses`, {
+        method: "POST",
+        headers: baseHeaders,
+        body: JSON.stringify(buildResponsesBody(undefined, true, allowPromptCache))
+      }),
+      enablePromptCache
+    );
+    if (streamRes.ok) {
+      return parseResponsesStream(streamRes);
+    }
+    if (enablePromptCache && !isStreamUnsupportedError(streamRes.status, streamErrorText)) {
+      throw new Error(buildRequestFailedMessage(requestLabel, streamRes.status, streamErrorText));
+    }
+  }
+
+  const initialResponsesResult = await fetchWithPromptCacheRetry(
+    (allowCache) => fetch(`${baseUrl}/responses`, {
+      method: "POST",
+      headers: baseHeaders,
+      body: JSON.stringify(buildResponsesBody(undefined, false, allowCache))
+    }),
+    enablePromptCache
+  );
+  let res = initialResponsesResult.res;
+  const allowPromptCache = initialResponsesResult.allowPromptCache;
+  const errorText = initialResponsesResult.errorText;
+  if (res.ok) {
+    const data = await res.json();
+    const content = extractResponsesContent(data);
+    if (data?.status === "incomplete" && data?.incomplete_details?.reason) {
+      const error = new Error(`${requestLabel} response incomplete: ${data.incomplete_details.reason}`);
+      (error as { rawOutput?: string }).rawOutput = JSON.stringify(data);
+      throw error;
+    }
+    if (!content.trim()) {
+      const error = new Error(`${requestLabel} response contained no output.`);
+      (error as { rawOutput?: string }).rawOutput = JSON.stringify(data);
+      throw error;
+    }
+    const usage = data?.usage;
+    const tokenUsage = normalizeTokenUsage({
+      promptTokens: usage?.input_tokens,
+      cachedTokens: usage?.input_tokens_details?.cached_tokens,
+      completionTokens: usage?.output_tokens,
+      totalTokens: usage?.total_tokens
+    }, `${system}\n${prompt}`, content);
+    narrationStream.finalize(content);
+    return { content, tokenUsage };
+  }
+
+  const formatRejected = schema && (errorText.includes("json_schema") || errorText.includes("text.format"));
+  if (formatRejected) {
+    const retryBody = buildResponsesBody({ type: "json_object" }, false, allowPromptCache);
+    res = await fetch(`${baseUrl}/responses`, {
+      method: "POST",
+      headers: baseHeaders,
+      body: JSON.stringify(retryBody)
+    });
+    if (res.ok) {
+      const data = await res.json();
+      const content = extractResponsesContent(data);
+      if (!content.trim()) {
+        const error = new Error(`${requestLabel} response contained no output.`);
+        (error as { rawOutput?: string }).rawOutput = JSON.stringify(data);
+        throw error;
+      }
+      const usage = data?.usage;
+      const tokenUsage = normalizeTokenUsage({
+        promptTokens: usage?.input_tokens,
+        cachedTokens: usage?.input_tokens_details?.cached_tokens,
+        completionTokens: usage?.output_tokens,
+        totalTokens: usage?.total_tokens
+      }, `${system}\n${prompt}`, content);
+      narrationStream.finalize(content);
+      return { content, tokenUsage };
+    }
+  }
+
+  const shouldFallback = !isResponsesOnlyModel && (
+    res.status === 404
+    || res.status === 405
+    || (requestLabel === "Grok" && res.status === 400)
+  );
+  if (!shouldFallback) {
+    throw new Error(buildRequestFailedMessage(requestLabel, res.status, errorText));
+  }
+
+  const baseBody = {
+    model,
+    messages: [
+      { role: "system", content: system },
+      { role: "user", content: prompt }
+    ]
+  };
+
+  if (runtimeOptions?.onNarrationStream) {
+    let chatStreamRes = await fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: baseHeaders,
+      body: JSON.stringify({
+        ...baseBody,
+        response_format: responseFormatChat,
+        stream: true,
+        stream_options: { include_usage: true }
+      })
+    });
+    if (!chatStreamRes.ok) {
+      const chatStreamError = await chatStreamRes.text();
+      if (!isStreamUnsupportedError(chatStreamRes.status, chatStreamError)) {
+        throw new Error(buildRequestFailedMessage(requestLabel, chatStreamRes.status, chatStreamError));
+      }
+    } else {
+      return parseChatCompletionsStream(chatStreamRes);
+    }
+  }
+
+  const chatBody: Record<string, any> = {
+    ...baseBody,
+    response_format: responseFormatChat
+  };
+  if (enablePromptCache && allowPromptCache) {
+    chatBody.prompt_cache_retention = "in_memory";
+  }
+
+  let chatRes = await fetch(`${baseUrl}/chat/completions`, {
+    method: "POST",
+    headers: baseHeaders,
+    body: JSON.stringify(chatBody)
+  });
+  if (!chatRes.ok) {
+    const text = await chatRes.text();
+    const formatRejected = text.includes("response_format") || text.includes("json_schema");
+    if (schema && formatRejected) {
+      chatRes = await fetch(`${baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: baseHeaders,
+        body: JSON.stringify({ ...baseBody, response_format: { type: "json_object" } })
+      });
+      if (!chatRes.ok) {
+        throw new Error(await formatHttpError(chatRes, `${requestLabel} request failed`));
+      }
+    } else {
+      throw new Error(buildRequestFailedMessage(requestLabel, chatRes.status, text));
+    }
+  }
+  const data = await chatRes.json();
+  const content = data?.choices?.[0]?.message?.content || "";
+  const usage = data?.usage;
+  const tokenUsage = normalizeTokenUsage({
+    promptTokens: usage?.prompt_tokens,
+    cachedTokens: usage?.prompt_tokens_details?.cached_tokens,
+    completionTokens: usage?.completion_tokens,
+    totalTokens: usage?.total_tokens
+  }, `${system}\n${prompt}`, content);
+  narrationStream.finalize(content);
+  return { content, tokenUsage };
+};
+
+const fetchImageAsBase64 = async (url: string) => {
+  const res = await fetch(url);
+  if (!res.ok) {
+    throw new Error(`Failed to fetch image (${res.status}).`);
+  }
+  const blob = await res.blob();
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(String(reader.result));
+    reader.onerror = () => reject(new Error("Failed to read image data."));
+    reader.readAsDataURL(blob);
+  });
+};
+
+const generateOpenAiImage = async (
+  apiKey: string,
+  baseUrl: string,
+  model: string,
+  prompt: string,
+  provider: ModelProvider
+) => {
+  const requestLabel = getOpenAiLabel(provider);
+  const effectivePrompt = provider === "grok"
+    ? clampImagePrompt(prompt, 1024)
+    : prompt;
+  const requestBody: Record<string, any> = {
+    model,
+    prompt: effectivePrompt
+  };
+  if (provider !== "grok") {
+    requestBody.size = "1024x1024";
+  }
+  let res = await fetch(`${baseUrl}/images/generations`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${apiKey}`
+    },
+    body: JSON.stringify(requestBody)
+  });
+  if (!res.ok) {
+    const text = await res.text();
+    const message = text
+      ? `${requestLabel} image request failed (HTTP ${res.status}): ${text}`
+      : `${requestLabel} image request failed (HTTP ${res.status}).`;
+    throw new Error(message);
+  }
+  const data = await res.json();
+  const b64 = data?.data?.[0]?.b64_json as string | undefined;
+  if (b64) return b64;
+  const url = data?.data?.[0]?.url as string | undefined;
+  if (url) {
+    if (provider === "grok") {
+      return url;
+    }
+    const dataUrl = await fetchImageAsBase64(url);
+    return dataUrl.replace(/^data:image\/png;base64,/, "").replace(/^data:image\/jpeg;base64,/, "");
+  }
+  return undefined;
+};
+// OpenAI and Grok share the chat/responses wire format; they differ in labels, prompt caching and citations.
+const createOpenAiCompatibleAdapter = (
+  id: "openai" | "grok",
+  defaultBaseUrl: string,
+  webSearch: (apiKey: string, baseUrl: string, model: string, prompt: string, maxLength: number) => Promise<WebSearchResult>
+): ModelProviderAdapter => {
+  const label = getOpenAiLabel(id);
+  return {
+    id,
+    label,
+    defaultBaseUrl,
+    callJson: (connection, request) => callOpenAiJson(
+      connection.apiKey,
+      connection.baseUrl,
+      connection.model,
+      request.system,
+      request.prompt,
+      request.schema.jsonSchema,
+      request.schema.name,
+      label
+    ),
+    streamJson: (connection, request, onNarrationStream) => callOpenAiJson(
+      connection.apiKey,
+      connection.baseUrl,
+      connection.model,
+      request.system,
+      request.prompt,
+      request.schema.jsonSchema,
+      request.schema.name,
+      label,
+      { onNarrationStream }
+    ),
+    generateImage: async (connection, request) => {
+      const image = await generateOpenAiImage(connection.apiKey, connection.baseUrl, connection.model, request.prompt, id);
+      if (!image) return {};
+      return id === "grok" && /^https?:/i.test(image) ? { url: image } : { base64: image };
+    },
+    webSearch: (connection, prompt, maxLength) =>
+      webSearch(connection.apiKey, connection.baseUrl, connection.model, prompt, maxLength)
+  };
+};
+
+registerProvider(createOpenAiCompatibleAdapter("openai", OPENAI_BASE_URL, async (apiKey, baseUrl, model, prompt, maxLength) => {
+  const result = await callOpenAiWebSearch(apiKey, baseUrl, model, prompt, maxLength);
+  return { text: result.text, sources: [] };
+}));
+registerProvider(createOpenAiCompatibleAdapter("grok", GROK_BASE_URL, callGrokWebSearch));
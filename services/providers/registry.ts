@@ -0,0 +1,27 @@
+import { ModelProvider } from "../../types";
+import { ModelProviderAdapter } from "./types";
+
+const adapters = new Map<ModelProvider, ModelProviderAdapter>();
+
+export const DEFAULT_PROVIDER: ModelProvider = "gemini";
+
+export const registerProvider = (adapter: ModelProviderAdapter) => {
+  adapters.set(adapter.id, adapter);
+};
+
+export const isRegisteredProvider = (provider: unknown): provider is ModelProvider =>
+  typeof provider === "string" && adapters.has(provider as ModelProvider);
+
+export const getProviderAdapter = (provider: ModelProvider) => {
+  const adapter = adapters.get(provider);
+  if (!adapter) {
+    throw new Error(`Unknown model provider: ${provider}.`);
+  }
+  return adapter;
+};
+
+export const providerRequiresApiKey = (provider: ModelProvider) =>
+  !isRegisteredProvider(provider) || getProviderAdapter(provider).requiresApiKey !== false;
+
+export const providerSupportsImages = (provider: ModelProvider) =>
+  isRegisteredProvider(provider) && !!getProviderAdapter(provider).generateImage;
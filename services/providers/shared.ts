@@ -0,0 +1,358 @@
+import { TokenUsage } from "../../types";
+
+// Fallback for providers that report no usage. CJK, kana, hangul and full-width punctuation run
+// about a token per character; other text is counted per word with long words split every 4 characters.
+export const estimateTokens = (text: string) => {
+  if (!text) return 0;
+  const wideMatches = text.match(/[\u3000-\u30FF\u3400-\u4DBF\u4E00-\u9FFF\uAC00-\uD7AF\uFF00-\uFFEF]/g);
+  const wideCount = wideMatches ? wideMatches.length : 0;
+  const narrowText = text.replace(/[\u3000-\u30FF\u3400-\u4DBF\u4E00-\u9FFF\uAC00-\uD7AF\uFF00-\uFFEF]/g, " ");
+  const pieces: string[] = narrowText.match(/[A-Za-z]+|\d+|[^\sA-Za-z\d]/g) || [];
+  const narrowCount = pieces.reduce((sum, piece) => sum + (piece.length > 4 ? Math.ceil(piece.length / 4) : 1), 0);
+  return wideCount + narrowCount;
+};
+
+export const normalizeTokenUsage = (
+  usage: { promptTokens?: number; completionTokens?: number; totalTokens?: number; cachedTokens?: number } | undefined,
+  inputText: string,
+  outputText: string
+): TokenUsage => {
+  const promptTokens = usage?.promptTokens ?? 0;
+  const completionTokens = usage?.completionTokens ?? 0;
+  const totalTokens = usage?.totalTokens ?? 0;
+  if (promptTokens > 0 || completionTokens > 0 || totalTokens > 0) {
+    const total = totalTokens || promptTokens + completionTokens;
+    const cached = Math.min(promptTokens, Math.max(0, Math.floor(usage?.cachedTokens ?? 0)));
+    return {
+      sent: Math.max(0, Math.floor(promptTokens)),
+      received: Math.max(0, Math.floor(completionTokens)),
+      total: Math.max(0, Math.floor(total)),
+      ...(cached > 0 ? { cached } : {})
+    };
+  }
+  const estimatedPrompt = estimateTokens(inputText);
+  const estimatedCompletion = estimateTokens(outputText);
+  return {
+    sent: estimatedPrompt,
+    received: estimatedCompletion,
+    total: estimatedPrompt + estimatedCompletion,
+    estimated: true
+  };
+};
+
+export type JsonCallRuntimeOptions = {
+  onNarrationStream?: (text: string) => void;
+};
+
+export type SseEvent = {
+  event: string;
+  data: string;
+};
+
+export type StreamedJsonResult = {
+  content: string;
+  tokenUsage: TokenUsage;
+};
+
+export const hashString = (value: string) => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i += 1) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return (hash >>> 0).toString(16);
+};
+
+export const tryParseJson = (value: string): any | null => {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+};
+
+export const consumeSse = async (
+  stream: ReadableStream<Uint8Array> | null,
+  onEvent: (event: SseEvent) => void
+) => {
+  if (!stream) {
+    return;
+  }
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const flushChunk = (chunk: string) => {
+    if (!chunk.trim()) return;
+    const lines = chunk.replace(/\r/g, "").split("\n");
+    let eventName = "message";
+    const dataParts: string[] = [];
+    lines.forEach((line) => {
+      if (line.startsWith("event:")) {
+        eventName = line.slice(6).trim();
+      } else if (line.startsWith("data:")) {
+        dataParts.push(line.slice(5).trimStart());
+      }
+    });
+    if (!dataParts.length) return;
+    onEvent({ event: eventName, data: dataParts.join("\n") });
+  };
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    while (true) {
+      const boundary = buffer.indexOf("\n\n");
+      if (boundary === -1) break;
+      const chunk = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      flushChunk(chunk);
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer.trim()) {
+    flushChunk(buffer);
+  }
+};
+
+const extractStoryTextFromPartialJson = (raw: string): string | null => {
+  const keyIndex = raw.indexOf('"storyText"');
+  if (keyIndex < 0) return null;
+  const colonIndex = raw.indexOf(":", keyIndex);
+  if (colonIndex < 0) return null;
+
+  let i = colonIndex + 1;
+  while (i < raw.length && /\s/.test(raw[i])) {
+    i += 1;
+  }
+  if (i >= raw.length || raw[i] !== '"') {
+    return null;
+  }
+
+  i += 1;
+  let result = "";
+  let escaping = false;
+  while (i < raw.length) {
+    const ch = raw[i];
+    if (escaping) {
+      switch (ch) {
+        case '"':
+          result += '"';
+          break;
+        case "\\":
+          result += "\\";
+          break;
+        case "/":
+          result += "/";
+          break;
+        case "b":
+          result += "\b";
+          break;
+        case "f":
+          result += "\f";
+          break;
+        case "n":
+          result += "\n";
+          break;
+        case "r":
+          result += "\r";
+          break;
+        case "t":
+          result += "\t";
+          break;
+        case "u": {
+          const code = raw.slice(i + 1, i + 5);
+          if (/^[0-9a-fA-F]{4}$/.test(code)) {
+            result += String.fromCharCode(parseInt(code, 16));
+            i += 4;
+          }
+          break;
+        }
+        default:
+          result += ch;
+      }
+      escaping = false;
+      i += 1;
+      continue;
+    }
+    if (ch === "\\") {
+      escaping = true;
+      i += 1;
+      continue;
+    }
+    if (ch === '"') {
+      return result;
+    }
+    result += ch;
+    i += 1;
+  }
+
+  return result;
+};
+
+export const createNarrationStreamAccumulator = (onNarrationStream?: (text: string) => void) => {
+  let raw = "";
+  let last = "";
+
+  const emit = (next: string | null | undefined) => {
+    if (typeof next !== "string") return;
+    if (next === last) return;
+    last = next;
+    onNarrationStream?.(next);
+  };
+
+  return {
+    append(delta: string) {
+      if (!onNarrationStream || !delta) return;
+      raw += delta;
+      emit(extractStoryTextFromPartialJson(raw));
+    },
+    finalize(content: string) {
+      if (!onNarrationStream) return;
+      const parsed = tryParseJson(content);
+      const parsedStory = parsed && typeof parsed.storyText === "string" ? parsed.storyText : null;
+      emit(parsedStory ?? extractStoryTextFromPartialJson(content) ?? last);
+    }
+  };
+};
+
+const shouldRetryWithoutPromptCache = (text: string) => {
+  const lower = text.toLowerCase();
+  return lower.includes("prompt_cache") || lower.includes("prompt cache");
+};
+
+export const buildRequestFailedMessage = (requestLabel: string, status: number, errorText: string) => (
+  errorText
+    ? `${requestLabel} request failed (HTTP ${status}): ${errorText}`
+    : `${requestLabel} request failed (HTTP ${status}).`
+);
+
+export const isStreamUnsupportedError = (status: number, errorText: string) => (
+  status === 400
+  || status === 404
+  || status === 405
+  || errorText.toLowerCase().includes("stream")
+);
+
+export const fetchWithPromptCacheRetry = async (
+  send: (allowPromptCache: boolean) => Promise<Response>,
+  enablePromptCache: boolean
+) => {
+  let allowPromptCache = true;
+  let res = await send(allowPromptCache);
+  let errorText = "";
+  if (!res.ok) {
+    errorText = await res.text();
+    if (enablePromptCache && shouldRetryWithoutPromptCache(errorText)) {
+      allowPromptCache = false;
+      res = await send(allowPromptCache);
+      if (!res.ok) {
+        errorText = await res.text();
+      } else {
+        errorText = "";
+      }
+    }
+  }
+  return { res, allowPromptCache, errorText };
+};
+
+export const fetchStreamWithPromptCacheRetry = async (
+  send: (allowPromptCache: boolean) => Promise<Response>,
+  enablePromptCache: boolean
+) => {
+  let res = await send(true);
+  let errorText = "";
+  if (!res.ok) {
+    errorText = await res.text();
+    if (enablePromptCache && shouldRetryWithoutPromptCache(errorText)) {
+      res = await send(false);
+      if (!res.ok) {
+        errorText = await res.text();
+      } else {
+        errorText = "";
+      }
+    }
+  }
+  return { res, errorText };
+};
+
+export const normalizeBaseUrl = (value?: string) => {
+  const trimmed = value?.trim() || "";
+  if (!trimmed) return "";
+  return trimmed.replace(/\/+$/, "");
+};
+
+export const formatHttpError = async (res: Response, fallback: string) => {
+  const text = await res.text();
+  if (text) {
+    return `${fallback} (HTTP ${res.status}): ${text}`;
+  }
+  return `${fallback} (HTTP ${res.status}).`;
+};
+
+export const clampImagePrompt = (prompt: string, maxLength: number) => {
+  const cleaned = prompt
+    .replace(/\[[^\]]*\]\([^)]+\)/g, " ")
+    .replace(/https?:\/\/\S+/gi, " ")
+    .replace(/\[[0-9]+\]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  if (cleaned.length <= maxLength) {
+    return cleaned;
+  }
+  return cleaned.slice(0, maxLength).trim();
+};
+
+export const sanitizeJsonText = (text: string) => {
+  let cleaned = text.trim();
+  cleaned = cleaned.replace(/```(?:json)?/gi, "").replace(/```/g, "");
+  cleaned = cleaned.replace(/[“”]/g, '"').replace(/[‘’]/g, "'");
+  cleaned = cleaned.replace(/[\u0000-\u001F]+/g, " ");
+  const start = cleaned.indexOf("{");
+  const end = cleaned.lastIndexOf("}");
+  if (start >= 0 && end > start) {
+    cleaned = cleaned.slice(start, end + 1);
+  }
+  cleaned = cleaned.replace(/,\s*([}\]])/g, "$1");
+  cleaned = cleaned.replace(/\\(?!["\\/bfnrtu])/g, "\\\\");
+  let fixed = "";
+  let inString = false;
+  let escaped = false;
+  for (let i = 0; i < cleaned.length; i += 1) {
+    const char = cleaned[i];
+    if (!inString) {
+      if (char === '"') {
+        inString = true;
+      }
+      fixed += char;
+      continue;
+    }
+    if (escaped) {
+      escaped = false;
+      fixed += char;
+      continue;
+    }
+    if (char === "\\") {
+      escaped = true;
+      fixed += char;
+      continue;
+    }
+    if (char === '"') {
+      const remainder = cleaned.slice(i + 1);
+      const nextNonSpace = remainder.match(/\S/);
+      const nextChar = nextNonSpace ? nextNonSpace[0] : "";
+      if (nextChar && ![":", ",", "}", "]"].includes(nextChar)) {
+        fixed += '\\"';
+        continue;
+      }
+      inString = false;
+      fixed += char;
+      continue;
+    }
+    fixed += char;
+  }
+  cleaned = fixed;
+  return cleaned;
+};
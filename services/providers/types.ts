@@ -0,0 +1,72 @@
+import { GroundingSource, ModelProvider, TokenUsage } from "../../types";
+
+export type JsonSchema = Record<string, any>;
+
+// Where a single call goes. The task layer resolves keys, proxies and models before an adapter sees them.
+export interface ProviderConnection {
+  apiKey: string;
+  baseUrl: string;
+  model: string;
+}
+
+/**
+ * A structured-output schema in both dialects the providers speak: strict JSON Schema
+ * (every property required, optional ones nullable) and the OpenAPI subset Gemini takes,
+ * where optional fields simply stay out of `required`.
+ */
+export interface TaskSchema {
+  name: string;
+  jsonSchema: JsonSchema;
+  openApiSchema: any;
+}
+
+export interface JsonCallRequest {
+  system: string;
+  prompt: string;
+  schema: TaskSchema;
+}
+
+export interface JsonCallResult {
+  content: string;
+  tokenUsage: TokenUsage;
+}
+
+export interface ImageRequest {
+  prompt: string;
+  aspectRatio: "1:1" | "16:9";
+}
+
+// Either inline PNG data (no data: prefix) or a hosted URL the provider insists on returning.
+export interface ImageResult {
+  base64?: string;
+  url?: string;
+}
+
+export interface WebSearchResult {
+  text: string;
+  sources: GroundingSource[];
+}
+
+/**
+ * One model backend. `callJson` is the only required capability; a provider that cannot
+ * stream, draw, search or list its models simply leaves those methods out and the task layer
+ * falls back (a plain call, an "unsupported" error, no research step, or a typed model name).
+ */
+export interface ModelProviderAdapter {
+  id: ModelProvider;
+  label: string;
+  defaultBaseUrl: string;
+  // Self-hosted servers usually run without authentication.
+  requiresApiKey?: boolean;
+  // Runs on the player's own machine or network: its address comes from settings and it is never proxied.
+  selfHosted?: boolean;
+  listModels?: (connection: Omit<ProviderConnection, "model">) => Promise<string[]>;
+  callJson: (connection: ProviderConnection, request: JsonCallRequest) => Promise<JsonCallResult>;
+  streamJson?: (
+    connection: ProviderConnection,
+    request: JsonCallRequest,
+    onNarrationStream: (text: string) => void
+  ) => Promise<JsonCallResult>;
+  generateImage?: (connection: ProviderConnection, request: ImageRequest) => Promise<ImageResult>;
+  webSearch?: (connection: ProviderConnection, prompt: string, maxLength: number) => Promise<WebSearchResult>;
+}
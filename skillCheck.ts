@@ -0,0 +1,149 @@
+import { Actor, Skill, SkillCheckOutcome, SkillCheckResult, SpecialAttr } from './types';
+import { readNumber } from './utils';
+
+type CheckStat = { kind: 'skill'; stat: Skill } | { kind: 'special'; stat: SpecialAttr };
+
+// Ordered: the first matching entry wins, so narrow intents sit above broad ones.
+const INTENT_RULES: Array<{ check: CheckStat; keywords: string[] }> = [
+  { check: { kind: 'skill', stat: Skill.Lockpick }, keywords: ['lockpick', 'pick the lock', 'pick lock', 'unlock', 'bobby pin', '撬锁', '开锁', '撬开'] },
+  { check: { kind: 'skill', stat: Skill.Science }, keywords: ['hack', 'terminal', 'computer', 'decrypt', '黑入', '入侵', '终端', '破解'] },
+  { check: { kind: 'skill', stat: Skill.Sneak }, keywords: ['sneak', 'stealth', 'hide', 'tiptoe', 'slip past', 'crouch', '潜行', '偷偷', '躲藏', '隐藏'] },
+  { check: { kind: 'skill', stat: Skill.Steal }, keywords: ['steal', 'pickpocket', 'swipe', '偷', '扒窃', '顺手牵羊'] },
+  { check: { kind: 'skill', stat: Skill.Medicine }, keywords: ['heal', 'treat', 'bandage', 'first aid', 'surgery', 'stimpak', '治疗', '包扎', '急救', '手术'] },
+  { check: { kind: 'skill', stat: Skill.Repair }, keywords: ['repair', 'fix', 'mend', 'jury-rig', 'tinker', '修理', '修复', '维修'] },
+  { check: { kind: 'skill', stat: Skill.Barter }, keywords: ['barter', 'haggle', 'negotiate price', 'trade', 'bargain', '讨价还价', '交易', '砍价'] },
+  { check: { kind: 'skill', stat: Skill.Speech }, keywords: ['persuade', 'convince', 'lie to', 'lied to', 'lying to', 'tell a lie', 'bluff', 'intimidate', 'charm', 'negotiate', '说服', '劝说', '欺骗', '撒谎', '威胁', '恐吓'] },
+  { check: { kind: 'skill', stat: Skill.EnergyWeapons }, keywords: ['laser', 'plasma', 'energy weapon', 'gauss', '激光', '等离子', '能量武器'] },
+  { check: { kind: 'skill', stat: Skill.BigGuns }, keywords: ['minigun', 'flamer', 'missile launcher', 'fat man', 'big gun', '加特林', '火焰喷射器', '导弹', '胖子'] },
+  { check: { kind: 'skill', stat: Skill.SmallGuns }, keywords: ['shoot', 'fire at', 'pistol', 'rifle', 'shotgun', 'snipe', '射击', '开枪', '手枪', '步枪', '霰弹枪', '狙击'] },
+  { check: { kind: 'skill', stat: Skill.MeleeWeapons }, keywords: ['stab', 'slash', 'swing', 'knife', 'machete', 'bat', 'sledgehammer', '刺', '砍', '挥舞', '刀'] },
+  { check: { kind: 'skill', stat: Skill.Unarmed }, keywords: ['punch', 'kick', 'grapple', 'wrestle', 'fistfight', '拳', '踢', '摔', '格斗'] },
+  { check: { kind: 'skill', stat: Skill.Survival }, keywords: ['track', 'forage', 'hunt', 'navigate', 'scavenge', '追踪', '觅食', '狩猎', '搜刮'] },
+  { check: { kind: 'special', stat: SpecialAttr.Strength }, keywords: ['lift', 'force open', 'push', 'pry', 'carry', 'break down', '举起', '推开', '撬动', '撞开'] },
+  { check: { kind: 'special', stat: SpecialAttr.Perception }, keywords: ['search', 'inspect', 'spot', 'listen', 'examine', '搜索', '观察', '检查', '倾听'] },
+  { check: { kind: 'special', stat: SpecialAttr.Endurance }, keywords: ['endure', 'resist', 'hold breath', 'swim', '忍受', '坚持', '憋气', '游泳'] },
+  { check: { kind: 'special', stat: SpecialAttr.Agility }, keywords: ['dodge', 'climb', 'jump', 'run away', 'flee', 'escape', '闪避', '攀爬', '跳', '逃跑'] },
+  { check: { kind: 'special', stat: SpecialAttr.Intelligence }, keywords: ['recall', 'analyze', 'figure out', 'solve', 'decipher', '回忆', '分析', '解谜', '推理'] },
+  { check: { kind: 'special', stat: SpecialAttr.Charisma }, keywords: ['befriend', 'flirt', 'impress', 'inspire', '结交', '调情', '鼓舞'] },
+  { check: { kind: 'special', stat: SpecialAttr.Luck }, keywords: ['gamble', 'bet', 'guess', 'luck', '赌', '碰运气', '猜'] }
+];
+
+const DIFFICULTY_RULES: Array<{ modifier: number; keywords: string[] }> = [
+  { modifier: -30, keywords: ['very hard', 'master', 'impossible', 'vault door', '极难', '大师级'] },
+  { modifier: -15, keywords: ['hard', 'difficult', 'reinforced', 'heavily guarded', '困难', '加固', '重兵把守'] },
+  { modifier: 15, keywords: ['easy', 'simple', 'rusty', 'flimsy', '简单', '容易', '生锈'] }
+];
+
+const MIN_TARGET = 5;
+const MAX_TARGET = 95;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// FNV-1a string hash feeding a mulberry32 stream: the same seed always yields the same roll.
+const hashSeed = (seed: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i += 1) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export const rollD100 = (seed: string) => {
+  let t = (hashSeed(seed) + 0x6d2b79f5) >>> 0;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  const unit = ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  return Math.floor(unit * 100) + 1;
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Latin keywords match whole words (plus simple inflections) so "combat" never reads as "bat";
+// CJK keywords have no word boundaries and match as substrings.
+export const matchesKeyword = (text: string, keyword: string) => {
+  if (!/^[\x00-\x7f]+$/.test(keyword)) return text.includes(keyword);
+  return new RegExp(`\\b${escapeRegExp(keyword)}(?:s|es|ed|ing)?\\b`).test(text);
+};
+
+export const detectSkillCheck = (intent: string): CheckStat | null => {
+  const text = intent.toLowerCase();
+  const rule = INTENT_RULES.find(entry => entry.keywords.some(keyword => matchesKeyword(text, keyword)));
+  return rule ? rule.check : null;
+};
+
+const detectDifficulty = (intent: string) => {
+  const text = intent.toLowerCase();
+  const rule = DIFFICULTY_RULES.find(entry => entry.keywords.some(keyword => matchesKeyword(text, keyword)));
+  return rule ? rule.modifier : 0;
+};
+
+/**
+ * Resolves the player's intent against their stats before any model call.
+ * Returns null when the action does not map to a testable skill or attribute.
+ */
+export const resolveSkillCheck = (player: Actor, intent: string, seed: string): SkillCheckResult | null => {
+  const check = detectSkillCheck(intent);
+  if (!check) return null;
+  const luck = clamp(readNumber(player.special?.[SpecialAttr.Luck], 5), 0, 10);
+  const statValue = check.kind === 'skill'
+    ? clamp(readNumber(player.skills?.[check.stat], 0), 0, 100)
+    : clamp(readNumber(player.special?.[check.stat], 5), 0, 10);
+  const baseChance = check.kind === 'skill' ? statValue : statValue * 10;
+  const difficulty = detectDifficulty(intent);
+  const target = clamp(Math.round(baseChance + difficulty), MIN_TARGET, MAX_TARGET);
+  const roll = rollD100(seed);
+  // Luck widens the crit window and narrows the fumble window.
+  const critSuccessMax = Math.max(1, Math.round(luck));
+  const critFailureMin = 101 - Math.max(1, 6 - Math.floor(luck / 2));
+  let outcome: SkillCheckOutcome;
+  if (roll <= critSuccessMax) {
+    outcome = 'critical_success';
+  } else if (roll >= critFailureMin) {
+    outcome = 'critical_failure';
+  } else {
+    outcome = roll <= target ? 'success' : 'failure';
+  }
+  return {
+    kind: check.kind,
+    stat: check.stat,
+    statValue,
+    difficulty,
+    target,
+    roll,
+    outcome,
+    seed
+  };
+};
+
+export const formatSkillCheck = (check: SkillCheckResult, isZh: boolean) => {
+  const outcomeLabels: Record<SkillCheckOutcome, { en: string; zh: string }> = {
+    critical_success: { en: 'CRITICAL SUCCESS', zh: '大成功' },
+    success: { en: 'SUCCESS', zh: '成功' },
+    failure: { en: 'FAILURE', zh: '失败' },
+    critical_failure: { en: 'CRITICAL FAILURE', zh: '大失败' }
+  };
+  const label = outcomeLabels[check.outcome];
+  return isZh
+    ? `[检定] ${check.stat} ${check.statValue} · 目标 ${check.target} · 掷骰 ${check.roll} → ${label.zh}`
+    : `[CHECK] ${check.stat} ${check.statValue} · target ${check.target} · roll ${check.roll} → ${label.en}`;
+};
+
+export const buildSkillCheckBlock = (check?: SkillCheckResult | null) => {
+  if (!check) return '';
+  const payload = {
+    stat: check.stat,
+    statValue: check.statValue,
+    target: check.target,
+    roll: check.roll,
+    outcome: check.outcome
+  };
+  return `SKILL CHECK (resolved locally, binding): ${JSON.stringify(payload)}\n`;
+};
+
+export const buildSkillCheckRule = (index: number, check?: SkillCheckResult | null) => {
+  if (!check) return '';
+  const verdict = check.outcome === 'success' || check.outcome === 'critical_success' ? 'succeed' : 'fail';
+  const severity = check.outcome.startsWith('critical') ? ' decisively (critical result)' : '';
+  return `${index}. SKILL CHECK is BINDING: the attempt MUST ${verdict}${severity}. Do not overturn the roll; only decide how it plays out.\n`;
+};
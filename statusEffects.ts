@@ -0,0 +1,170 @@
+import { Actor, Skill, SpecialAttr, StatusEffect, StatusEffectModifier } from './types';
+import { normalizeName, readNumber } from './utils';
+
+const SPECIAL_RANGE = { min: 1, max: 10 } as const;
+const SKILL_RANGE = { min: 0, max: 100 } as const;
+// Caps on a single modifier so one effect cannot rewrite a character.
+const SPECIAL_MODIFIER_LIMIT = 5;
+const SKILL_MODIFIER_LIMIT = 25;
+// Withdrawal turns each boosted stat into a flat penalty until the addiction is treated.
+const WITHDRAWAL_PENALTY = { special: -1, skill: -10 } as const;
+
+const SPECIAL_ATTRS = Object.values(SpecialAttr) as string[];
+const SKILLS = Object.values(Skill) as string[];
+
+const isSpecialAttr = (stat: string): stat is SpecialAttr => SPECIAL_ATTRS.includes(stat);
+
+const findStat = (value: unknown) => {
+  if (typeof value !== 'string') return null;
+  const key = normalizeName(value);
+  const match = [...SPECIAL_ATTRS, ...SKILLS].find(stat => stat.toLowerCase() === key);
+  return (match as SpecialAttr | Skill | undefined) || null;
+};
+
+const normalizeModifier = (raw: unknown): StatusEffectModifier | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const entry = raw as { stat?: unknown; delta?: unknown };
+  const stat = findStat(entry.stat);
+  const delta = Math.round(readNumber(entry.delta, 0));
+  if (!stat || delta === 0) return null;
+  const limit = isSpecialAttr(stat) ? SPECIAL_MODIFIER_LIMIT : SKILL_MODIFIER_LIMIT;
+  return { stat, delta: Math.min(limit, Math.max(-limit, delta)) };
+};
+
+/**
+ * Cleans an effect from the model or an old save: unknown stats are dropped, a missing or
+ * non-positive duration means the effect lasts until removed, and a zero addiction chance is omitted.
+ */
+export const normalizeStatusEffect = (raw: unknown): StatusEffect | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const entry = raw as Partial<StatusEffect>;
+  const name = typeof entry.name === 'string' ? entry.name.trim() : '';
+  if (!name) return null;
+  const effect: StatusEffect = {
+    name,
+    source: typeof entry.source === 'string' && entry.source.trim() ? entry.source.trim() : name,
+    modifiers: (Array.isArray(entry.modifiers) ? entry.modifiers : [])
+      .map(normalizeModifier)
+      .filter((modifier): modifier is StatusEffectModifier => !!modifier)
+  };
+  const minutesLeft = Math.round(readNumber(entry.minutesLeft, 0));
+  if (minutesLeft > 0) effect.minutesLeft = minutesLeft;
+  const addictionChance = Math.min(1, Math.max(0, readNumber(entry.addictionChance, 0)));
+  if (addictionChance > 0) effect.addictionChance = addictionChance;
+  return effect;
+};
+
+// Adding an effect that is already active refreshes it instead of stacking it.
+export const addStatusEffects = (effects: StatusEffect[] | undefined, added: unknown[] | undefined) => {
+  const incoming = (Array.isArray(added) ? added : [])
+    .map(normalizeStatusEffect)
+    .filter((effect): effect is StatusEffect => !!effect);
+  if (incoming.length === 0) return effects;
+  const names = new Set(incoming.map(effect => normalizeName(effect.name)));
+  return [...(effects || []).filter(effect => !names.has(normalizeName(effect.name))), ...incoming];
+};
+
+export const removeStatusEffects = (effects: StatusEffect[] | undefined, removed: { name: string }[] | undefined) => {
+  if (!Array.isArray(removed) || removed.length === 0 || !effects) return effects;
+  const names = new Set(removed.map(entry => normalizeName(entry?.name || '')));
+  return effects.filter(effect => !names.has(normalizeName(effect.name)));
+};
+
+export const getStatusEffects = (actor: Actor) =>
+  (Array.isArray(actor.statusEffects) ? actor.statusEffects : []);
+
+export const getStatusEffectDelta = (actor: Actor, stat: SpecialAttr | Skill) =>
+  getStatusEffects(actor).reduce((sum, effect) =>
+    sum + effect.modifiers.reduce((acc, modifier) => acc + (modifier.stat === stat ? modifier.delta : 0), 0), 0);
+
+// Effective stats for checks and prompts; the stored SPECIAL and skills stay untouched.
+export const applyStatusEffects = (actor: Actor): Actor => {
+  const effects = getStatusEffects(actor);
+  if (effects.length === 0) return actor;
+  const totals = new Map<SpecialAttr | Skill, number>();
+  effects.forEach(effect => {
+    effect.modifiers.forEach(({ stat, delta }) => totals.set(stat, (totals.get(stat) || 0) + delta));
+  });
+  const special = { ...actor.special };
+  const skills = { ...actor.skills };
+  totals.forEach((delta, stat) => {
+    if (isSpecialAttr(stat)) {
+      special[stat] = Math.min(SPECIAL_RANGE.max, Math.max(SPECIAL_RANGE.min, readNumber(special[stat], 5) + delta));
+    } else {
+      skills[stat] = Math.min(SKILL_RANGE.max, Math.max(SKILL_RANGE.min, readNumber(skills[stat], 0) + delta));
+    }
+  });
+  return { ...actor, special, skills };
+};
+
+/**
+ * Runs the clock on timed effects. Effects without a duration never expire here; the model
+ * removes them when the story ends them.
+ */
+export const tickStatusEffects = (actor: Actor, minutes: number) => {
+  const effects = getStatusEffects(actor);
+  const elapsed = Math.max(0, readNumber(minutes, 0));
+  if (effects.length === 0 || elapsed === 0) return { actor, expired: [] as StatusEffect[] };
+  const active: StatusEffect[] = [];
+  const expired: StatusEffect[] = [];
+  effects.forEach(effect => {
+    if (typeof effect.minutesLeft !== 'number') {
+      active.push(effect);
+      return;
+    }
+    const minutesLeft = effect.minutesLeft - elapsed;
+    if (minutesLeft > 0) {
+      active.push({ ...effect, minutesLeft });
+    } else {
+      expired.push(effect);
+    }
+  });
+  return { actor: { ...actor, statusEffects: active }, expired };
+};
+
+// Rolled once when an addictive effect wears off; the result is recorded as a normal effect.
+export const rollWithdrawals = (expired: StatusEffect[], isZh: boolean, roll: () => number = Math.random) =>
+  expired.flatMap(effect => {
+    if (!effect.addictionChance || roll() >= effect.addictionChance) return [];
+    const modifiers = effect.modifiers
+      .filter(modifier => modifier.delta > 0)
+      .map(modifier => ({
+        stat: modifier.stat,
+        delta: isSpecialAttr(modifier.stat) ? WITHDRAWAL_PENALTY.special : WITHDRAWAL_PENALTY.skill
+      }));
+    if (modifiers.length === 0) return [];
+    return [{
+      name: isZh ? `${effect.name}戒断` : `${effect.name} Withdrawal`,
+      source: effect.name,
+      modifiers
+    }];
+  });
+
+export const formatModifiers = (effect: StatusEffect) =>
+  effect.modifiers.map(({ stat, delta }) => `${stat} ${delta > 0 ? '+' : ''}${delta}`).join(', ');
+
+export const formatStatusEffectNote = (expired: StatusEffect[], withdrawals: StatusEffect[], isZh: boolean) => {
+  const parts: string[] = [];
+  if (expired.length > 0) {
+    const names = expired.map(effect => effect.name).join(isZh ? '、' : ', ');
+    parts.push(isZh ? `${names} 效果消退` : `${names} wore off`);
+  }
+  if (withdrawals.length > 0) {
+    const names = withdrawals.map(effect => effect.name).join(isZh ? '、' : ', ');
+    parts.push(isZh ? `成瘾：${names}` : `Addicted: ${names}`);
+  }
+  if (parts.length === 0) return '';
+  return isZh ? `[状态] ${parts.join('；')}` : `[EFFECTS] ${parts.join('; ')}`;
+};
+
+export const buildStatusEffectRule = (index: number, actor: Actor) => {
+  const effects = getStatusEffects(actor);
+  if (effects.length === 0) return '';
+  const list = effects
+    .map(effect => {
+      const modifiers = formatModifiers(effect);
+      return modifiers ? `${effect.name} (${modifiers})` : effect.name;
+    })
+    .join(', ');
+  return `${index}. The player is under these status effects: ${list}. Let them weigh on the outcome.\n`;
+};
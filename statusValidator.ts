@@ -0,0 +1,316 @@
+import { Actor, FactionChange, PlayerChange, Quest, RuleViolation, Skill, SkillSet, SpecialAttr, SpecialSet, StatusChange, StatusValidation } from './types';
+import { normalizeName, readNumber } from './utils';
+
+// Largest change a single turn may make; anything beyond is clamped.
+const PLAYER_DELTA_LIMITS = {
+  maxHealth: 20,
+  karma: 25,
+  caps: 1000,
+  rads: 400,
+  thirst: 100,
+  hunger: 100,
+  fatigue: 100
+} as const;
+const SPECIAL_DELTA_LIMIT = 1;
+const SKILL_DELTA_LIMIT = 10;
+const FACTION_DELTA_LIMIT = 25;
+const FACTION_TARGET_PREFIX = 'factions.';
+
+type BoundedField = keyof typeof PLAYER_DELTA_LIMITS;
+
+// Completed and failed quests are final.
+const QUEST_TRANSITIONS: Record<Quest['status'], Quest['status'][]> = {
+  active: ['active', 'completed', 'failed'],
+  completed: ['completed'],
+  failed: ['failed']
+};
+
+const clampDelta = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export interface StatusValidationContext {
+  player: Actor;
+  quests: Quest[];
+  knownNpcs: Actor[];
+  survivalMode?: boolean;
+}
+
+const SURVIVAL_FIELDS: BoundedField[] = ['rads', 'thirst', 'hunger', 'fatigue'];
+
+const validatePlayerChange = (
+  context: StatusValidationContext,
+  change: PlayerChange,
+  violations: RuleViolation[]
+): PlayerChange => {
+  const { player } = context;
+  const next: PlayerChange = { ...change };
+  const bound = (field: string, requested: number, min: number, max: number) => {
+    const applied = clampDelta(requested, min, max);
+    if (applied !== requested) {
+      violations.push({ kind: 'delta_clamped', target: field, requested, applied });
+    }
+    return applied;
+  };
+
+  if (typeof change.health === 'number') {
+    const maxHealth = Math.max(1, readNumber(player.maxHealth, 100));
+    next.health = bound('health', change.health, -maxHealth, maxHealth);
+  }
+  (Object.keys(PLAYER_DELTA_LIMITS) as BoundedField[]).forEach(field => {
+    const requested = change[field];
+    if (typeof requested !== 'number') return;
+    // Survival deltas are dropped later anyway when the mode is off.
+    if (!context.survivalMode && SURVIVAL_FIELDS.includes(field)) return;
+    const limit = PLAYER_DELTA_LIMITS[field];
+    // Spending is limited by what the player actually has.
+    const min = field === 'caps' ? -Math.max(0, readNumber(player.caps, 0)) : -limit;
+    next[field] = bound(field, requested, min, limit);
+  });
+  if (change.special && typeof change.special === 'object') {
+    const special: Partial<SpecialSet> = {};
+    (Object.keys(change.special) as SpecialAttr[]).forEach(attr => {
+      const requested = change.special?.[attr];
+      if (typeof requested !== 'number') return;
+      special[attr] = bound(`special.${attr}`, requested, -SPECIAL_DELTA_LIMIT, SPECIAL_DELTA_LIMIT);
+    });
+    next.special = special;
+  }
+  if (change.skills && typeof change.skills === 'object') {
+    const skills: Partial<SkillSet> = {};
+    (Object.keys(change.skills) as Skill[]).forEach(skill => {
+      const requested = change.skills?.[skill];
+      if (typeof requested !== 'number') return;
+      skills[skill] = bound(`skills.${skill}`, requested, -SKILL_DELTA_LIMIT, SKILL_DELTA_LIMIT);
+    });
+    next.skills = skills;
+  }
+  // XP and levels are awarded locally; the status manager has no say in them.
+  delete next.xp;
+  delete next.level;
+
+  const remove = change.inventoryChange?.remove;
+  if (Array.isArray(remove) && remove.length > 0) {
+    const inventory = player.inventory || [];
+    const kept = remove.flatMap(entry => {
+      if (!entry?.name) return [];
+      const held = inventory.find(item => normalizeName(item.name) === normalizeName(entry.name));
+      const requested = Math.max(1, Math.floor(readNumber(entry.count, 1)));
+      const heldCount = held ? Math.max(0, readNumber(held.count, 1)) : 0;
+      if (heldCount >= requested) return [entry];
+      violations.push({ kind: 'item_not_held', target: entry.name, requested, applied: heldCount });
+      return heldCount > 0 ? [{ ...entry, count: heldCount }] : [];
+    });
+    next.inventoryChange = { ...change.inventoryChange, remove: kept };
+  }
+  return next;
+};
+
+const validateFactionChanges = (changes: FactionChange[], violations: RuleViolation[]) =>
+  changes.map(entry => {
+    if (!entry || typeof entry.delta !== 'number') return entry;
+    const applied = clampDelta(entry.delta, -FACTION_DELTA_LIMIT, FACTION_DELTA_LIMIT);
+    if (applied === entry.delta) return entry;
+    violations.push({ kind: 'delta_clamped', target: `${FACTION_TARGET_PREFIX}${entry.faction}`, requested: entry.delta, applied });
+    return { ...entry, delta: applied };
+  });
+
+const validateQuestUpdates = (quests: Quest[], updates: Quest[], violations: RuleViolation[]) =>
+  updates.map(update => {
+    if (!update || typeof update !== 'object') return update;
+    const existing = quests.find(quest =>
+      (update.id && quest.id === update.id) || (update.name && quest.name === update.name)
+    );
+    if (!existing || typeof update.status !== 'string') return update;
+    if (QUEST_TRANSITIONS[existing.status]?.includes(update.status)) return update;
+    violations.push({ kind: 'quest_transition', target: update.name || existing.name, requested: update.status, applied: existing.status });
+    return { ...update, status: existing.status };
+  });
+
+/**
+ * Checks an LLM status update against the current state before it is applied.
+ * Out-of-bounds deltas are clamped, removals of items the player does not hold are dropped,
+ * dead NPCs stay dead and finished quests stay finished. Every correction is listed in
+ * `validation` so the player can review it.
+ */
+export const validateStatusChange = <T extends StatusChange>(
+  change: T,
+  context: StatusValidationContext
+): T => {
+  const violations: RuleViolation[] = [];
+  const next: T = { ...change };
+  if (change.playerChange && typeof change.playerChange === 'object') {
+    next.playerChange = validatePlayerChange(context, change.playerChange, violations);
+  }
+  if (Array.isArray(change.questUpdates)) {
+    next.questUpdates = validateQuestUpdates(context.quests, change.questUpdates, violations);
+  }
+  if (Array.isArray(change.factionChanges)) {
+    next.factionChanges = validateFactionChanges(change.factionChanges, violations);
+  }
+  const deadNpcs = new Map(
+    context.knownNpcs
+      .filter(npc => readNumber(npc.health, 1) <= 0)
+      .map(npc => [normalizeName(npc.name), npc] as const)
+  );
+  const keepDead = <U extends { name: string; health?: number }>(entry: U) => {
+    const dead = entry && deadNpcs.get(normalizeName(entry.name));
+    if (!dead || readNumber(entry.health, 0) <= 0) return entry;
+    violations.push({ kind: 'npc_revival', target: entry.name, requested: entry.health as number, applied: dead.health });
+    return { ...entry, health: dead.health };
+  };
+  if (deadNpcs.size > 0 && Array.isArray(change.knownNpcsUpdates)) {
+    next.knownNpcsUpdates = change.knownNpcsUpdates.map(keepDead);
+  }
+  if (deadNpcs.size > 0 && Array.isArray(change.newNpc)) {
+    next.newNpc = change.newNpc.map(keepDead);
+  }
+  if (violations.length === 0) return next;
+  return { ...next, validation: { violations, decision: 'pending' } };
+};
+
+// Faction names may contain dots themselves, so only the prefix is stripped.
+const getFactionTarget = (target: string) =>
+  target.startsWith(FACTION_TARGET_PREFIX) ? target.slice(FACTION_TARGET_PREFIX.length) : null;
+
+const getViolationOffset = (violation: RuleViolation) =>
+  readNumber(violation.requested, 0) - readNumber(violation.applied, 0);
+
+const restorePlayerField = (change: PlayerChange, violation: RuleViolation): PlayerChange => {
+  const offset = getViolationOffset(violation);
+  const [group, key] = violation.target.split('.');
+  if (group === 'special' && key) {
+    const special: Partial<SpecialSet> = { ...change.special };
+    special[key as SpecialAttr] = readNumber(special[key as SpecialAttr], 0) + offset;
+    return { ...change, special };
+  }
+  if (group === 'skills' && key) {
+    const skills: Partial<SkillSet> = { ...change.skills };
+    skills[key as Skill] = readNumber(skills[key as Skill], 0) + offset;
+    return { ...change, skills };
+  }
+  const field = group as BoundedField | 'health';
+  return { ...change, [field]: readNumber(change[field], 0) + offset };
+};
+
+/**
+ * Reverts the recorded corrections so the update applies as the status manager asked.
+ * Deltas are offset rather than overwritten, so local additions made after validation
+ * (ammo, survival decay) survive.
+ */
+export const acceptStatusViolations = <T extends StatusChange>(change: T): T => {
+  const validation = change.validation;
+  if (!validation || validation.decision !== 'pending') return change;
+  const next: T = { ...change, validation: { ...validation, decision: 'accepted' } };
+  const matches = (name: unknown, target: string) => normalizeName(name) === normalizeName(target);
+  validation.violations.forEach(violation => {
+    switch (violation.kind) {
+      case 'delta_clamped': {
+        const faction = getFactionTarget(violation.target);
+        if (faction === null) {
+          next.playerChange = restorePlayerField(next.playerChange || {}, violation);
+        } else if (Array.isArray(next.factionChanges)) {
+          next.factionChanges = next.factionChanges.map(entry =>
+            matches(entry?.faction, faction) ? { ...entry, delta: entry.delta + getViolationOffset(violation) } : entry
+          );
+        }
+        break;
+      }
+      case 'npc_revival': {
+        const revive = <U extends { name: string; health?: number }>(entry: U) =>
+          matches(entry?.name, violation.target) ? { ...entry, health: readNumber(violation.requested, 0) } : entry;
+        if (Array.isArray(next.knownNpcsUpdates)) next.knownNpcsUpdates = next.knownNpcsUpdates.map(revive);
+        if (Array.isArray(next.newNpc)) next.newNpc = next.newNpc.map(revive);
+        break;
+      }
+      case 'quest_transition':
+        if (Array.isArray(next.questUpdates)) {
+          next.questUpdates = next.questUpdates.map(update =>
+            matches(update?.name, violation.target) ? { ...update, status: violation.requested as Quest['status'] } : update
+          );
+        }
+        break;
+      default:
+        // Items that are not held cannot be removed either way.
+        break;
+    }
+  });
+  return next;
+};
+
+/**
+ * The difference between accepting and keeping the corrections, as a change that can be
+ * applied on top of the current state once the turn has already been applied.
+ */
+export const buildAcceptedCorrection = (violations: RuleViolation[], quests: Quest[]): StatusChange => {
+  const correction: StatusChange = {};
+  violations.forEach(violation => {
+    switch (violation.kind) {
+      case 'delta_clamped': {
+        const faction = getFactionTarget(violation.target);
+        if (faction !== null) {
+          correction.factionChanges = [
+            ...(correction.factionChanges || []),
+            { faction, delta: getViolationOffset(violation) }
+          ];
+          break;
+        }
+        const base: RuleViolation = { ...violation, requested: getViolationOffset(violation), applied: 0 };
+        correction.playerChange = restorePlayerField(correction.playerChange || {}, base);
+        break;
+      }
+      case 'npc_revival':
+        correction.knownNpcsUpdates = [
+          ...(correction.knownNpcsUpdates || []),
+          { name: violation.target, health: readNumber(violation.requested, 0) }
+        ];
+        break;
+      case 'quest_transition': {
+        const quest = quests.find(entry => normalizeName(entry.name) === normalizeName(violation.target));
+        if (!quest) break;
+        correction.questUpdates = [
+          ...(correction.questUpdates || []),
+          { ...quest, status: violation.requested as Quest['status'] }
+        ];
+        break;
+      }
+      default:
+        break;
+    }
+  });
+  return correction;
+};
+
+export const rejectStatusViolations = <T extends StatusChange>(change: T): T => {
+  if (!change.validation || change.validation.decision !== 'pending') return change;
+  return { ...change, validation: { ...change.validation, decision: 'rejected' } };
+};
+
+export const formatRuleViolation = (violation: RuleViolation, isZh: boolean) => {
+  const { target, requested, applied } = violation;
+  switch (violation.kind) {
+    case 'delta_clamped':
+      return isZh
+        ? `${target}：单回合变化 ${requested} 超出上限，已限制为 ${applied}`
+        : `${target}: ${requested} exceeds the per-turn limit, clamped to ${applied}`;
+    case 'item_not_held':
+      return isZh
+        ? `${target}：要移除 ${requested} 件，但只持有 ${applied} 件`
+        : `${target}: asked to remove ${requested}, only ${applied} held`;
+    case 'npc_revival':
+      return isZh
+        ? `${target}：已死亡，不能复活`
+        : `${target}: is dead and cannot be revived`;
+    case 'quest_transition':
+      return isZh
+        ? `${target}：任务已为 ${applied}，不能改为 ${requested}`
+        : `${target}: quest is already ${applied}, cannot become ${requested}`;
+    default:
+      return target;
+  }
+};
+
+export const formatValidationNote = (validation: StatusValidation, isZh: boolean) => {
+  const count = validation.violations.length;
+  return isZh
+    ? `[规则校验] 状态更新中有 ${count} 处违反规则，已自动修正。`
+    : `[RULES CHECK] ${count} rule violation${count === 1 ? '' : 's'} corrected in the status update.`;
+};
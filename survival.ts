@@ -0,0 +1,138 @@
+import { Actor, PlayerChange, SpecialAttr, SpecialSet, SurvivalStats } from './types';
+import { readNumber } from './utils';
+
+type SurvivalMeter = keyof SurvivalStats;
+
+export const SURVIVAL_METERS: SurvivalMeter[] = ['rads', 'thirst', 'hunger', 'fatigue'];
+
+export const SURVIVAL_LIMITS: Record<SurvivalMeter, number> = {
+  rads: 1000,
+  thirst: 100,
+  hunger: 100,
+  fatigue: 100
+};
+
+export const DEFAULT_SURVIVAL: SurvivalStats = { rads: 0, thirst: 0, hunger: 0, fatigue: 0 };
+
+// Roughly a day without water, a day and a half without food and a full day awake to hit the limit.
+const DECAY_PER_HOUR: Partial<Record<SurvivalMeter, number>> = {
+  thirst: 4,
+  hunger: 3,
+  fatigue: 4
+};
+
+// Ordered from worst to mildest per meter: only the highest tier reached applies.
+const SURVIVAL_TIERS: Array<{
+  meter: SurvivalMeter;
+  threshold: number;
+  penalties: Partial<SpecialSet>;
+  en: string;
+  zh: string;
+}> = [
+  { meter: 'rads', threshold: 800, penalties: { [SpecialAttr.Endurance]: -3, [SpecialAttr.Agility]: -2, [SpecialAttr.Strength]: -2 }, en: 'Critical radiation poisoning', zh: '致命辐射中毒' },
+  { meter: 'rads', threshold: 600, penalties: { [SpecialAttr.Endurance]: -3, [SpecialAttr.Agility]: -2, [SpecialAttr.Strength]: -1 }, en: 'Advanced radiation poisoning', zh: '严重辐射中毒' },
+  { meter: 'rads', threshold: 400, penalties: { [SpecialAttr.Endurance]: -2, [SpecialAttr.Agility]: -1 }, en: 'Moderate radiation poisoning', zh: '中度辐射中毒' },
+  { meter: 'rads', threshold: 200, penalties: { [SpecialAttr.Endurance]: -1 }, en: 'Minor radiation poisoning', zh: '轻度辐射中毒' },
+  { meter: 'thirst', threshold: 90, penalties: { [SpecialAttr.Perception]: -2, [SpecialAttr.Intelligence]: -2, [SpecialAttr.Endurance]: -1 }, en: 'Severely dehydrated', zh: '严重脱水' },
+  { meter: 'thirst', threshold: 70, penalties: { [SpecialAttr.Perception]: -1, [SpecialAttr.Intelligence]: -1 }, en: 'Dehydrated', zh: '脱水' },
+  { meter: 'thirst', threshold: 50, penalties: { [SpecialAttr.Perception]: -1 }, en: 'Thirsty', zh: '口渴' },
+  { meter: 'hunger', threshold: 90, penalties: { [SpecialAttr.Strength]: -2, [SpecialAttr.Endurance]: -2 }, en: 'Starving', zh: '饥饿濒死' },
+  { meter: 'hunger', threshold: 70, penalties: { [SpecialAttr.Strength]: -1, [SpecialAttr.Endurance]: -1 }, en: 'Malnourished', zh: '营养不良' },
+  { meter: 'hunger', threshold: 50, penalties: { [SpecialAttr.Strength]: -1 }, en: 'Hungry', zh: '饥饿' },
+  { meter: 'fatigue', threshold: 90, penalties: { [SpecialAttr.Agility]: -2, [SpecialAttr.Intelligence]: -2, [SpecialAttr.Charisma]: -1 }, en: 'Exhausted', zh: '精疲力竭' },
+  { meter: 'fatigue', threshold: 70, penalties: { [SpecialAttr.Agility]: -1, [SpecialAttr.Intelligence]: -1 }, en: 'Overtired', zh: '过度疲劳' },
+  { meter: 'fatigue', threshold: 50, penalties: { [SpecialAttr.Agility]: -1 }, en: 'Tired', zh: '疲倦' }
+];
+
+const clampMeter = (meter: SurvivalMeter, value: number) =>
+  Math.min(SURVIVAL_LIMITS[meter], Math.max(0, Math.round(value * 100) / 100));
+
+export const getSurvival = (actor: Actor): SurvivalStats => {
+  const current = actor.survival;
+  if (!current || typeof current !== 'object') return { ...DEFAULT_SURVIVAL };
+  return SURVIVAL_METERS.reduce((acc, meter) => {
+    acc[meter] = clampMeter(meter, readNumber(current[meter], 0));
+    return acc;
+  }, { ...DEFAULT_SURVIVAL });
+};
+
+export const hasSurvivalDelta = (change?: PlayerChange | null) =>
+  !!change && SURVIVAL_METERS.some(meter => readNumber(change[meter], 0) !== 0);
+
+/**
+ * Applies the survival deltas of a player change. The meters are created on first use,
+ * so a save that enables survival mode mid-campaign still rebuilds from its status track.
+ */
+export const applySurvivalChange = (actor: Actor, change: PlayerChange): SurvivalStats | undefined => {
+  if (!hasSurvivalDelta(change)) return actor.survival;
+  const current = getSurvival(actor);
+  return SURVIVAL_METERS.reduce((acc, meter) => {
+    acc[meter] = clampMeter(meter, current[meter] + readNumber(change[meter], 0));
+    return acc;
+  }, { ...DEFAULT_SURVIVAL });
+};
+
+// Folds the passive decay for the elapsed time into a player change so status_track replays it.
+export const addSurvivalDecay = (change: PlayerChange | undefined, minutes: number): PlayerChange | undefined => {
+  const hours = Math.max(0, readNumber(minutes, 0)) / 60;
+  if (hours <= 0) return change;
+  const next: PlayerChange = { ...change };
+  (Object.keys(DECAY_PER_HOUR) as SurvivalMeter[]).forEach(meter => {
+    const decay = Math.round((DECAY_PER_HOUR[meter] || 0) * hours * 100) / 100;
+    next[meter] = readNumber(next[meter], 0) + decay;
+  });
+  return next;
+};
+
+export const stripSurvivalDelta = (change: PlayerChange | undefined): PlayerChange | undefined => {
+  if (!change || !hasSurvivalDelta(change)) return change;
+  const { rads: _rads, thirst: _thirst, hunger: _hunger, fatigue: _fatigue, ...rest } = change;
+  return rest;
+};
+
+export const getSurvivalConditions = (actor: Actor) => {
+  const survival = getSurvival(actor);
+  return SURVIVAL_METERS
+    .map(meter => SURVIVAL_TIERS.find(tier => tier.meter === meter && survival[meter] >= tier.threshold))
+    .filter((tier): tier is (typeof SURVIVAL_TIERS)[number] => !!tier);
+};
+
+export const getSurvivalPenalties = (actor: Actor): Partial<SpecialSet> => {
+  const penalties: Partial<SpecialSet> = {};
+  getSurvivalConditions(actor).forEach(tier => {
+    (Object.keys(tier.penalties) as SpecialAttr[]).forEach(attr => {
+      penalties[attr] = (penalties[attr] || 0) + (tier.penalties[attr] || 0);
+    });
+  });
+  return penalties;
+};
+
+// SPECIAL never drops below 1 from survival penalties alone.
+export const applySurvivalPenalties = (actor: Actor): Actor => {
+  const penalties = getSurvivalPenalties(actor);
+  const attrs = Object.keys(penalties) as SpecialAttr[];
+  if (attrs.length === 0) return actor;
+  const special = { ...actor.special };
+  attrs.forEach(attr => {
+    special[attr] = Math.max(1, readNumber(special[attr], 5) + (penalties[attr] || 0));
+  });
+  return { ...actor, special };
+};
+
+export const buildSurvivalBlock = (actor: Actor) => {
+  if (!actor.survival) return '';
+  const conditions = getSurvivalConditions(actor).map(tier => tier.en);
+  const payload = {
+    ...getSurvival(actor),
+    conditions,
+    specialPenalties: getSurvivalPenalties(actor)
+  };
+  return `SURVIVAL (tracked locally, binding): ${JSON.stringify(payload)}\n`;
+};
+
+export const buildSurvivalRule = (index: number, actor: Actor) => {
+  if (!actor.survival) return '';
+  const conditions = getSurvivalConditions(actor).map(tier => tier.en);
+  if (conditions.length === 0) return '';
+  return `${index}. The player is suffering from: ${conditions.join(', ')}. Let these conditions and the SPECIAL penalties weigh on the outcome.\n`;
+};
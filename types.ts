@@ -50,6 +50,18 @@ export interface Perk {
   rank: number;
 }
 
+export interface WeaponStats {
+  damage: number;
+  ammoType: string; // ammo item name, empty for melee/unarmed
+  condition: number; // 0-100
+}
+
+export interface ArmorStats {
+  damageResistance: number;
+  slot: 'body' | 'head';
+  condition: number; // 0-100
+}
+
 export interface InventoryItem {
   name: string;
   type: 'Weapon' | 'Armor' | 'Aid' | 'Misc' | 'Currency';
@@ -58,8 +70,14 @@ export interface InventoryItem {
   value: number;
   count: number;
   isConsumable: boolean;
+  weaponStats?: WeaponStats;
+  armorStats?: ArmorStats;
 }
 
+export type EquipSlot = 'weapon' | 'body' | 'head';
+
+export type EquippedItems = Partial<Record<EquipSlot, string>>;
+
 export interface InventoryChange {
   add?: InventoryItem[];
   remove?: { name: string; count?: number }[];
@@ -75,25 +93,166 @@ export interface PlayerChange {
   perksAdd?: Perk[];
   perksRemove?: { name: string }[];
   inventoryChange?: InventoryChange;
+  equipped?: EquippedItems; // item name per slot; empty string unequips
+  rads?: number; // delta change (positive or negative)
+  thirst?: number; // delta change (positive or negative)
+  hunger?: number; // delta change (positive or negative)
+  fatigue?: number; // delta change (positive or negative)
+  statusEffectsAdd?: StatusEffect[]; // same name refreshes the existing effect
+  statusEffectsRemove?: { name: string }[];
+  xp?: number; // delta change (awarded locally)
+  level?: number; // delta change (confirmed level-ups only)
+}
+
+// Survival meters only matter when GameSettings.survivalMode is on; higher is always worse.
+export interface SurvivalStats {
+  rads: number; // 0-1000
+  thirst: number; // 0-100
+  hunger: number; // 0-100
+  fatigue: number; // 0-100
+}
+
+export type SkillCheckOutcome = 'critical_success' | 'success' | 'failure' | 'critical_failure';
+
+export interface SkillCheckResult {
+  kind: 'skill' | 'special';
+  stat: Skill | SpecialAttr;
+  statValue: number;
+  difficulty: number; // modifier applied to the base chance
+  target: number; // d100 roll needed (roll <= target succeeds)
+  roll: number; // 1-100
+  outcome: SkillCheckOutcome;
+  seed: string;
+}
+
+export type BodyPart = 'head' | 'torso' | 'leftArm' | 'rightArm' | 'leftLeg' | 'rightLeg';
+
+export interface CombatAttack {
+  attacker: string;
+  target: string;
+  bodyPart: BodyPart;
+  weapon: string;
+  hitChance: number;
+  roll: number;
+  hit: boolean;
+  critical: boolean;
+  damage: number;
+}
+
+export interface CombatRoundRecord {
+  round: number;
+  attacks: CombatAttack[];
+  fled?: boolean;
+  ended?: boolean;
+}
+
+export interface CombatState {
+  enemies: Actor[];
+  round: number;
+  ap: number;
+  maxAp: number;
+  weaponName?: string;
+  pendingAttacks: CombatAttack[];
+  seed: string; // fixed when combat starts; every roll in the fight derives from it
+}
+
+export interface AmmoUsage {
+  weapon: string;
+  ammoType: string;
+  spent: number;
+  remaining: number;
+  outOfAmmo: boolean;
+}
+
+// Perks offered for the next level-up, kept so reopening the modal shows the same list.
+export interface PerkOffer {
+  level: number; // the level the offer is for
+  perks: Perk[];
+  generated: boolean; // false when the catalog stood in for a generated list
+}
+
+export interface LevelUpRecord {
+  level: number; // level reached
+  skillPoints: Partial<SkillSet>;
+  perk?: string;
+}
+
+export interface StatusEffectModifier {
+  stat: SpecialAttr | Skill;
+  delta: number;
+}
+
+export interface StatusEffect {
+  name: string; // e.g. "Crippled Leg", "Jet High", "Mentats Withdrawal"
+  source: string; // item, injury or event that caused it
+  modifiers: StatusEffectModifier[];
+  minutesLeft?: number; // in-game minutes; omitted lasts until removed
+  addictionChance?: number; // 0-1, rolled when the effect wears off
+}
+
+export interface CraftRecord {
+  recipe: string; // recipe id
+  output: string; // item produced
+  count: number;
+}
+
+// A duplicate NPC record folded into another; the "from" record is removed.
+export interface NpcMerge {
+  from: string;
+  into: string;
 }
 
 export interface StatusChange {
   outcomeSummary?: string;
+  levelUp?: LevelUpRecord;
+  craft?: CraftRecord;
+  skillCheck?: SkillCheckResult;
+  ammoUsage?: AmmoUsage;
+  combatRound?: CombatRoundRecord;
+  hostileNpcs?: string[];
+  factionChanges?: FactionChange[];
   ruleViolation?: string | null;
+  validation?: StatusValidation;
   timePassedMinutes?: number;
   playerChange?: PlayerChange;
   questUpdates?: Quest[];
   companionUpdates?: CompanionUpdate[];
   newNpc?: Actor[];
   knownNpcsUpdates?: KnownNpcUpdate[];
+  npcMerge?: NpcMerge;
   location?: string;
   currentYear?: number;
   currentTime?: string;
 }
 
+// Standing with each faction, -100 (vilified) to 100 (idolized), keyed by faction name.
+export type FactionReputation = Record<string, number>;
+
+export interface FactionChange {
+  faction: string;
+  delta: number;
+}
+
+export type RuleViolationKind = 'delta_clamped' | 'item_not_held' | 'npc_revival' | 'quest_transition';
+
+export interface RuleViolation {
+  kind: RuleViolationKind;
+  target: string; // player field path (e.g. "special.Strength"), item, NPC or quest name
+  requested: number | string;
+  applied: number | string;
+}
+
+// Local rules check of an LLM status update: the corrected change is what gets applied.
+export interface StatusValidation {
+  violations: RuleViolation[];
+  decision: 'pending' | 'accepted' | 'rejected';
+}
+
 export interface StatusChangeEntry extends StatusChange {
   narration_index: number;
   isSaved?: boolean;
+  userAuthored?: boolean; // manual dossier edit; kept when the track is rebuilt by the model
+  settledLocally?: boolean; // applied without the status manager; replayed as-is when the track is rebuilt by the model
 }
 
 export interface StatusSnapshot {
@@ -103,6 +262,7 @@ export interface StatusSnapshot {
   location: string;
   currentYear: number;
   currentTime: string;
+  factionReputation?: FactionReputation;
 }
 
 export interface StatusTrack {
@@ -126,7 +286,23 @@ export interface Actor {
   karma: number; // -100 to 100
   caps: number; // Bottle Caps currency
   ifCompanion?: boolean;
+  waitingAt?: string; // location a companion was told to wait at
+  aliases?: string[]; // names of records merged into this one
   avatarUrl?: string;
+  equipped?: EquippedItems;
+  survival?: SurvivalStats;
+  statusEffects?: StatusEffect[];
+  affinity?: number; // -100 to 100, this NPC's regard for the player
+  affinityLog?: AffinityLogEntry[];
+  level?: number;
+  xp?: number;
+}
+
+export interface AffinityLogEntry {
+  time: string; // in-game ISO time
+  delta: number;
+  score: number; // affinity after the change
+  reason: string;
 }
 
 export interface PlayerCreationResult extends Actor {
@@ -140,10 +316,50 @@ export type TextModelId = string;
 
 export type ImageModelId = string;
 
-export type ModelProvider = 'openai' | 'gemini' | 'claude' | 'doubao' | 'grok';
+export type ModelProvider = 'openai' | 'gemini' | 'claude' | 'doubao' | 'grok' | 'local';
 
 export type PipelineMode = 'legacy' | 'event';
 
+// Model calls that can be routed away from the main text provider/model.
+export type ModelStage = 'event' | 'narrator' | 'status' | 'memory' | 'inventory';
+
+export interface StageModelFallback {
+  provider: ModelProvider;
+  model?: TextModelId; // unset = the text model, when provider is the text provider
+}
+
+export interface StageModelRoute {
+  provider?: ModelProvider; // unset = the text provider
+  model?: TextModelId; // unset = the text model
+  fallbacks?: StageModelFallback[]; // tried in order once the primary route gives up
+}
+
+export type StageModelRoutes = Partial<Record<ModelStage, StageModelRoute>>;
+
+// Ledger buckets: the pipeline stages plus the calls made outside a turn, which run on the text route.
+export type UsageCategory = ModelStage | 'creation' | 'recap' | 'arena' | 'perks' | 'image';
+
+// USD per million tokens; `model` matches model names by prefix, the longest match winning.
+export interface ModelPrice {
+  model: string;
+  input: number;
+  output: number;
+  cachedInput?: number; // unset = the input price
+}
+
+export interface UsageBudget {
+  maxCost?: number; // USD, priced with the price table
+  maxTokens?: number;
+}
+
+export interface RetryPolicy {
+  attempts: number; // per route, including the first call
+  backoffMs: number; // delay before the first retry, doubled after each one
+  retryOnRateLimit: boolean; // HTTP 429
+  retryOnServerError: boolean; // HTTP 5xx and dropped connections
+  retryOnParseError: boolean; // output that is not valid JSON
+}
+
 export interface GameSettings {
   highQualityImages: boolean;
   imagesEnabled?: boolean;
@@ -155,11 +371,16 @@ export interface GameSettings {
   proxyBaseUrl?: string;
   textProxyBaseUrl?: string;
   imageProxyBaseUrl?: string;
+  localBaseUrl?: string; // endpoint of a self-hosted OpenAI-compatible server
   modelProvider?: ModelProvider;
   textProvider?: ModelProvider;
   imageProvider?: ModelProvider;
   textModel?: TextModelId;
   imageModel?: ImageModelId;
+  stageModels?: StageModelRoutes;
+  retryPolicy?: RetryPolicy;
+  priceTable?: ModelPrice[];
+  usageBudget?: UsageBudget;
   userSystemPrompt?: string;
   userSystemPromptCustom?: boolean;
   imageUserSystemPrompt?: string;
@@ -168,6 +389,7 @@ export interface GameSettings {
   pipelineMode?: PipelineMode;
   interfaceColor?: InterfaceColor;
   autoSaveEnabled?: boolean;
+  survivalMode?: boolean;
 }
 
 export type UserTier = 'admin' | 'normal' | 'guest';
@@ -181,12 +403,27 @@ export interface UserRecord {
   settings?: GameSettings;
 }
 
+export interface QuestStep {
+  text: string;
+  done: boolean;
+}
+
+export interface QuestLogEntry {
+  time: string; // in-game time of the update
+  objective: string;
+  status: Quest['status'];
+}
+
 export interface Quest {
   id: string;
   name: string;
   objective: string;
   status: 'active' | 'completed' | 'failed';
   hiddenProgress: string; // Internal lore consistency for LLM
+  steps?: QuestStep[]; // sub-objectives
+  giver?: string; // known NPC name
+  rewards?: string[];
+  log?: QuestLogEntry[]; // objective and status history, oldest first (kept locally)
 }
 
 export interface GroundingSource {
@@ -200,8 +437,10 @@ export interface CompanionUpdate {
   reason?: string;
 }
 
-export type KnownNpcUpdate = Partial<Omit<Actor, 'inventory' | 'perks'>> & {
+export type KnownNpcUpdate = Partial<Omit<Actor, 'inventory' | 'perks' | 'affinity' | 'affinityLog' | 'aliases'>> & {
   name: string;
+  affinityDelta?: number; // -25 to 25; the score itself is tracked locally
+  affinityReason?: string;
   perksAdd?: Perk[];
   perksRemove?: { name: string }[];
   inventoryChange?: InventoryChange;
@@ -222,6 +461,40 @@ export interface TokenUsage {
   sent: number;
   received: number;
   total: number;
+  cached?: number; // part of `sent` served from the provider's prompt cache
+  estimated?: boolean; // the provider reported no usage, so the counts are estimates
+}
+
+// One model call. Rows rolled up out of the recent list carry `calls` > 1 and the latest time.
+export interface UsageLedgerEntry {
+  at: number; // epoch ms
+  turn: number;
+  stage: UsageCategory;
+  provider: ModelProvider;
+  model: string;
+  prompt: number;
+  completion: number;
+  cached: number;
+  estimated?: boolean;
+  failed?: boolean; // an attempt whose reply was billed but could not be used
+  calls?: number;
+  failedCalls?: number; // rolled-up rows only: how many of `calls` failed
+}
+
+export interface UsageLedger {
+  entries: UsageLedgerEntry[]; // newest last
+  archived: UsageLedgerEntry[]; // older calls, one row per stage/provider/model
+}
+
+// A place the player has reached; x/y are 0-100 on the region map.
+export interface MapLocation {
+  name: string;
+  region: string;
+  x: number;
+  y: number;
+  discoveredAt: string; // in-game ISO time
+  discoveredFrom?: string; // previous location, i.e. the road that led here
+  notes: string;
 }
 
 export interface GameState {
@@ -239,12 +512,18 @@ export interface GameState {
   apLastUpdated: number;
   turnCount: number;
   tokenUsage: TokenUsage;
+  usageLedger?: UsageLedger;
   compressedMemory?: string;
   rawOutputCache?: string;
   status_track?: StatusTrack | null;
   savedSnapshot?: SavedStatusSnapshot;
   compressionTurnCounter: number;
   compressionEnabled: boolean;
+  combat?: CombatState | null;
+  locations?: MapLocation[];
+  factionReputation?: FactionReputation;
+  trackedQuestId?: string; // quest pinned from the DATA tab
+  perkOffer?: PerkOffer;
 }
 
 export interface SavedStatusSnapshot {
@@ -0,0 +1,250 @@
+import { GameSettings, ModelPrice, ModelProvider, ModelStage, TokenUsage, UsageCategory, UsageLedger, UsageLedgerEntry } from './types';
+import { MODEL_STAGES, getStageLabel, isModelStage } from './modelStages';
+import { readNumber } from './utils';
+
+// Recent calls kept one by one; older ones are rolled up so long saves stay small.
+export const LEDGER_ENTRY_LIMIT = 500;
+
+export interface UsageSummary {
+  calls: number;
+  prompt: number;
+  completion: number;
+  cached: number;
+  cost: number;
+  unpricedCalls: number; // calls whose model has no price, left out of `cost`
+  estimatedCalls: number;
+  failedCalls: number;
+}
+
+export const USAGE_CATEGORIES: UsageCategory[] = [...MODEL_STAGES, 'creation', 'recap', 'arena', 'perks', 'image'];
+
+const CATEGORY_LABELS: Record<Exclude<UsageCategory, ModelStage>, { en: string; zh: string }> = {
+  creation: { en: 'Character Creation', zh: '角色创建' },
+  recap: { en: 'Quest Recap', zh: '任务回顾' },
+  arena: { en: 'Arena', zh: '斗兽场' },
+  perks: { en: 'Perk Offers', zh: '能力候选' },
+  image: { en: 'Images', zh: '图像' }
+};
+
+export const getUsageCategoryLabel = (category: UsageCategory, isZh: boolean) =>
+  isModelStage(category) ? getStageLabel(category, isZh) : (isZh ? CATEGORY_LABELS[category].zh : CATEGORY_LABELS[category].en);
+
+const isUsageCategory = (value: unknown): value is UsageCategory =>
+  typeof value === 'string' && (USAGE_CATEGORIES as string[]).includes(value);
+
+const readCount = (value: unknown) => Math.max(0, readNumber(value, 0));
+
+const getCalls = (entry: UsageLedgerEntry) => Math.max(1, Math.floor(entry.calls || 1));
+
+const getFailedCalls = (entry: UsageLedgerEntry) =>
+  (entry.failed ? getCalls(entry) : Math.min(getCalls(entry), Math.floor(entry.failedCalls || 0)));
+
+export const createLedgerEntry = (
+  stage: UsageCategory,
+  provider: ModelProvider,
+  model: string,
+  usage: TokenUsage | undefined,
+  turn: number,
+  at: number,
+  failed = false
+): UsageLedgerEntry => ({
+  at,
+  turn,
+  stage,
+  provider,
+  model,
+  prompt: readCount(usage?.sent),
+  completion: readCount(usage?.received),
+  cached: readCount(usage?.cached),
+  ...(usage?.estimated ? { estimated: true } : {}),
+  ...(failed ? { failed: true } : {})
+});
+
+const isSameRoute = (a: UsageLedgerEntry, b: UsageLedgerEntry) =>
+  a.stage === b.stage && a.provider === b.provider && a.model === b.model;
+
+const foldEntry = (archived: UsageLedgerEntry[], entry: UsageLedgerEntry) => {
+  const index = archived.findIndex(row => isSameRoute(row, entry));
+  const { failed: _failed, ...rollup } = entry;
+  const failedCalls = getFailedCalls(entry);
+  if (index < 0) return [...archived, { ...rollup, calls: getCalls(entry), ...(failedCalls > 0 ? { failedCalls } : {}) }];
+  const row = archived[index];
+  const mergedFailed = getFailedCalls(row) + failedCalls;
+  const merged: UsageLedgerEntry = {
+    ...row,
+    at: Math.max(row.at, entry.at),
+    turn: Math.max(row.turn, entry.turn),
+    prompt: row.prompt + entry.prompt,
+    completion: row.completion + entry.completion,
+    cached: row.cached + entry.cached,
+    estimated: row.estimated || entry.estimated || undefined,
+    calls: getCalls(row) + getCalls(entry),
+    ...(mergedFailed > 0 ? { failedCalls: mergedFailed } : {})
+  };
+  return archived.map((existing, existingIndex) => (existingIndex === index ? merged : existing));
+};
+
+export const appendLedgerEntry = (ledger: UsageLedger | undefined, entry: UsageLedgerEntry): UsageLedger => {
+  const entries = [...(ledger?.entries || []), entry];
+  const overflow = Math.max(0, entries.length - LEDGER_ENTRY_LIMIT);
+  return {
+    entries: entries.slice(overflow),
+    archived: entries.slice(0, overflow).reduce(foldEntry, ledger?.archived || [])
+  };
+};
+
+const normalizeEntry = (value: unknown): UsageLedgerEntry | null => {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Record<string, unknown>;
+  if (!isUsageCategory(raw.stage) || typeof raw.provider !== 'string' || !raw.provider) return null;
+  const calls = Math.max(1, Math.floor(readCount(raw.calls)));
+  const failedCalls = Math.min(calls, Math.floor(readCount(raw.failedCalls)));
+  return {
+    at: readCount(raw.at),
+    turn: Math.floor(readCount(raw.turn)),
+    stage: raw.stage,
+    provider: raw.provider as ModelProvider,
+    model: typeof raw.model === 'string' ? raw.model : '',
+    prompt: readCount(raw.prompt),
+    completion: readCount(raw.completion),
+    cached: readCount(raw.cached),
+    ...(raw.estimated ? { estimated: true } : {}),
+    ...(raw.failed ? { failed: true } : {}),
+    ...(calls > 1 ? { calls } : {}),
+    ...(failedCalls > 0 ? { failedCalls } : {})
+  };
+};
+
+// Saves from before the ledger kept per-stage token totals only. Each stage becomes one rolled-up
+// row on the save's text provider; calls were not counted, so each stage shows as a single call.
+const migrateStageTokenUsage = (raw: unknown, provider: ModelProvider): UsageLedger | undefined => {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const archived = Object.entries(raw as Record<string, unknown>)
+    .filter(([stage, usage]) => isModelStage(stage) && usage && typeof usage === 'object')
+    .map(([stage, usage]): UsageLedgerEntry => {
+      const totals = usage as { sent?: unknown; received?: unknown };
+      return {
+        at: 0,
+        turn: 0,
+        stage: stage as ModelStage,
+        provider,
+        model: '',
+        prompt: readCount(totals.sent),
+        completion: readCount(totals.received),
+        cached: 0
+      };
+    })
+    .filter(entry => entry.prompt > 0 || entry.completion > 0);
+  return archived.length > 0 ? { entries: [], archived } : undefined;
+};
+
+export const normalizeUsageLedger = (
+  raw: unknown,
+  legacy?: { stageTokenUsage?: unknown; provider: ModelProvider }
+): UsageLedger | undefined => {
+  if (!raw || typeof raw !== 'object') {
+    return legacy ? migrateStageTokenUsage(legacy.stageTokenUsage, legacy.provider) : undefined;
+  }
+  const source = raw as { entries?: unknown; archived?: unknown };
+  const read = (list: unknown) => (Array.isArray(list)
+    ? list.map(normalizeEntry).filter((entry): entry is UsageLedgerEntry => !!entry)
+    : []);
+  const entries = read(source.entries);
+  const archived = read(source.archived);
+  return entries.length > 0 || archived.length > 0 ? { entries, archived } : undefined;
+};
+
+export const findModelPrice = (model: string, priceTable: ModelPrice[] | undefined) => {
+  const name = model.toLowerCase();
+  return (priceTable || [])
+    .filter(price => price.model && name.startsWith(price.model.toLowerCase()))
+    .sort((a, b) => b.model.length - a.model.length)[0] || null;
+};
+
+export const getEntryCost = (entry: UsageLedgerEntry, priceTable: ModelPrice[] | undefined) => {
+  const price = findModelPrice(entry.model, priceTable);
+  if (!price) return null;
+  const cached = Math.min(entry.cached, entry.prompt);
+  return (
+    (entry.prompt - cached) * price.input
+    + cached * (price.cachedInput ?? price.input)
+    + entry.completion * price.output
+  ) / 1_000_000;
+};
+
+export const summarizeUsage = (entries: UsageLedgerEntry[], priceTable: ModelPrice[] | undefined): UsageSummary =>
+  entries.reduce((summary, entry) => {
+    const calls = getCalls(entry);
+    const cost = getEntryCost(entry, priceTable);
+    return {
+      calls: summary.calls + calls,
+      prompt: summary.prompt + entry.prompt,
+      completion: summary.completion + entry.completion,
+      cached: summary.cached + entry.cached,
+      cost: summary.cost + (cost ?? 0),
+      unpricedCalls: summary.unpricedCalls + (cost === null ? calls : 0),
+      estimatedCalls: summary.estimatedCalls + (entry.estimated ? calls : 0),
+      failedCalls: summary.failedCalls + getFailedCalls(entry)
+    };
+  }, { calls: 0, prompt: 0, completion: 0, cached: 0, cost: 0, unpricedCalls: 0, estimatedCalls: 0, failedCalls: 0 });
+
+export const getAllLedgerEntries = (ledger: UsageLedger | undefined) =>
+  [...(ledger?.archived || []), ...(ledger?.entries || [])];
+
+// Calls made since `since`; rolled-up rows predate the session, so only the recent list counts.
+export const getSessionEntries = (ledger: UsageLedger | undefined, since: number) =>
+  (ledger?.entries || []).filter(entry => entry.at >= since);
+
+export const summarizeByStage = (entries: UsageLedgerEntry[], priceTable: ModelPrice[] | undefined) =>
+  USAGE_CATEGORIES
+    .map(stage => ({ stage, summary: summarizeUsage(entries.filter(entry => entry.stage === stage), priceTable) }))
+    .filter(row => row.summary.calls > 0);
+
+// The reason new actions are refused, or null while the save is inside its budget.
+export const getBudgetBlock = (ledger: UsageLedger | undefined, settings: GameSettings, isZh: boolean) => {
+  const budget = settings.usageBudget;
+  if (!budget || (!budget.maxCost && !budget.maxTokens)) return null;
+  const summary = summarizeUsage(getAllLedgerEntries(ledger), settings.priceTable);
+  if (budget.maxCost && summary.cost >= budget.maxCost) {
+    return isZh
+      ? `已达到费用上限（$${summary.cost.toFixed(4)} / $${budget.maxCost}）。请在设置中提高或关闭预算上限。`
+      : `Budget cap reached ($${summary.cost.toFixed(4)} of $${budget.maxCost}). Raise or clear the cap in settings to continue.`;
+  }
+  const tokens = summary.prompt + summary.completion;
+  if (budget.maxTokens && tokens >= budget.maxTokens) {
+    return isZh
+      ? `已达到令牌上限（${tokens.toLocaleString()} / ${budget.maxTokens.toLocaleString()}）。请在设置中提高或关闭预算上限。`
+      : `Token cap reached (${tokens.toLocaleString()} of ${budget.maxTokens.toLocaleString()}). Raise or clear the cap in settings to continue.`;
+  }
+  return null;
+};
+
+// The price table is edited as text, one "model-prefix input output [cached-input]" line per model.
+export const formatPriceTable = (priceTable: ModelPrice[] | undefined) =>
+  (priceTable || [])
+    .map(price => [price.model, price.input, price.output, ...(price.cachedInput !== undefined ? [price.cachedInput] : [])].join(' '))
+    .join('\n');
+
+export const parsePriceTable = (text: string): ModelPrice[] =>
+  text.split('\n').reduce((table, line) => {
+    const [model, ...values] = line.trim().split(/\s+/);
+    const [input, output, cachedInput] = values.map(Number);
+    if (!model || !Number.isFinite(input) || !Number.isFinite(output)) return table;
+    return [
+      ...table,
+      { model, input, output, ...(Number.isFinite(cachedInput) ? { cachedInput } : {}) }
+    ];
+  }, [] as ModelPrice[]);
+
+export const normalizePriceTable = (raw: unknown): ModelPrice[] | undefined => {
+  if (!Array.isArray(raw)) return undefined;
+  const table = raw
+    .filter(price => price && typeof price.model === 'string' && price.model.trim())
+    .map(price => ({
+      model: price.model.trim(),
+      input: readCount(price.input),
+      output: readCount(price.output),
+      ...(typeof price.cachedInput === 'number' && Number.isFinite(price.cachedInput) ? { cachedInput: readCount(price.cachedInput) } : {})
+    }));
+  return table.length > 0 ? table : undefined;
+};
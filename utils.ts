@@ -0,0 +1,19 @@
+// Small parsing helpers shared by the local rule modules.
+
+export const readNumber = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+// Case- and whitespace-insensitive key for matching names; non-strings never match a real name.
+export const normalizeName = (value: unknown) => (typeof value === 'string' ? value.trim().toLowerCase() : '');
+
+export interface RankTier {
+  min: number;
+  en: string;
+  zh: string;
+}
+
+// Tiers are listed highest threshold first; the first one the score reaches names the rank.
+export const getRankLabel = (ranks: RankTier[], score: number, isZh: boolean) => {
+  const rank = ranks.find(entry => score >= entry.min) || ranks[ranks.length - 1];
+  return isZh ? rank.zh : rank.en;
+};
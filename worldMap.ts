@@ -0,0 +1,251 @@
+import { MapLocation } from './types';
+import { FALLOUT_ERA_STARTS } from './constants';
+import { rollD100 } from './skillCheck';
+import { normalizeName } from './utils';
+
+type Landmark = { name: string; x: number; y: number; aliases?: string[] };
+
+// Map coordinates run 0-100 west to east (x) and north to south (y).
+const MAP_SIZE = 100;
+const MAP_MARGIN = 4;
+// Crossing a whole region on foot takes the better part of a day.
+const MINUTES_PER_UNIT = 10;
+const MIN_TRAVEL_MINUTES = 15;
+
+// Canonical landmarks so well-known places land where players expect them; anything else is placed near where it was found.
+const REGION_LANDMARKS: Record<string, Landmark[]> = {
+  'Southern California (Fallout 1)': [
+    { name: 'Vault 13', x: 22, y: 22, aliases: ['13号避难所'] },
+    { name: 'Shady Sands', x: 30, y: 16 },
+    { name: 'Vault 15', x: 46, y: 10, aliases: ['15号避难所'] },
+    { name: 'Junktown', x: 20, y: 46, aliases: ['废料镇'] },
+    { name: 'The Hub', x: 40, y: 56, aliases: ['枢纽'] },
+    { name: 'Necropolis', x: 56, y: 54, aliases: ['死城'] },
+    { name: 'Brotherhood of Steel', x: 10, y: 38, aliases: ['钢铁兄弟会'] },
+    { name: 'Boneyard', x: 22, y: 76, aliases: ['骨场'] },
+    { name: 'Mariposa Military Base', x: 62, y: 8, aliases: ['马里波萨'] },
+    { name: 'The Glow', x: 76, y: 70, aliases: ['辉光'] }
+  ],
+  'Northern California (Fallout 2)': [
+    { name: 'Arroyo', x: 14, y: 8 },
+    { name: 'Klamath', x: 24, y: 14, aliases: ['克拉马斯'] },
+    { name: 'The Den', x: 34, y: 20 },
+    { name: 'Redding', x: 50, y: 10, aliases: ['雷丁'] },
+    { name: 'Modoc', x: 56, y: 24, aliases: ['莫多克'] },
+    { name: 'Vault City', x: 60, y: 36, aliases: ['避难所城'] },
+    { name: 'Gecko', x: 72, y: 36, aliases: ['壁虎镇'] },
+    { name: 'New Reno', x: 56, y: 50, aliases: ['新里诺'] },
+    { name: 'Broken Hills', x: 80, y: 46, aliases: ['破碎山'] },
+    { name: 'Navarro', x: 6, y: 40, aliases: ['纳瓦罗'] },
+    { name: 'San Francisco', x: 10, y: 62, aliases: ['旧金山'] },
+    { name: 'Vault 15', x: 60, y: 74, aliases: ['15号避难所'] },
+    { name: 'New California Republic', x: 66, y: 86, aliases: ['NCR', '新加州共和国'] }
+  ],
+  'Capital Wasteland (Fallout 3)': [
+    { name: 'Vault 101', x: 28, y: 38, aliases: ['101号避难所'] },
+    { name: 'Springvale', x: 31, y: 41 },
+    { name: 'Megaton', x: 34, y: 43, aliases: ['巨型镇'] },
+    { name: 'Tenpenny Tower', x: 14, y: 50 },
+    { name: 'Little Lamplight', x: 8, y: 20 },
+    { name: 'Vault 87', x: 6, y: 14, aliases: ['87号避难所'] },
+    { name: 'Oasis', x: 18, y: 18, aliases: ['绿洲'] },
+    { name: 'Paradise Falls', x: 40, y: 12, aliases: ['天堂瀑布'] },
+    { name: 'Big Town', x: 48, y: 26, aliases: ['大镇'] },
+    { name: 'Arefu', x: 64, y: 22 },
+    { name: 'Canterbury Commons', x: 84, y: 18 },
+    { name: 'Galaxy News Radio', x: 58, y: 52, aliases: ['GNR', '银河新闻电台'] },
+    { name: 'Underworld', x: 61, y: 58, aliases: ['地下世界'] },
+    { name: 'The Citadel', x: 52, y: 64, aliases: ['Citadel'] },
+    { name: 'Rivet City', x: 68, y: 67, aliases: ['铆钉城'] },
+    { name: 'Jefferson Memorial', x: 62, y: 71, aliases: ['杰斐逊纪念堂'] },
+    { name: 'Evergreen Mills', x: 50, y: 84 }
+  ],
+  'Mojave Wasteland (Fallout: New Vegas)': [
+    { name: 'Goodsprings', x: 22, y: 72, aliases: ['古德斯普林斯'] },
+    { name: 'Primm', x: 28, y: 90, aliases: ['普林'] },
+    { name: 'Mojave Outpost', x: 14, y: 92 },
+    { name: 'Nipton', x: 50, y: 92, aliases: ['尼普顿'] },
+    { name: 'Novac', x: 48, y: 72, aliases: ['诺瓦克'] },
+    { name: 'Black Mountain', x: 38, y: 62 },
+    { name: 'Sloan', x: 40, y: 50 },
+    { name: 'Boulder City', x: 68, y: 58, aliases: ['巨石城'] },
+    { name: 'Hoover Dam', x: 86, y: 58, aliases: ['胡佛水坝'] },
+    { name: 'Cottonwood Cove', x: 88, y: 74 },
+    { name: 'Camp Searchlight', x: 70, y: 90 },
+    { name: 'The Fort', x: 92, y: 40, aliases: ['堡垒'] },
+    { name: 'Freeside', x: 54, y: 38, aliases: ['自由区'] },
+    { name: 'The Strip', x: 55, y: 34, aliases: ['New Vegas', '新维加斯'] },
+    { name: 'Camp McCarran', x: 59, y: 40 },
+    { name: 'Nellis Air Force Base', x: 66, y: 18, aliases: ['Nellis', '内利斯'] },
+    { name: 'Red Rock Canyon', x: 20, y: 40, aliases: ['红岩峡谷'] },
+    { name: 'Jacobstown', x: 22, y: 24, aliases: ['雅各布镇'] }
+  ],
+  'The Commonwealth (Fallout 4)': [
+    { name: 'Vault 111', x: 22, y: 14, aliases: ['111号避难所'] },
+    { name: 'Sanctuary Hills', x: 18, y: 18, aliases: ['Sanctuary', '庇护山庄'] },
+    { name: 'Concord', x: 28, y: 24, aliases: ['康科德'] },
+    { name: 'Lexington', x: 36, y: 34, aliases: ['列克星敦'] },
+    { name: 'Covenant', x: 26, y: 44 },
+    { name: 'Vault 81', x: 30, y: 54, aliases: ['81号避难所'] },
+    { name: 'Cambridge', x: 46, y: 46, aliases: ['剑桥'] },
+    { name: 'Bunker Hill', x: 54, y: 44, aliases: ['邦克山'] },
+    { name: 'Diamond City', x: 48, y: 56, aliases: ['钻石城'] },
+    { name: 'Goodneighbor', x: 56, y: 52, aliases: ['好邻居'] },
+    { name: 'Boston Airport', x: 68, y: 48, aliases: ['Prydwen', '波士顿机场'] },
+    { name: 'The Castle', x: 66, y: 70 },
+    { name: 'Quincy', x: 60, y: 80, aliases: ['昆西'] },
+    { name: 'Salem', x: 76, y: 14, aliases: ['塞勒姆'] },
+    { name: 'The Glowing Sea', x: 16, y: 86, aliases: ['Glowing Sea', '辉光之海'] }
+  ],
+  'Appalachia (Fallout 76)': [
+    { name: 'Vault 76', x: 30, y: 30, aliases: ['76号避难所'] },
+    { name: 'Flatwoods', x: 32, y: 37 },
+    { name: 'Morgantown', x: 42, y: 16, aliases: ['摩根敦'] },
+    { name: 'Grafton', x: 36, y: 8, aliases: ['格拉夫顿'] },
+    { name: 'Point Pleasant', x: 6, y: 28 },
+    { name: 'Helvetia', x: 22, y: 46 },
+    { name: 'Charleston', x: 20, y: 56, aliases: ['查尔斯顿'] },
+    { name: 'Summersville', x: 36, y: 70 },
+    { name: 'Top of the World', x: 64, y: 40 },
+    { name: 'Whitespring Resort', x: 70, y: 62, aliases: ['Whitespring'] },
+    { name: 'Watoga', x: 80, y: 78, aliases: ['瓦托加'] },
+    { name: 'Welch', x: 70, y: 90 },
+    { name: "Harpers Ferry", x: 92, y: 18 }
+  ]
+};
+
+export const FAST_TRAVEL_PREFIX = { en: '[FAST TRAVEL]', zh: '[快速旅行]' } as const;
+
+const clampCoordinate = (value: number) => Math.min(MAP_SIZE - MAP_MARGIN, Math.max(MAP_MARGIN, Math.round(value)));
+
+const REGION_NAMES = new Set(FALLOUT_ERA_STARTS.map(era => normalizeName(era.region)));
+
+/**
+ * The region a campaign plays in: the starting location when it is one of the era regions,
+ * otherwise the latest era that started on or before the current year.
+ */
+export const resolveMapRegion = (startLocation: string | undefined, year: number) => {
+  const start = FALLOUT_ERA_STARTS.find(era => startLocation && normalizeName(era.region) === normalizeName(startLocation));
+  if (start) return start.region;
+  const eras = [...FALLOUT_ERA_STARTS].sort((a, b) => b.year - a.year);
+  return (eras.find(era => era.year <= year) || eras[eras.length - 1]).region;
+};
+
+// Longest key wins so "Vault 101 Entrance" matches Vault 101 rather than something shorter.
+const findLandmark = (region: string, name: string) => {
+  const key = normalizeName(name);
+  let best: { landmark: Landmark; length: number } | null = null;
+  (REGION_LANDMARKS[region] || []).forEach(landmark => {
+    [landmark.name, ...(landmark.aliases || [])].forEach(alias => {
+      const aliasKey = normalizeName(alias);
+      if (!key.includes(aliasKey)) return;
+      if (!best || aliasKey.length > best.length) best = { landmark, length: aliasKey.length };
+    });
+  });
+  return (best as { landmark: Landmark } | null)?.landmark || null;
+};
+
+export const findMapLocation = (locations: MapLocation[] | undefined, name: string) => {
+  const key = normalizeName(name);
+  return (locations || []).find(location => normalizeName(location.name) === key) || null;
+};
+
+/**
+ * Deterministic placement: known landmarks keep their canonical spot (sub-locations get a small offset),
+ * unknown places land a short walk from where they were discovered.
+ */
+const placeLocation = (region: string, name: string, origin: MapLocation | null) => {
+  const landmark = findLandmark(region, name);
+  const angle = (rollD100(`${region}|${name}|angle`) / 100) * Math.PI * 2;
+  if (landmark) {
+    const exact = normalizeName(landmark.name) === normalizeName(name);
+    const offset = exact ? 0 : 2;
+    return {
+      x: clampCoordinate(landmark.x + Math.cos(angle) * offset),
+      y: clampCoordinate(landmark.y + Math.sin(angle) * offset)
+    };
+  }
+  const distance = 6 + (rollD100(`${region}|${name}|distance`) % 9);
+  const baseX = origin ? origin.x : MAP_SIZE / 2;
+  const baseY = origin ? origin.y : MAP_SIZE / 2;
+  return {
+    x: clampCoordinate(baseX + Math.cos(angle) * distance),
+    y: clampCoordinate(baseY + Math.sin(angle) * distance)
+  };
+};
+
+/**
+ * Adds a newly reached place to the registry. Region names are not places and already known
+ * places are left untouched, so the first discovery time and notes stick.
+ */
+export const registerLocation = (
+  locations: MapLocation[] | undefined,
+  name: string,
+  options: { region: string; discoveredAt: string; from?: string; notes?: string }
+): MapLocation[] => {
+  const list = locations || [];
+  const trimmed = name.trim();
+  if (!trimmed || REGION_NAMES.has(normalizeName(trimmed)) || findMapLocation(list, trimmed)) return list;
+  const origin = options.from ? findMapLocation(list, options.from) : null;
+  const { x, y } = placeLocation(options.region, trimmed, origin);
+  return [
+    ...list,
+    {
+      name: trimmed,
+      region: options.region,
+      x,
+      y,
+      discoveredAt: options.discoveredAt,
+      ...(origin ? { discoveredFrom: origin.name } : {}),
+      notes: (options.notes || '').trim()
+    }
+  ];
+};
+
+export const updateLocationNotes = (locations: MapLocation[] | undefined, name: string, notes: string) =>
+  (locations || []).map(location =>
+    normalizeName(location.name) === normalizeName(name) ? { ...location, notes: notes.trim() } : location
+  );
+
+const getMapDistance = (from: { x: number; y: number }, to: { x: number; y: number }) =>
+  Math.hypot(to.x - from.x, to.y - from.y);
+
+// Travel from an unregistered spot (e.g. the region at the start of a run) is measured from the map centre.
+export const computeTravelMinutes = (from: MapLocation | null, to: MapLocation) => {
+  const origin = from || { x: MAP_SIZE / 2, y: MAP_SIZE / 2 };
+  const minutes = getMapDistance(origin, to) * MINUTES_PER_UNIT;
+  return Math.max(MIN_TRAVEL_MINUTES, Math.round(minutes / 5) * 5);
+};
+
+export const formatTravelDuration = (minutes: number, isZh: boolean) => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (isZh) return hours > 0 ? `${hours} 小时${rest > 0 ? ` ${rest} 分钟` : ''}` : `${rest} 分钟`;
+  return hours > 0 ? `${hours}h${rest > 0 ? ` ${rest}m` : ''}` : `${rest}m`;
+};
+
+export const formatFastTravelAction = (destination: string, minutes: number, isZh: boolean) =>
+  isZh
+    ? `${FAST_TRAVEL_PREFIX.zh} ${destination}（路程 ${formatTravelDuration(minutes, true)}）`
+    : `${FAST_TRAVEL_PREFIX.en} ${destination} (${formatTravelDuration(minutes, false)} on the road)`;
+
+/**
+ * Recognises a fast-travel action (typed or sent from the MAP tab) and resolves it against the registry.
+ * The travel time is always recomputed from the map, so editing the duration in the text changes nothing.
+ */
+export const parseFastTravelAction = (
+  text: string,
+  locations: MapLocation[] | undefined,
+  currentLocation: string
+) => {
+  const trimmed = text.trim();
+  const prefix = [FAST_TRAVEL_PREFIX.en, FAST_TRAVEL_PREFIX.zh].find(entry => trimmed.startsWith(entry));
+  if (!prefix) return null;
+  const rest = trimmed.slice(prefix.length).trim();
+  const destination = [...(locations || [])]
+    .sort((a, b) => b.name.length - a.name.length)
+    .find(location => normalizeName(rest).startsWith(normalizeName(location.name)));
+  if (!destination) return { destination: null, minutes: 0 };
+  const from = findMapLocation(locations, currentLocation);
+  return { destination, minutes: computeTravelMinutes(from, destination) };
+};